@@ -0,0 +1,93 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// A partner (e.g. a finfluencer) who earns commission on orders made through
+// their tracked links. Each affiliate logs in as a regular user to see their
+// dashboard.
+const AffiliateSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        unique: true // The login the affiliate dashboard belongs to
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    code: {
+        type: String,
+        required: true,
+        unique: true,
+        uppercase: true,
+        trim: true // Used in tracked links as ?aff=CODE
+    },
+    defaultCommissionPercent: {
+        type: Number,
+        required: true,
+        min: 0,
+        max: 100
+    },
+    courseRates: [
+        {
+            // Commission on a course that differs from the default
+            _id: false,
+            courseId: { type: mongoose.Schema.Types.ObjectId, ref: 'Courses', required: true },
+            percent: { type: Number, required: true, min: 0, max: 100 }
+        }
+    ],
+    attributionWindowDays: {
+        type: Number,
+        default: 30,
+        min: 1 // How long after a click an order still earns commission
+    },
+    payoutDetails: {
+        type: String,
+        required: false,
+        trim: true // UPI id or bank account, shown on the payout statement
+    },
+    status: {
+        type: String,
+        required: true,
+        enum: ['active', 'paused'],
+        default: 'active'
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+AffiliateSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('affiliates');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    this.updatedAt = Date.now();
+    next();
+});
+
+// Commission percent on a course (by its _id)
+AffiliateSchema.methods.rateFor = function(courseId) {
+    const custom = courseId && this.courseRates.find(
+        (rate) => rate.courseId.toString() === courseId.toString()
+    );
+    return custom ? custom.percent : this.defaultCommissionPercent;
+};
+
+const Affiliate = mongoose.model('Affiliate', AffiliateSchema);
+module.exports = Affiliate;
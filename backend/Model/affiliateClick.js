@@ -0,0 +1,54 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// A visit through an affiliate's tracked link. Orders carry the click they
+// came from, which must fall inside the affiliate's attribution window.
+const AffiliateClickSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    affiliateId: {
+        type: Number,
+        required: true,
+        ref: 'Affiliate'
+    },
+    landingPath: {
+        type: String,
+        required: false,
+        trim: true
+    },
+    deviceId: {
+        type: String,
+        required: false,
+        trim: true
+    },
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: false // Set when the visitor was logged in
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+AffiliateClickSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('affiliateClicks');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    next();
+});
+
+// Create indexes for better performance
+AffiliateClickSchema.index({ affiliateId: 1, createdAt: -1 });
+
+const AffiliateClick = mongoose.model('AffiliateClick', AffiliateClickSchema);
+module.exports = AffiliateClick;
@@ -0,0 +1,92 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// Ledger of affiliate commission. An accrual is recorded when an attributed
+// order's payment is captured; refunds add negative reversals, so what an
+// affiliate is owed for a period is the sum of its entries.
+const AffiliateCommissionSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    affiliateId: {
+        type: Number,
+        required: true,
+        ref: 'Affiliate'
+    },
+    orderId: {
+        type: Number,
+        required: true,
+        ref: 'Order'
+    },
+    refundId: {
+        type: Number,
+        required: false,
+        ref: 'Refund' // The refund a reversal is for
+    },
+    entryType: {
+        type: String,
+        required: true,
+        enum: ['accrual', 'reversal']
+    },
+    lines: [
+        {
+            // Commission per course of an accrual
+            _id: false,
+            courseId: { type: mongoose.Schema.Types.ObjectId, ref: 'Courses' },
+            taxableAmount: { type: Number }, // paise, commission is on the value before GST
+            percent: { type: Number },
+            amount: { type: Number }
+        }
+    ],
+    amount: {
+        type: Number,
+        required: true // Amount in paise; negative for reversals
+    },
+    note: {
+        type: String,
+        required: false,
+        trim: true
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+AffiliateCommissionSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('affiliateCommissions');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    next();
+});
+
+// Create indexes for better performance
+AffiliateCommissionSchema.index({ affiliateId: 1, createdAt: -1 });
+AffiliateCommissionSchema.index({ createdAt: 1 }); // For monthly statements
+// An order accrues once, and each refund reverses once
+AffiliateCommissionSchema.index(
+    { orderId: 1 },
+    { unique: true, partialFilterExpression: { entryType: 'accrual' } }
+);
+AffiliateCommissionSchema.index(
+    { refundId: 1 },
+    { unique: true, partialFilterExpression: { refundId: { $type: 'number' } } }
+);
+
+// Virtual populate for order details
+AffiliateCommissionSchema.virtual('order', {
+    ref: 'Order',
+    localField: 'orderId',
+    foreignField: 'id',
+    justOne: true
+});
+
+const AffiliateCommission = mongoose.model('AffiliateCommission', AffiliateCommissionSchema);
+module.exports = AffiliateCommission;
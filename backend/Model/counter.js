@@ -0,0 +1,76 @@
+const mongoose = require('mongoose');
+
+// Named sequences for the numeric ids and document numbers of other models.
+// Each value is taken with a single atomic $inc, so concurrent saves never
+// get the same number.
+const CounterSchema = new mongoose.Schema({
+    _id: {
+        type: String // Sequence name, e.g. orders or INV/2026-27
+    },
+    seq: {
+        type: Number,
+        default: 0 // Last value handed out
+    }
+});
+
+// Indian financial year (April to March) of a date, e.g. 2026-27, in IST
+const financialYearOf = (date = new Date()) => {
+    const ist = new Date(new Date(date).getTime() + 330 * 60 * 1000);
+    const year = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+    return `${year}-${String((year + 1) % 100).padStart(2, '0')}`;
+};
+
+// Sequences for ids that were numbered before counters existed, by the model
+// whose `id` they continue
+const SEEDED_SEQUENCES = {
+    orders: 'Order',
+    payments: 'Payment',
+    coupons: 'Coupon',
+    invoices: 'Invoice',
+    testimonials: 'Testimonial'
+};
+
+// Highest id already used by a sequence's model, or 0
+const highestId = async (name) => {
+    if (!SEEDED_SEQUENCES[name]) return 0;
+    const last = await mongoose.model(SEEDED_SEQUENCES[name]).findOne().sort({ id: -1 }).select('id');
+    return last && last.id ? last.id : 0;
+};
+
+/**
+ * Next value of a sequence, starting at 1. A sequence that does not exist
+ * yet is first moved up to the highest id its model already uses, so a
+ * database from before counters keeps working without the backfill.
+ */
+CounterSchema.statics.next = async function(name) {
+    const counter = await this.findOneAndUpdate({ _id: name }, { $inc: { seq: 1 } }, { new: true });
+    if (counter) return counter.seq;
+
+    await this.advanceTo(name, await highestId(name));
+    const seeded = await this.findOneAndUpdate(
+        { _id: name },
+        { $inc: { seq: 1 } },
+        { upsert: true, new: true }
+    );
+    return seeded.seq;
+};
+
+// Move a sequence forward to at least `value` (never backwards)
+CounterSchema.statics.advanceTo = function(name, value) {
+    return this.updateOne({ _id: name }, { $max: { seq: value } }, { upsert: true });
+};
+
+/**
+ * Next document number such as INV/2026-27/000123. With perFinancialYear the
+ * count restarts every April; without it the number is INV/000123.
+ */
+CounterSchema.statics.nextNumber = async function(prefix, { date, perFinancialYear = true, digits = 6 } = {}) {
+    const name = perFinancialYear ? `${prefix}/${financialYearOf(date)}` : prefix;
+    const seq = await this.next(name);
+    return `${name}/${String(seq).padStart(digits, '0')}`;
+};
+
+CounterSchema.statics.financialYearOf = financialYearOf;
+
+const Counter = mongoose.model('Counter', CounterSchema);
+module.exports = Counter;
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const Counter = require('./counter');
 
 const CouponSchema = new mongoose.Schema({
     id: { type: Number, unique: true }, // This will be auto-generated
@@ -13,7 +14,21 @@ const CouponSchema = new mongoose.Schema({
     validFrom: { type: Date, required: true },
     validTill: { type: Date, required: true },
     usageLimit: { type: Number, default: null, min: 0 }, // null means unlimited
-    usedCount: { type: Number, default: 0, min: 0 }, // Track how many times it's been used
+    usedCount: { type: Number, default: 0, min: 0 }, // Uses taken: reserved by checkouts and confirmed
+    courseIds: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Courses' }], // Empty means every course
+    perUserLimit: { type: Number, default: null, min: 1 }, // Uses per user; null means unlimited
+    minOrderAmount: { type: Number, default: 0, min: 0 }, // Cart value (rupees) required before discount
+    maxDiscountAmount: { type: Number, default: null, min: 0 }, // Cap (rupees) on percentage discounts
+    firstPurchaseOnly: { type: Boolean, default: false }, // Only for users with no paid orders yet
+    // Amounts for other currencies (major units): the fixed discount, cap and
+    // minimum order that replace the rupee ones when paying in that currency
+    currencyValues: [{
+        _id: false,
+        currency: { type: String, required: true, enum: ['USD', 'EUR'] },
+        discountValue: { type: Number, default: null, min: 0 }, // Fixed coupons only
+        maxDiscountAmount: { type: Number, default: null, min: 0 },
+        minOrderAmount: { type: Number, default: 0, min: 0 }
+    }],
     isActive: { type: Boolean, default: true },
     createdAt: { type: Date, default: Date.now },
     updatedAt: { type: Date, default: Date.now }
@@ -25,8 +40,7 @@ CouponSchema.pre('save', async function(next) {
     
     if (this.isNew && !this.id) {
         try {
-            const lastCoupon = await this.constructor.findOne({}, {}, { sort: { 'id': -1 } });
-            this.id = lastCoupon ? lastCoupon.id + 1 : 1;
+            this.id = await Counter.next('coupons');
         } catch (error) {
             return next(error);
         }
@@ -45,13 +59,27 @@ CouponSchema.pre('save', async function(next) {
     next();
 });
 
+// Why the coupon can't be used right now regardless of user or cart, or
+// null if it can
+CouponSchema.methods.getInvalidReason = function(now = new Date()) {
+    if (!this.isActive) return 'inactive';
+    if (now < this.validFrom) return 'not_started';
+    if (now > this.validTill) return 'expired';
+    if (this.usageLimit !== null && this.usedCount >= this.usageLimit) return 'usage_limit_reached';
+    return null;
+};
+
 // Instance method to check if coupon is valid
 CouponSchema.methods.isValid = function() {
-    const now = new Date();
-    return this.isActive && 
-           now >= this.validFrom && 
-           now <= this.validTill &&
-           (this.usageLimit === null || this.usedCount < this.usageLimit);
+    return this.getInvalidReason() === null;
+};
+
+// Whether the coupon can be applied to a course (by its _id); amounts not
+// tied to a course only take coupons valid for every course
+CouponSchema.methods.appliesToCourse = function(courseId) {
+    if (!this.courseIds || this.courseIds.length === 0) return true;
+    if (!courseId) return false;
+    return this.courseIds.some((id) => id.toString() === courseId.toString());
 };
 
 // Instance method to check if coupon can be used
@@ -59,26 +87,54 @@ CouponSchema.methods.canBeUsed = function() {
     return this.isValid();
 };
 
-// Instance method to use coupon (increment usage count)
-CouponSchema.methods.use = async function() {
-    if (!this.canBeUsed()) {
-        throw new Error('Coupon cannot be used');
+// The coupon's amounts in a currency: { discountValue, maxDiscountAmount,
+// minOrderAmount }. Rupee amounts are never converted, so a coupon with a
+// fixed value, cap or minimum order needs values for the currency; null if
+// it has none and can't be used in it.
+CouponSchema.methods.valuesIn = function(currency = 'INR') {
+    if (currency === 'INR') {
+        return {
+            discountValue: this.discountValue,
+            maxDiscountAmount: this.maxDiscountAmount,
+            minOrderAmount: this.minOrderAmount || 0
+        };
     }
-    
-    this.usedCount += 1;
-    return await this.save();
+
+    const entry = (this.currencyValues || []).find((values) => values.currency === currency);
+    if (this.discountType === 'percentage') {
+        if (entry) {
+            return {
+                discountValue: this.discountValue,
+                maxDiscountAmount: entry.maxDiscountAmount,
+                minOrderAmount: entry.minOrderAmount || 0
+            };
+        }
+        const hasRupeeRules = this.maxDiscountAmount !== null || (this.minOrderAmount || 0) > 0;
+        return hasRupeeRules
+            ? null
+            : { discountValue: this.discountValue, maxDiscountAmount: null, minOrderAmount: 0 };
+    }
+
+    if (!entry || entry.discountValue === null) return null;
+    return {
+        discountValue: entry.discountValue,
+        maxDiscountAmount: null,
+        minOrderAmount: entry.minOrderAmount || 0
+    };
 };
 
-// Instance method to calculate discount amount
-CouponSchema.methods.calculateDiscount = function(totalAmount) {
-    if (!this.isValid()) {
+// Instance method to calculate discount amount, in the currency's major unit
+CouponSchema.methods.calculateDiscount = function(totalAmount, currency = 'INR') {
+    const values = this.valuesIn(currency);
+    if (!this.isValid() || !values) {
         return 0;
     }
     
     if (this.discountType === 'percentage') {
-        return Math.round((totalAmount * this.discountValue) / 100);
+        const discount = Math.round((totalAmount * values.discountValue) / 100);
+        return values.maxDiscountAmount !== null ? Math.min(discount, values.maxDiscountAmount) : discount;
     } else if (this.discountType === 'fixed') {
-        return Math.min(this.discountValue, totalAmount);
+        return Math.min(values.discountValue, totalAmount);
     }
     
     return 0;
@@ -0,0 +1,96 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// A coupon use held for one order. Reserved when checkout starts, confirmed
+// when the order's payment is captured and released if it fails or the
+// reservation runs out first.
+const CouponRedemptionSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    couponId: {
+        type: Number,
+        required: true,
+        ref: 'Coupon'
+    },
+    orderId: {
+        type: Number,
+        required: true,
+        unique: true, // One redemption per order
+        ref: 'Order'
+    },
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: false // Can be null for guest orders
+    },
+    status: {
+        type: String,
+        required: true,
+        enum: ['reserved', 'confirmed', 'released'],
+        default: 'reserved'
+    },
+    expiresAt: {
+        type: Date,
+        required: false // When an unpaid reservation is given back
+    },
+    confirmedAt: {
+        type: Date,
+        required: false
+    },
+    releasedAt: {
+        type: Date,
+        required: false
+    },
+    releaseReason: {
+        type: String,
+        required: false,
+        trim: true
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+CouponRedemptionSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('couponRedemptions');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    this.updatedAt = Date.now();
+    next();
+});
+
+// Create indexes for better performance
+CouponRedemptionSchema.index({ couponId: 1, status: 1 });
+CouponRedemptionSchema.index({ couponId: 1, userId: 1, status: 1 }); // For per-user limits
+CouponRedemptionSchema.index({ status: 1, expiresAt: 1 }); // For releasing expired reservations
+
+// Virtual populate for order details
+CouponRedemptionSchema.virtual('order', {
+    ref: 'Order',
+    localField: 'orderId',
+    foreignField: 'id',
+    justOne: true
+});
+
+// Ensure virtual fields are included when converting to JSON
+CouponRedemptionSchema.set('toJSON', { virtuals: true });
+CouponRedemptionSchema.set('toObject', { virtuals: true });
+
+// Redemptions that take up one of the coupon's uses
+CouponRedemptionSchema.statics.HELD_STATUSES = ['reserved', 'confirmed'];
+
+const CouponRedemption = mongoose.model('CouponRedemption', CouponRedemptionSchema);
+module.exports = CouponRedemption;
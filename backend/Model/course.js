@@ -16,6 +16,30 @@ const CourseSchema = new mongoose.Schema({
   price: { type: Number, required: true }, // INR price
   originalPrice: { type: Number, default: null },
 
+  // Price lists for other currencies (major units, e.g. dollars); a course
+  // without an entry for a currency is not sold in it
+  prices: {
+    type: [
+      {
+        _id: false,
+        currency: { type: String, required: true, enum: ['USD', 'EUR'] },
+        amount: { type: Number, required: true, min: 0 },
+      },
+    ],
+    default: [],
+  },
+
+  // Catalog display fields
+  instructor: { type: String, default: '' },
+  thumbnail: { type: String, default: '' },
+  category: { type: String, default: '' },
+  duration: { type: String, default: 'Self-paced' },
+  rating: { type: Number, default: 0, min: 0, max: 5 },
+
+  // GST: whether price already includes tax, and the rate (null = GST_RATE)
+  taxInclusive: { type: Boolean, default: true },
+  gstRate: { type: Number, default: null, min: 0 },
+
   isActive: { type: Boolean, default: true },
 
   topics: { type: [TopicSchema], default: [] }, // <--- IMPORTANT
@@ -30,4 +54,29 @@ CourseSchema.pre('save', function (next) {
   next();
 });
 
+// Price in a currency (major units), or null if it isn't sold in it. Free
+// courses are free in every currency.
+CourseSchema.methods.priceIn = function (currency) {
+  if (currency === 'INR' || this.price === 0) return this.price;
+  const entry = this.prices.find((p) => p.currency === currency);
+  return entry ? entry.amount : null;
+};
+
+// Every price the course has, keyed by currency
+CourseSchema.methods.priceList = function () {
+  const list = { INR: this.price };
+  this.prices.forEach((p) => {
+    list[p.currency] = p.amount;
+  });
+  return list;
+};
+
+// Courses can be addressed by Mongo _id or by slug
+CourseSchema.statics.findByIdOrSlug = function (idOrSlug) {
+  if (mongoose.isObjectIdOrHexString(idOrSlug)) {
+    return this.findById(idOrSlug);
+  }
+  return this.findOne({ slug: idOrSlug });
+};
+
 module.exports = mongoose.model('Courses', CourseSchema);
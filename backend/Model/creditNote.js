@@ -0,0 +1,113 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// GST credit note issued for a processed refund, against the order's invoice
+const CreditNoteSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    creditNoteNumber: {
+        type: String,
+        unique: true,
+        sparse: true,
+        trim: true // e.g. CN/2026-27/000042, assigned on first save
+    },
+    refundId: {
+        type: Number,
+        required: true,
+        ref: 'Refund'
+    },
+    invoiceId: {
+        type: Number,
+        required: true,
+        ref: 'Invoice'
+    },
+    invoiceNumber: {
+        type: String,
+        required: true,
+        trim: true // The original invoice, printed on the credit note
+    },
+    orderId: {
+        type: Number,
+        required: true,
+        ref: 'Order'
+    },
+    fileUrl: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    fileKey: {
+        type: String,
+        required: false,
+        trim: true
+    },
+    placeOfSupply: {
+        type: String,
+        required: false,
+        trim: true
+    },
+    taxableAmount: {
+        type: Number,
+        default: 0,
+        min: 0 // Amounts in paise, the share of the invoice being reversed
+    },
+    cgstAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    sgstAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    igstAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    totalAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+const getCreditNotePrefix = () => process.env.CREDIT_NOTE_NUMBER_PREFIX || 'CN';
+
+// Auto-increment for custom id field and the credit note number, from atomic counters
+CreditNoteSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('creditNotes');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    if (this.isNew && !this.creditNoteNumber) {
+        try {
+            this.creditNoteNumber = await Counter.nextNumber(getCreditNotePrefix(), {
+                date: this.createdAt,
+                perFinancialYear: process.env.INVOICE_NUMBER_PER_FY !== 'false'
+            });
+        } catch (error) {
+            return next(error);
+        }
+    }
+    next();
+});
+
+// Create indexes for better performance
+CreditNoteSchema.index({ refundId: 1 }, { unique: true }); // One credit note per refund
+CreditNoteSchema.index({ invoiceId: 1 });
+CreditNoteSchema.index({ orderId: 1 });
+
+const CreditNote = mongoose.model('CreditNote', CreditNoteSchema);
+module.exports = CreditNote;
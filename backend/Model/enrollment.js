@@ -0,0 +1,82 @@
+const mongoose = require('mongoose');
+
+// A user's entitlement to a course. Created when a payment for an order
+// containing the course is captured, revoked when that payment is refunded.
+// Installment orders suspend it while an installment is overdue; a gifted
+// course is granted to whoever redeems the gift, under the gift's order.
+// Seats bought by an organization are SeatAssignments rather than enrollments.
+const EnrollmentSchema = new mongoose.Schema({
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    courseId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Courses',
+        required: true
+    },
+    source: {
+        type: String,
+        required: true,
+        enum: ['order', 'gift', 'free', 'admin'],
+        default: 'order'
+    },
+    orderId: {
+        type: Number,
+        required: false // Set when access was bought through an Order
+    },
+    status: {
+        type: String,
+        required: true,
+        enum: ['active', 'suspended', 'revoked'],
+        default: 'active'
+    },
+    grantedAt: {
+        type: Date,
+        default: Date.now
+    },
+    revokedAt: {
+        type: Date,
+        default: null
+    },
+    revokeReason: {
+        type: String,
+        default: null
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+EnrollmentSchema.pre('save', function(next) {
+    this.updatedAt = Date.now();
+    next();
+});
+
+// One entitlement record per user and course
+EnrollmentSchema.index({ userId: 1, courseId: 1 }, { unique: true });
+EnrollmentSchema.index({ orderId: 1 });
+EnrollmentSchema.index({ courseId: 1, status: 1 });
+
+// Instance methods
+EnrollmentSchema.methods.isActive = function() {
+    return this.status === 'active';
+};
+
+// Static methods
+EnrollmentSchema.statics.findActive = function(userId, courseId) {
+    return this.findOne({ userId, courseId, status: 'active' });
+};
+
+EnrollmentSchema.statics.findActiveByUser = function(userId) {
+    return this.find({ userId, status: 'active' });
+};
+
+const Enrollment = mongoose.model('Enrollment', EnrollmentSchema);
+module.exports = Enrollment;
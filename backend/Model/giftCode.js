@@ -0,0 +1,101 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// A course bought as a gift. Created with the order at checkout; once the
+// order is paid it gets a single-use code that is emailed to the recipient
+// and grants the course to whoever redeems it. A refund of the order
+// revokes the code, and the course if it was already redeemed.
+const GiftCodeSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    code: {
+        type: String,
+        unique: true,
+        sparse: true, // Issued once the order is paid
+        uppercase: true,
+        trim: true
+    },
+    orderId: {
+        type: Number,
+        required: true,
+        unique: true // Order.id that paid for the gift
+    },
+    courseId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Courses',
+        required: true
+    },
+    purchaserId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    recipientEmail: {
+        type: String,
+        required: true,
+        trim: true,
+        lowercase: true
+    },
+    message: {
+        type: String,
+        trim: true,
+        maxlength: 500,
+        default: ''
+    },
+    status: {
+        type: String,
+        enum: ['pending', 'issued', 'redeemed', 'revoked'],
+        default: 'pending'
+    },
+    issuedAt: {
+        type: Date,
+        default: null
+    },
+    emailedAt: {
+        type: Date,
+        default: null // When the code was emailed to the recipient
+    },
+    redeemedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        default: null
+    },
+    redeemedAt: {
+        type: Date,
+        default: null
+    },
+    revokedAt: {
+        type: Date,
+        default: null
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+GiftCodeSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('giftCodes');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    this.updatedAt = Date.now();
+    next();
+});
+
+GiftCodeSchema.index({ status: 1, emailedAt: 1 });
+
+const GiftCode = mongoose.model('GiftCode', GiftCodeSchema);
+module.exports = GiftCode;
@@ -0,0 +1,77 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// A way to pay for a course in equal installments, e.g. 3 × ₹550 a month
+// apart. Set up by an admin per course; INR only. The first installment is
+// paid at checkout and unlocks the course.
+const InstallmentPlanSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    courseId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Courses',
+        required: true
+    },
+    name: {
+        type: String,
+        required: false,
+        trim: true // Shown at checkout; defaults to e.g. "3 monthly installments"
+    },
+    installmentCount: {
+        type: Number,
+        required: true,
+        min: 2
+    },
+    installmentAmount: {
+        type: Number,
+        required: true,
+        min: 1 // Rupees per installment, GST handled as for the course price
+    },
+    intervalDays: {
+        type: Number,
+        default: 30,
+        min: 1 // Days between due dates
+    },
+    isActive: {
+        type: Boolean,
+        default: true
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+InstallmentPlanSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('installmentPlans');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    this.updatedAt = Date.now();
+    next();
+});
+
+InstallmentPlanSchema.index({ courseId: 1, isActive: 1 });
+
+// What the plan costs in all, in rupees
+InstallmentPlanSchema.methods.totalAmount = function() {
+    return this.installmentCount * this.installmentAmount;
+};
+
+InstallmentPlanSchema.methods.displayName = function() {
+    return this.name || `${this.installmentCount} installments, ${this.intervalDays} days apart`;
+};
+
+const InstallmentPlan = mongoose.model('InstallmentPlan', InstallmentPlanSchema);
+module.exports = InstallmentPlan;
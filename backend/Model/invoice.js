@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const Counter = require('./counter');
 
 const InvoiceSchema = new mongoose.Schema({
     id: {
@@ -6,6 +7,12 @@ const InvoiceSchema = new mongoose.Schema({
         unique: true,
         // Auto-increment custom id field (similar to Prisma's autoincrement)
     },
+    invoiceNumber: {
+        type: String,
+        unique: true,
+        sparse: true,
+        trim: true // e.g. INV/2026-27/000123, assigned on first save
+    },
     orderId: {
         type: Number,
         required: true,
@@ -16,18 +23,64 @@ const InvoiceSchema = new mongoose.Schema({
         required: true,
         trim: true
     },
+    fileKey: {
+        type: String,
+        required: false,
+        trim: true // Storage key of a PDF generated by the backend
+    },
+    placeOfSupply: {
+        type: String,
+        required: false,
+        trim: true // e.g. 29-Karnataka
+    },
+    taxableAmount: {
+        type: Number,
+        default: 0,
+        min: 0 // Amounts in paise
+    },
+    cgstAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    sgstAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    igstAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    totalAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
     createdAt: {
         type: Date,
         default: Date.now
     }
 });
 
-// Auto-increment for custom id field (similar to Prisma's autoincrement)
+const getInvoicePrefix = () => process.env.INVOICE_NUMBER_PREFIX || 'INV';
+
+// Auto-increment for custom id field and the invoice number, from atomic counters
 InvoiceSchema.pre('save', async function(next) {
     if (this.isNew && !this.id) {
         try {
-            const lastInvoice = await this.constructor.findOne().sort({ id: -1 });
-            this.id = lastInvoice ? lastInvoice.id + 1 : 1;
+            this.id = await Counter.next('invoices');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    if (this.isNew && !this.invoiceNumber) {
+        try {
+            this.invoiceNumber = await Counter.nextNumber(getInvoicePrefix(), {
+                date: this.createdAt,
+                perFinancialYear: process.env.INVOICE_NUMBER_PER_FY !== 'false'
+            });
         } catch (error) {
             return next(error);
         }
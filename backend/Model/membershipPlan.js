@@ -0,0 +1,79 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// An "All Access" membership: every course and webinar for a month or a
+// year. Sold in INR; GST is worked out as for a course.
+const MembershipPlanSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true // e.g. "All Access Monthly"
+    },
+    description: {
+        type: String,
+        required: false,
+        trim: true
+    },
+    interval: {
+        type: String,
+        enum: ['month', 'year'],
+        required: true // How long one paid period lasts
+    },
+    price: {
+        type: Number,
+        required: true,
+        min: 1 // Rupees per period
+    },
+    taxInclusive: {
+        type: Boolean,
+        default: true // Whether price already includes GST
+    },
+    gstRate: {
+        type: Number,
+        default: null // Percent; null uses GST_RATE
+    },
+    isActive: {
+        type: Boolean,
+        default: true
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+MembershipPlanSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('membershipPlans');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    this.updatedAt = Date.now();
+    next();
+});
+
+// When a period starting at `start` ends
+MembershipPlanSchema.methods.periodEnd = function(start) {
+    const end = new Date(start);
+    if (this.interval === 'year') {
+        end.setFullYear(end.getFullYear() + 1);
+    } else {
+        end.setMonth(end.getMonth() + 1);
+    }
+    return end;
+};
+
+const MembershipPlan = mongoose.model('MembershipPlan', MembershipPlanSchema);
+module.exports = MembershipPlan;
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const Counter = require('./counter');
 
 const OrderSchema = new mongoose.Schema({
     id: {
@@ -22,15 +23,59 @@ const OrderSchema = new mongoose.Schema({
         required: false,
         trim: true
     },
+    subtotalAmount: {
+        type: Number,
+        default: 0,
+        min: 0 // Amount in paise before any discount
+    },
+    discountAmount: {
+        type: Number,
+        default: 0,
+        min: 0 // Coupon discount in paise
+    },
+    taxableAmount: {
+        type: Number,
+        default: 0,
+        min: 0 // Value GST is charged on, in paise
+    },
+    cgstAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    sgstAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    igstAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    taxAmount: {
+        type: Number,
+        default: 0,
+        min: 0 // CGST + SGST + IGST
+    },
+    placeOfSupply: {
+        state: { type: String, trim: true },
+        code: { type: String, trim: true } // GST state code, e.g. 29
+    },
+    supplyType: {
+        type: String,
+        enum: ['intra_state', 'inter_state', 'export', null],
+        default: null // Set at checkout; decides CGST + SGST or IGST on the invoice
+    },
     totalAmount: {
         type: Number,
         required: true,
-        min: 0 // Amount in paise, must be non-negative
+        min: 0 // Amount in paise, must be non-negative (includes tax)
     },
     currency: {
         type: String,
         default: 'INR',
-        enum: ['INR', 'USD', 'EUR'] // Add more currencies as needed
+        enum: ['INR', 'USD', 'EUR'] // Amounts are in its minor unit: paise, or cents for USD/EUR
     },
     status: {
         type: String,
@@ -46,6 +91,97 @@ const OrderSchema = new mongoose.Schema({
         type: Number,
         required: false // Can be null if payment not yet processed
     },
+    referral: {
+        // Referrer credited with the order, from the buyer's referral
+        referrerId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+        referralId: { type: Number },
+        code: { type: String, trim: true, uppercase: true }
+    },
+    affiliate: {
+        // Affiliate credited with the order, from the tracked-link click
+        affiliateId: { type: Number },
+        clickId: { type: Number },
+        code: { type: String, trim: true, uppercase: true }
+    },
+    attribution: {
+        // Campaign the buyer arrived from, captured from a shared link's
+        // coupon and utm_* parameters
+        couponCode: { type: String, trim: true, uppercase: true },
+        referralCode: { type: String, trim: true, uppercase: true },
+        affiliateCode: { type: String, trim: true, uppercase: true },
+        affiliateClickId: { type: Number },
+        source: { type: String, trim: true },
+        medium: { type: String, trim: true },
+        campaign: { type: String, trim: true },
+        term: { type: String, trim: true },
+        content: { type: String, trim: true },
+        landingPath: { type: String, trim: true },
+        capturedAt: { type: Date }
+    },
+    subscriptionId: {
+        type: Number,
+        default: null // Subscription.id whose period the order pays for
+    },
+    isGift: {
+        type: Boolean,
+        default: false // Bought for someone else; see GiftCode
+    },
+    seatCount: {
+        type: Number,
+        default: null // Seats of each course bought for an organization
+    },
+    organizationId: {
+        type: Number,
+        default: null // Organization.id the seats are for; see SeatLicense
+    },
+    organizationName: {
+        type: String,
+        trim: true,
+        default: null // A new organization to create once the order is paid
+    },
+    installmentPlan: {
+        // Plan the order is paid through, copied at checkout
+        planId: { type: Number },
+        installmentCount: { type: Number },
+        intervalDays: { type: Number }
+    },
+    installments: [
+        {
+            // Payment schedule of an installment order; the first one is due
+            // at checkout and the rest every intervalDays after it
+            _id: false,
+            number: { type: Number, required: true },
+            amount: { type: Number, required: true, min: 0 }, // In paise
+            dueAt: { type: Date, required: true },
+            status: { type: String, enum: ['pending', 'paid'], default: 'pending' },
+            paidAt: { type: Date },
+            paymentId: { type: Number },
+            gatewayOrderId: { type: String, trim: true }, // Gateway order opened to pay it
+            remindedAt: { type: Date } // When the learner was reminded it is due
+        }
+    ],
+    accessSuspendedAt: {
+        type: Date,
+        default: null // Set while access is suspended for a missed installment
+    },
+    fulfilledAt: {
+        type: Date,
+        default: null // Set once everything the paid order bought is granted
+    },
+    refundClaimedAt: {
+        type: Date,
+        default: null // Set while a request is creating refunds for the order
+    },
+    gateway: {
+        type: String,
+        required: false,
+        trim: true // Payment gateway the order was created with
+    },
+    gatewayOrderId: {
+        type: String,
+        required: false,
+        trim: true // The gateway's own order id
+    },
     createdAt: {
         type: Date,
         default: Date.now
@@ -56,12 +192,11 @@ const OrderSchema = new mongoose.Schema({
     }
 });
 
-// Auto-increment for custom id field (similar to Prisma's autoincrement)
+// Auto-increment for custom id field, from an atomic counter
 OrderSchema.pre('save', async function(next) {
     if (this.isNew && !this.id) {
         try {
-            const lastOrder = await this.constructor.findOne().sort({ id: -1 });
-            this.id = lastOrder ? lastOrder.id + 1 : 1;
+            this.id = await Counter.next('orders');
         } catch (error) {
             return next(error);
         }
@@ -74,7 +209,11 @@ OrderSchema.pre('save', async function(next) {
 OrderSchema.index({ userId: 1 });
 OrderSchema.index({ email: 1 });
 OrderSchema.index({ status: 1 });
+OrderSchema.index({ gatewayOrderId: 1 }, { sparse: true });
+OrderSchema.index({ 'installments.gatewayOrderId': 1 }, { sparse: true });
+OrderSchema.index({ 'installments.status': 1, 'installments.dueAt': 1 }); // For reminders and suspensions
 OrderSchema.index({ createdAt: -1 }); // For recent orders query
+OrderSchema.index({ 'attribution.source': 1, 'attribution.campaign': 1 }); // For the campaign report
 
 // Virtual populate for orderItems (similar to Prisma's relation)
 OrderSchema.virtual('orderItems', {
@@ -9,7 +9,18 @@ const OrderItemSchema = new mongoose.Schema({
     courseId: { 
         type: mongoose.Schema.Types.ObjectId,
         ref: 'Courses', // Reference to Course model
-        required: true
+        required: function() {
+            return !this.membershipPlanId; // Membership periods aren't a course
+        }
+    },
+    membershipPlanId: {
+        type: Number,
+        required: false // MembershipPlan.id, for a membership period
+    },
+    description: {
+        type: String,
+        required: false,
+        trim: true // What the line is for when it isn't a course
     },
     unitPrice: { 
         type: Number, 
@@ -25,6 +36,46 @@ const OrderItemSchema = new mongoose.Schema({
         type: Number,
         default: 0 // Set default value instead of required
     },
+    // Tax breakdown stored at checkout; amounts in paise
+    discountAmount: {
+        type: Number,
+        default: 0,
+        min: 0 // This line's share of the order discount
+    },
+    taxRate: {
+        type: Number,
+        default: 0,
+        min: 0 // GST rate in percent
+    },
+    taxInclusive: {
+        type: Boolean,
+        default: true // Whether unitPrice already includes GST
+    },
+    taxableAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    cgstAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    sgstAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    igstAmount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    lineTotal: {
+        type: Number,
+        default: 0,
+        min: 0 // Payable for this line: after discount, including tax
+    },
     createdAt: { 
         type: Date, 
         default: Date.now 
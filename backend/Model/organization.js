@@ -0,0 +1,58 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// A company, trading academy or desk that buys seat licenses for its
+// people. Its admins and members are OrganizationMembers; the seats it owns
+// are SeatLicenses, one per course bought in an order.
+const OrganizationSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+        maxlength: 120
+    },
+    createdBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    orderId: {
+        type: Number,
+        default: null // The seat order whose payment created it
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+OrganizationSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('organizations');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    this.updatedAt = Date.now();
+    next();
+});
+
+// One organization per order that creates one
+OrganizationSchema.index(
+    { orderId: 1 },
+    { unique: true, partialFilterExpression: { orderId: { $type: 'number' } } }
+);
+
+const Organization = mongoose.model('Organization', OrganizationSchema);
+module.exports = Organization;
@@ -0,0 +1,84 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// Someone invited to an organization by email. Invited until they accept
+// from the account with that email, then active; admins manage the
+// organization's members and seats.
+const OrganizationMemberSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    organizationId: {
+        type: Number,
+        required: true // Organization.id
+    },
+    email: {
+        type: String,
+        required: true,
+        trim: true,
+        lowercase: true
+    },
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        default: null // Set when the invitation is accepted
+    },
+    role: {
+        type: String,
+        enum: ['admin', 'member'],
+        default: 'member'
+    },
+    status: {
+        type: String,
+        enum: ['invited', 'active', 'removed'],
+        default: 'invited'
+    },
+    invitedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        default: null
+    },
+    invitedAt: {
+        type: Date,
+        default: Date.now
+    },
+    joinedAt: {
+        type: Date,
+        default: null
+    },
+    removedAt: {
+        type: Date,
+        default: null
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+OrganizationMemberSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('organizationMembers');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    this.updatedAt = Date.now();
+    next();
+});
+
+// One membership per organization and email
+OrganizationMemberSchema.index({ organizationId: 1, email: 1 }, { unique: true });
+OrganizationMemberSchema.index({ userId: 1, status: 1 });
+OrganizationMemberSchema.index({ email: 1, status: 1 });
+
+const OrganizationMember = mongoose.model('OrganizationMember', OrganizationMemberSchema);
+module.exports = OrganizationMember;
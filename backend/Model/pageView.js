@@ -0,0 +1,49 @@
+const mongoose = require('mongoose');
+
+// E-book pages served to each learner, recorded by the server as every signed
+// page is delivered, so reading can't be under-reported by the client (the
+// refund policy reads these, not the progress the client posts).
+const PageViewSchema = new mongoose.Schema({
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    courseId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Courses',
+        required: true
+    },
+    topicId: {
+        type: mongoose.Schema.Types.ObjectId,
+        required: true
+    },
+    index: {
+        type: Number,
+        required: true // Page number within the topic, from 0
+    },
+    firstViewedAt: {
+        type: Date,
+        default: Date.now
+    },
+    lastViewedAt: {
+        type: Date,
+        default: Date.now // Updated every time the page is served again
+    }
+});
+
+// One record per learner and page
+PageViewSchema.index({ userId: 1, courseId: 1, topicId: 1, index: 1 }, { unique: true });
+
+// Record that a page was served to a learner
+PageViewSchema.statics.record = function({ userId, courseId, topicId, index }) {
+    const now = new Date();
+    return this.updateOne(
+        { userId, courseId, topicId, index },
+        { $set: { lastViewedAt: now }, $setOnInsert: { firstViewedAt: now } },
+        { upsert: true }
+    );
+};
+
+const PageView = mongoose.model('PageView', PageViewSchema);
+module.exports = PageView;
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const Counter = require('./counter');
 
 const PaymentSchema = new mongoose.Schema({
     id: {
@@ -31,6 +32,19 @@ const PaymentSchema = new mongoose.Schema({
         enum: ['initiated', 'captured', 'failed', 'refunded'],
         default: 'initiated'
     },
+    amountRefunded: {
+        type: Number,
+        default: 0,
+        min: 0 // Total refunded so far in paise
+    },
+    gatewayRefundIds: {
+        type: [String],
+        default: [] // Gateway refunds already counted in amountRefunded
+    },
+    installmentNumber: {
+        type: Number,
+        required: false // Which installment of the order the payment is for
+    },
     method: {
         type: String,
         required: false,
@@ -47,12 +61,11 @@ const PaymentSchema = new mongoose.Schema({
     }
 });
 
-// Auto-increment for custom id field (similar to Prisma's autoincrement)
+// Auto-increment for custom id field, from an atomic counter
 PaymentSchema.pre('save', async function(next) {
     if (this.isNew && !this.id) {
         try {
-            const lastPayment = await this.constructor.findOne().sort({ id: -1 });
-            this.id = lastPayment ? lastPayment.id + 1 : 1;
+            this.id = await Counter.next('payments');
         } catch (error) {
             return next(error);
         }
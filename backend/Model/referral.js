@@ -0,0 +1,92 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// Why a referral was turned down as a self-referral
+const FRAUD_REASONS = ['same_user', 'same_email', 'same_phone', 'same_device'];
+
+// A user brought in by another user's referral code. Pending until the
+// referred user's first paid order, which converts it and earns the
+// referrer a reward; rejected when it looks like a self-referral.
+const ReferralSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    referrerId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    refereeId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        unique: true // A user is referred at most once
+    },
+    code: {
+        type: String,
+        required: true,
+        uppercase: true,
+        trim: true
+    },
+    source: {
+        type: String,
+        required: true,
+        enum: ['signup', 'checkout'] // Where the code was used
+    },
+    status: {
+        type: String,
+        required: true,
+        enum: ['pending', 'converted', 'rejected'],
+        default: 'pending'
+    },
+    fraudReason: {
+        type: String,
+        required: false,
+        enum: FRAUD_REASONS
+    },
+    deviceId: {
+        type: String,
+        required: false,
+        trim: true // Browser the code was used from
+    },
+    orderId: {
+        type: Number,
+        required: false,
+        ref: 'Order' // The paid order that converted it
+    },
+    convertedAt: {
+        type: Date,
+        required: false
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+ReferralSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('referrals');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    this.updatedAt = Date.now();
+    next();
+});
+
+// Create indexes for better performance
+ReferralSchema.index({ referrerId: 1, createdAt: -1 });
+
+ReferralSchema.statics.FRAUD_REASONS = FRAUD_REASONS;
+
+const Referral = mongoose.model('Referral', ReferralSchema);
+module.exports = Referral;
@@ -0,0 +1,74 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// Ledger of what referrers have earned. Rewards are positive; reversals
+// (the rewarded order was refunded) and payouts are negative, so a
+// referrer's balance of each reward type is the sum of its entries.
+const ReferralRewardSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    referrerId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    referralId: {
+        type: Number,
+        required: false,
+        ref: 'Referral' // null for payouts
+    },
+    orderId: {
+        type: Number,
+        required: false,
+        ref: 'Order' // The order rewarded or reversed
+    },
+    entryType: {
+        type: String,
+        required: true,
+        enum: ['reward', 'reversal', 'payout']
+    },
+    rewardType: {
+        type: String,
+        required: true,
+        enum: ['credit', 'cash']
+    },
+    amount: {
+        type: Number,
+        required: true // Amount in paise; negative for reversals and payouts
+    },
+    note: {
+        type: String,
+        required: false,
+        trim: true
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+ReferralRewardSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('referralRewards');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    next();
+});
+
+// Create indexes for better performance
+ReferralRewardSchema.index({ referrerId: 1, createdAt: -1 });
+// An order is rewarded, and reversed, at most once
+ReferralRewardSchema.index(
+    { orderId: 1, entryType: 1 },
+    { unique: true, partialFilterExpression: { orderId: { $type: 'number' } } }
+);
+
+const ReferralReward = mongoose.model('ReferralReward', ReferralRewardSchema);
+module.exports = ReferralReward;
@@ -0,0 +1,164 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// Why a refund was asked for; shown on the credit note
+const REASON_CODES = [
+    'accidental_purchase',
+    'duplicate_payment',
+    'not_as_described',
+    'technical_issue',
+    'changed_mind',
+    'other'
+];
+
+const RefundSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    orderId: {
+        type: Number,
+        required: true,
+        ref: 'Order'
+    },
+    paymentId: {
+        type: Number,
+        required: true,
+        ref: 'Payment'
+    },
+    amount: {
+        type: Number,
+        required: true,
+        min: 1 // Amount in paise, at most what is left to refund on the payment
+    },
+    reasonCode: {
+        type: String,
+        required: true,
+        enum: REASON_CODES
+    },
+    note: {
+        type: String,
+        required: false,
+        trim: true,
+        maxlength: 1000
+    },
+    status: {
+        type: String,
+        required: true,
+        enum: ['requested', 'approved', 'rejected', 'processed', 'failed'],
+        default: 'requested'
+    },
+    requestedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: false // null for refunds made directly on the gateway
+    },
+    approvedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: false
+    },
+    approvedAt: {
+        type: Date,
+        required: false
+    },
+    rejectionReason: {
+        type: String,
+        required: false,
+        trim: true
+    },
+    policy: {
+        // Refund policy evaluation made when the refund was requested
+        decision: {
+            type: String,
+            enum: ['eligible', 'review']
+        },
+        checks: [
+            {
+                _id: false,
+                code: { type: String },
+                passed: { type: Boolean },
+                message: { type: String }
+            }
+        ],
+        daysSincePurchase: { type: Number },
+        progressPercent: { type: Number },
+        autoApproved: { type: Boolean, default: false },
+        evaluatedAt: { type: Date }
+    },
+    gateway: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    gatewayRefundId: {
+        type: String,
+        required: false,
+        trim: true // Set once the gateway has accepted the refund
+    },
+    failureReason: {
+        type: String,
+        required: false,
+        trim: true
+    },
+    processedAt: {
+        type: Date,
+        required: false
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+RefundSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('refunds');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    this.updatedAt = Date.now();
+    next();
+});
+
+// Create indexes for better performance
+RefundSchema.index({ orderId: 1 });
+RefundSchema.index({ paymentId: 1, status: 1 });
+RefundSchema.index({ status: 1, createdAt: 1 }); // For the approval queue
+RefundSchema.index({ requestedBy: 1, createdAt: -1 });
+RefundSchema.index(
+    { gateway: 1, gatewayRefundId: 1 },
+    { unique: true, partialFilterExpression: { gatewayRefundId: { $type: 'string' } } }
+);
+
+// Virtual populate for order details
+RefundSchema.virtual('order', {
+    ref: 'Order',
+    localField: 'orderId',
+    foreignField: 'id',
+    justOne: true
+});
+
+// Ensure virtual fields are included when converting to JSON
+RefundSchema.set('toJSON', { virtuals: true });
+RefundSchema.set('toObject', { virtuals: true });
+
+// Refunds still counting against what can be refunded on their payment
+RefundSchema.statics.OPEN_STATUSES = ['requested', 'approved'];
+
+RefundSchema.statics.REASON_CODES = REASON_CODES;
+
+RefundSchema.statics.findByOrderId = function(orderId) {
+    return this.find({ orderId }).sort({ createdAt: -1 });
+};
+
+const Refund = mongoose.model('Refund', RefundSchema);
+module.exports = Refund;
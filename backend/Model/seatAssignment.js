@@ -0,0 +1,94 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// A seat of a license given to an organization member. It gives the member's
+// account the course while active; reclaimed seats go back to the license,
+// and revoked ones went with a refunded license.
+const SeatAssignmentSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    licenseId: {
+        type: Number,
+        required: true,
+        index: true // SeatLicense.id
+    },
+    organizationId: {
+        type: Number,
+        required: true // Organization.id
+    },
+    courseId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Courses',
+        required: true
+    },
+    memberId: {
+        type: Number,
+        required: true // OrganizationMember.id
+    },
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        default: null // The member's account, once they have accepted
+    },
+    status: {
+        type: String,
+        enum: ['active', 'reclaimed', 'revoked'],
+        default: 'active'
+    },
+    assignedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        default: null
+    },
+    assignedAt: {
+        type: Date,
+        default: Date.now
+    },
+    endedAt: {
+        type: Date,
+        default: null // When it was reclaimed or revoked
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+SeatAssignmentSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('seatAssignments');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    this.updatedAt = Date.now();
+    next();
+});
+
+// A member holds at most one active seat per course
+SeatAssignmentSchema.index(
+    { memberId: 1, courseId: 1 },
+    { unique: true, partialFilterExpression: { status: 'active' } }
+);
+SeatAssignmentSchema.index({ userId: 1, courseId: 1, status: 1 });
+
+// Static methods
+SeatAssignmentSchema.statics.findActive = function(userId, courseId) {
+    return this.findOne({ userId, courseId, status: 'active' });
+};
+
+SeatAssignmentSchema.statics.findActiveByUser = function(userId) {
+    return this.find({ userId, status: 'active' });
+};
+
+const SeatAssignment = mongoose.model('SeatAssignment', SeatAssignmentSchema);
+module.exports = SeatAssignment;
@@ -0,0 +1,74 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// Seats for one course that an organization bought in an order. Created
+// when the order is paid and revoked, with every seat assigned from it, when
+// the order is refunded. assignedCount is kept with atomic updates so seats
+// can't be handed out past seatCount.
+const SeatLicenseSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    organizationId: {
+        type: Number,
+        required: true,
+        index: true // Organization.id
+    },
+    orderId: {
+        type: Number,
+        required: true // Order.id that paid for the seats
+    },
+    courseId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Courses',
+        required: true
+    },
+    seatCount: {
+        type: Number,
+        required: true,
+        min: 1
+    },
+    assignedCount: {
+        type: Number,
+        default: 0,
+        min: 0
+    },
+    status: {
+        type: String,
+        enum: ['active', 'revoked'],
+        default: 'active'
+    },
+    revokedAt: {
+        type: Date,
+        default: null
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+SeatLicenseSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('seatLicenses');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    this.updatedAt = Date.now();
+    next();
+});
+
+// One license per course of an order
+SeatLicenseSchema.index({ orderId: 1, courseId: 1 }, { unique: true });
+
+const SeatLicense = mongoose.model('SeatLicense', SeatLicenseSchema);
+module.exports = SeatLicense;
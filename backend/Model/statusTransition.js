@@ -0,0 +1,59 @@
+const mongoose = require('mongoose');
+
+// Audit trail of every Order, Payment and Refund status change, so the
+// history of an order can be reconstructed: who moved it, why and when.
+const StatusTransitionSchema = new mongoose.Schema({
+    entityType: {
+        type: String,
+        required: true,
+        enum: ['Order', 'Payment', 'Refund']
+    },
+    entityId: {
+        type: Number,
+        required: true // Order.id, Payment.id or Refund.id
+    },
+    orderId: {
+        type: Number,
+        required: true // The order this change belongs to, for payments and refunds too
+    },
+    from: {
+        type: String,
+        required: false, // null when the record was created
+        default: null
+    },
+    to: {
+        type: String,
+        required: true
+    },
+    actor: {
+        type: {
+            type: String,
+            required: true,
+            enum: ['user', 'admin', 'gateway', 'system']
+        },
+        id: {
+            type: String,
+            required: false // User id, or gateway name for gateway events
+        }
+    },
+    reason: {
+        type: String,
+        required: false,
+        trim: true
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+StatusTransitionSchema.index({ orderId: 1, createdAt: 1 });
+StatusTransitionSchema.index({ entityType: 1, entityId: 1 });
+
+// Full history of an order and its payments, oldest first
+StatusTransitionSchema.statics.findByOrderId = function(orderId) {
+    return this.find({ orderId }).sort({ createdAt: 1, _id: 1 });
+};
+
+const StatusTransition = mongoose.model('StatusTransition', StatusTransitionSchema);
+module.exports = StatusTransition;
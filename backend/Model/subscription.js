@@ -0,0 +1,103 @@
+const mongoose = require('mongoose');
+const Counter = require('./counter');
+
+// A user's membership on a plan. Each period is paid for with an order:
+// pending until the first one is paid, then active through
+// currentPeriodEnd. A period that ends unpaid is past_due, with access kept
+// until graceEndsAt, then expired. Cancelling stops renewal and the
+// membership ends with the period already paid for.
+const SubscriptionSchema = new mongoose.Schema({
+    id: {
+        type: Number,
+        unique: true,
+        // Auto-increment custom id field (similar to Prisma's autoincrement)
+    },
+    userId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true
+    },
+    planId: {
+        type: Number,
+        required: true // MembershipPlan.id
+    },
+    status: {
+        type: String,
+        enum: ['pending', 'active', 'past_due', 'cancelled', 'expired'],
+        default: 'pending'
+    },
+    currentPeriodStart: {
+        type: Date,
+        default: null
+    },
+    currentPeriodEnd: {
+        type: Date,
+        default: null // Renewal date
+    },
+    graceEndsAt: {
+        type: Date,
+        default: null // Set while past_due
+    },
+    cancelAtPeriodEnd: {
+        type: Boolean,
+        default: false
+    },
+    cancelledAt: {
+        type: Date,
+        default: null
+    },
+    endReason: {
+        type: String,
+        default: null // Why a cancelled or expired membership ended
+    },
+    lastOrderId: {
+        type: Number,
+        default: null // Order that paid for the current period
+    },
+    renewalRemindedAt: {
+        type: Date,
+        default: null // When the member was reminded to renew this period
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    },
+    updatedAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+// Auto-increment for custom id field, from an atomic counter
+SubscriptionSchema.pre('save', async function(next) {
+    if (this.isNew && !this.id) {
+        try {
+            this.id = await Counter.next('subscriptions');
+        } catch (error) {
+            return next(error);
+        }
+    }
+    this.updatedAt = Date.now();
+    next();
+});
+
+SubscriptionSchema.index({ status: 1, currentPeriodEnd: 1 });
+
+// Statuses of a membership that has started and not ended
+SubscriptionSchema.statics.CURRENT_STATUSES = ['active', 'past_due'];
+
+// The membership giving the user access right now, if any: an active one
+// within its period, or a past_due one within its grace period
+SubscriptionSchema.statics.findCurrent = function(userId, now = new Date()) {
+    return this.findOne({
+        userId,
+        $or: [
+            { status: 'active', currentPeriodEnd: { $gt: now } },
+            { status: 'past_due', graceEndsAt: { $gt: now } }
+        ]
+    });
+};
+
+const Subscription = mongoose.model('Subscription', SubscriptionSchema);
+module.exports = Subscription;
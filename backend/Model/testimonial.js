@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const Counter = require('./counter');
 
 const TestimonialSchema = new mongoose.Schema({
     id: {
@@ -52,8 +53,7 @@ const TestimonialSchema = new mongoose.Schema({
 TestimonialSchema.pre('save', async function(next) {
     if (this.isNew && !this.id) {
         try {
-            const lastTestimonial = await this.constructor.findOne().sort({ id: -1 });
-            this.id = lastTestimonial ? lastTestimonial.id + 1 : 1;
+            this.id = await Counter.next('testimonials');
         } catch (error) {
             return next(error);
         }
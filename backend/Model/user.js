@@ -23,9 +23,21 @@ const UserSchema = new mongoose.Schema({
   state: { type: String, default: '' },
   profileImage: { type: String, default: '' },
 
+  // BILLING: ISO country code and the currency to show prices in (null = by country)
+  billingCountry: { type: String, default: '', uppercase: true, trim: true },
+  preferredCurrency: { type: String, enum: ['INR', 'USD', 'EUR', null], default: null },
+
   // MARK IF PROFILE IS COMPLETED
   profileCompleted: { type: Boolean, default: false },
 
+  // REFERRALS
+  referralCode: { type: String, unique: true, sparse: true, uppercase: true, trim: true },
+  referredBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  deviceIds: { type: [String], default: [] }, // browsers signed up or logged in from, for referral checks
+
+  // AFFILIATE PROGRAM (set when an admin makes the user an affiliate)
+  affiliateId: { type: Number, default: null },
+
   // PURCHASE HISTORY (used for access control)
   orders: { type: Array, default: [] },
   testimonials: { type: Array, default: [] },
@@ -41,8 +53,11 @@ const UserSchema = new mongoose.Schema({
             percent: { type: Number, default: 0 }, // 0–100
             lastSeenAt: { type: Date },
             lastImageIndex: { type: Number, default: 0 }, // bookmark for page
+            viewedPages: { type: [Number], default: [] }, // page indexes seen
+            completed: { type: Boolean, default: false },
           },
         ],
+        percent: { type: Number, default: 0 }, // overall, by pages viewed
         updatedAt: { type: Date, default: Date.now },
       },
     ],
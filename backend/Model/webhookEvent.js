@@ -0,0 +1,79 @@
+const mongoose = require('mongoose');
+
+// Every webhook delivery we receive, kept raw for auditing and used to drop
+// repeated deliveries of the same gateway event. Rejected deliveries keep only
+// the start of the body and its hash, and are removed after a week.
+const WebhookEventSchema = new mongoose.Schema({
+    gateway: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    eventId: {
+        type: String,
+        required: false, // Missing only on rejected deliveries
+        trim: true
+    },
+    type: {
+        type: String,
+        required: false,
+        trim: true // e.g. payment.captured
+    },
+    rawBody: {
+        type: String,
+        required: true // Truncated on rejected deliveries
+    },
+    bodyHash: {
+        type: String,
+        required: false // sha256 of the full body
+    },
+    bodySize: {
+        type: Number,
+        required: false // Bytes
+    },
+    signatureValid: {
+        type: Boolean,
+        required: true
+    },
+    status: {
+        type: String,
+        required: true,
+        enum: ['processing', 'processed', 'ignored', 'failed', 'rejected'],
+        default: 'processing'
+    },
+    error: {
+        type: String,
+        required: false
+    },
+    lockedAt: {
+        type: Date,
+        default: null // When processing was last claimed
+    },
+    attempts: {
+        type: Number,
+        default: 1 // Deliveries received for this event
+    },
+    receivedAt: {
+        type: Date,
+        default: Date.now
+    },
+    processedAt: {
+        type: Date,
+        required: false
+    }
+});
+
+// One record per verified gateway event; rejected deliveries are kept apart
+WebhookEventSchema.index(
+    { gateway: 1, eventId: 1 },
+    { unique: true, partialFilterExpression: { signatureValid: true } }
+);
+WebhookEventSchema.index({ status: 1 });
+WebhookEventSchema.index({ receivedAt: -1 });
+WebhookEventSchema.index(
+    { receivedAt: 1 },
+    { expireAfterSeconds: 7 * 24 * 60 * 60, partialFilterExpression: { status: 'rejected' } }
+);
+
+const WebhookEvent = mongoose.model('WebhookEvent', WebhookEventSchema);
+module.exports = WebhookEvent;
@@ -2,10 +2,20 @@ const express = require('express');
 const bcrypt = require('bcrypt');
 const connectMongo = require('./DB');
 const Users = require('./Model/user');
-const Courses = require('./Model/course');
+const { releaseExpiredRedemptions } = require('./services/coupons');
+const { runInstallmentJobs } = require('./services/installments');
+const { runMembershipJobs } = require('./services/memberships');
+const { sendUnsentGiftEmails } = require('./services/gifts');
+const { fulfillPendingOrders } = require('./services/orderStates');
+const { checkGatewayConfig } = require('./services/gateways');
 require('dotenv').config();
 
 const app = express();
+
+// Webhooks verify signatures over the raw body, so they're mounted before
+// the JSON body parser
+app.use('/api/webhooks', require('./routes/webhooks'));
+
 app.use(express.json());
 app.use(express.static('public'));
 
@@ -31,7 +41,7 @@ app.use((req, res, next) => {
   }
   
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS, PATCH');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With, X-Device-Id');
   res.header('Access-Control-Max-Age', '86400');
   
   if (req.method === 'OPTIONS') {
@@ -53,6 +63,19 @@ app.get('/test', (req, res) => {
 app.use('/api/auth', require('./routes/auth'));
 app.use('/api/user', require('./routes/profile'));
 app.use('/api/courses', require('./routes/course'));
+app.use('/api/course-images', require('./routes/courseImages'));
+app.use('/api/checkout', require('./routes/checkout'));
+app.use('/api/orders', require('./routes/orders'));
+app.use('/api/payments', require('./routes/payments'));
+app.use('/api/coupons', require('./routes/coupons'));
+app.use('/api/refunds', require('./routes/refunds'));
+app.use('/api/referrals', require('./routes/referrals'));
+app.use('/api/affiliates', require('./routes/affiliates'));
+app.use('/api/installment-plans', require('./routes/installmentPlans'));
+app.use('/api/memberships', require('./routes/memberships'));
+app.use('/api/webinars', require('./routes/webinars'));
+app.use('/api/gifts', require('./routes/gifts'));
+app.use('/api/organizations', require('./routes/organizations'));
 
 // Get all users
 app.get('/', async (req, res) => {
@@ -235,195 +258,49 @@ app.delete('/user/:id', async (req, res) => {
   }
 });
 
-// ============== COURSE ENDPOINTS ==============
-
-// Get all courses
-app.get('/courses', async (req, res) => {
-  try {
-    console.log('GET /courses - Fetching all courses');
-    const courses = await Courses.find({});
-    console.log(`Found ${courses.length} courses`);
-    res.status(200).json({
-      success: true,
-      count: courses.length,
-      data: courses,
-    });
-  } catch (error) {
-    console.error('Error fetching courses:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Error fetching courses',
-      error: error.message,
-    });
-  }
-});
-
-// Get active courses only
-app.get('/courses/active', async (req, res) => {
+// Start server
+async function startServer() {
   try {
-    console.log('GET /courses/active - Fetching active courses');
-    const courses = await Courses.find({ isActive: true });
-    console.log(`Found ${courses.length} active courses`);
-    res.status(200).json({
-      success: true,
-      count: courses.length,
-      data: courses,
-    });
-  } catch (error) {
-    console.error('Error fetching active courses:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Error fetching active courses',
-      error: error.message,
-    });
-  }
-});
+    checkGatewayConfig();
 
-// Create new course
-app.post('/courses', async (req, res) => {
-  try {
-    console.log('POST /courses - Creating new course:', req.body);
-    const { title, description, price, originalPrice, isActive } = req.body;
+    console.log('Connecting to MongoDB...');
+    await connectMongo();
+    console.log(' Database connected successfully');
 
-    // Validate required fields
-    if (!title || !description || !price || !originalPrice) {
-      return res.status(400).json({
-        success: false,
-        message:
-          'Missing required fields: title, description, price, and originalPrice are required',
+    // Give back coupon uses held by checkouts that were never paid
+    setInterval(() => {
+      releaseExpiredRedemptions().catch((error) => {
+        console.error('Error releasing expired coupon reservations:', error);
       });
-    }
+    }, 5 * 60 * 1000);
 
-    // Create course object
-    const courseData = {
-      title,
-      description,
-      price,
-      originalPrice,
-      isActive: isActive !== undefined ? isActive : true,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
-    const course = new Courses(courseData);
-    await course.save();
-
-    console.log('Course created successfully with ID:', course._id);
-
-    res.status(201).json({
-      success: true,
-      message: 'Course created successfully',
-      data: course,
-    });
-  } catch (error) {
-    console.error('Error creating course:', error);
-
-    if (error.code === 11000) {
-      const field = Object.keys(error.keyValue)[0];
-      return res.status(400).json({
-        success: false,
-        message: `${field} already exists`,
+    // Remind learners of installments falling due and suspend overdue ones
+    setInterval(() => {
+      runInstallmentJobs().catch((error) => {
+        console.error('Error running installment reminders and suspensions:', error);
       });
-    }
+    }, 60 * 60 * 1000);
 
-    res.status(500).json({
-      success: false,
-      message: 'Error creating course',
-      error: error.message,
-    });
-  }
-});
-
-// Get course by ID
-app.get('/courses/:id', async (req, res) => {
-  try {
-    console.log('GET /courses/:id - Fetching course with ID:', req.params.id);
-    const course = await Courses.findById(req.params.id);
-    if (!course) {
-      return res.status(404).json({
-        success: false,
-        message: 'Course not found',
+    // Remind members to renew and move lapsed memberships to grace or expiry
+    setInterval(() => {
+      runMembershipJobs().catch((error) => {
+        console.error('Error running membership renewals:', error);
       });
-    }
-    res.status(200).json({
-      success: true,
-      data: course,
-    });
-  } catch (error) {
-    console.error('Error fetching course:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Error fetching course',
-      error: error.message,
-    });
-  }
-});
+    }, 60 * 60 * 1000);
 
-// Update course
-app.put('/courses/:id', async (req, res) => {
-  try {
-    console.log('PUT /courses/:id - Updating course:', req.params.id, req.body);
-    const updateData = { ...req.body };
-    updateData.updatedAt = new Date();
-
-    const course = await Courses.findByIdAndUpdate(req.params.id, updateData, {
-      new: true,
-      runValidators: true,
-    });
-
-    if (!course) {
-      return res.status(404).json({
-        success: false,
-        message: 'Course not found',
+    // Send gift codes whose email couldn't go out when the order was paid
+    setInterval(() => {
+      sendUnsentGiftEmails().catch((error) => {
+        console.error('Error sending gift emails:', error);
       });
-    }
-
-    res.status(200).json({
-      success: true,
-      message: 'Course updated successfully',
-      data: course,
-    });
-  } catch (error) {
-    console.error('Error updating course:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Error updating course',
-      error: error.message,
-    });
-  }
-});
+    }, 60 * 60 * 1000);
 
-// Delete course
-app.delete('/courses/:id', async (req, res) => {
-  try {
-    console.log('DELETE /courses/:id - Deleting course:', req.params.id);
-    const course = await Courses.findByIdAndDelete(req.params.id);
-    if (!course) {
-      return res.status(404).json({
-        success: false,
-        message: 'Course not found',
+    // Fulfil paid orders whose courses or other purchases couldn't be granted
+    setInterval(() => {
+      fulfillPendingOrders().catch((error) => {
+        console.error('Error fulfilling paid orders:', error);
       });
-    }
-    res.status(200).json({
-      success: true,
-      message: 'Course deleted successfully',
-    });
-  } catch (error) {
-    console.error('Error deleting course:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Error deleting course',
-      error: error.message,
-    });
-  }
-});
-
-// Start server
-async function startServer() {
-  try {
-    console.log('Connecting to MongoDB...');
-    await connectMongo();
-    console.log(' Database connected successfully');
+    }, 5 * 60 * 1000);
 
     const PORT = process.env.PORT || 3000;
 
@@ -9,7 +9,8 @@ const userRegistrationSchema = Joi.object({
             'string.pattern.base': 'Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character'
         }),
     phone: Joi.string().pattern(/^[0-9]{10}$/).optional(),
-    role: Joi.string().valid('user', 'admin').default('user')
+    role: Joi.string().valid('user', 'admin').default('user'),
+    referralCode: Joi.string().max(40).trim().allow('', null).optional()
 });
 
 const userLoginSchema = Joi.object({
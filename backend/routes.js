@@ -8,6 +8,16 @@ const Invoice = require('./Model/invoice'); // Add Invoice model
 const Coupon = require('./Model/coupon'); // Add Coupon model
 const Payment = require('./Model/payment'); // Add Payment model
 const Testimonial = require('./Model/testimonial'); // Add Testimonial model
+const {
+  canSetOrderStatus,
+  canTransitionPayment,
+  recordCreated,
+  setOrderStatus,
+  transitionPayment
+} = require('./services/orderStates'); // Order/payment state machine
+const { getGateway } = require('./services/gateways'); // Payment gateway adapters
+const { refundPaymentAsAdmin } = require('./services/refunds'); // Refunds and credit notes
+const { confirmRedemption } = require('./services/coupons'); // Coupon redemptions
 
 // Try to import Order model with robust error handling
 let Order = null;
@@ -24,14 +34,18 @@ try {
 
 const router = express.Router();
 
-// Helper function to generate slug from title
-const generateSlug = (title) => {
-  return title
-    .toLowerCase()
-    .trim()
-    .replace(/[^\w\s-]/g, '') // Remove special characters
-    .replace(/[\s_-]+/g, '-') // Replace spaces and underscores with hyphens
-    .replace(/^-+|-+$/g, ''); // Remove leading/trailing hyphens
+// Audit context for status changes made through these admin routes
+const adminContext = (req, reason) => ({
+  actor: { type: 'admin', id: req.user ? req.user._id.toString() : undefined },
+  reason: (req.body && req.body.reason) || reason
+});
+
+// State machine errors carry their own status code (409 for illegal transitions)
+const sendTransitionError = (res, err) => {
+  return res.status(err.statusCode).json({
+    success: false,
+    message: err.message
+  });
 };
 
 // 🟢 Register Route
@@ -203,104 +217,6 @@ router.get('/courses/:slug', async (req, res) => {
   }
 });
 
-// Create new course
-router.post('/courses', async (req, res) => {
-  try {
-    console.log('🚀 Create course request:', req.body);
-    const { title, description, price, originalPrice } = req.body;
-
-    // Input validation
-    if (!title || !description || !price) {
-      console.log('❌ Missing required fields');
-      return res.status(400).json({
-        success: false,
-        message: 'Title, description, and price are required'
-      });
-    }
-
-    // Generate slug
-    const slug = generateSlug(title);
-    
-    // Check if slug already exists
-    const existingCourse = await Courses.findOne({ slug });
-    if (existingCourse) {
-      console.log('❌ Course with this slug already exists:', slug);
-      return res.status(409).json({
-        success: false,
-        message: 'Course with similar title already exists'
-      });
-    }
-
-    // Create new course
-    const newCourse = new Courses({
-      title,
-      slug,
-      description,
-      price: parseInt(price), // Ensure it's an integer
-      originalPrice: originalPrice ? parseInt(originalPrice) : null
-    });
-
-    const savedCourse = await newCourse.save();
-    console.log('✅ Course created successfully:', savedCourse._id);
-
-    res.status(201).json({
-      success: true,
-      message: 'Course created successfully',
-      data: savedCourse
-    });
-  } catch (err) {
-    console.error('❌ Create course error:', err);
-    res.status(500).json({
-      success: false,
-      message: 'Server Error',
-      error: err.message
-    });
-  }
-});
-
-// Update course
-router.put('/courses/:slug', async (req, res) => {
-  try {
-    console.log('🚀 Update course request:', req.params.slug, req.body);
-    const { title, description, price, originalPrice, isActive } = req.body;
-
-    const course = await Courses.findOne({ slug: req.params.slug });
-    if (!course) {
-      console.log('❌ Course not found:', req.params.slug);
-      return res.status(404).json({
-        success: false,
-        message: 'Course not found'
-      });
-    }
-
-    // Update fields
-    if (title) {
-      course.title = title;
-      course.slug = generateSlug(title);
-    }
-    if (description) course.description = description;
-    if (price) course.price = parseInt(price);
-    if (originalPrice !== undefined) course.originalPrice = originalPrice ? parseInt(originalPrice) : null;
-    if (isActive !== undefined) course.isActive = isActive;
-
-    const updatedCourse = await course.save();
-    console.log('✅ Course updated successfully:', updatedCourse._id);
-
-    res.status(200).json({
-      success: true,
-      message: 'Course updated successfully',
-      data: updatedCourse
-    });
-  } catch (err) {
-    console.error('❌ Update course error:', err);
-    res.status(500).json({
-      success: false,
-      message: 'Server Error',
-      error: err.message
-    });
-  }
-});
-
 // Delete course (soft delete by setting isActive to false)
 router.delete('/courses/:slug', async (req, res) => {
   try {
@@ -907,7 +823,15 @@ router.get('/orders/:orderId/summary', async (req, res) => {
         courseSlug: item.courseId.slug,
         unitPrice: item.unitPrice,
         quantity: item.quantity,
-        totalPrice: item.totalPrice
+        totalPrice: item.totalPrice,
+        discountAmount: item.discountAmount,
+        taxRate: item.taxRate,
+        taxInclusive: item.taxInclusive,
+        taxableAmount: item.taxableAmount,
+        cgstAmount: item.cgstAmount,
+        sgstAmount: item.sgstAmount,
+        igstAmount: item.igstAmount,
+        lineTotal: item.lineTotal
       }))
     };
     
@@ -1046,6 +970,15 @@ router.post('/orders', async (req, res) => {
       });
     }
 
+    // New orders start as created; any other status must be reachable from there
+    if (status && status !== 'created' && !canSetOrderStatus('created', status)) {
+      console.log('❌ Invalid initial status:', status);
+      return res.status(409).json({
+        success: false,
+        message: 'Order cannot be created with status ' + status
+      });
+    }
+
     // Validate user exists if userId is provided
     if (userId) {
       const user = await Users.findById(userId);
@@ -1065,12 +998,16 @@ router.post('/orders', async (req, res) => {
       phone: phone || null,
       totalAmount: parseInt(totalAmount),
       currency: currency || 'INR',
-      status: status || 'created',
+      status: 'created',
       couponId: couponId || null,
       paymentId: paymentId || null
     });
 
-    const savedOrder = await newOrder.save();
+    let savedOrder = await newOrder.save();
+    await recordCreated(savedOrder, adminContext(req, 'Created by admin'));
+    if (status && status !== 'created') {
+      savedOrder = await setOrderStatus(savedOrder, status, adminContext(req, 'Created by admin'));
+    }
     
     // Populate user info for response
     if (savedOrder.userId) {
@@ -1086,70 +1023,7 @@ router.post('/orders', async (req, res) => {
     });
   } catch (err) {
     console.error('❌ Create order error:', err);
-    res.status(500).json({
-      success: false,
-      message: 'Server Error',
-      error: err.message
-    });
-  }
-});
-
-// Update order
-router.put('/orders/:id', async (req, res) => {
-  try {
-    console.log('🚀 Update order request:', req.params.id, req.body);
-    const { phone, totalAmount, currency, status, couponId, paymentId } = req.body;
-
-    const order = await Order.findOne({ id: req.params.id });
-    if (!order) {
-      console.log('❌ Order not found:', req.params.id);
-      return res.status(404).json({
-        success: false,
-        message: 'Order not found'
-      });
-    }
-
-    // Update fields
-    if (phone !== undefined) order.phone = phone;
-    if (totalAmount !== undefined) {
-      if (totalAmount < 0) {
-        return res.status(400).json({
-          success: false,
-          message: 'Total amount must be non-negative'
-        });
-      }
-      order.totalAmount = parseInt(totalAmount);
-    }
-    if (currency) order.currency = currency;
-    if (status) {
-      const validStatuses = ['created', 'pending_payment', 'paid', 'failed', 'refunded'];
-      if (!validStatuses.includes(status)) {
-        return res.status(400).json({
-          success: false,
-          message: 'Invalid status. Must be one of: ' + validStatuses.join(', ')
-        });
-      }
-      order.status = status;
-    }
-    if (couponId !== undefined) order.couponId = couponId;
-    if (paymentId !== undefined) order.paymentId = paymentId;
-
-    const updatedOrder = await order.save();
-    
-    // Populate user info for response
-    if (updatedOrder.userId) {
-      await updatedOrder.populate('userId', 'name email');
-    }
-    
-    console.log('✅ Order updated successfully:', updatedOrder.id);
-
-    res.status(200).json({
-      success: true,
-      message: 'Order updated successfully',
-      data: updatedOrder
-    });
-  } catch (err) {
-    console.error('❌ Update order error:', err);
+    if (err.statusCode) return sendTransitionError(res, err);
     res.status(500).json({
       success: false,
       message: 'Server Error',
@@ -1281,81 +1155,6 @@ router.get('/invoices/order/:orderId', async (req, res) => {
   }
 });
 
-// Create new invoice
-router.post('/invoices', async (req, res) => {
-  try {
-    console.log('🚀 Create invoice request:', req.body);
-    const { orderId, fileUrl } = req.body;
-
-    // Input validation
-    if (!orderId || !fileUrl) {
-      console.log('❌ Missing required fields');
-      return res.status(400).json({
-        success: false,
-        message: 'Order ID and File URL are required'
-      });
-    }
-
-    // Validate file URL format (basic validation)
-    const urlRegex = /^(https?:\/\/)?([\da-z\.-]+)\.([a-z\.]{2,6})([\/\w \.-]*)*\/?$/;
-    if (!urlRegex.test(fileUrl)) {
-      console.log('❌ Invalid file URL format');
-      return res.status(400).json({
-        success: false,
-        message: 'Invalid file URL format'
-      });
-    }
-
-    // Check if Order exists (if Order model is available)
-    if (Order) {
-      const orderExists = await Order.findOne({ id: orderId });
-      if (!orderExists) {
-        console.log('❌ Order not found:', orderId);
-        return res.status(404).json({
-          success: false,
-          message: 'Order not found'
-        });
-      }
-    }
-
-    // Check if invoice already exists for this order
-    const existingInvoice = await Invoice.findOne({ orderId });
-    if (existingInvoice) {
-      console.log('❌ Invoice already exists for order:', orderId);
-      return res.status(409).json({
-        success: false,
-        message: 'Invoice already exists for this order'
-      });
-    }
-
-    // Create new invoice
-    const newInvoice = new Invoice({
-      orderId: parseInt(orderId),
-      fileUrl: fileUrl.trim()
-    });
-
-    const savedInvoice = await newInvoice.save();
-    
-    // Populate order info for response
-    await savedInvoice.populate('order');
-    
-    console.log('✅ Invoice created successfully:', savedInvoice.id);
-
-    res.status(201).json({
-      success: true,
-      message: 'Invoice created successfully',
-      data: savedInvoice
-    });
-  } catch (err) {
-    console.error('❌ Create invoice error:', err);
-    res.status(500).json({
-      success: false,
-      message: 'Server Error',
-      error: err.message
-    });
-  }
-});
-
 // Update invoice
 router.put('/invoices/:id', async (req, res) => {
   try {
@@ -1520,314 +1319,6 @@ router.get('/coupons/:id', async (req, res) => {
   }
 });
 
-// Validate coupon by code
-router.get('/coupons/validate/:code', async (req, res) => {
-  try {
-    console.log('🚀 Validate coupon request:', req.params.code);
-    const coupon = await Coupon.findValidCoupon(req.params.code);
-    
-    if (!coupon) {
-      console.log('❌ Invalid or expired coupon:', req.params.code);
-      return res.status(404).json({
-        success: false,
-        message: 'Invalid or expired coupon code'
-      });
-    }
-    
-    console.log('✅ Valid coupon found:', coupon.code);
-    res.status(200).json({
-      success: true,
-      message: 'Coupon is valid',
-      data: {
-        id: coupon.id,
-        code: coupon.code,
-        discountType: coupon.discountType,
-        discountValue: coupon.discountValue,
-        isValid: coupon.isValid(),
-        remainingUses: coupon.usageLimit ? coupon.usageLimit - coupon.usedCount : null
-      }
-    });
-  } catch (err) {
-    console.error('❌ Validate coupon error:', err);
-    res.status(500).json({
-      success: false,
-      message: 'Server Error',
-      error: err.message
-    });
-  }
-});
-
-// Calculate discount for a coupon and amount
-router.post('/coupons/calculate-discount', async (req, res) => {
-  try {
-    console.log('🚀 Calculate discount request:', req.body);
-    const { couponCode, totalAmount } = req.body;
-
-    if (!couponCode || totalAmount === undefined) {
-      console.log('❌ Missing required fields');
-      return res.status(400).json({
-        success: false,
-        message: 'Coupon code and total amount are required'
-      });
-    }
-
-    if (totalAmount < 0) {
-      console.log('❌ Invalid total amount');
-      return res.status(400).json({
-        success: false,
-        message: 'Total amount must be non-negative'
-      });
-    }
-
-    const coupon = await Coupon.findValidCoupon(couponCode);
-    
-    if (!coupon) {
-      console.log('❌ Invalid or expired coupon:', couponCode);
-      return res.status(404).json({
-        success: false,
-        message: 'Invalid or expired coupon code'
-      });
-    }
-
-    const discountAmount = coupon.calculateDiscount(totalAmount);
-    const finalAmount = totalAmount - discountAmount;
-    
-    console.log('✅ Discount calculated successfully:', { discountAmount, finalAmount });
-    res.status(200).json({
-      success: true,
-      message: 'Discount calculated successfully',
-      data: {
-        couponCode: coupon.code,
-        originalAmount: totalAmount,
-        discountAmount,
-        finalAmount,
-        discountType: coupon.discountType,
-        discountValue: coupon.discountValue
-      }
-    });
-  } catch (err) {
-    console.error('❌ Calculate discount error:', err);
-    res.status(500).json({
-      success: false,
-      message: 'Server Error',
-      error: err.message
-    });
-  }
-});
-
-// Create new coupon
-router.post('/coupons', async (req, res) => {
-  try {
-    console.log('🚀 Create coupon request:', req.body);
-    const { 
-      code, 
-      discountType, 
-      discountValue, 
-      validFrom, 
-      validTill, 
-      usageLimit 
-    } = req.body;
-
-    // Input validation
-    if (!code || !discountType || discountValue === undefined || !validFrom || !validTill) {
-      console.log('❌ Missing required fields');
-      return res.status(400).json({
-        success: false,
-        message: 'Code, discount type, discount value, valid from, and valid till are required'
-      });
-    }
-
-    // Validate discount type
-    if (!['percentage', 'fixed'].includes(discountType.toLowerCase())) {
-      console.log('❌ Invalid discount type');
-      return res.status(400).json({
-        success: false,
-        message: 'Discount type must be either "percentage" or "fixed"'
-      });
-    }
-
-    // Validate discount value
-    if (discountValue <= 0) {
-      console.log('❌ Invalid discount value');
-      return res.status(400).json({
-        success: false,
-        message: 'Discount value must be greater than 0'
-      });
-    }
-
-    if (discountType.toLowerCase() === 'percentage' && discountValue > 100) {
-      console.log('❌ Invalid percentage value');
-      return res.status(400).json({
-        success: false,
-        message: 'Percentage discount cannot be more than 100'
-      });
-    }
-
-    // Validate dates
-    const fromDate = new Date(validFrom);
-    const tillDate = new Date(validTill);
-    
-    if (fromDate >= tillDate) {
-      console.log('❌ Invalid date range');
-      return res.status(400).json({
-        success: false,
-        message: 'Valid till date must be after valid from date'
-      });
-    }
-
-    // Check if coupon code already exists
-    const existingCoupon = await Coupon.findOne({ code: code.toUpperCase() });
-    if (existingCoupon) {
-      console.log('❌ Coupon code already exists:', code);
-      return res.status(409).json({
-        success: false,
-        message: 'Coupon code already exists'
-      });
-    }
-
-    // Create new coupon
-    const newCoupon = new Coupon({
-      code: code.toUpperCase().trim(),
-      discountType: discountType.toLowerCase(),
-      discountValue: parseInt(discountValue),
-      validFrom: fromDate,
-      validTill: tillDate,
-      usageLimit: usageLimit ? parseInt(usageLimit) : null
-    });
-
-    const savedCoupon = await newCoupon.save();
-    console.log('✅ Coupon created successfully:', savedCoupon.id);
-
-    res.status(201).json({
-      success: true,
-      message: 'Coupon created successfully',
-      data: savedCoupon
-    });
-  } catch (err) {
-    console.error('❌ Create coupon error:', err);
-    res.status(500).json({
-      success: false,
-      message: 'Server Error',
-      error: err.message
-    });
-  }
-});
-
-// Update coupon
-router.put('/coupons/:id', async (req, res) => {
-  try {
-    console.log('🚀 Update coupon request:', req.params.id, req.body);
-    const { 
-      code, 
-      discountType, 
-      discountValue, 
-      validFrom, 
-      validTill, 
-      usageLimit,
-      isActive 
-    } = req.body;
-
-    const coupon = await Coupon.findOne({ id: req.params.id });
-    if (!coupon) {
-      console.log('❌ Coupon not found:', req.params.id);
-      return res.status(404).json({
-        success: false,
-        message: 'Coupon not found'
-      });
-    }
-
-    // Update fields if provided
-    if (code) {
-      // Check if new code already exists (excluding current coupon)
-      const existingCoupon = await Coupon.findOne({ 
-        code: code.toUpperCase(), 
-        id: { $ne: req.params.id } 
-      });
-      if (existingCoupon) {
-        return res.status(409).json({
-          success: false,
-          message: 'Coupon code already exists'
-        });
-      }
-      coupon.code = code.toUpperCase().trim();
-    }
-
-    if (discountType) {
-      if (!['percentage', 'fixed'].includes(discountType.toLowerCase())) {
-        return res.status(400).json({
-          success: false,
-          message: 'Discount type must be either "percentage" or "fixed"'
-        });
-      }
-      coupon.discountType = discountType.toLowerCase();
-    }
-
-    if (discountValue !== undefined) {
-      if (discountValue <= 0) {
-        return res.status(400).json({
-          success: false,
-          message: 'Discount value must be greater than 0'
-        });
-      }
-      
-      if (coupon.discountType === 'percentage' && discountValue > 100) {
-        return res.status(400).json({
-          success: false,
-          message: 'Percentage discount cannot be more than 100'
-        });
-      }
-      
-      coupon.discountValue = parseInt(discountValue);
-    }
-
-    if (validFrom) {
-      const fromDate = new Date(validFrom);
-      if (coupon.validTill && fromDate >= coupon.validTill) {
-        return res.status(400).json({
-          success: false,
-          message: 'Valid from date must be before valid till date'
-        });
-      }
-      coupon.validFrom = fromDate;
-    }
-
-    if (validTill) {
-      const tillDate = new Date(validTill);
-      if (tillDate <= coupon.validFrom) {
-        return res.status(400).json({
-          success: false,
-          message: 'Valid till date must be after valid from date'
-        });
-      }
-      coupon.validTill = tillDate;
-    }
-
-    if (usageLimit !== undefined) {
-      coupon.usageLimit = usageLimit ? parseInt(usageLimit) : null;
-    }
-
-    if (isActive !== undefined) {
-      coupon.isActive = isActive;
-    }
-
-    const updatedCoupon = await coupon.save();
-    console.log('✅ Coupon updated successfully:', updatedCoupon.id);
-
-    res.status(200).json({
-      success: true,
-      message: 'Coupon updated successfully',
-      data: updatedCoupon
-    });
-  } catch (err) {
-    console.error('❌ Update coupon error:', err);
-    res.status(500).json({
-      success: false,
-      message: 'Server Error',
-      error: err.message
-    });
-  }
-});
-
 // Delete coupon (soft delete by setting isActive to false)
 router.delete('/coupons/:id', async (req, res) => {
   try {
@@ -1860,11 +1351,12 @@ router.delete('/coupons/:id', async (req, res) => {
   }
 });
 
-// Use/Apply coupon (increment usage count)
+// Record a coupon use against a paid order (confirms the order's redemption).
+// Checkout reserves and confirms uses itself; this is for orders made here.
 router.post('/coupons/:id/use', async (req, res) => {
   try {
-    console.log('🚀 Use coupon request:', req.params.id);
-    
+    console.log('🚀 Use coupon request:', req.params.id, req.body.orderId);
+
     const coupon = await Coupon.findOne({ id: req.params.id });
     if (!coupon) {
       console.log('❌ Coupon not found:', req.params.id);
@@ -1874,16 +1366,29 @@ router.post('/coupons/:id/use', async (req, res) => {
       });
     }
 
-    if (!coupon.canBeUsed()) {
-      console.log('❌ Coupon cannot be used:', req.params.id);
+    const order = req.body.orderId && await Order.findOne({ id: req.body.orderId });
+    if (!order) {
       return res.status(400).json({
         success: false,
-        message: 'Coupon is expired, inactive, or usage limit exceeded'
+        message: 'The paid order the coupon was used on is required'
+      });
+    }
+    if (order.couponId !== coupon.id) {
+      return res.status(400).json({
+        success: false,
+        message: 'The order was not placed with this coupon'
+      });
+    }
+    if (order.status !== 'paid') {
+      return res.status(409).json({
+        success: false,
+        message: `Coupon uses are confirmed once the order is paid. Current status: ${order.status}`
       });
     }
 
-    const updatedCoupon = await coupon.use();
-    console.log('✅ Coupon used successfully:', updatedCoupon.id);
+    const redemption = await confirmRedemption(order);
+    const updatedCoupon = await Coupon.findOne({ id: coupon.id });
+    console.log('✅ Coupon use confirmed:', updatedCoupon.id, redemption.id);
 
     res.status(200).json({
       success: true,
@@ -1891,6 +1396,7 @@ router.post('/coupons/:id/use', async (req, res) => {
       data: {
         id: updatedCoupon.id,
         code: updatedCoupon.code,
+        redemptionId: redemption.id,
         usedCount: updatedCoupon.usedCount,
         remainingUses: updatedCoupon.usageLimit ? updatedCoupon.usageLimit - updatedCoupon.usedCount : null
       }
@@ -2117,6 +1623,15 @@ router.post('/payments', async (req, res) => {
       });
     }
 
+    // New payments start as initiated; any other status must be reachable from there
+    if (status && status !== 'initiated' && !canTransitionPayment('initiated', status)) {
+      console.log('❌ Invalid initial status:', status);
+      return res.status(409).json({
+        success: false,
+        message: 'Payment cannot be created with status ' + status
+      });
+    }
+
     // Validate method if provided
     if (method && !['UPI', 'CARD', 'NETBANKING', 'WALLET', 'EMI'].includes(method)) {
       console.log('❌ Invalid method');
@@ -2132,11 +1647,16 @@ router.post('/payments', async (req, res) => {
       gatewayPaymentId: gatewayPaymentId.trim(),
       orderId: parseInt(orderId),
       amount: parseInt(amount),
-      status: status || 'initiated',
+      status: 'initiated',
       method: method || null
     });
 
-    const savedPayment = await newPayment.save();
+    let savedPayment = await newPayment.save();
+    await recordCreated(savedPayment, adminContext(req, 'Created by admin'));
+    if (status && status !== 'initiated') {
+      const result = await transitionPayment(savedPayment, status, adminContext(req, 'Created by admin'));
+      savedPayment = result.payment || savedPayment;
+    }
     
     // Populate order info for response
     await savedPayment.populate('order');
@@ -2150,6 +1670,7 @@ router.post('/payments', async (req, res) => {
     });
   } catch (err) {
     console.error('❌ Create payment error:', err);
+    if (err.statusCode) return sendTransitionError(res, err);
     res.status(500).json({
       success: false,
       message: 'Server Error',
@@ -2181,7 +1702,6 @@ router.put('/payments/:id', async (req, res) => {
           message: 'Invalid status. Must be one of: initiated, captured, failed, refunded'
         });
       }
-      payment.status = status;
     }
 
     if (method !== undefined) {
@@ -2204,7 +1724,18 @@ router.put('/payments/:id', async (req, res) => {
       payment.amount = parseInt(amount);
     }
 
-    const updatedPayment = await payment.save();
+    let updatedPayment = await payment.save();
+    // Status goes through the state machine, which also updates the order
+    if (status && status !== updatedPayment.status) {
+      const result = await transitionPayment(updatedPayment, status, adminContext(req, 'Updated by admin'));
+      if (!result.payment) {
+        return res.status(409).json({
+          success: false,
+          message: 'Payment was changed by another request, try again'
+        });
+      }
+      updatedPayment = result.payment;
+    }
     await updatedPayment.populate('order');
     
     console.log('✅ Payment updated successfully:', updatedPayment.id);
@@ -2216,58 +1747,7 @@ router.put('/payments/:id', async (req, res) => {
     });
   } catch (err) {
     console.error('❌ Update payment error:', err);
-    res.status(500).json({
-      success: false,
-      message: 'Server Error',
-      error: err.message
-    });
-  }
-});
-
-// Update payment status (common operation)
-router.patch('/payments/:id/status', async (req, res) => {
-  try {
-    console.log('🚀 Update payment status request:', req.params.id, req.body);
-    const { status } = req.body;
-
-    if (!status) {
-      console.log('❌ Status is required');
-      return res.status(400).json({
-        success: false,
-        message: 'Status is required'
-      });
-    }
-
-    if (!['initiated', 'captured', 'failed', 'refunded'].includes(status)) {
-      console.log('❌ Invalid status');
-      return res.status(400).json({
-        success: false,
-        message: 'Invalid status. Must be one of: initiated, captured, failed, refunded'
-      });
-    }
-
-    const payment = await Payment.findOne({ id: req.params.id });
-    if (!payment) {
-      console.log('❌ Payment not found:', req.params.id);
-      return res.status(404).json({
-        success: false,
-        message: 'Payment not found'
-      });
-    }
-
-    payment.status = status;
-    const updatedPayment = await payment.save();
-    await updatedPayment.populate('order');
-    
-    console.log('✅ Payment status updated successfully:', updatedPayment.id);
-
-    res.status(200).json({
-      success: true,
-      message: 'Payment status updated successfully',
-      data: updatedPayment
-    });
-  } catch (err) {
-    console.error('❌ Update payment status error:', err);
+    if (err.statusCode) return sendTransitionError(res, err);
     res.status(500).json({
       success: false,
       message: 'Server Error',
@@ -2298,8 +1778,32 @@ router.post('/payments/:id/capture', async (req, res) => {
       });
     }
 
-    payment.status = 'captured';
-    const updatedPayment = await payment.save();
+    // Capture with the gateway first; payments it doesn't know are flipped locally
+    const gateway = getGateway(payment.gateway);
+    if (gateway) {
+      await payment.populate('order');
+      const result = await gateway.capturePayment(payment.gatewayPaymentId, {
+        amount: payment.amount,
+        currency: payment.order ? payment.order.currency : 'INR'
+      });
+      if (result.status !== 'captured') {
+        console.log('❌ Gateway did not capture payment:', result.status);
+        return res.status(502).json({
+          success: false,
+          message: 'Gateway did not capture the payment. Gateway status: ' + result.status
+        });
+      }
+    }
+
+    const { payment: updatedPayment } = await transitionPayment(
+      payment, 'captured', adminContext(req, 'Captured by admin')
+    );
+    if (!updatedPayment) {
+      return res.status(409).json({
+        success: false,
+        message: 'Payment was changed by another request, try again'
+      });
+    }
     await updatedPayment.populate('order');
     
     console.log('✅ Payment captured successfully:', updatedPayment.id);
@@ -2311,6 +1815,7 @@ router.post('/payments/:id/capture', async (req, res) => {
     });
   } catch (err) {
     console.error('❌ Capture payment error:', err);
+    if (err.statusCode) return sendTransitionError(res, err);
     res.status(500).json({
       success: false,
       message: 'Server Error',
@@ -2341,8 +1846,15 @@ router.post('/payments/:id/fail', async (req, res) => {
       });
     }
 
-    payment.status = 'failed';
-    const updatedPayment = await payment.save();
+    const { payment: updatedPayment } = await transitionPayment(
+      payment, 'failed', adminContext(req, 'Marked failed by admin')
+    );
+    if (!updatedPayment) {
+      return res.status(409).json({
+        success: false,
+        message: 'Payment was changed by another request, try again'
+      });
+    }
     await updatedPayment.populate('order');
     
     console.log('✅ Payment marked as failed:', updatedPayment.id);
@@ -2354,6 +1866,7 @@ router.post('/payments/:id/fail', async (req, res) => {
     });
   } catch (err) {
     console.error('❌ Fail payment error:', err);
+    if (err.statusCode) return sendTransitionError(res, err);
     res.status(500).json({
       success: false,
       message: 'Server Error',
@@ -2362,10 +1875,10 @@ router.post('/payments/:id/fail', async (req, res) => {
   }
 });
 
-// Refund payment
+// Refund payment, in full or in part (amount in paise), through the gateway
 router.post('/payments/:id/refund', async (req, res) => {
   try {
-    console.log('🚀 Refund payment request:', req.params.id);
+    console.log('🚀 Refund payment request:', req.params.id, req.body);
     
     const payment = await Payment.findOne({ id: req.params.id });
     if (!payment) {
@@ -2384,19 +1897,29 @@ router.post('/payments/:id/refund', async (req, res) => {
       });
     }
 
-    payment.status = 'refunded';
-    const updatedPayment = await payment.save();
-    await updatedPayment.populate('order');
+    const { amount, reasonCode, note } = req.body || {};
+    const refund = await refundPaymentAsAdmin({
+      payment,
+      admin: req.user,
+      amount: amount === undefined ? undefined : Number(amount),
+      reasonCode,
+      note,
+      reason: adminContext(req, 'Refunded by admin').reason
+    });
+    const updatedPayment = await Payment.findOne({ id: payment.id }).populate('order');
     
-    console.log('✅ Payment refunded successfully:', updatedPayment.id);
+    console.log('✅ Refund', refund.id, refund.status, 'for payment', updatedPayment.id);
 
     res.status(200).json({
       success: true,
-      message: 'Payment refunded successfully',
-      data: updatedPayment
+      message: refund.status === 'processed'
+        ? 'Payment refunded successfully'
+        : 'Refund sent to the payment gateway',
+      data: { refund, payment: updatedPayment }
     });
   } catch (err) {
     console.error('❌ Refund payment error:', err);
+    if (err.statusCode) return sendTransitionError(res, err);
     res.status(500).json({
       success: false,
       message: 'Server Error',
@@ -0,0 +1,175 @@
+const express = require('express');
+const Affiliate = require('../Model/affiliate');
+const {
+  authenticateToken,
+  optionalAuth,
+  requireAdmin,
+} = require('../middleware/auth');
+const {
+  recordClick,
+  getAffiliateDashboard,
+  getPayoutStatement,
+  toStatementCsv,
+  createAffiliate,
+  updateAffiliate,
+} = require('../services/affiliates');
+const { readDeviceId } = require('../services/referrals');
+
+const router = express.Router();
+
+// Service errors carry their own status; anything else is a 500
+const sendError = (res, error, message) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+    });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    message,
+    error: error.message,
+  });
+};
+
+// The month before the current one, in IST, as YYYY-MM
+const previousMonth = () => {
+  const ist = new Date(Date.now() + 330 * 60 * 1000);
+  const date = new Date(
+    Date.UTC(ist.getUTCFullYear(), ist.getUTCMonth() - 1, 1)
+  );
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * @route   POST /affiliates/clicks
+ * @desc    Record a visit through an affiliate's tracked link
+ * @access  Public
+ */
+router.post('/clicks', optionalAuth, async (req, res) => {
+  try {
+    const click = await recordClick({
+      code: req.body.code,
+      landingPath: req.body.landingPath,
+      deviceId: readDeviceId(req),
+      user: req.user,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { clickId: click.id },
+    });
+  } catch (error) {
+    sendError(res, error, 'Error recording affiliate click');
+  }
+});
+
+/**
+ * @route   GET /affiliates/me
+ * @desc    Clicks, conversions and earnings of the logged-in affiliate
+ * @access  Private (affiliate)
+ */
+router.get('/me', authenticateToken, async (req, res) => {
+  try {
+    const dashboard = await getAffiliateDashboard(req.user);
+
+    res.status(200).json({
+      success: true,
+      data: dashboard,
+    });
+  } catch (error) {
+    sendError(res, error, 'Error fetching affiliate dashboard');
+  }
+});
+
+/**
+ * @route   GET /affiliates/payouts
+ * @desc    Monthly payout statement (?month=YYYY-MM, last month by default;
+ *          ?format=csv to download)
+ * @access  Private (admin)
+ */
+router.get('/payouts', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const statement = await getPayoutStatement(
+      req.query.month || previousMonth()
+    );
+
+    if (req.query.format === 'csv') {
+      res.set({
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="affiliate-payouts-${statement.month}.csv"`,
+        'Cache-Control': 'private, no-store',
+      });
+      return res.send(toStatementCsv(statement));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: statement,
+    });
+  } catch (error) {
+    sendError(res, error, 'Error generating payout statement');
+  }
+});
+
+/**
+ * @route   GET /affiliates
+ * @desc    All affiliates with their commission rates
+ * @access  Private (admin)
+ */
+router.get('/', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const affiliates = await Affiliate.find()
+      .sort({ createdAt: -1 })
+      .populate('userId', 'name email');
+
+    res.status(200).json({
+      success: true,
+      count: affiliates.length,
+      data: affiliates,
+    });
+  } catch (error) {
+    sendError(res, error, 'Error fetching affiliates');
+  }
+});
+
+/**
+ * @route   POST /affiliates
+ * @desc    Make a registered user (by email) an affiliate
+ * @access  Private (admin)
+ */
+router.post('/', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const affiliate = await createAffiliate(req.body);
+
+    res.status(201).json({
+      success: true,
+      message: 'Affiliate created successfully',
+      data: affiliate,
+    });
+  } catch (error) {
+    sendError(res, error, 'Error creating affiliate');
+  }
+});
+
+/**
+ * @route   PUT /affiliates/:id
+ * @desc    Update an affiliate's rates, attribution window, payout details or status
+ * @access  Private (admin)
+ */
+router.put('/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const affiliate = await updateAffiliate(Number(req.params.id), req.body);
+
+    res.status(200).json({
+      success: true,
+      message: 'Affiliate updated successfully',
+      data: affiliate,
+    });
+  } catch (error) {
+    sendError(res, error, 'Error updating affiliate');
+  }
+});
+
+module.exports = router;
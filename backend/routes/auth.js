@@ -10,6 +10,12 @@ const {
 } = require('../middleware/validation');
 const jwt = require('jsonwebtoken');
 const axios = require('axios');
+const {
+  readDeviceId,
+  rememberDevice,
+  ensureReferralCode,
+  recordSignupReferral,
+} = require('../services/referrals');
 
 const router = express.Router();
 
@@ -127,7 +133,7 @@ router.post(
   validate(userRegistrationSchema),
   async (req, res) => {
     try {
-      const { name, email, password, phone, role } = req.body;
+      const { name, email, password, phone, role, referralCode } = req.body;
 
       // Check if user already exists
       const existingUser = await Users.findOne({ email });
@@ -158,6 +164,16 @@ router.post(
       const user = new Users(userData);
       await user.save();
 
+      // Referrals never hold up a signup; failures are only logged
+      try {
+        const deviceId = readDeviceId(req);
+        await recordSignupReferral({ user, code: referralCode, deviceId });
+        await rememberDevice(user, deviceId);
+        user.referralCode = await ensureReferralCode(user);
+      } catch (referralError) {
+        console.error('Referral setup error:', referralError);
+      }
+
       // Generate token
       const token = generateToken(user._id, user.role);
 
@@ -223,6 +239,8 @@ router.post(
         });
       }
 
+      await rememberDevice(user, readDeviceId(req));
+
       // Generate token
       const token = generateToken(user._id, user.role);
 
@@ -0,0 +1,260 @@
+const express = require('express');
+const Courses = require('../Model/course');
+const { authenticateToken } = require('../middleware/auth');
+const {
+  quoteCourse,
+  startCheckout,
+  confirmPayment,
+  refreshOrder,
+  startInstallmentPayment,
+  simulateMockPayment,
+} = require('../services/checkout');
+const { readDeviceId } = require('../services/referrals');
+const { resolveCurrency } = require('../services/currency');
+
+const router = express.Router();
+
+const toInstallmentEntry = (installment) => ({
+  number: installment.number,
+  amount: installment.amount,
+  dueAt: installment.dueAt,
+  status: installment.status,
+  paidAt: installment.paidAt,
+});
+
+const toOrderSummary = (order) => ({
+  id: order.id,
+  status: order.status,
+  currency: order.currency,
+  subtotalAmount: order.subtotalAmount,
+  discountAmount: order.discountAmount,
+  taxAmount: order.taxAmount,
+  totalAmount: order.totalAmount,
+  couponId: order.couponId,
+  paymentId: order.paymentId,
+  gateway: order.gateway,
+  installments: order.installments.map(toInstallmentEntry),
+  accessSuspendedAt: order.accessSuspendedAt,
+  isGift: order.isGift,
+  seatCount: order.seatCount,
+  organizationId: order.organizationId,
+  createdAt: order.createdAt,
+});
+
+// Service errors carry their own status; anything else is a 500
+const sendError = (res, error, message) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+      reason: error.reason,
+    });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    message,
+    error: error.message,
+  });
+};
+
+const loadCourse = async (req, res, next) => {
+  try {
+    const { courseId } = req.body;
+    const course = courseId && (await Courses.findByIdOrSlug(courseId));
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found',
+      });
+    }
+    req.course = course;
+    next();
+  } catch (error) {
+    sendError(res, error, 'Error loading course');
+  }
+};
+
+// The currency asked for, else the buyer's preference or billing country
+const checkoutCurrency = (req) =>
+  resolveCurrency({ requested: req.body.currency, user: req.user });
+
+/**
+ * @route   POST /checkout/quote
+ * @desc    Price breakdown for a course in a currency, with an optional coupon
+ *          code or installment plan (planId), for a number of seats
+ * @access  Private (JWT required)
+ */
+router.post('/quote', authenticateToken, loadCourse, async (req, res) => {
+  try {
+    const quote = await quoteCourse(
+      req.course,
+      req.body.couponCode,
+      req.user,
+      checkoutCurrency(req),
+      req.body.planId,
+      Math.max(parseInt(req.body.seats, 10) || 1, 1)
+    );
+    const { totals, placeOfSupply, supplyType, intraState, lines } = quote.tax;
+    res.status(200).json({
+      success: true,
+      data: {
+        courseId: req.course._id,
+        courseTitle: req.course.title,
+        couponCode: quote.coupon ? quote.coupon.code : null,
+        currency: quote.currency,
+        seats: quote.seats,
+        unitAmount: quote.unitAmount,
+        subtotalAmount: quote.subtotalAmount,
+        discountAmount: quote.discountAmount,
+        taxInclusive: lines[0].inclusive,
+        taxRate: lines[0].rate,
+        placeOfSupply: placeOfSupply.state,
+        supplyType,
+        intraState,
+        taxableAmount: totals.taxableAmount,
+        cgstAmount: totals.cgstAmount,
+        sgstAmount: totals.sgstAmount,
+        igstAmount: totals.igstAmount,
+        taxAmount: totals.taxAmount,
+        totalAmount: quote.totalAmount,
+        planId: quote.plan ? quote.plan.id : null,
+        installments: quote.installments
+          ? quote.installments.map(toInstallmentEntry)
+          : null,
+      },
+    });
+  } catch (error) {
+    sendError(res, error, 'Error calculating price');
+  }
+});
+
+/**
+ * @route   POST /checkout
+ * @desc    Create an order for a course and open it with the payment gateway
+ *          (for the first installment when a planId is given), as a gift
+ *          when gift { recipientEmail, message } is given, or as seats for
+ *          an organization when seats { quantity, organizationId or
+ *          organizationName } is given
+ * @access  Private (JWT required)
+ */
+router.post('/', authenticateToken, loadCourse, async (req, res) => {
+  try {
+    const { order, checkout } = await startCheckout({
+      user: req.user,
+      course: req.course,
+      couponCode: req.body.couponCode,
+      planId: req.body.planId,
+      currency: checkoutCurrency(req),
+      attribution: req.body.attribution,
+      deviceId: readDeviceId(req),
+      gift: req.body.gift,
+      seats: req.body.seats,
+    });
+    res.status(201).json({
+      success: true,
+      message: order.status === 'paid' ? 'Order completed' : 'Order created',
+      data: { ...toOrderSummary(order), checkout },
+    });
+  } catch (error) {
+    sendError(res, error, 'Error creating order');
+  }
+});
+
+/**
+ * @route   GET /checkout/:orderId
+ * @desc    Order status, re-checked with the gateway while payment is pending
+ * @access  Private (JWT required)
+ */
+router.get('/:orderId', authenticateToken, async (req, res) => {
+  try {
+    const order = await refreshOrder(req.user, req.params.orderId);
+    res.status(200).json({
+      success: true,
+      data: toOrderSummary(order),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error fetching order');
+  }
+});
+
+/**
+ * @route   POST /checkout/:orderId/confirm
+ * @desc    Verify the gateway's payment signature and record the payment
+ * @access  Private (JWT required)
+ */
+router.post('/:orderId/confirm', authenticateToken, async (req, res) => {
+  try {
+    const { gatewayPaymentId, signature } = req.body;
+    const { order, payment } = await confirmPayment({
+      user: req.user,
+      orderId: req.params.orderId,
+      gatewayPaymentId,
+      signature,
+    });
+
+    const messages = {
+      captured: 'Payment captured',
+      failed: 'Payment failed',
+      initiated: 'Payment is being processed',
+    };
+    res.status(200).json({
+      success: true,
+      message: messages[payment.status] || 'Payment recorded',
+      data: { ...toOrderSummary(order), paymentStatus: payment.status },
+    });
+  } catch (error) {
+    sendError(res, error, 'Error confirming payment');
+  }
+});
+
+/**
+ * @route   POST /checkout/:orderId/installments/next
+ * @desc    Open the next unpaid installment of an order with the payment gateway
+ * @access  Private (JWT required)
+ */
+router.post(
+  '/:orderId/installments/next',
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const { order, checkout } = await startInstallmentPayment(
+        req.user,
+        req.params.orderId
+      );
+      res.status(200).json({
+        success: true,
+        data: { ...toOrderSummary(order), checkout },
+      });
+    } catch (error) {
+      sendError(res, error, 'Error starting installment payment');
+    }
+  }
+);
+
+/**
+ * @route   POST /checkout/mock/:gatewayOrderId/pay
+ * @desc    Mock gateway's payment page: pay with outcome success, failure or delayed
+ * @access  Private (JWT required, only with MOCK_GATEWAY_ENABLED)
+ */
+router.post(
+  '/mock/:gatewayOrderId/pay',
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const result = await simulateMockPayment({
+        user: req.user,
+        gatewayOrderId: req.params.gatewayOrderId,
+        outcome: req.body.outcome,
+      });
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      sendError(res, error, 'Error simulating payment');
+    }
+  }
+);
+
+module.exports = router;
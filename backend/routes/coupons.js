@@ -0,0 +1,466 @@
+const express = require('express');
+const Courses = require('../Model/course');
+const Coupon = require('../Model/coupon');
+const CouponRedemption = require('../Model/couponRedemption');
+const {
+  authenticateToken,
+  optionalAuth,
+  requireAdmin,
+} = require('../middleware/auth');
+const { applyCoupon, describeCoupon } = require('../services/coupons');
+const { BASE_CURRENCY, normalizeCurrency } = require('../services/currency');
+
+const router = express.Router();
+
+// Coupon rejections carry a status code and a reason code for the client
+const sendError = (res, error, message) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+      reason: error.reason,
+    });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    message,
+    error: error.message,
+  });
+};
+
+// Cart for coupon checks: courses by id or slug, or else a bare amount, in the
+// currency's major unit. Resolves to undefined when neither is given, and null
+// if a course is unknown; rejects if a course isn't sold in the currency.
+const loadCart = async ({ courseIds, totalAmount, currency }) => {
+  const ids = Array.isArray(courseIds)
+    ? courseIds
+    : String(courseIds || '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean);
+
+  if (ids.length > 0) {
+    const courses = await Promise.all(
+      ids.map((id) => Courses.findByIdOrSlug(String(id)))
+    );
+    if (courses.some((course) => !course)) return null;
+
+    const unpriced = courses.find(
+      (course) => course.priceIn(currency) === null
+    );
+    if (unpriced) {
+      throw Object.assign(
+        new Error(`${unpriced.title} is not sold in ${currency}`),
+        { statusCode: 400, reason: 'currency_not_supported' }
+      );
+    }
+    return courses.map((course) => ({
+      courseId: course._id,
+      price: course.priceIn(currency),
+    }));
+  }
+  if (totalAmount !== undefined && totalAmount !== '') {
+    return [{ courseId: null, price: Number(totalAmount) }];
+  }
+  return undefined;
+};
+
+// Coupon rules from a create/update request; only the fields present are returned.
+// Resolves to { rules } or { error } with a message for a 400.
+const readCouponRules = async (body) => {
+  const rules = {};
+  const optionalNumber = (value) =>
+    value === null || value === '' ? null : Number(value);
+
+  if (body.courseIds !== undefined) {
+    const ids = Array.isArray(body.courseIds) ? body.courseIds : [];
+    const courses = await Promise.all(
+      ids.map((id) => Courses.findByIdOrSlug(String(id)))
+    );
+    if (courses.some((course) => !course)) {
+      return { error: 'Every course in courseIds must exist' };
+    }
+    rules.courseIds = courses.map((course) => course._id);
+  }
+
+  if (body.perUserLimit !== undefined) {
+    const limit = optionalNumber(body.perUserLimit);
+    if (limit !== null && !(Number.isInteger(limit) && limit >= 1)) {
+      return { error: 'Per-user limit must be a whole number of at least 1' };
+    }
+    rules.perUserLimit = limit;
+  }
+
+  if (body.minOrderAmount !== undefined) {
+    const amount = optionalNumber(body.minOrderAmount) || 0;
+    if (!(amount >= 0)) {
+      return { error: 'Minimum order amount must be non-negative' };
+    }
+    rules.minOrderAmount = amount;
+  }
+
+  if (body.maxDiscountAmount !== undefined) {
+    const cap = optionalNumber(body.maxDiscountAmount);
+    if (cap !== null && !(cap >= 0)) {
+      return { error: 'Maximum discount must be non-negative' };
+    }
+    rules.maxDiscountAmount = cap;
+  }
+
+  if (body.firstPurchaseOnly !== undefined) {
+    rules.firstPurchaseOnly =
+      body.firstPurchaseOnly === true || body.firstPurchaseOnly === 'true';
+  }
+
+  // Amounts for paying in other currencies: [{ currency, discountValue, maxDiscountAmount, minOrderAmount }]
+  if (body.currencyValues !== undefined) {
+    if (!Array.isArray(body.currencyValues)) {
+      return {
+        error:
+          'Currency values must be a list of { currency, discountValue, maxDiscountAmount, minOrderAmount }',
+      };
+    }
+    const currencyValues = [];
+    for (const entry of body.currencyValues) {
+      const currency = normalizeCurrency(entry && entry.currency);
+      if (!currency || currency === BASE_CURRENCY) {
+        return {
+          error: `Currency values need a supported currency other than ${BASE_CURRENCY}`,
+        };
+      }
+      if (currencyValues.some((values) => values.currency === currency)) {
+        return { error: `${currency} is listed more than once` };
+      }
+      const values = {
+        currency,
+        discountValue: optionalNumber(entry.discountValue ?? null),
+        maxDiscountAmount: optionalNumber(entry.maxDiscountAmount ?? null),
+        minOrderAmount: optionalNumber(entry.minOrderAmount ?? null) || 0,
+      };
+      if (
+        [
+          values.discountValue,
+          values.maxDiscountAmount,
+          values.minOrderAmount,
+        ].some((amount) => amount !== null && !(amount >= 0))
+      ) {
+        return { error: `${currency} amounts must be non-negative` };
+      }
+      currencyValues.push(values);
+    }
+    rules.currencyValues = currencyValues;
+  }
+
+  return { rules };
+};
+
+// Why a discount type and value can't be used together, or null if they can
+const checkDiscount = (discountType, discountValue) => {
+  if (!['percentage', 'fixed'].includes(discountType)) {
+    return 'Discount type must be either "percentage" or "fixed"';
+  }
+  if (!(Number(discountValue) > 0)) {
+    return 'Discount value must be greater than 0';
+  }
+  if (discountType === 'percentage' && Number(discountValue) > 100) {
+    return 'Percentage discount cannot be more than 100';
+  }
+  return null;
+};
+
+const sendBadRequest = (res, message) =>
+  res.status(400).json({
+    success: false,
+    message,
+  });
+
+const sendDuplicateCode = (res) =>
+  res.status(409).json({
+    success: false,
+    message: 'Coupon code already exists',
+  });
+
+/**
+ * @route   GET /coupons/validate/:code
+ * @desc    Check a coupon for the logged-in user (per-user and first-purchase
+ *          rules need one) and a cart (?courseIds=a,b or ?totalAmount=),
+ *          priced in ?currency= (INR by default)
+ * @access  Public (optional JWT)
+ */
+router.get('/validate/:code', optionalAuth, async (req, res) => {
+  try {
+    const currency = normalizeCurrency(req.query.currency) || BASE_CURRENCY;
+    const items = await loadCart({ ...req.query, currency });
+    if (items === null) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found',
+      });
+    }
+
+    const { coupon, discount } = await applyCoupon({
+      code: req.params.code,
+      user: req.user || null,
+      items,
+      currency,
+    });
+    res.status(200).json({
+      success: true,
+      message: 'Coupon is valid',
+      data: {
+        ...describeCoupon(coupon),
+        isValid: true,
+        currency,
+        discountAmount: discount,
+      },
+    });
+  } catch (error) {
+    sendError(res, error, 'Error validating coupon');
+  }
+});
+
+/**
+ * @route   POST /coupons/calculate-discount
+ * @desc    Discount of a coupon (couponCode) for the logged-in user and a cart
+ *          (courseIds, or a bare totalAmount) in the body's currency
+ * @access  Public (optional JWT)
+ */
+router.post('/calculate-discount', optionalAuth, async (req, res) => {
+  try {
+    const { couponCode, totalAmount, courseIds } = req.body;
+    const currency = normalizeCurrency(req.body.currency) || BASE_CURRENCY;
+
+    if (!couponCode || (totalAmount === undefined && !courseIds)) {
+      return res.status(400).json({
+        success: false,
+        message:
+          'Coupon code and either course IDs or a total amount are required',
+      });
+    }
+    if (totalAmount !== undefined && !(Number(totalAmount) >= 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Total amount must be non-negative',
+      });
+    }
+
+    const items = await loadCart({ courseIds, totalAmount, currency });
+    if (!items) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found',
+      });
+    }
+
+    const { coupon, discount, eligibleAmount, subtotal } = await applyCoupon({
+      code: couponCode,
+      user: req.user || null,
+      items,
+      currency,
+    });
+    res.status(200).json({
+      success: true,
+      message: 'Discount calculated successfully',
+      data: {
+        couponCode: coupon.code,
+        currency,
+        originalAmount: subtotal,
+        eligibleAmount,
+        discountAmount: discount,
+        finalAmount: subtotal - discount,
+        discountType: coupon.discountType,
+        discountValue: coupon.discountValue,
+        maxDiscountAmount: coupon.maxDiscountAmount,
+      },
+    });
+  } catch (error) {
+    sendError(res, error, 'Error calculating discount');
+  }
+});
+
+/**
+ * @route   POST /coupons
+ * @desc    Create a coupon: code, discountType, discountValue, validFrom and
+ *          validTill, plus its usage limit and rules (courseIds, perUserLimit,
+ *          minOrderAmount, maxDiscountAmount, firstPurchaseOnly, currencyValues)
+ * @access  Private (admin)
+ */
+router.post('/', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { code, discountValue, validFrom, validTill, usageLimit } = req.body;
+    if (
+      !code ||
+      !req.body.discountType ||
+      discountValue === undefined ||
+      !validFrom ||
+      !validTill
+    ) {
+      return sendBadRequest(
+        res,
+        'Code, discount type, discount value, valid from, and valid till are required'
+      );
+    }
+
+    const discountType = String(req.body.discountType).toLowerCase();
+    const discountError = checkDiscount(discountType, discountValue);
+    if (discountError) {
+      return sendBadRequest(res, discountError);
+    }
+
+    const fromDate = new Date(validFrom);
+    const tillDate = new Date(validTill);
+    if (!(fromDate < tillDate)) {
+      return sendBadRequest(
+        res,
+        'Valid till date must be after valid from date'
+      );
+    }
+
+    const { rules, error: rulesError } = await readCouponRules(req.body);
+    if (rulesError) {
+      return sendBadRequest(res, rulesError);
+    }
+
+    const normalizedCode = String(code).toUpperCase().trim();
+    if (await Coupon.exists({ code: normalizedCode })) {
+      return sendDuplicateCode(res);
+    }
+
+    const coupon = await new Coupon({
+      code: normalizedCode,
+      discountType,
+      discountValue: Number(discountValue),
+      validFrom: fromDate,
+      validTill: tillDate,
+      usageLimit: usageLimit ? parseInt(usageLimit, 10) : null,
+      ...rules,
+    }).save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Coupon created successfully',
+      data: coupon,
+    });
+  } catch (error) {
+    if (error.code === 11000) return sendDuplicateCode(res);
+    sendError(res, error, 'Error creating coupon');
+  }
+});
+
+/**
+ * @route   PUT /coupons/:id
+ * @desc    Update a coupon; only the fields given change, rules included
+ * @access  Private (admin)
+ */
+router.put('/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { code, discountValue, validFrom, validTill, usageLimit, isActive } =
+      req.body;
+
+    const coupon = await Coupon.findOne({ id: req.params.id });
+    if (!coupon) {
+      return res.status(404).json({
+        success: false,
+        message: 'Coupon not found',
+      });
+    }
+
+    if (code) {
+      const normalizedCode = String(code).toUpperCase().trim();
+      if (
+        await Coupon.exists({ code: normalizedCode, id: { $ne: coupon.id } })
+      ) {
+        return sendDuplicateCode(res);
+      }
+      coupon.code = normalizedCode;
+    }
+
+    if (req.body.discountType || discountValue !== undefined) {
+      const discountType = req.body.discountType
+        ? String(req.body.discountType).toLowerCase()
+        : coupon.discountType;
+      const value =
+        discountValue !== undefined ? discountValue : coupon.discountValue;
+      const discountError = checkDiscount(discountType, value);
+      if (discountError) {
+        return sendBadRequest(res, discountError);
+      }
+      coupon.discountType = discountType;
+      coupon.discountValue = Number(value);
+    }
+
+    const fromDate = validFrom ? new Date(validFrom) : coupon.validFrom;
+    const tillDate = validTill ? new Date(validTill) : coupon.validTill;
+    if (!(fromDate < tillDate)) {
+      return sendBadRequest(
+        res,
+        'Valid till date must be after valid from date'
+      );
+    }
+    coupon.validFrom = fromDate;
+    coupon.validTill = tillDate;
+
+    if (usageLimit !== undefined) {
+      coupon.usageLimit = usageLimit ? parseInt(usageLimit, 10) : null;
+    }
+    if (isActive !== undefined) {
+      coupon.isActive = isActive === true || isActive === 'true';
+    }
+
+    const { rules, error: rulesError } = await readCouponRules(req.body);
+    if (rulesError) {
+      return sendBadRequest(res, rulesError);
+    }
+    coupon.set(rules);
+
+    const updated = await coupon.save();
+    res.status(200).json({
+      success: true,
+      message: 'Coupon updated successfully',
+      data: updated,
+    });
+  } catch (error) {
+    if (error.code === 11000) return sendDuplicateCode(res);
+    sendError(res, error, 'Error updating coupon');
+  }
+});
+
+/**
+ * @route   GET /coupons/:id/redemptions
+ * @desc    The coupon's redemption ledger, newest first (?status= reserved,
+ *          confirmed or released to filter)
+ * @access  Private (admin)
+ */
+router.get(
+  '/:id/redemptions',
+  authenticateToken,
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const coupon = await Coupon.findOne({ id: req.params.id });
+      if (!coupon) {
+        return res.status(404).json({
+          success: false,
+          message: 'Coupon not found',
+        });
+      }
+
+      const filter = { couponId: coupon.id };
+      if (req.query.status) filter.status = String(req.query.status);
+      const redemptions = await CouponRedemption.find(filter)
+        .populate('order')
+        .sort({ createdAt: -1 });
+
+      res.status(200).json({
+        success: true,
+        count: redemptions.length,
+        data: redemptions,
+      });
+    } catch (error) {
+      sendError(res, error, 'Error fetching coupon redemptions');
+    }
+  }
+);
+
+module.exports = router;
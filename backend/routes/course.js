@@ -1,15 +1,296 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const router = express.Router();
 const Courses = require('../Model/course');
+const Users = require('../Model/user');
+const Enrollment = require('../Model/enrollment');
+const {
+  authenticateToken,
+  optionalAuth,
+  requireAdmin,
+} = require('../middleware/auth');
+const {
+  hasActiveMembership,
+  hasCourseAccess,
+  getEnrolledCourseIds,
+  grantCourse,
+} = require('../services/entitlements');
+const { signTopicPages } = require('../services/signedUrls');
+const {
+  BASE_CURRENCY,
+  normalizeCurrency,
+  resolveCurrency,
+} = require('../services/currency');
+const { listPlans, describePlan } = require('../services/installments');
 
-// Get all courses
-router.get('/', async (req, res) => {
+// URL slug from a course title
+const generateSlug = (title) =>
+  String(title)
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, '')
+    .replace(/[\s_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// Price lists for currencies other than INR: [{ currency, amount }].
+// Returns { prices } or { error } with a message for a 400.
+const readPriceList = (list) => {
+  if (!Array.isArray(list)) {
+    return { error: 'Prices must be a list of { currency, amount }' };
+  }
+
+  const prices = [];
+  for (const entry of list) {
+    const currency = normalizeCurrency(entry && entry.currency);
+    const amount = Number(entry && entry.amount);
+    if (!currency || currency === BASE_CURRENCY) {
+      return {
+        error: `Prices need a supported currency other than ${BASE_CURRENCY}`,
+      };
+    }
+    if (prices.some((p) => p.currency === currency)) {
+      return { error: `${currency} is listed more than once` };
+    }
+    if (!(amount >= 0)) {
+      return { error: 'Price amounts must be non-negative' };
+    }
+    prices.push({ currency, amount });
+  }
+  return { prices };
+};
+
+// Course fields from an admin create/update request; only the fields present
+// are returned. Returns { fields } or { error } with a message for a 400.
+const readCourseFields = (body) => {
+  const fields = {};
+  if (body.title !== undefined) {
+    if (!String(body.title).trim()) return { error: 'Title cannot be empty' };
+    fields.title = String(body.title).trim();
+    fields.slug = generateSlug(fields.title);
+  }
+  if (body.description !== undefined) {
+    fields.description = String(body.description);
+  }
+  if (body.price !== undefined) {
+    const price = Number(body.price);
+    if (!(price >= 0)) return { error: 'Price must be non-negative' };
+    fields.price = price;
+  }
+  if (body.originalPrice !== undefined) {
+    fields.originalPrice = body.originalPrice
+      ? Number(body.originalPrice)
+      : null;
+  }
+  if (body.isActive !== undefined) {
+    fields.isActive = body.isActive === true || body.isActive === 'true';
+  }
+  if (body.prices !== undefined) {
+    const { prices, error } = readPriceList(body.prices);
+    if (error) return { error };
+    fields.prices = prices;
+  }
+  return { fields };
+};
+
+const sendBadRequest = (res, message) =>
+  res.status(400).json({
+    success: false,
+    message,
+  });
+
+// Load the course from :id and a fresh copy of the learner for progress writes
+const loadCourseAndUser = async (req, res, next) => {
+  try {
+    const course = await Courses.findByIdOrSlug(req.params.id);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found',
+      });
+    }
+
+    const user = await Users.findById(req.user._id).select('-passwordHash');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    req.course = course;
+    req.learner = user;
+    next();
+  } catch (error) {
+    console.error('Error loading course:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error loading course',
+      error: error.message,
+    });
+  }
+};
+
+// Reading and progress endpoints are only for learners who own the course
+const requireCourseAccess = async (req, res, next) => {
+  try {
+    if (!(await hasCourseAccess(req.learner, req.course))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this course',
+      });
+    }
+    next();
+  } catch (error) {
+    console.error('Error checking course access:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error checking course access',
+      error: error.message,
+    });
+  }
+};
+
+// Find (or start) the learner's progress entry for a course
+const getCourseProgress = (user, course) => {
+  let entry = user.coursesProgress.find(
+    (p) => p.courseId && p.courseId.equals(course._id)
+  );
+  if (!entry) {
+    user.coursesProgress.push({ courseId: course._id, topics: [] });
+    entry = user.coursesProgress[user.coursesProgress.length - 1];
+  }
+  return entry;
+};
+
+// Find (or start) the progress entry for a single topic
+const getTopicProgress = (entry, topicId) => {
+  let topic = entry.topics.find((t) => t.topicId && t.topicId.equals(topicId));
+  if (!topic) {
+    entry.topics.push({ topicId, viewedPages: [] });
+    topic = entry.topics[entry.topics.length - 1];
+  }
+  return topic;
+};
+
+// Overall percent is pages viewed across the whole course
+const recalculatePercent = (entry, course) => {
+  const totalPages = course.topics.reduce((sum, t) => sum + t.images.length, 0);
+  const viewed = entry.topics.reduce(
+    (sum, t) => sum + (t.viewedPages ? t.viewedPages.length : 0),
+    0
+  );
+  entry.percent = totalPages ? Math.round((viewed / totalPages) * 100) : 0;
+  entry.updatedAt = new Date();
+};
+
+// Only page indexes that exist in the topic are kept
+const sanitizePages = (pages, topic) => {
+  if (!Array.isArray(pages)) return [];
+  return [
+    ...new Set(
+      pages
+        .map((p) => parseInt(p, 10))
+        .filter((p) => Number.isInteger(p) && p >= 0 && p < topic.images.length)
+    ),
+  ];
+};
+
+// Catalog view of a course: topics are summarised rather than sent
+const toCatalogEntry = (course, user, { students, isEnrolled }) => {
+  const entry =
+    user &&
+    user.coursesProgress.find(
+      (p) => p.courseId && p.courseId.equals(course._id)
+    );
+  return {
+    _id: course._id,
+    title: course.title,
+    slug: course.slug,
+    description: course.description,
+    price: course.price,
+    prices: course.priceList(),
+    originalPrice: course.originalPrice,
+    instructor: course.instructor,
+    thumbnail: course.thumbnail,
+    category: course.category,
+    duration: course.duration,
+    rating: course.rating,
+    isActive: course.isActive,
+    topicsCount: course.topics.length,
+    // every page of the e-book counts as a lesson
+    lessonsCount: course.topics.reduce((sum, t) => sum + t.images.length, 0),
+    students,
+    isEnrolled,
+    progress: entry ? entry.percent : 0,
+    createdAt: course.createdAt,
+    updatedAt: course.updatedAt,
+  };
+};
+
+// Full course for the reader; page images are withheld from non-owners
+const toCourseDetail = (course, userHasAccess) => {
+  const data = course.toObject();
+  data.userHasAccess = userHasAccess;
+  data.topics = data.topics.map((topic) => ({
+    ...topic,
+    pagesCount: topic.images.length,
+    images: userHasAccess ? topic.images : [],
+  }));
+  return data;
+};
+
+const toProgressResponse = (entry) => {
+  const progress = {};
+  const viewedPages = {};
+  const completedTopics = {};
+  (entry ? entry.topics : []).forEach((t) => {
+    const key = t.topicId.toString();
+    progress[key] = t.percent;
+    viewedPages[key] = t.viewedPages;
+    if (t.completed) completedTopics[key] = true;
+  });
+  return {
+    overall: entry ? entry.percent : 0,
+    progress,
+    viewedPages,
+    completedTopics,
+  };
+};
+
+// Get the course catalog (enrollment and progress included when logged in;
+// members count as enrolled in everything), with the currency to show
+// prices in (?currency=, else the user's preference)
+router.get('/', optionalAuth, async (req, res) => {
   try {
-    const courses = await Courses.find({});
+    const courses = await Courses.find({ isActive: true }).sort({
+      createdAt: 1,
+    });
+
+    const counts = await Enrollment.aggregate([
+      { $match: { status: 'active' } },
+      { $group: { _id: '$courseId', students: { $sum: 1 } } },
+    ]);
+    const students = {};
+    counts.forEach((c) => {
+      students[c._id.toString()] = c.students;
+    });
+    const enrolled = await getEnrolledCourseIds(req.user);
+    const member = await hasActiveMembership(req.user);
+
     res.status(200).json({
       success: true,
       count: courses.length,
-      data: courses,
+      currency: resolveCurrency({
+        requested: req.query.currency,
+        user: req.user,
+      }),
+      data: courses.map((course) => {
+        const key = course._id.toString();
+        return toCatalogEntry(course, req.user, {
+          students: students[key] || 0,
+          isEnrolled: member || enrolled.has(key),
+        });
+      }),
     });
   } catch (error) {
     console.error('Error fetching courses:', error);
@@ -21,19 +302,21 @@ router.get('/', async (req, res) => {
   }
 });
 
-// Get course by ID
-router.get('/:id', async (req, res) => {
+// Get course by ID or slug (userHasAccess is computed for the caller)
+router.get('/:id', optionalAuth, async (req, res) => {
   try {
-    const course = await Courses.findById(req.params.id);
+    const course = await Courses.findByIdOrSlug(req.params.id);
     if (!course) {
       return res.status(404).json({
         success: false,
         message: 'Course not found',
       });
     }
+
+    const userHasAccess = await hasCourseAccess(req.user, course);
     res.status(200).json({
       success: true,
-      data: course,
+      data: toCourseDetail(course, userHasAccess),
     });
   } catch (error) {
     console.error('Error fetching course:', error);
@@ -45,4 +328,532 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+/**
+ * @route   POST /courses
+ * @desc    Create a course: title, description and INR price, with optional
+ *          originalPrice and price lists for other currencies (prices)
+ * @access  Private (admin)
+ */
+router.post('/', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { fields, error } = readCourseFields(req.body);
+    if (error) return sendBadRequest(res, error);
+    if (!fields.title || !fields.description || fields.price === undefined) {
+      return sendBadRequest(res, 'Title, description, and price are required');
+    }
+
+    if (await Courses.exists({ slug: fields.slug })) {
+      return res.status(409).json({
+        success: false,
+        message: 'Course with similar title already exists',
+      });
+    }
+
+    const course = await new Courses(fields).save();
+    res.status(201).json({
+      success: true,
+      message: 'Course created successfully',
+      data: course,
+    });
+  } catch (error) {
+    console.error('Error creating course:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error creating course',
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * @route   PUT /courses/:id
+ * @desc    Update a course's title, description, prices (INR price and the
+ *          validated price lists for other currencies) or whether it is listed
+ * @access  Private (admin)
+ */
+router.put('/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { fields, error } = readCourseFields(req.body);
+    if (error) return sendBadRequest(res, error);
+
+    const course = await Courses.findByIdOrSlug(req.params.id);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found',
+      });
+    }
+    if (
+      fields.slug &&
+      fields.slug !== course.slug &&
+      (await Courses.exists({ slug: fields.slug }))
+    ) {
+      return res.status(409).json({
+        success: false,
+        message: 'Course with similar title already exists',
+      });
+    }
+
+    course.set(fields);
+    const updated = await course.save();
+    res.status(200).json({
+      success: true,
+      message: 'Course updated successfully',
+      data: updated,
+    });
+  } catch (error) {
+    console.error('Error updating course:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating course',
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * @route   GET /courses/:id/installment-plans
+ * @desc    The installment plans a course can be bought with (paid in INR)
+ * @access  Public
+ */
+router.get('/:id/installment-plans', async (req, res) => {
+  try {
+    const course = await Courses.findByIdOrSlug(req.params.id);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found',
+      });
+    }
+
+    const plans = await listPlans(course);
+    res.status(200).json({
+      success: true,
+      data: plans.map(describePlan),
+    });
+  } catch (error) {
+    console.error('Error fetching installment plans:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching installment plans',
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * @route   POST /courses/:id/enroll
+ * @desc    Enroll in a free course, or start a paid one the user already has
+ *          access to (paid courses are granted by payment)
+ * @access  Private (JWT required)
+ */
+router.post(
+  '/:id/enroll',
+  authenticateToken,
+  loadCourseAndUser,
+  async (req, res) => {
+    try {
+      const { course, learner } = req;
+
+      if (course.price > 0 && !(await hasCourseAccess(learner, course))) {
+        return res.status(402).json({
+          success: false,
+          message: 'This course must be purchased before enrolling',
+        });
+      }
+
+      // Paid courses reached through a membership or seat stay tied to it,
+      // so nothing is recorded that would outlive it
+      if (
+        course.price === 0 &&
+        !(await Enrollment.findActive(learner._id, course._id))
+      ) {
+        await grantCourse(learner._id, course._id, { source: 'free' });
+      }
+      getCourseProgress(learner, course);
+      await learner.save();
+
+      const students = await Enrollment.countDocuments({
+        courseId: course._id,
+        status: 'active',
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Enrolled successfully',
+        data: toCatalogEntry(course, learner, { students, isEnrolled: true }),
+      });
+    } catch (error) {
+      console.error('Error enrolling in course:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error enrolling in course',
+        error: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /courses/:id/topics/:topicId/images
+ * @desc    Short-lived signed URLs for every page of a topic
+ * @access  Private (JWT required, course owners only)
+ */
+router.get(
+  '/:id/topics/:topicId/images',
+  authenticateToken,
+  loadCourseAndUser,
+  requireCourseAccess,
+  (req, res) => {
+    const { course, learner } = req;
+    const topic = mongoose.isObjectIdOrHexString(req.params.topicId)
+      ? course.topics.id(req.params.topicId)
+      : null;
+    if (!topic) {
+      return res.status(404).json({
+        success: false,
+        message: 'Topic not found',
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: signTopicPages(course, topic, learner),
+    });
+  }
+);
+
+/**
+ * @route   GET /courses/:id/progress
+ * @desc    Per-topic progress, viewed pages and completed topics
+ * @access  Private (JWT required)
+ */
+router.get(
+  '/:id/progress',
+  authenticateToken,
+  loadCourseAndUser,
+  requireCourseAccess,
+  (req, res) => {
+    const entry = req.learner.coursesProgress.find(
+      (p) => p.courseId && p.courseId.equals(req.course._id)
+    );
+    res.status(200).json({
+      success: true,
+      data: toProgressResponse(entry),
+    });
+  }
+);
+
+/**
+ * @route   POST /courses/:id/progress
+ * @desc    Merge viewed pages and per-topic percent into stored progress
+ * @access  Private (JWT required)
+ */
+router.post(
+  '/:id/progress',
+  authenticateToken,
+  loadCourseAndUser,
+  requireCourseAccess,
+  async (req, res) => {
+    try {
+      const { perTopic = {}, viewedPages = {} } = req.body;
+      const { course, learner } = req;
+      const entry = getCourseProgress(learner, course);
+
+      course.topics.forEach((topic) => {
+        const key = topic._id.toString();
+        if (perTopic[key] === undefined && viewedPages[key] === undefined) {
+          return;
+        }
+
+        const topicProgress = getTopicProgress(entry, topic._id);
+        const pages = sanitizePages(viewedPages[key], topic);
+        if (pages.length) {
+          topicProgress.viewedPages = [
+            ...new Set([...topicProgress.viewedPages, ...pages]),
+          ];
+        }
+
+        const percent = Number(perTopic[key]);
+        if (Number.isFinite(percent)) {
+          topicProgress.percent = Math.max(
+            topicProgress.percent,
+            Math.min(100, Math.max(0, Math.round(percent)))
+          );
+        }
+        if (topicProgress.percent === 100) topicProgress.completed = true;
+        topicProgress.lastSeenAt = new Date();
+      });
+
+      recalculatePercent(entry, course);
+      await learner.save();
+
+      res.status(200).json({
+        success: true,
+        message: 'Progress saved',
+        data: toProgressResponse(entry),
+      });
+    } catch (error) {
+      console.error('Error saving progress:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error saving progress',
+        error: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /courses/:id/bookmark
+ * @desc    Last page the learner was on (most recently seen topic)
+ * @access  Private (JWT required)
+ */
+router.get(
+  '/:id/bookmark',
+  authenticateToken,
+  loadCourseAndUser,
+  requireCourseAccess,
+  (req, res) => {
+    const entry = req.learner.coursesProgress.find(
+      (p) => p.courseId && p.courseId.equals(req.course._id)
+    );
+    const last = (entry ? entry.topics : [])
+      .filter((t) => t.lastSeenAt)
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt)[0];
+
+    res.status(200).json({
+      success: true,
+      data: {
+        bookmark: last
+          ? {
+              topicId: last.topicId.toString(),
+              imageIndex: last.lastImageIndex,
+            }
+          : null,
+      },
+    });
+  }
+);
+
+/**
+ * @route   POST /courses/:id/bookmark
+ * @desc    Save the current topic and page
+ * @access  Private (JWT required)
+ */
+router.post(
+  '/:id/bookmark',
+  authenticateToken,
+  loadCourseAndUser,
+  requireCourseAccess,
+  async (req, res) => {
+    try {
+      const { topicId, imageIndex } = req.body;
+      const { course, learner } = req;
+
+      const topic = mongoose.isObjectIdOrHexString(topicId)
+        ? course.topics.id(topicId)
+        : null;
+      if (!topic) {
+        return res.status(404).json({
+          success: false,
+          message: 'Topic not found',
+        });
+      }
+
+      const index = parseInt(imageIndex, 10);
+      if (
+        !Number.isInteger(index) ||
+        index < 0 ||
+        index >= topic.images.length
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid page index',
+        });
+      }
+
+      const entry = getCourseProgress(learner, course);
+      const topicProgress = getTopicProgress(entry, topic._id);
+      topicProgress.lastImageIndex = index;
+      topicProgress.lastSeenAt = new Date();
+      if (!topicProgress.viewedPages.includes(index)) {
+        topicProgress.viewedPages.push(index);
+      }
+
+      recalculatePercent(entry, course);
+      await learner.save();
+
+      res.status(200).json({
+        success: true,
+        message: 'Bookmark saved',
+        data: {
+          bookmark: { topicId: topic._id.toString(), imageIndex: index },
+        },
+      });
+    } catch (error) {
+      console.error('Error saving bookmark:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error saving bookmark',
+        error: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * @route   POST /courses/:id/topics/:topicId/complete
+ * @desc    Mark a topic complete (all of its pages count as viewed)
+ * @access  Private (JWT required)
+ */
+router.post(
+  '/:id/topics/:topicId/complete',
+  authenticateToken,
+  loadCourseAndUser,
+  requireCourseAccess,
+  async (req, res) => {
+    try {
+      const { course, learner } = req;
+      const topic = mongoose.isObjectIdOrHexString(req.params.topicId)
+        ? course.topics.id(req.params.topicId)
+        : null;
+      if (!topic) {
+        return res.status(404).json({
+          success: false,
+          message: 'Topic not found',
+        });
+      }
+
+      const entry = getCourseProgress(learner, course);
+      const topicProgress = getTopicProgress(entry, topic._id);
+      topicProgress.percent = 100;
+      topicProgress.completed = true;
+      topicProgress.viewedPages = topic.images.map((_, i) => i);
+      topicProgress.lastSeenAt = new Date();
+
+      recalculatePercent(entry, course);
+      await learner.save();
+
+      res.status(200).json({
+        success: true,
+        message: 'Topic marked complete',
+        data: toProgressResponse(entry),
+      });
+    } catch (error) {
+      console.error('Error completing topic:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error completing topic',
+        error: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /courses/:id/notes
+ * @desc    Learner's notes for the course, keyed by topic then page
+ * @access  Private (JWT required)
+ */
+router.get(
+  '/:id/notes',
+  authenticateToken,
+  loadCourseAndUser,
+  requireCourseAccess,
+  (req, res) => {
+    const notes = {};
+    req.learner.notes
+      .filter((n) => n.courseId && n.courseId.equals(req.course._id))
+      .forEach((n) => {
+        const key = n.topicId.toString();
+        notes[key] = notes[key] || {};
+        notes[key][n.imageIndex] = n.note;
+      });
+
+    res.status(200).json({
+      success: true,
+      data: { notes },
+    });
+  }
+);
+
+/**
+ * @route   POST /courses/:id/topics/:topicId/images/:imageIndex/note
+ * @desc    Save (or clear, when empty) the note for one page
+ * @access  Private (JWT required)
+ */
+router.post(
+  '/:id/topics/:topicId/images/:imageIndex/note',
+  authenticateToken,
+  loadCourseAndUser,
+  requireCourseAccess,
+  async (req, res) => {
+    try {
+      const { course, learner } = req;
+      const topic = mongoose.isObjectIdOrHexString(req.params.topicId)
+        ? course.topics.id(req.params.topicId)
+        : null;
+      if (!topic) {
+        return res.status(404).json({
+          success: false,
+          message: 'Topic not found',
+        });
+      }
+
+      const imageIndex = parseInt(req.params.imageIndex, 10);
+      if (
+        !Number.isInteger(imageIndex) ||
+        imageIndex < 0 ||
+        imageIndex >= topic.images.length
+      ) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid page index',
+        });
+      }
+
+      const text =
+        typeof req.body.note === 'string' ? req.body.note.trim() : '';
+      const existing = learner.notes.find(
+        (n) =>
+          n.courseId &&
+          n.courseId.equals(course._id) &&
+          n.topicId &&
+          n.topicId.equals(topic._id) &&
+          n.imageIndex === imageIndex
+      );
+
+      if (!text) {
+        if (existing) learner.notes.pull(existing._id);
+      } else if (existing) {
+        existing.note = text;
+        existing.updatedAt = new Date();
+      } else {
+        learner.notes.push({
+          courseId: course._id,
+          topicId: topic._id,
+          imageIndex,
+          note: text,
+        });
+      }
+
+      await learner.save();
+
+      res.status(200).json({
+        success: true,
+        message: text ? 'Note saved' : 'Note removed',
+        data: { topicId: topic._id.toString(), imageIndex, note: text },
+      });
+    } catch (error) {
+      console.error('Error saving note:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error saving note',
+        error: error.message,
+      });
+    }
+  }
+);
+
 module.exports = router;
@@ -0,0 +1,131 @@
+const express = require('express');
+const fs = require('fs/promises');
+const path = require('path');
+const axios = require('axios');
+const mongoose = require('mongoose');
+const Courses = require('../Model/course');
+const Users = require('../Model/user');
+const PageView = require('../Model/pageView');
+const { verifyPageUrl, getTtlSeconds } = require('../services/signedUrls');
+const { watermarkPage } = require('../services/watermark');
+
+const router = express.Router();
+
+// Page images are kept outside any static folder; Topic.images holds keys
+// like "/course/12.jpeg" relative to this directory (or a remote URL).
+const CONTENT_DIR = path.resolve(
+  process.env.COURSE_CONTENT_DIR || path.join(__dirname, '..', 'content')
+);
+
+const resolveContentPath = (key) => {
+  const relative = path.posix.normalize(`/${key}`).slice(1);
+  const filePath = path.resolve(CONTENT_DIR, relative);
+  return filePath.startsWith(CONTENT_DIR + path.sep) ? filePath : null;
+};
+
+// Raw bytes of a page, from local content or remote storage
+const readPageImage = async (image) => {
+  if (/^https?:\/\//i.test(image)) {
+    const upstream = await axios.get(image, { responseType: 'arraybuffer' });
+    return Buffer.from(upstream.data);
+  }
+
+  const filePath = resolveContentPath(image);
+  if (!filePath) return null;
+  try {
+    return await fs.readFile(filePath);
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+};
+
+/**
+ * @route   GET /course-images/:courseId/:topicId/:index
+ * @desc    Serve one e-book page, watermarked for the viewer, for a signed URL,
+ *          and record that the viewer has seen it
+ * @access  Signed URL (issued by GET /courses/:id/topics/:topicId/images)
+ */
+router.get('/:courseId/:topicId/:index', async (req, res) => {
+  try {
+    const { courseId, topicId, index } = req.params;
+    const { u: userId, exp: expires, sig } = req.query;
+
+    const rejection = verifyPageUrl({
+      courseId,
+      topicId,
+      index,
+      userId,
+      expires,
+      sig,
+    });
+    if (rejection) {
+      return res.status(403).json({
+        success: false,
+        message: rejection,
+      });
+    }
+
+    if (
+      !mongoose.isObjectIdOrHexString(courseId) ||
+      !mongoose.isObjectIdOrHexString(topicId)
+    ) {
+      return res.status(404).json({
+        success: false,
+        message: 'Page not found',
+      });
+    }
+
+    const course = await Courses.findById(courseId);
+    const topic = course && course.topics.id(topicId);
+    const image = topic && topic.images[parseInt(index, 10)];
+    if (!image) {
+      return res.status(404).json({
+        success: false,
+        message: 'Page not found',
+      });
+    }
+
+    const viewer = await Users.findById(userId).select('email phone');
+    if (!viewer) {
+      return res.status(403).json({
+        success: false,
+        message: 'Invalid signature',
+      });
+    }
+
+    // Every page is stamped with the viewer's identity so leaks are traceable
+    const page = await watermarkPage({
+      user: viewer,
+      pageKey: `${courseId}:${topicId}:${index}:${image}`,
+      loadSource: () => readPageImage(image),
+    });
+    if (!page) {
+      return res.status(404).json({
+        success: false,
+        message: 'Page not found',
+      });
+    }
+
+    // Recorded here rather than trusted from the client: the refund policy
+    // judges how much was read from these
+    await PageView.record({
+      userId: viewer._id,
+      courseId: course._id,
+      topicId: topic._id,
+      index: parseInt(index, 10),
+    });
+
+    res.set('Cache-Control', `private, max-age=${getTtlSeconds()}`);
+    res.type('image/jpeg').send(page);
+  } catch (error) {
+    console.error('Error serving course image:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error serving course image',
+      error: error.message,
+    });
+  }
+});
+
+module.exports = router;
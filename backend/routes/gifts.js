@@ -0,0 +1,80 @@
+const express = require('express');
+const { authenticateToken } = require('../middleware/auth');
+const {
+  findGift,
+  redeemGift,
+  previewGift,
+  listSentGifts,
+} = require('../services/gifts');
+
+const router = express.Router();
+
+// Service errors carry their own status; anything else is a 500
+const sendError = (res, error, message) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+    });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    message,
+    error: error.message,
+  });
+};
+
+/**
+ * @route   GET /gifts/sent
+ * @desc    Courses the logged-in user has bought as gifts, with their codes
+ * @access  Private (JWT required)
+ */
+router.get('/sent', authenticateToken, async (req, res) => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: await listSentGifts(req.user),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error fetching gifts');
+  }
+});
+
+/**
+ * @route   GET /gifts/:code
+ * @desc    The course, sender and message behind a gift code, and whether it
+ *          can still be redeemed
+ * @access  Private (JWT required)
+ */
+router.get('/:code', authenticateToken, async (req, res) => {
+  try {
+    const gift = await findGift(req.params.code);
+    res.status(200).json({
+      success: true,
+      data: previewGift(gift),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error fetching gift');
+  }
+});
+
+/**
+ * @route   POST /gifts/redeem
+ * @desc    Redeem a gift code, granting its course to the logged-in user
+ * @access  Private (JWT required)
+ */
+router.post('/redeem', authenticateToken, async (req, res) => {
+  try {
+    const gift = await redeemGift(req.user, req.body.code);
+    res.status(200).json({
+      success: true,
+      message: `${gift.courseId.title} has been added to your courses`,
+      data: previewGift(gift),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error redeeming gift');
+  }
+});
+
+module.exports = router;
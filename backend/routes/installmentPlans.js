@@ -0,0 +1,104 @@
+const express = require('express');
+const Courses = require('../Model/course');
+const InstallmentPlan = require('../Model/installmentPlan');
+const { authenticateToken, requireAdmin } = require('../middleware/auth');
+const {
+  describePlan,
+  createPlan,
+  updatePlan,
+} = require('../services/installments');
+
+const router = express.Router();
+
+// Service errors carry their own status; anything else is a 500
+const sendError = (res, error, message) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+    });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    message,
+    error: error.message,
+  });
+};
+
+/**
+ * @route   GET /installment-plans
+ * @desc    All installment plans, active or not (?courseId= for one course)
+ * @access  Private (admin)
+ */
+router.get('/', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const filter = {};
+    if (req.query.courseId) {
+      const course = await Courses.findByIdOrSlug(req.query.courseId);
+      if (!course) {
+        return res.status(404).json({
+          success: false,
+          message: 'Course not found',
+        });
+      }
+      filter.courseId = course._id;
+    }
+
+    const plans = await InstallmentPlan.find(filter).sort({ createdAt: -1 });
+    res.status(200).json({
+      success: true,
+      count: plans.length,
+      data: plans.map(describePlan),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error fetching installment plans');
+  }
+});
+
+/**
+ * @route   POST /installment-plans
+ * @desc    Offer a course in installments, e.g. 3 × ₹550 every 30 days
+ * @access  Private (admin)
+ */
+router.post('/', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const course =
+      req.body.courseId && (await Courses.findByIdOrSlug(req.body.courseId));
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found',
+      });
+    }
+
+    const plan = await createPlan(course, req.body);
+    res.status(201).json({
+      success: true,
+      message: 'Installment plan created successfully',
+      data: describePlan(plan),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error creating installment plan');
+  }
+});
+
+/**
+ * @route   PUT /installment-plans/:id
+ * @desc    Change a plan or switch it off; orders already placed keep their schedule
+ * @access  Private (admin)
+ */
+router.put('/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const plan = await updatePlan(Number(req.params.id), req.body);
+    res.status(200).json({
+      success: true,
+      message: 'Installment plan updated successfully',
+      data: describePlan(plan),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error updating installment plan');
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,191 @@
+const express = require('express');
+const Subscription = require('../Model/subscription');
+const { authenticateToken, requireAdmin } = require('../middleware/auth');
+const {
+  listPlans,
+  findPlan,
+  getMembership,
+  cancelMembership,
+  resumeMembership,
+  describePlan,
+  createPlan,
+  updatePlan,
+} = require('../services/memberships');
+const { startMembershipCheckout } = require('../services/checkout');
+
+const router = express.Router();
+
+// Service errors carry their own status; anything else is a 500
+const sendError = (res, error, message) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+    });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    message,
+    error: error.message,
+  });
+};
+
+/**
+ * @route   GET /memberships/plans
+ * @desc    The All Access plans on sale (prices in rupees per period)
+ * @access  Public
+ */
+router.get('/plans', async (req, res) => {
+  try {
+    const plans = await listPlans();
+    res.status(200).json({
+      success: true,
+      data: plans.map(describePlan),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error fetching membership plans');
+  }
+});
+
+/**
+ * @route   GET /memberships/me
+ * @desc    The logged-in user's membership, or null if they never had one
+ * @access  Private (JWT required)
+ */
+router.get('/me', authenticateToken, async (req, res) => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: await getMembership(req.user),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error fetching membership');
+  }
+});
+
+/**
+ * @route   POST /memberships/checkout
+ * @desc    Order a membership period on a plan (joining, or renewing once due)
+ *          and open it with the payment gateway; confirm through /checkout
+ * @access  Private (JWT required)
+ */
+router.post('/checkout', authenticateToken, async (req, res) => {
+  try {
+    const plan = await findPlan(req.body.planId);
+    const { subscription, order, checkout } = await startMembershipCheckout({
+      user: req.user,
+      plan,
+    });
+    res.status(201).json({
+      success: true,
+      message: 'Order created',
+      data: {
+        id: order.id,
+        status: order.status,
+        currency: order.currency,
+        totalAmount: order.totalAmount,
+        subscriptionId: subscription.id,
+        installments: [],
+        checkout,
+      },
+    });
+  } catch (error) {
+    sendError(res, error, 'Error creating membership order');
+  }
+});
+
+/**
+ * @route   POST /memberships/cancel
+ * @desc    Stop the membership renewing; access continues to the end of the paid period
+ * @access  Private (JWT required)
+ */
+router.post('/cancel', authenticateToken, async (req, res) => {
+  try {
+    await cancelMembership(req.user);
+    res.status(200).json({
+      success: true,
+      message: 'Membership cancelled',
+      data: await getMembership(req.user),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error cancelling membership');
+  }
+});
+
+/**
+ * @route   POST /memberships/resume
+ * @desc    Undo a cancellation before the paid period ends
+ * @access  Private (JWT required)
+ */
+router.post('/resume', authenticateToken, async (req, res) => {
+  try {
+    await resumeMembership(req.user);
+    res.status(200).json({
+      success: true,
+      message: 'Membership resumed',
+      data: await getMembership(req.user),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error resuming membership');
+  }
+});
+
+/**
+ * @route   POST /memberships/plans
+ * @desc    Create a membership plan (interval month or year, price in rupees)
+ * @access  Private (admin)
+ */
+router.post('/plans', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const plan = await createPlan(req.body);
+    res.status(201).json({
+      success: true,
+      message: 'Membership plan created successfully',
+      data: describePlan(plan),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error creating membership plan');
+  }
+});
+
+/**
+ * @route   PUT /memberships/plans/:id
+ * @desc    Update or retire a plan; members pay the new price from their next renewal
+ * @access  Private (admin)
+ */
+router.put('/plans/:id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const plan = await updatePlan(Number(req.params.id), req.body);
+    res.status(200).json({
+      success: true,
+      message: 'Membership plan updated successfully',
+      data: describePlan(plan),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error updating membership plan');
+  }
+});
+
+/**
+ * @route   GET /memberships
+ * @desc    All memberships, newest first (?status= to filter)
+ * @access  Private (admin)
+ */
+router.get('/', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const filter = req.query.status ? { status: req.query.status } : {};
+    const subscriptions = await Subscription.find(filter)
+      .sort({ createdAt: -1 })
+      .populate('userId', 'name email');
+    res.status(200).json({
+      success: true,
+      count: subscriptions.length,
+      data: subscriptions,
+    });
+  } catch (error) {
+    sendError(res, error, 'Error fetching memberships');
+  }
+});
+
+module.exports = router;
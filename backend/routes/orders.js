@@ -0,0 +1,498 @@
+const express = require('express');
+const Order = require('../Model/order');
+const OrderItem = require('../Model/orderItem');
+const Invoice = require('../Model/invoice');
+const Payment = require('../Model/payment');
+const Coupon = require('../Model/coupon');
+const Refund = require('../Model/refund');
+const CreditNote = require('../Model/creditNote');
+const StatusTransition = require('../Model/statusTransition');
+const { authenticateToken, requireAdmin } = require('../middleware/auth');
+const { issueInvoice, getInvoicePdf } = require('../services/invoices');
+const { getOrderRefundableAmount } = require('../services/refunds');
+const { setOrderStatus } = require('../services/orderStates');
+
+const router = express.Router();
+
+// Orders that have (or had) an invoice: paid, and later refunded
+const INVOICED_STATUSES = ['paid', 'refunded'];
+
+// Service errors (state machine refusals among them) carry their own status;
+// anything else is a 500
+const sendError = (res, error, message) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+    });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    message,
+    error: error.message,
+  });
+};
+
+// Audit context for status changes made by an admin
+const adminContext = (req, reason) => ({
+  actor: { type: 'admin', id: req.user._id.toString() },
+  reason: req.body.reason || reason,
+});
+
+const toOrderEntry = (order, items, invoice, refunds, refundableAmount) => ({
+  id: order.id,
+  status: order.status,
+  currency: order.currency,
+  subtotalAmount: order.subtotalAmount,
+  discountAmount: order.discountAmount,
+  totalAmount: order.totalAmount,
+  installments: order.installments.map((installment) => ({
+    number: installment.number,
+    amount: installment.amount,
+    dueAt: installment.dueAt,
+    status: installment.status,
+    paidAt: installment.paidAt,
+  })),
+  accessSuspendedAt: order.accessSuspendedAt,
+  isGift: order.isGift,
+  seatCount: order.seatCount,
+  organizationId: order.organizationId,
+  createdAt: order.createdAt,
+  items: items.map((item) => ({
+    courseId: item.courseId ? item.courseId._id : null,
+    courseSlug: item.courseId ? item.courseId.slug : null,
+    courseTitle: item.courseId
+      ? item.courseId.title
+      : item.description || 'Course',
+    quantity: item.quantity,
+    totalPrice: item.totalPrice,
+  })),
+  invoice: invoice
+    ? { invoiceNumber: invoice.invoiceNumber, url: invoice.fileUrl }
+    : null,
+  refunds: refunds.map(({ refund, creditNote }) => ({
+    id: refund.id,
+    amount: refund.amount,
+    reasonCode: refund.reasonCode,
+    status: refund.status,
+    rejectionReason: refund.rejectionReason,
+    policy: refund.policy && refund.policy.decision ? refund.policy : null,
+    createdAt: refund.createdAt,
+    creditNote: creditNote
+      ? {
+          creditNoteNumber: creditNote.creditNoteNumber,
+          url: creditNote.fileUrl,
+        }
+      : null,
+  })),
+  refundableAmount,
+});
+
+/**
+ * @route   GET /orders
+ * @desc    The logged-in user's orders, newest first, with courses and invoices
+ * @access  Private (JWT required)
+ */
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const orders = await Order.find({ userId: req.user._id }).sort({
+      createdAt: -1,
+    });
+    const orderIds = orders.map((o) => o.id);
+
+    const [items, invoices, payments, refunds, creditNotes] = await Promise.all(
+      [
+        OrderItem.find({ orderId: { $in: orderIds } }).populate(
+          'courseId',
+          'title slug'
+        ),
+        Invoice.find({ orderId: { $in: orderIds } }),
+        Payment.find({ orderId: { $in: orderIds }, status: 'captured' }),
+        Refund.find({ orderId: { $in: orderIds } }).sort({ createdAt: -1 }),
+        CreditNote.find({ orderId: { $in: orderIds } }),
+      ]
+    );
+
+    // Paid orders can be refunded up to what isn't refunded or requested yet
+    const refundable = await Promise.all(
+      orders.map((order) =>
+        order.status === 'paid'
+          ? getOrderRefundableAmount(
+              payments.filter((p) => p.orderId === order.id)
+            )
+          : 0
+      )
+    );
+
+    res.status(200).json({
+      success: true,
+      data: orders.map((order, index) =>
+        toOrderEntry(
+          order,
+          items.filter((i) => i.orderId === order.id),
+          invoices.find((i) => i.orderId === order.id),
+          refunds
+            .filter((r) => r.orderId === order.id)
+            .map((refund) => ({
+              refund,
+              creditNote: creditNotes.find((c) => c.refundId === refund.id),
+            })),
+          refundable[index]
+        )
+      ),
+    });
+  } catch (error) {
+    console.error('Error fetching orders:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching orders',
+      error: error.message,
+    });
+  }
+});
+
+// Paid orders, optionally placed between ?from= and ?to= dates
+const paidOrdersMatch = ({ from, to }) => {
+  const match = { status: 'paid' };
+  if (from || to) {
+    match.createdAt = {};
+    if (from) match.createdAt.$gte = new Date(from);
+    if (to) match.createdAt.$lte = new Date(to);
+  }
+  return match;
+};
+
+/**
+ * @route   GET /orders/reports/gst
+ * @desc    GST summary of paid orders by place of supply, from the tax stored
+ *          at checkout (?from= and ?to= dates)
+ * @access  Private (admin)
+ */
+router.get(
+  '/reports/gst',
+  authenticateToken,
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const rows = await Order.aggregate([
+        { $match: paidOrdersMatch(req.query) },
+        {
+          $group: {
+            _id: {
+              state: '$placeOfSupply.state',
+              code: '$placeOfSupply.code',
+              currency: '$currency',
+            },
+            orders: { $sum: 1 },
+            taxableAmount: { $sum: '$taxableAmount' },
+            cgstAmount: { $sum: '$cgstAmount' },
+            sgstAmount: { $sum: '$sgstAmount' },
+            igstAmount: { $sum: '$igstAmount' },
+            taxAmount: { $sum: '$taxAmount' },
+            totalAmount: { $sum: '$totalAmount' },
+          },
+        },
+        { $sort: { '_id.code': 1 } },
+      ]);
+
+      res.status(200).json({
+        success: true,
+        data: rows.map(({ _id, ...totals }) => ({
+          placeOfSupply: _id.state
+            ? `${_id.code}-${_id.state}`
+            : 'Not recorded',
+          currency: _id.currency || 'INR',
+          ...totals,
+        })),
+      });
+    } catch (error) {
+      console.error('Error generating GST report:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error generating GST report',
+        error: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * @route   GET /orders/reports/campaigns
+ * @desc    Revenue of paid orders per campaign (utm source/medium/campaign)
+ *          and per coupon code, from the attribution stored at checkout; one
+ *          row per currency (?from= and ?to= dates)
+ * @access  Private (admin)
+ */
+router.get(
+  '/reports/campaigns',
+  authenticateToken,
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const totals = {
+        orders: { $sum: 1 },
+        subtotalAmount: { $sum: '$subtotalAmount' },
+        discountAmount: { $sum: '$discountAmount' },
+        totalAmount: { $sum: '$totalAmount' },
+      };
+
+      const [{ campaigns, coupons }] = await Order.aggregate([
+        { $match: paidOrdersMatch(req.query) },
+        {
+          $facet: {
+            campaigns: [
+              {
+                $group: {
+                  _id: {
+                    source: '$attribution.source',
+                    medium: '$attribution.medium',
+                    campaign: '$attribution.campaign',
+                    currency: '$currency',
+                  },
+                  ...totals,
+                },
+              },
+              { $sort: { totalAmount: -1 } },
+            ],
+            coupons: [
+              { $match: { couponId: { $ne: null } } },
+              {
+                $group: {
+                  _id: { couponId: '$couponId', currency: '$currency' },
+                  ...totals,
+                },
+              },
+              { $sort: { totalAmount: -1 } },
+            ],
+          },
+        },
+      ]);
+
+      const couponCodes = await Coupon.find({
+        id: { $in: coupons.map((row) => row._id.couponId) },
+      }).select('id code');
+
+      res.status(200).json({
+        success: true,
+        data: {
+          campaigns: campaigns.map(({ _id, ...row }) => ({
+            source: _id.source || null,
+            medium: _id.medium || null,
+            campaign: _id.campaign || null,
+            currency: _id.currency || 'INR',
+            label:
+              _id.source || _id.campaign
+                ? [_id.source, _id.medium, _id.campaign]
+                    .filter(Boolean)
+                    .join(' / ')
+                : 'Direct / untracked',
+            ...row,
+          })),
+          coupons: coupons.map(({ _id, ...row }) => {
+            const coupon = couponCodes.find((c) => c.id === _id.couponId);
+            return {
+              couponId: _id.couponId,
+              code: coupon ? coupon.code : null,
+              currency: _id.currency || 'INR',
+              ...row,
+            };
+          }),
+        },
+      });
+    } catch (error) {
+      console.error('Error generating campaign report:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error generating campaign report',
+        error: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * @route   PUT /orders/:orderId
+ * @desc    Update an order's phone, or move it to a new status through the
+ *          order state machine with an optional reason; paid and refunded
+ *          follow its payments and other illegal moves get a 409
+ * @access  Private (admin)
+ */
+router.put('/:orderId', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { phone, status } = req.body;
+    const statuses = Order.schema.path('status').enumValues;
+    if (status && !statuses.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Must be one of: ${statuses.join(', ')}`,
+      });
+    }
+
+    let order = await Order.findOne({ id: req.params.orderId });
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    if (phone !== undefined) {
+      order = await Order.findOneAndUpdate(
+        { _id: order._id },
+        { phone, updatedAt: Date.now() },
+        { new: true, runValidators: true }
+      );
+    }
+    if (status) {
+      order = await setOrderStatus(
+        order,
+        status,
+        adminContext(req, 'Updated by admin')
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Order updated successfully',
+      data: order,
+    });
+  } catch (error) {
+    sendError(res, error, 'Error updating order');
+  }
+});
+
+/**
+ * @route   GET /orders/:orderId/transitions
+ * @desc    Status history of an order, its payments and refunds, oldest first
+ * @access  Private (admin)
+ */
+router.get(
+  '/:orderId/transitions',
+  authenticateToken,
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const order = await Order.findOne({ id: req.params.orderId });
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          message: 'Order not found',
+        });
+      }
+
+      const transitions = await StatusTransition.findByOrderId(order.id);
+      res.status(200).json({
+        success: true,
+        count: transitions.length,
+        data: transitions,
+      });
+    } catch (error) {
+      sendError(res, error, 'Error fetching order history');
+    }
+  }
+);
+
+/**
+ * @route   POST /orders/:orderId/invoice
+ * @desc    Generate the GST invoice PDF of a paid order, or record an invoice
+ *          issued elsewhere by its fileUrl
+ * @access  Private (admin)
+ */
+router.post(
+  '/:orderId/invoice',
+  authenticateToken,
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const { fileUrl } = req.body;
+      if (fileUrl !== undefined && !/^https?:\/\/\S+$/i.test(fileUrl)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid file URL format',
+        });
+      }
+
+      const order = await Order.findOne({ id: req.params.orderId });
+      if (!order) {
+        return res.status(404).json({
+          success: false,
+          message: 'Order not found',
+        });
+      }
+      if (await Invoice.exists({ orderId: order.id })) {
+        return res.status(409).json({
+          success: false,
+          message: 'Invoice already exists for this order',
+        });
+      }
+      if (!fileUrl && order.status !== 'paid') {
+        return res.status(409).json({
+          success: false,
+          message: 'Invoices can only be generated for paid orders',
+        });
+      }
+
+      const invoice = fileUrl
+        ? await new Invoice({ orderId: order.id, fileUrl }).save()
+        : await issueInvoice(order);
+      res.status(201).json({
+        success: true,
+        message: 'Invoice created successfully',
+        data: invoice,
+      });
+    } catch (error) {
+      sendError(res, error, 'Error creating invoice');
+    }
+  }
+);
+
+/**
+ * @route   GET /orders/:orderId/invoice
+ * @desc    Download the GST invoice PDF of a paid order
+ * @access  Private (order owner or admin)
+ */
+router.get('/:orderId/invoice', authenticateToken, async (req, res) => {
+  try {
+    const order = await Order.findOne({ id: req.params.orderId });
+    const isOwner =
+      order &&
+      order.userId &&
+      order.userId.toString() === req.user._id.toString();
+    if (!order || (!isOwner && req.user.role !== 'admin')) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    let invoice = await Invoice.findOne({ orderId: order.id });
+    if (!invoice && order.status === 'paid') {
+      invoice = await issueInvoice(order);
+    }
+    if (!invoice || !INVOICED_STATUSES.includes(order.status)) {
+      return res.status(404).json({
+        success: false,
+        message: 'No invoice is available for this order',
+      });
+    }
+
+    const pdf = await getInvoicePdf(invoice, order);
+    const filename = `${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`;
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'private, no-store',
+    });
+    res.send(pdf);
+  } catch (error) {
+    console.error('Error downloading invoice:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error downloading invoice',
+      error: error.message,
+    });
+  }
+});
+
+module.exports = router;
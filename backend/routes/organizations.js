@@ -0,0 +1,244 @@
+const express = require('express');
+const { authenticateToken } = require('../middleware/auth');
+const {
+  getMinSeats,
+  findAdminOrganization,
+  listAdminOrganizations,
+  listInvitations,
+  acceptInvitation,
+  inviteMembers,
+  removeMember,
+  assignSeat,
+  reclaimSeat,
+  getOrganizationOverview,
+  getProgressReport,
+} = require('../services/organizations');
+
+const router = express.Router();
+
+// Service errors carry their own status; anything else is a 500
+const sendError = (res, error, message) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+    });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    message,
+    error: error.message,
+  });
+};
+
+// Only the organization's admins (and site admins) get past this
+const loadOrganization = async (req, res, next) => {
+  try {
+    req.organization = await findAdminOrganization(req.user, req.params.id);
+    next();
+  } catch (error) {
+    sendError(res, error, 'Error loading organization');
+  }
+};
+
+/**
+ * @route   GET /organizations
+ * @desc    Organizations the logged-in user administers, and the fewest seats
+ *          that can be bought in one order
+ * @access  Private (JWT required)
+ */
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const organizations = await listAdminOrganizations(req.user);
+    res.status(200).json({
+      success: true,
+      data: {
+        minSeats: getMinSeats(),
+        organizations: organizations.map((organization) => ({
+          id: organization.id,
+          name: organization.name,
+        })),
+      },
+    });
+  } catch (error) {
+    sendError(res, error, 'Error fetching organizations');
+  }
+});
+
+/**
+ * @route   GET /organizations/invitations
+ * @desc    Invitations waiting for the logged-in user's email
+ * @access  Private (JWT required)
+ */
+router.get('/invitations', authenticateToken, async (req, res) => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: await listInvitations(req.user),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error fetching invitations');
+  }
+});
+
+/**
+ * @route   POST /organizations/invitations/:invitationId/accept
+ * @desc    Join the organization an invitation is from
+ * @access  Private (JWT required, invited email)
+ */
+router.post(
+  '/invitations/:invitationId/accept',
+  authenticateToken,
+  async (req, res) => {
+    try {
+      const member = await acceptInvitation(req.user, req.params.invitationId);
+      res.status(200).json({
+        success: true,
+        message: 'Invitation accepted',
+        data: { organizationId: member.organizationId, role: member.role },
+      });
+    } catch (error) {
+      sendError(res, error, 'Error accepting invitation');
+    }
+  }
+);
+
+/**
+ * @route   GET /organizations/:id
+ * @desc    The organization's seat licenses and members with their seats
+ * @access  Private (organization admin)
+ */
+router.get('/:id', authenticateToken, loadOrganization, async (req, res) => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: await getOrganizationOverview(req.organization),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error fetching organization');
+  }
+});
+
+/**
+ * @route   GET /organizations/:id/progress
+ * @desc    Progress of every member in the courses they hold a seat for
+ * @access  Private (organization admin)
+ */
+router.get(
+  '/:id/progress',
+  authenticateToken,
+  loadOrganization,
+  async (req, res) => {
+    try {
+      res.status(200).json({
+        success: true,
+        data: await getProgressReport(req.organization),
+      });
+    } catch (error) {
+      sendError(res, error, 'Error fetching progress report');
+    }
+  }
+);
+
+/**
+ * @route   POST /organizations/:id/members
+ * @desc    Invite people by email (emails: list or comma-separated string,
+ *          role: member or admin)
+ * @access  Private (organization admin)
+ */
+router.post(
+  '/:id/members',
+  authenticateToken,
+  loadOrganization,
+  async (req, res) => {
+    try {
+      const result = await inviteMembers(req.organization, req.user, {
+        emails: req.body.emails,
+        role: req.body.role,
+      });
+      res.status(201).json({
+        success: true,
+        message: `${result.invited.length} invitation(s) sent`,
+        data: result,
+      });
+    } catch (error) {
+      sendError(res, error, 'Error inviting members');
+    }
+  }
+);
+
+/**
+ * @route   POST /organizations/:id/members/:memberId/remove
+ * @desc    Remove a member and reclaim their seats
+ * @access  Private (organization admin)
+ */
+router.post(
+  '/:id/members/:memberId/remove',
+  authenticateToken,
+  loadOrganization,
+  async (req, res) => {
+    try {
+      await removeMember(req.organization, req.params.memberId);
+      res.status(200).json({
+        success: true,
+        message: 'Member removed',
+        data: await getOrganizationOverview(req.organization),
+      });
+    } catch (error) {
+      sendError(res, error, 'Error removing member');
+    }
+  }
+);
+
+/**
+ * @route   POST /organizations/:id/seats
+ * @desc    Assign a member a seat of one of the organization's licenses
+ *          (memberId, licenseId)
+ * @access  Private (organization admin)
+ */
+router.post(
+  '/:id/seats',
+  authenticateToken,
+  loadOrganization,
+  async (req, res) => {
+    try {
+      await assignSeat(req.organization, req.user, {
+        memberId: req.body.memberId,
+        licenseId: req.body.licenseId,
+      });
+      res.status(201).json({
+        success: true,
+        message: 'Seat assigned',
+        data: await getOrganizationOverview(req.organization),
+      });
+    } catch (error) {
+      sendError(res, error, 'Error assigning seat');
+    }
+  }
+);
+
+/**
+ * @route   POST /organizations/:id/seats/:seatId/reclaim
+ * @desc    Take a seat back from a member so it can be assigned again
+ * @access  Private (organization admin)
+ */
+router.post(
+  '/:id/seats/:seatId/reclaim',
+  authenticateToken,
+  loadOrganization,
+  async (req, res) => {
+    try {
+      await reclaimSeat(req.organization, req.params.seatId);
+      res.status(200).json({
+        success: true,
+        message: 'Seat reclaimed',
+        data: await getOrganizationOverview(req.organization),
+      });
+    } catch (error) {
+      sendError(res, error, 'Error reclaiming seat');
+    }
+  }
+);
+
+module.exports = router;
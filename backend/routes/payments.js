@@ -0,0 +1,88 @@
+const express = require('express');
+const Order = require('../Model/order');
+const Payment = require('../Model/payment');
+const { authenticateToken, requireAdmin } = require('../middleware/auth');
+const { transitionPayment } = require('../services/orderStates');
+
+const router = express.Router();
+
+// Service errors (state machine refusals among them) carry their own status;
+// anything else is a 500
+const sendError = (res, error, message) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+    });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    message,
+    error: error.message,
+  });
+};
+
+/**
+ * @route   PATCH /payments/:id/status
+ * @desc    Move a payment to a new status through the payment state machine,
+ *          with an optional reason, and apply it to its order (a capture pays
+ *          the order, a refund refunds it); illegal moves get a 409
+ * @access  Private (admin)
+ */
+router.patch(
+  '/:id/status',
+  authenticateToken,
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const { status, reason } = req.body;
+      const statuses = Payment.schema.path('status').enumValues;
+      if (!statuses.includes(status)) {
+        return res.status(400).json({
+          success: false,
+          message: `Status must be one of: ${statuses.join(', ')}`,
+        });
+      }
+
+      const payment = await Payment.findOne({ id: req.params.id });
+      if (!payment) {
+        return res.status(404).json({
+          success: false,
+          message: 'Payment not found',
+        });
+      }
+      if (payment.status === status) {
+        return res.status(200).json({
+          success: true,
+          message: 'Payment already has this status',
+          data: {
+            payment,
+            order: await Order.findOne({ id: payment.orderId }),
+          },
+        });
+      }
+
+      const updated = await transitionPayment(payment, status, {
+        actor: { type: 'admin', id: req.user._id.toString() },
+        reason: reason || 'Status updated by admin',
+      });
+      if (!updated.payment) {
+        return res.status(409).json({
+          success: false,
+          message: 'Payment was changed by another request, try again',
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Payment status updated successfully',
+        data: updated,
+      });
+    } catch (error) {
+      sendError(res, error, 'Error updating payment status');
+    }
+  }
+);
+
+module.exports = router;
@@ -1,6 +1,7 @@
 const express = require('express');
 const Users = require('../Model/user');
 const { authenticateToken } = require('../middleware/auth');
+const { normalizeCurrency, normalizeCountry } = require('../services/currency');
 
 const router = express.Router();
 
@@ -66,4 +67,66 @@ router.post('/profile', authenticateToken, async (req, res) => {
   }
 });
 
+/**
+ * @route   PUT /user/preferences
+ * @desc    Set the billing country and the currency prices are shown in
+ *          (preferredCurrency null = decided by billing country)
+ * @access  Private (JWT required)
+ */
+router.put('/preferences', authenticateToken, async (req, res) => {
+  try {
+    const { billingCountry, preferredCurrency } = req.body;
+    const update = {};
+
+    if (billingCountry !== undefined) {
+      const country = billingCountry ? normalizeCountry(billingCountry) : '';
+      if (country === null) {
+        return res.status(400).json({
+          success: false,
+          message: 'Billing country must be a two-letter country code',
+        });
+      }
+      update.billingCountry = country;
+    }
+
+    if (preferredCurrency !== undefined) {
+      const currency = preferredCurrency
+        ? normalizeCurrency(preferredCurrency)
+        : null;
+      if (preferredCurrency && !currency) {
+        return res.status(400).json({
+          success: false,
+          message: 'Currency is not supported',
+        });
+      }
+      update.preferredCurrency = currency;
+    }
+
+    const updatedUser = await Users.findByIdAndUpdate(
+      req.user.id,
+      { ...update, updatedAt: new Date() },
+      { new: true }
+    ).select('-passwordHash');
+
+    if (!updatedUser) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Preferences updated',
+      data: updatedUser,
+    });
+  } catch (err) {
+    console.error('Preferences update error:', err);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+});
+
 module.exports = router;
@@ -0,0 +1,30 @@
+const express = require('express');
+const { authenticateToken } = require('../middleware/auth');
+const { getReferralSummary } = require('../services/referrals');
+
+const router = express.Router();
+
+/**
+ * @route   GET /referrals/me
+ * @desc    The user's referral code, who they referred and the rewards earned
+ * @access  Private (JWT required)
+ */
+router.get('/me', authenticateToken, async (req, res) => {
+  try {
+    const summary = await getReferralSummary(req.user);
+
+    res.status(200).json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    console.error('Error fetching referrals:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching referrals',
+      error: error.message,
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,304 @@
+const express = require('express');
+const Order = require('../Model/order');
+const Payment = require('../Model/payment');
+const Refund = require('../Model/refund');
+const CreditNote = require('../Model/creditNote');
+const { authenticateToken, requireAdmin } = require('../middleware/auth');
+const {
+  checkRefundEligibility,
+  requestRefund,
+  approveRefund,
+  rejectRefund,
+} = require('../services/refunds');
+const { getCreditNotePdf, issueCreditNote } = require('../services/invoices');
+
+const router = express.Router();
+
+const toRefundEntry = (refund, creditNote) => ({
+  id: refund.id,
+  orderId: refund.orderId,
+  paymentId: refund.paymentId,
+  amount: refund.amount,
+  reasonCode: refund.reasonCode,
+  note: refund.note,
+  status: refund.status,
+  rejectionReason: refund.rejectionReason,
+  failureReason: refund.failureReason,
+  createdAt: refund.createdAt,
+  processedAt: refund.processedAt,
+  // Refund policy decision and the checks behind it, for requests that were evaluated
+  policy: refund.policy && refund.policy.decision ? refund.policy : null,
+  creditNote: creditNote
+    ? { creditNoteNumber: creditNote.creditNoteNumber, url: creditNote.fileUrl }
+    : null,
+});
+
+// Requests the refund policy approves go straight on to the gateway
+const REQUEST_MESSAGES = {
+  requested: 'Refund requested; our team will review it',
+  approved: 'Refund approved and sent to the payment gateway',
+  processed: 'Refund approved and processed',
+};
+
+// Service errors carry their own status; anything else is a 500
+const sendError = (res, error, message) => {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({
+      success: false,
+      message: error.message,
+    });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    message,
+    error: error.message,
+  });
+};
+
+// Amounts arrive in paise; leave them undefined when not given
+const parseAmount = (value) =>
+  value === undefined || value === null || value === ''
+    ? undefined
+    : Number(value);
+
+/**
+ * @route   POST /refunds
+ * @desc    Request a refund of a paid order (all that is left by default),
+ *          split across its payments when it was paid in installments
+ * @access  Private (order owner)
+ */
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { orderId, amount, reasonCode, note } = req.body;
+    // One refund per payment the amount is taken from
+    const refunds = await requestRefund({
+      user: req.user,
+      orderId,
+      amount: parseAmount(amount),
+      reasonCode,
+      note,
+    });
+
+    const creditNotes = await CreditNote.find({
+      refundId: { $in: refunds.map((r) => r.id) },
+    });
+
+    res.status(201).json({
+      success: true,
+      message: REQUEST_MESSAGES[refunds[0].status] || 'Refund requested',
+      data: refunds.map((refund) =>
+        toRefundEntry(
+          refund,
+          creditNotes.find((c) => c.refundId === refund.id)
+        )
+      ),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error requesting refund');
+  }
+});
+
+/**
+ * @route   GET /refunds/eligibility/:orderId
+ * @desc    How a refund of the order fares under the refund policy
+ * @access  Private (order owner)
+ */
+router.get('/eligibility/:orderId', authenticateToken, async (req, res) => {
+  try {
+    const eligibility = await checkRefundEligibility({
+      user: req.user,
+      orderId: req.params.orderId,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: eligibility,
+    });
+  } catch (error) {
+    sendError(res, error, 'Error checking refund eligibility');
+  }
+});
+
+/**
+ * @route   GET /refunds
+ * @desc    Refunds on the logged-in user's orders, newest first
+ * @access  Private (JWT required)
+ */
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const orderIds = await Order.find({ userId: req.user._id }).distinct('id');
+    const refunds = await Refund.find({ orderId: { $in: orderIds } }).sort({
+      createdAt: -1,
+    });
+    const creditNotes = await CreditNote.find({
+      refundId: { $in: refunds.map((r) => r.id) },
+    });
+
+    res.status(200).json({
+      success: true,
+      data: refunds.map((refund) =>
+        toRefundEntry(
+          refund,
+          creditNotes.find((c) => c.refundId === refund.id)
+        )
+      ),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error fetching refunds');
+  }
+});
+
+/**
+ * @route   GET /refunds/queue
+ * @desc    Refunds awaiting an admin, oldest first (?status= for other statuses)
+ * @access  Private (admin)
+ */
+router.get('/queue', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const status = req.query.status || 'requested';
+    const refunds = await Refund.find({ status })
+      .sort({ createdAt: 1 })
+      .limit(200)
+      .populate('requestedBy', 'name email')
+      .populate('order');
+    const [payments, creditNotes] = await Promise.all([
+      Payment.find({ id: { $in: refunds.map((r) => r.paymentId) } }),
+      CreditNote.find({ refundId: { $in: refunds.map((r) => r.id) } }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: refunds.map((refund) => {
+        const payment = payments.find((p) => p.id === refund.paymentId);
+        return {
+          ...toRefundEntry(
+            refund,
+            creditNotes.find((c) => c.refundId === refund.id)
+          ),
+          requestedBy: refund.requestedBy
+            ? {
+                name: refund.requestedBy.name,
+                email: refund.requestedBy.email,
+              }
+            : null,
+          orderEmail: refund.order ? refund.order.email : null,
+          payment: payment
+            ? {
+                gateway: payment.gateway,
+                gatewayPaymentId: payment.gatewayPaymentId,
+                amount: payment.amount,
+                amountRefunded: payment.amountRefunded,
+                status: payment.status,
+              }
+            : null,
+        };
+      }),
+    });
+  } catch (error) {
+    sendError(res, error, 'Error fetching refund queue');
+  }
+});
+
+/**
+ * @route   POST /refunds/:id/approve
+ * @desc    Approve a refund (optionally for a different amount) and send it to the gateway
+ * @access  Private (admin)
+ */
+router.post(
+  '/:id/approve',
+  authenticateToken,
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const refund = await approveRefund({
+        refundId: Number(req.params.id),
+        admin: req.user,
+        amount: parseAmount(req.body.amount),
+        reason: req.body.reason,
+      });
+      const creditNote = await CreditNote.findOne({ refundId: refund.id });
+
+      res.status(200).json({
+        success: true,
+        message:
+          refund.status === 'processed'
+            ? 'Refund processed'
+            : 'Refund sent to the payment gateway',
+        data: toRefundEntry(refund, creditNote),
+      });
+    } catch (error) {
+      sendError(res, error, 'Error approving refund');
+    }
+  }
+);
+
+/**
+ * @route   POST /refunds/:id/reject
+ * @desc    Reject a requested refund with a reason shown to the learner
+ * @access  Private (admin)
+ */
+router.post(
+  '/:id/reject',
+  authenticateToken,
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const refund = await rejectRefund({
+        refundId: Number(req.params.id),
+        admin: req.user,
+        reason: req.body.reason,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Refund rejected',
+        data: toRefundEntry(refund, null),
+      });
+    } catch (error) {
+      sendError(res, error, 'Error rejecting refund');
+    }
+  }
+);
+
+/**
+ * @route   GET /refunds/:id/credit-note
+ * @desc    Download the GST credit note PDF of a processed refund
+ * @access  Private (order owner or admin)
+ */
+router.get('/:id/credit-note', authenticateToken, async (req, res) => {
+  try {
+    const refund = await Refund.findOne({ id: req.params.id });
+    const order = refund && (await Order.findOne({ id: refund.orderId }));
+    const isOwner =
+      order &&
+      order.userId &&
+      order.userId.toString() === req.user._id.toString();
+    if (!order || (!isOwner && req.user.role !== 'admin')) {
+      return res.status(404).json({
+        success: false,
+        message: 'Refund not found',
+      });
+    }
+    if (refund.status !== 'processed') {
+      return res.status(404).json({
+        success: false,
+        message: 'No credit note is available for this refund',
+      });
+    }
+
+    const creditNote = await issueCreditNote(refund, order);
+    const pdf = await getCreditNotePdf(creditNote);
+    const filename = `${creditNote.creditNoteNumber.replace(/\//g, '-')}.pdf`;
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'private, no-store',
+    });
+    res.send(pdf);
+  } catch (error) {
+    sendError(res, error, 'Error downloading credit note');
+  }
+});
+
+module.exports = router;
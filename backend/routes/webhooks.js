@@ -0,0 +1,48 @@
+const express = require('express');
+const { handleWebhook } = require('../services/webhooks');
+
+const router = express.Router();
+
+// Signatures are computed over the exact bytes the gateway sent
+router.use(express.raw({ type: '*/*', limit: '1mb' }));
+
+/**
+ * @route   POST /webhooks/:gateway
+ * @desc    Receive a payment gateway webhook (payment.captured, payment.failed, refund.processed)
+ * @access  Public (verified by HMAC signature)
+ */
+router.post('/:gateway', async (req, res) => {
+  try {
+    const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+    const result = await handleWebhook({
+      gatewayName: req.params.gateway,
+      rawBody,
+      headers: req.headers,
+    });
+
+    res.status(200).json({
+      success: true,
+      message:
+        result.status === 'duplicate'
+          ? 'Event already received'
+          : `Event ${result.status}`,
+      data: result,
+    });
+  } catch (error) {
+    if (error.statusCode) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    // A 5xx makes the gateway deliver the event again later
+    console.error('Error processing webhook:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error processing webhook',
+      error: error.message,
+    });
+  }
+});
+
+module.exports = router;
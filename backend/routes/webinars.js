@@ -0,0 +1,58 @@
+const express = require('express');
+const Webinar = require('../Model/webinar');
+const { optionalAuth } = require('../middleware/auth');
+const { hasWebinarAccess } = require('../services/entitlements');
+
+const router = express.Router();
+
+// Join links and recordings are only given to members and course owners
+const toWebinarEntry = (webinar, hasAccess) => ({
+  _id: webinar._id,
+  title: webinar.title,
+  scheduledAt: webinar.scheduledAt,
+  durationMins: webinar.durationMins,
+  course: webinar.courseId
+    ? {
+        _id: webinar.courseId._id,
+        title: webinar.courseId.title,
+        slug: webinar.courseId.slug,
+      }
+    : null,
+  hasAccess,
+  joinUrl: hasAccess ? webinar.joinUrl : null,
+  recordingUrl: hasAccess ? webinar.recordingUrl : null,
+});
+
+/**
+ * @route   GET /webinars
+ * @desc    Upcoming webinars and recordings of the last 90 days, with join
+ *          links for those the caller has access to
+ * @access  Public (links need a membership or the course)
+ */
+router.get('/', optionalAuth, async (req, res) => {
+  try {
+    const since = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+    const webinars = await Webinar.find({ scheduledAt: { $gte: since } })
+      .populate('courseId', 'title slug price')
+      .sort({ scheduledAt: 1 });
+
+    const entries = await Promise.all(
+      webinars.map(async (webinar) =>
+        toWebinarEntry(webinar, await hasWebinarAccess(req.user, webinar))
+      )
+    );
+    res.status(200).json({
+      success: true,
+      data: entries,
+    });
+  } catch (error) {
+    console.error('Error fetching webinars:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching webinars',
+      error: error.message,
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,83 @@
+// Backfills the Counter sequences from existing data, so ids keep counting up
+// from the highest one already used, and numbers any invoices created before
+// invoice numbers existed (in date order, per financial year).
+// Safe to re-run: counters only ever move forward.
+//
+// Usage: npm run migrate:counters
+require('dotenv').config();
+const mongoose = require('mongoose');
+const connectMongo = require('../DB');
+const Counter = require('../Model/counter');
+const Order = require('../Model/order');
+const Payment = require('../Model/payment');
+const Coupon = require('../Model/coupon');
+const Invoice = require('../Model/invoice');
+const Testimonial = require('../Model/testimonial');
+
+const SEQUENCES = [
+  { name: 'orders', model: Order },
+  { name: 'payments', model: Payment },
+  { name: 'coupons', model: Coupon },
+  { name: 'invoices', model: Invoice },
+  { name: 'testimonials', model: Testimonial },
+];
+
+const backfillIds = async () => {
+  for (const { name, model } of SEQUENCES) {
+    const last = await model.findOne().sort({ id: -1 }).select('id');
+    const maxId = last && last.id ? last.id : 0;
+    await Counter.advanceTo(name, maxId);
+    console.log(`${name}: counter at ${maxId}`);
+  }
+};
+
+// Highest number already used in each INV/<year> (or INV) sequence
+const advanceInvoiceNumberCounters = async (prefix) => {
+  const invoices = await Invoice.find({ invoiceNumber: { $ne: null } }).select(
+    'invoiceNumber'
+  );
+  const highest = {};
+  for (const { invoiceNumber } of invoices) {
+    if (!invoiceNumber.startsWith(`${prefix}/`)) continue;
+    const slash = invoiceNumber.lastIndexOf('/');
+    const name = invoiceNumber.slice(0, slash);
+    const seq = parseInt(invoiceNumber.slice(slash + 1), 10) || 0;
+    highest[name] = Math.max(highest[name] || 0, seq);
+  }
+  for (const [name, seq] of Object.entries(highest)) {
+    await Counter.advanceTo(name, seq);
+  }
+};
+
+const backfillInvoiceNumbers = async () => {
+  const prefix = process.env.INVOICE_NUMBER_PREFIX || 'INV';
+  await advanceInvoiceNumberCounters(prefix);
+
+  const unnumbered = await Invoice.find({
+    $or: [{ invoiceNumber: null }, { invoiceNumber: { $exists: false } }],
+  }).sort({ createdAt: 1, id: 1 });
+
+  for (const invoice of unnumbered) {
+    const invoiceNumber = await Counter.nextNumber(prefix, {
+      date: invoice.createdAt,
+      perFinancialYear: process.env.INVOICE_NUMBER_PER_FY !== 'false',
+    });
+    await Invoice.updateOne({ _id: invoice._id }, { invoiceNumber });
+  }
+  console.log(`invoices: numbered ${unnumbered.length} existing invoices`);
+};
+
+const run = async () => {
+  await connectMongo();
+  try {
+    await backfillIds();
+    await backfillInvoiceNumbers();
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+run().catch((error) => {
+  console.error('Counter backfill failed:', error);
+  process.exit(1);
+});
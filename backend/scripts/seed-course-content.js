@@ -0,0 +1,84 @@
+// Seeds the Option Analysis course and its e-book topics into MongoDB.
+// Safe to re-run: topics are matched by title so existing topic _ids (and the
+// learner progress/notes that reference them) are kept.
+//
+// Usage: npm run seed:course
+require('dotenv').config();
+const mongoose = require('mongoose');
+const connectMongo = require('../DB');
+const Courses = require('../Model/course');
+
+// Page images are keys under the private content dir: content/course/<n>.jpeg
+const pageRange = (from, to) =>
+  Array.from({ length: to - from + 1 }, (_, i) => `/course/${from + i}.jpeg`);
+
+const OPTION_ANALYSIS_COURSE = {
+  slug: 'option-analysis-strategy',
+  title: 'Option Analysis Strategy by A. Bhattacharjee',
+  description: 'Master the Systematic Trading Strategy by A. Bhattacharjee',
+  price: 1499,
+  instructor: 'A. Bhattacharjee',
+  thumbnail: '/course/1.jpeg',
+  category: 'Trading',
+  duration: 'Self-paced',
+  rating: 5,
+  topics: [
+    { title: 'Introduction', images: pageRange(2, 18) },
+    { title: 'Understanding Doji Candles', images: pageRange(19, 22) },
+    { title: 'The "Dicy Reversal" Setup', images: pageRange(23, 29) },
+    { title: 'Entry & Exit Rules', images: pageRange(30, 34) },
+    { title: 'Risk Management', images: pageRange(35, 47) },
+    { title: 'Practical Examples', images: pageRange(48, 52) },
+    { title: 'Final Thoughts', images: pageRange(53, 56) },
+    { title: "Author's Message", images: pageRange(57, 58) },
+  ],
+};
+
+const seedCourse = async ({ topics, ...fields }) => {
+  let course = await Courses.findOne({ slug: fields.slug });
+  if (!course) {
+    course = new Courses(fields);
+    console.log(`Creating course "${fields.slug}"`);
+  } else {
+    // Keep admin edits to catalog fields; only fill what is missing
+    Object.entries(fields).forEach(([key, value]) => {
+      if (
+        course[key] === undefined ||
+        course[key] === null ||
+        course[key] === ''
+      ) {
+        course[key] = value;
+      }
+    });
+    console.log(`Updating course "${fields.slug}"`);
+  }
+
+  course.topics = topics.map((topic) => {
+    const existing = course.topics.find((t) => t.title === topic.title);
+    return existing
+      ? { _id: existing._id, title: topic.title, images: topic.images }
+      : topic;
+  });
+
+  await course.save();
+  console.log(
+    `Seeded ${course.topics.length} topics, ${course.topics.reduce(
+      (sum, t) => sum + t.images.length,
+      0
+    )} pages`
+  );
+};
+
+const run = async () => {
+  await connectMongo();
+  try {
+    await seedCourse(OPTION_ANALYSIS_COURSE);
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+run().catch((error) => {
+  console.error('Course seeding failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,356 @@
+const Users = require('../Model/user');
+const Affiliate = require('../Model/affiliate');
+const AffiliateClick = require('../Model/affiliateClick');
+const AffiliateCommission = require('../Model/affiliateCommission');
+const OrderItem = require('../Model/orderItem');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statements run on calendar months in IST
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+// Errors carry the HTTP status the route should answer with
+const affiliateError = (message, statusCode = 400) => {
+    return Object.assign(new Error(message), { statusCode });
+};
+
+const findActiveAffiliate = (code) => {
+    const normalized = String(code || '').toUpperCase().trim();
+    return normalized ? Affiliate.findOne({ code: normalized, status: 'active' }) : null;
+};
+
+// Log a visit through a tracked link; resolves to the click, whose id the
+// browser sends back at checkout
+const recordClick = async ({ code, landingPath, deviceId, user }) => {
+    const affiliate = await findActiveAffiliate(code);
+    if (!affiliate) {
+        throw affiliateError('Affiliate link is not valid', 404);
+    }
+
+    return new AffiliateClick({
+        affiliateId: affiliate.id,
+        landingPath: typeof landingPath === 'string' ? landingPath.slice(0, 200) : undefined,
+        deviceId,
+        userId: user ? user._id : undefined
+    }).save();
+};
+
+/**
+ * The affiliate to credit with a buyer's order, from the tracked-link click
+ * the browser kept. Clicks older than the affiliate's attribution window,
+ * paused affiliates and affiliates buying through their own link earn
+ * nothing. Resolves to the order's affiliate fields or null.
+ */
+const resolveOrderAffiliate = async ({ user, clickId, now = new Date() }) => {
+    const click = Number.isInteger(clickId) && await AffiliateClick.findOne({ id: clickId });
+    if (!click) return null;
+
+    const affiliate = await Affiliate.findOne({ id: click.affiliateId, status: 'active' });
+    if (!affiliate || affiliate.userId.toString() === user._id.toString()) return null;
+    if (now - click.createdAt > affiliate.attributionWindowDays * DAY_MS) return null;
+
+    return { affiliateId: affiliate.id, clickId: click.id, code: affiliate.code };
+};
+
+/**
+ * Accrue commission on a paid order made through an affiliate link. Each
+ * course earns its own rate on its value before GST. An order accrues once,
+ * however many times its payment is reported.
+ */
+const accrueAffiliateCommission = async (order) => {
+    if (!order.affiliate || !order.affiliate.affiliateId) return null;
+    // Commission is paid out in rupees, so only rupee orders earn it
+    if (order.currency !== 'INR') return null;
+
+    const [affiliate, items] = await Promise.all([
+        Affiliate.findOne({ id: order.affiliate.affiliateId }),
+        OrderItem.find({ orderId: order.id })
+    ]);
+    if (!affiliate) return null;
+
+    const lines = items.map((item) => {
+        const percent = affiliate.rateFor(item.courseId);
+        return {
+            courseId: item.courseId,
+            taxableAmount: item.taxableAmount,
+            percent,
+            amount: Math.round((item.taxableAmount * percent) / 100)
+        };
+    });
+    const amount = lines.reduce((sum, line) => sum + line.amount, 0);
+    if (amount <= 0) return null;
+
+    try {
+        return await new AffiliateCommission({
+            affiliateId: affiliate.id,
+            orderId: order.id,
+            entryType: 'accrual',
+            lines,
+            amount,
+            note: `Order #${order.id}`
+        }).save();
+    } catch (error) {
+        // Already accrued
+        if (error.code === 11000) return null;
+        throw error;
+    }
+};
+
+/**
+ * Reverse commission on a refunded order: a processed refund takes back the
+ * same share of the commission as of the order total, and a fully refunded
+ * order takes back whatever is left. Never reverses more than was accrued.
+ */
+const reverseAffiliateCommission = async (order, refund = null) => {
+    const entries = await AffiliateCommission.find({ orderId: order.id });
+    const accrual = entries.find((entry) => entry.entryType === 'accrual');
+    if (!accrual) return null;
+
+    const remaining = entries.reduce((sum, entry) => sum + entry.amount, 0);
+    const amount = refund
+        ? Math.min(Math.round((accrual.amount * refund.amount) / order.totalAmount), remaining)
+        : remaining;
+    if (amount <= 0) return null;
+
+    try {
+        return await new AffiliateCommission({
+            affiliateId: accrual.affiliateId,
+            orderId: order.id,
+            refundId: refund ? refund.id : undefined,
+            entryType: 'reversal',
+            amount: -amount,
+            note: refund ? `Refund #${refund.id} on order #${order.id}` : `Order #${order.id} refunded`
+        }).save();
+    } catch (error) {
+        // This refund was already reversed
+        if (error.code === 11000) return null;
+        throw error;
+    }
+};
+
+// Start and end of a month given as YYYY-MM, in IST
+const monthRange = (month) => {
+    const match = /^(\d{4})-(\d{2})$/.exec(String(month || ''));
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+        throw affiliateError('Month must look like 2026-04');
+    }
+    const year = Number(match[1]);
+    const index = Number(match[2]) - 1;
+    return {
+        from: new Date(Date.UTC(year, index, 1) - IST_OFFSET_MS),
+        to: new Date(Date.UTC(year, index + 1, 1) - IST_OFFSET_MS)
+    };
+};
+
+/**
+ * What each affiliate is owed for a month: commission accrued on orders
+ * paid that month less reversals for refunds made that month. Amounts are
+ * in paise.
+ */
+const getPayoutStatement = async (month) => {
+    const { from, to } = monthRange(month);
+    const rows = await AffiliateCommission.aggregate([
+        { $match: { createdAt: { $gte: from, $lt: to } } },
+        {
+            $group: {
+                _id: '$affiliateId',
+                conversions: { $sum: { $cond: [{ $eq: ['$entryType', 'accrual'] }, 1, 0] } },
+                accrued: { $sum: { $cond: [{ $eq: ['$entryType', 'accrual'] }, '$amount', 0] } },
+                reversed: { $sum: { $cond: [{ $eq: ['$entryType', 'reversal'] }, '$amount', 0] } },
+                net: { $sum: '$amount' }
+            }
+        },
+        { $sort: { _id: 1 } }
+    ]);
+
+    const affiliates = await Affiliate.find({ id: { $in: rows.map((row) => row._id) } })
+        .populate('userId', 'email');
+
+    return {
+        month,
+        from,
+        to,
+        rows: rows.map(({ _id, ...totals }) => {
+            const affiliate = affiliates.find((a) => a.id === _id);
+            return {
+                affiliateId: _id,
+                name: affiliate ? affiliate.name : null,
+                code: affiliate ? affiliate.code : null,
+                email: affiliate && affiliate.userId ? affiliate.userId.email : null,
+                payoutDetails: affiliate ? affiliate.payoutDetails || null : null,
+                ...totals,
+                reversed: -totals.reversed
+            };
+        })
+    };
+};
+
+const csvCell = (value) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const rupees = (paise) => (paise / 100).toFixed(2);
+
+// The payout statement as CSV, amounts in rupees
+const toStatementCsv = (statement) => {
+    const header = [
+        'Affiliate ID',
+        'Name',
+        'Code',
+        'Email',
+        'Payout details',
+        'Conversions',
+        'Commission accrued (INR)',
+        'Commission reversed (INR)',
+        'Net payable (INR)'
+    ];
+    const lines = statement.rows.map((row) => [
+        row.affiliateId,
+        row.name,
+        row.code,
+        row.email,
+        row.payoutDetails,
+        row.conversions,
+        rupees(row.accrued),
+        rupees(row.reversed),
+        rupees(row.net)
+    ]);
+    return [header, ...lines].map((line) => line.map(csvCell).join(',')).join('\n');
+};
+
+/**
+ * Clicks, conversions and earnings of the affiliate the user logs in as.
+ * Amounts are in paise.
+ */
+const getAffiliateDashboard = async (user) => {
+    const affiliate = await Affiliate.findOne({ userId: user._id })
+        .populate('courseRates.courseId', 'title');
+    if (!affiliate) {
+        throw affiliateError('You are not registered as an affiliate', 404);
+    }
+
+    const since = new Date(Date.now() - 30 * DAY_MS);
+    const [clicks, recentClicks, commissions] = await Promise.all([
+        AffiliateClick.countDocuments({ affiliateId: affiliate.id }),
+        AffiliateClick.countDocuments({ affiliateId: affiliate.id, createdAt: { $gte: since } }),
+        AffiliateCommission.find({ affiliateId: affiliate.id })
+            .sort({ createdAt: -1 })
+            .populate('lines.courseId', 'title')
+    ]);
+
+    const accruals = commissions.filter((entry) => entry.entryType === 'accrual');
+    const sumOf = (entries) => entries.reduce((sum, entry) => sum + entry.amount, 0);
+
+    return {
+        id: affiliate.id,
+        name: affiliate.name,
+        code: affiliate.code,
+        status: affiliate.status,
+        attributionWindowDays: affiliate.attributionWindowDays,
+        defaultCommissionPercent: affiliate.defaultCommissionPercent,
+        courseRates: affiliate.courseRates
+            .filter((rate) => rate.courseId)
+            .map((rate) => ({ courseTitle: rate.courseId.title, percent: rate.percent })),
+        stats: {
+            clicks,
+            clicksLast30Days: recentClicks,
+            conversions: accruals.length,
+            conversionRate: clicks > 0 ? Math.round((accruals.length / clicks) * 1000) / 10 : 0,
+            accrued: sumOf(accruals),
+            reversed: -sumOf(commissions.filter((entry) => entry.entryType === 'reversal')),
+            earnings: sumOf(commissions)
+        },
+        commissions: commissions.slice(0, 100).map((entry) => ({
+            id: entry.id,
+            orderId: entry.orderId,
+            entryType: entry.entryType,
+            amount: entry.amount,
+            courses: entry.lines
+                .filter((line) => line.courseId)
+                .map((line) => line.courseId.title),
+            note: entry.note,
+            createdAt: entry.createdAt
+        }))
+    };
+};
+
+// Affiliate fields from an admin create/update request; only the fields
+// present are returned
+const readAffiliateFields = (body) => {
+    const fields = {};
+    if (body.name !== undefined) fields.name = body.name;
+    if (body.code !== undefined) fields.code = body.code;
+    if (body.defaultCommissionPercent !== undefined) {
+        fields.defaultCommissionPercent = Number(body.defaultCommissionPercent);
+    }
+    if (body.courseRates !== undefined) {
+        if (!Array.isArray(body.courseRates)) {
+            throw affiliateError('courseRates must be a list of { courseId, percent }');
+        }
+        fields.courseRates = body.courseRates.map((rate) => ({
+            courseId: rate.courseId,
+            percent: Number(rate.percent)
+        }));
+    }
+    if (body.attributionWindowDays !== undefined) {
+        fields.attributionWindowDays = Number(body.attributionWindowDays);
+    }
+    if (body.payoutDetails !== undefined) fields.payoutDetails = body.payoutDetails;
+    if (body.status !== undefined) fields.status = body.status;
+    return fields;
+};
+
+// Make an existing user an affiliate
+const createAffiliate = async (body) => {
+    const user = body.email && await Users.findOne({ email: String(body.email).toLowerCase().trim() });
+    if (!user) {
+        throw affiliateError('No user with that email; the affiliate must sign up first', 404);
+    }
+    if (await Affiliate.exists({ userId: user._id })) {
+        throw affiliateError('This user is already an affiliate', 409);
+    }
+
+    let affiliate;
+    try {
+        affiliate = await new Affiliate({
+            userId: user._id,
+            name: user.name,
+            ...readAffiliateFields(body)
+        }).save();
+    } catch (error) {
+        if (error.code === 11000) throw affiliateError('Affiliate code already exists', 409);
+        if (error.name === 'ValidationError') throw affiliateError(error.message);
+        throw error;
+    }
+    await Users.updateOne({ _id: user._id }, { affiliateId: affiliate.id });
+    return affiliate;
+};
+
+const updateAffiliate = async (id, body) => {
+    const affiliate = await Affiliate.findOne({ id });
+    if (!affiliate) {
+        throw affiliateError('Affiliate not found', 404);
+    }
+
+    affiliate.set(readAffiliateFields(body));
+    try {
+        return await affiliate.save();
+    } catch (error) {
+        if (error.code === 11000) throw affiliateError('Affiliate code already exists', 409);
+        if (error.name === 'ValidationError') throw affiliateError(error.message);
+        throw error;
+    }
+};
+
+module.exports = {
+    recordClick,
+    resolveOrderAffiliate,
+    accrueAffiliateCommission,
+    reverseAffiliateCommission,
+    getPayoutStatement,
+    toStatementCsv,
+    getAffiliateDashboard,
+    createAffiliate,
+    updateAffiliate
+};
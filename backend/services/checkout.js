@@ -0,0 +1,633 @@
+const Order = require('../Model/order');
+const OrderItem = require('../Model/orderItem');
+const Payment = require('../Model/payment');
+const { hasCourseAccess } = require('./entitlements');
+const {
+    canTransitionPayment,
+    recordCreated,
+    transitionOrder,
+    markOrderPaid,
+    retryFulfillment,
+    transitionPayment
+} = require('./orderStates');
+const { getGateway, getDefaultGateway } = require('./gateways');
+const { calculateTax } = require('./gst');
+const { applyCoupon, reserveCoupon } = require('./coupons');
+const { resolveOrderReferral } = require('./referrals');
+const { resolveOrderAffiliate } = require('./affiliates');
+const { findPlan, buildSchedule, installmentFor, nextInstallment } = require('./installments');
+const { subscriptionForCheckout } = require('./memberships');
+const { readGift, createGift } = require('./gifts');
+const { readSeats, findAdminOrganization } = require('./organizations');
+
+// Course prices and coupon values are in rupees (or dollars and euros on
+// their own price lists); orders and payments in paise (or cents)
+const toPaise = (rupees) => Math.round(rupees * 100);
+
+// Errors carry the HTTP status the route should answer with
+const checkoutError = (message, statusCode = 400) => {
+    return Object.assign(new Error(message), { statusCode });
+};
+
+/**
+ * Price breakdown for buying one course in a currency, from the course's
+ * price list for it, with an optional coupon checked against the buyer and
+ * the course. GST is worked out for the buyer's state and the course's
+ * pricing mode; the total is what the buyer pays. Bought through an
+ * installment plan (INR only, without coupons) the price is the plan's total
+ * and the quote carries the installment schedule. Bought as seats for an
+ * organization the price is per seat.
+ */
+const quoteCourse = async (course, couponCode, user, currency = 'INR', planId = null, seats = 1) => {
+    const plan = planId ? await findPlan(course, planId) : null;
+    if (plan && currency !== 'INR') {
+        throw checkoutError('Installment plans are only available when paying in INR', 400);
+    }
+    if (plan && couponCode) {
+        throw checkoutError('Coupons cannot be used with an installment plan', 400);
+    }
+    if (plan && seats > 1) {
+        throw checkoutError('Seat licenses have to be paid in full', 400);
+    }
+
+    const unitPrice = plan ? plan.totalAmount() : course.priceIn(currency);
+    if (unitPrice === null) {
+        throw checkoutError(`This course is not sold in ${currency}`, 400);
+    }
+    const price = unitPrice * seats;
+
+    let coupon = null;
+    let discount = 0;
+
+    if (couponCode) {
+        ({ coupon, discount } = await applyCoupon({
+            code: couponCode,
+            user,
+            items: [{ courseId: course._id, price }],
+            currency
+        }));
+    }
+
+    const tax = calculateTax({
+        buyerState: user && user.state,
+        buyerCountry: user && user.billingCountry,
+        currency,
+        discountAmount: toPaise(discount),
+        lines: [{
+            amount: toPaise(unitPrice) * seats,
+            inclusive: course.taxInclusive !== false,
+            rate: course.gstRate != null ? course.gstRate : undefined
+        }]
+    });
+
+    return {
+        course,
+        coupon,
+        plan,
+        currency,
+        seats,
+        unitAmount: toPaise(unitPrice),
+        subtotalAmount: toPaise(unitPrice) * seats,
+        discountAmount: toPaise(discount),
+        tax,
+        totalAmount: tax.totals.totalAmount,
+        installments: plan ? buildSchedule(plan, tax.totals.totalAmount) : null
+    };
+};
+
+const ATTRIBUTION_FIELDS = [
+    'couponCode',
+    'referralCode',
+    'affiliateCode',
+    'source',
+    'medium',
+    'campaign',
+    'term',
+    'content',
+    'landingPath'
+];
+
+// Campaign attribution sent by the browser, kept to short strings; null
+// when the buyer didn't arrive from a tracked link
+const readAttribution = (input) => {
+    if (!input || typeof input !== 'object') return null;
+
+    const attribution = {};
+    for (const field of ATTRIBUTION_FIELDS) {
+        if (typeof input[field] === 'string' && input[field].trim()) {
+            attribution[field] = input[field].trim().slice(0, 200);
+        }
+    }
+    if (Number.isInteger(input.affiliateClickId)) {
+        attribution.affiliateClickId = input.affiliateClickId;
+    }
+    if (Object.keys(attribution).length === 0) return null;
+
+    const capturedAt = new Date(input.capturedAt);
+    attribution.capturedAt = isNaN(capturedAt) ? new Date() : capturedAt;
+    return attribution;
+};
+
+const userActor = (user) => ({ type: 'user', id: user._id.toString() });
+
+// Paid in full without a payment (e.g. a 100% coupon)
+const completeFreeOrder = (order, context) => markOrderPaid(order, context);
+
+/**
+ * Create the order and its item for a course, reserve a use of the coupon,
+ * open an order with the payment gateway and move ours to pending_payment.
+ * The reservation is confirmed when the order is paid. The campaign the buyer
+ * came from and the referrer and affiliate to credit are kept on the order.
+ * Returns the order and the gateway's checkout options. Orders that come to
+ * nothing are completed right away, without a gateway. With an installment
+ * plan the order carries its schedule and the gateway order is for the first
+ * installment, which pays the order. Bought as a gift (`gift` is
+ * { recipientEmail, message }) the buyer doesn't get the course; the order
+ * keeps a gift whose code is emailed to the recipient once it is paid.
+ * Bought as seats (`seats` is { quantity, organizationId or
+ * organizationName }) the order buys the organization a seat license
+ * instead; a new organization, with the buyer as its admin, is only created
+ * once the order is paid.
+ */
+const startCheckout = async ({
+    user, course, couponCode, planId, currency, attribution, deviceId, gift: giftInput, seats: seatsInput
+}) => {
+    if (!course.isActive) {
+        throw checkoutError('This course is not available for purchase', 400);
+    }
+    const gift = readGift(giftInput, user);
+    const seats = readSeats(seatsInput);
+    if ((gift || seats) && course.price === 0) {
+        throw checkoutError(`Free courses cannot be bought as ${gift ? 'a gift' : 'seats'}`, 400);
+    }
+    if (gift && seats) {
+        throw checkoutError('Seats cannot be bought as a gift', 400);
+    }
+    if (gift && planId) {
+        throw checkoutError('Gifts have to be paid in full', 400);
+    }
+    if (!gift && !seats && await hasCourseAccess(user, course)) {
+        throw checkoutError('You already have access to this course', 409);
+    }
+
+    const quote = await quoteCourse(course, couponCode, user, currency, planId, seats ? seats.quantity : 1);
+    const organization = seats && seats.organizationId
+        ? await findAdminOrganization(user, seats.organizationId)
+        : null;
+    const { totals, placeOfSupply, supplyType, lines: [line] } = quote.tax;
+    const gateway = quote.totalAmount > 0 ? getDefaultGateway() : null;
+    if (quote.totalAmount > 0 && !gateway) {
+        throw checkoutError('Online payments are not available right now', 503);
+    }
+
+    const tracked = readAttribution(attribution);
+    const referral = await resolveOrderReferral({
+        user,
+        code: tracked && tracked.referralCode,
+        deviceId
+    });
+    const affiliate = await resolveOrderAffiliate({
+        user,
+        clickId: tracked && tracked.affiliateClickId
+    });
+
+    const order = await new Order({
+        userId: user._id,
+        email: user.email,
+        phone: user.phone || null,
+        subtotalAmount: quote.subtotalAmount,
+        discountAmount: quote.discountAmount,
+        taxableAmount: totals.taxableAmount,
+        cgstAmount: totals.cgstAmount,
+        sgstAmount: totals.sgstAmount,
+        igstAmount: totals.igstAmount,
+        taxAmount: totals.taxAmount,
+        placeOfSupply,
+        supplyType,
+        totalAmount: quote.totalAmount,
+        currency: quote.currency,
+        status: 'created',
+        couponId: quote.coupon ? quote.coupon.id : null,
+        installmentPlan: quote.plan ? {
+            planId: quote.plan.id,
+            installmentCount: quote.plan.installmentCount,
+            intervalDays: quote.plan.intervalDays
+        } : undefined,
+        installments: quote.installments || [],
+        isGift: Boolean(gift),
+        seatCount: seats ? seats.quantity : null,
+        organizationId: organization ? organization.id : null,
+        organizationName: seats && !organization ? seats.organizationName : null,
+        referral,
+        affiliate,
+        attribution: tracked
+    }).save();
+    await recordCreated(order, { actor: userActor(user), reason: 'checkout' });
+
+    if (quote.coupon) {
+        try {
+            await reserveCoupon({ coupon: quote.coupon, order, user });
+        } catch (error) {
+            await transitionOrder(order, 'failed', {
+                actor: { type: 'system' },
+                reason: `Coupon could not be reserved: ${error.message}`
+            });
+            throw error;
+        }
+    }
+
+    await new OrderItem({
+        orderId: order.id,
+        courseId: course._id,
+        unitPrice: quote.unitAmount,
+        quantity: quote.seats,
+        discountAmount: line.discountAmount,
+        taxRate: line.rate,
+        taxInclusive: line.inclusive,
+        taxableAmount: line.taxableAmount,
+        cgstAmount: line.cgstAmount,
+        sgstAmount: line.sgstAmount,
+        igstAmount: line.igstAmount,
+        lineTotal: line.totalAmount
+    }).save();
+
+    if (gift) {
+        await createGift({ order, course, user, gift });
+    }
+
+    if (order.totalAmount === 0) {
+        const paid = await completeFreeOrder(order, {
+            actor: userActor(user),
+            reason: 'Nothing to pay after discount'
+        });
+        return { order: paid, checkout: null };
+    }
+
+    const description = quote.plan
+        ? `${course.title} (installment 1 of ${quote.plan.installmentCount})`
+        : quote.seats > 1 ? `${course.title} (${quote.seats} seats)` : course.title;
+    return openWithGateway(order, gateway, {
+        user,
+        amount: quote.installments ? quote.installments[0].amount : order.totalAmount,
+        description,
+        firstInstallment: Boolean(quote.installments)
+    });
+};
+
+/**
+ * Open a new order with the payment gateway for `amount` and move it to
+ * pending_payment; an order the gateway turns down is failed. With
+ * firstInstallment the gateway order is also kept on the order's first
+ * installment. Returns the order and the gateway's checkout options.
+ */
+const openWithGateway = async (order, gateway, { user, amount, description, firstInstallment = false }) => {
+    let gatewayOrder;
+    try {
+        gatewayOrder = await gateway.createOrder({
+            order,
+            amount,
+            description,
+            prefill: { name: user.name, email: user.email, contact: user.phone || '' }
+        });
+    } catch (error) {
+        await transitionOrder(order, 'failed', {
+            actor: { type: 'system' },
+            reason: `Gateway order could not be created: ${error.message}`
+        });
+        throw error;
+    }
+
+    const pending = await transitionOrder(order, 'pending_payment', {
+        actor: { type: 'gateway', id: gateway.name },
+        reason: `Gateway order ${gatewayOrder.gatewayOrderId}`
+    }, {
+        gateway: gateway.name,
+        gatewayOrderId: gatewayOrder.gatewayOrderId,
+        ...(firstInstallment ? { 'installments.0.gatewayOrderId': gatewayOrder.gatewayOrderId } : {})
+    });
+    return { order: pending, checkout: { gateway: gateway.name, ...gatewayOrder.checkout } };
+};
+
+// Price breakdown for one period of a membership plan, in INR
+const quoteMembership = (plan, user) => {
+    const tax = calculateTax({
+        buyerState: user && user.state,
+        buyerCountry: user && user.billingCountry,
+        lines: [{
+            amount: toPaise(plan.price),
+            inclusive: plan.taxInclusive !== false,
+            rate: plan.gstRate != null ? plan.gstRate : undefined
+        }]
+    });
+    return { plan, subtotalAmount: toPaise(plan.price), tax, totalAmount: tax.totals.totalAmount };
+};
+
+/**
+ * Create an order for one period of an All Access membership and open it
+ * with the payment gateway: the first period of a new membership, or the
+ * renewal of the user's current one once it is due. The period starts when
+ * the order is paid. Returns the subscription, the order and the gateway's
+ * checkout options.
+ */
+const startMembershipCheckout = async ({ user, plan }) => {
+    const subscription = await subscriptionForCheckout(user, plan);
+    const gateway = getDefaultGateway();
+    if (!gateway) {
+        throw checkoutError('Online payments are not available right now', 503);
+    }
+
+    const quote = quoteMembership(plan, user);
+    const { totals, placeOfSupply, supplyType, lines: [line] } = quote.tax;
+    const renewal = subscription.status !== 'pending';
+    const description = `${plan.name} membership${renewal ? ' renewal' : ''}`;
+
+    const order = await new Order({
+        userId: user._id,
+        email: user.email,
+        phone: user.phone || null,
+        subtotalAmount: quote.subtotalAmount,
+        discountAmount: 0,
+        taxableAmount: totals.taxableAmount,
+        cgstAmount: totals.cgstAmount,
+        sgstAmount: totals.sgstAmount,
+        igstAmount: totals.igstAmount,
+        taxAmount: totals.taxAmount,
+        placeOfSupply,
+        supplyType,
+        totalAmount: quote.totalAmount,
+        currency: 'INR',
+        status: 'created',
+        subscriptionId: subscription.id
+    }).save();
+    await recordCreated(order, { actor: userActor(user), reason: renewal ? 'membership renewal' : 'membership checkout' });
+
+    await new OrderItem({
+        orderId: order.id,
+        membershipPlanId: plan.id,
+        description,
+        unitPrice: quote.subtotalAmount,
+        quantity: 1,
+        taxRate: line.rate,
+        taxInclusive: line.inclusive,
+        taxableAmount: line.taxableAmount,
+        cgstAmount: line.cgstAmount,
+        sgstAmount: line.sgstAmount,
+        igstAmount: line.igstAmount,
+        lineTotal: line.totalAmount
+    }).save();
+
+    const opened = await openWithGateway(order, gateway, { user, amount: order.totalAmount, description });
+    return { subscription, ...opened };
+};
+
+// The user's own order that is still waiting for payment
+const findPendingOrder = async (user, orderId) => {
+    const order = await Order.findOne({ id: orderId, userId: user._id });
+    if (!order) {
+        throw checkoutError('Order not found', 404);
+    }
+    if (order.status !== 'pending_payment') {
+        throw checkoutError(`Order cannot be paid. Current status: ${order.status}`, 409);
+    }
+    return order;
+};
+
+// The installment of a paid order being paid through the gateway, or null
+const installmentInProgress = (order) => {
+    const installment = order.status === 'paid' ? nextInstallment(order) : null;
+    return installment && installment.gatewayOrderId ? installment : null;
+};
+
+// The user's own order with a payment to take: one waiting for payment, or
+// a paid one with an installment opened with the gateway. Resolves to the
+// order and the gateway order being paid.
+const findPayableOrder = async (user, orderId) => {
+    const order = await Order.findOne({ id: orderId, userId: user._id });
+    if (!order) {
+        throw checkoutError('Order not found', 404);
+    }
+    const installment = installmentInProgress(order);
+    if (installment) {
+        return { order, gatewayOrderId: installment.gatewayOrderId };
+    }
+    if (order.status !== 'pending_payment') {
+        throw checkoutError(`Order cannot be paid. Current status: ${order.status}`, 409);
+    }
+    return { order, gatewayOrderId: order.gatewayOrderId };
+};
+
+// What a payment on the order should be: the installment it is for, or the
+// whole total
+const amountDue = (order, installment) => (installment ? installment.amount : order.totalAmount);
+
+const gatewayFor = (order) => {
+    const gateway = getGateway(order.gateway);
+    if (!gateway) {
+        throw checkoutError('The payment gateway for this order is not available', 503);
+    }
+    return gateway;
+};
+
+const findOrCreatePayment = async (order, gateway, result, context, installment) => {
+    const existing = await Payment.findByGatewayPaymentId(result.gatewayPaymentId);
+    if (existing) return existing;
+
+    try {
+        const payment = await new Payment({
+            gateway: gateway.name,
+            gatewayPaymentId: result.gatewayPaymentId,
+            orderId: order.id,
+            amount: result.amount,
+            installmentNumber: installment ? installment.number : undefined,
+            status: 'initiated'
+        }).save();
+        await recordCreated(payment, context);
+        return payment;
+    } catch (error) {
+        // Created at the same moment by the webhook or another confirm call
+        if (error.code === 11000) {
+            return Payment.findByGatewayPaymentId(result.gatewayPaymentId);
+        }
+        throw error;
+    }
+};
+
+/**
+ * Record a payment result reported by the gateway (from an API fetch or a
+ * webhook) against the order and apply it. Each status change is claimed
+ * atomically, so it reaches the order exactly once however many times the
+ * same result arrives. Results that would move the payment backwards, such
+ * as a late failure after a capture, are ignored. Payments on an installment
+ * order are matched to the installment their gateway order was opened for.
+ */
+const recordPaymentResult = async (order, gateway, result, context) => {
+    const installment = installmentFor(order, result.gatewayOrderId);
+    if (result.gatewayOrderId && result.gatewayOrderId !== order.gatewayOrderId && !installment) {
+        throw checkoutError('Payment does not belong to this order', 400);
+    }
+    if (result.amount !== amountDue(order, installment)) {
+        throw checkoutError('Payment amount does not match the order total', 400);
+    }
+
+    const payment = await findOrCreatePayment(order, gateway, result, context, installment);
+    if (payment.orderId !== order.id) {
+        throw checkoutError('Payment does not belong to this order', 400);
+    }
+
+    const status = result.status === 'authorized' ? 'initiated' : result.status;
+    if (!canTransitionPayment(payment.status, status)) {
+        // A capture seen again fulfils the order if that failed the first time
+        const current = payment.status === 'captured' ? await retryFulfillment(order) : order;
+        return { order: current, payment, changed: false };
+    }
+
+    const updated = await transitionPayment(payment, status, context, { method: result.method });
+    if (!updated.payment) {
+        // Someone else applied a change first
+        return {
+            order: await Order.findOne({ id: order.id }),
+            payment: await Payment.findById(payment._id),
+            changed: false
+        };
+    }
+    return { ...updated, changed: true };
+};
+
+// Fetch a payment from the gateway, capturing it if it was only authorized,
+// and record the result
+const syncPayment = async (order, gateway, gatewayPaymentId, context) => {
+    let result = await gateway.fetchPayment(gatewayPaymentId);
+    const due = amountDue(order, installmentFor(order, result.gatewayOrderId));
+
+    if (result.status === 'authorized' && result.amount === due) {
+        result = await gateway.capturePayment(gatewayPaymentId, {
+            amount: due,
+            currency: order.currency
+        });
+    }
+
+    return recordPaymentResult(order, gateway, result, context);
+};
+
+/**
+ * Verify the signature the gateway gave the browser after payment, then
+ * record the payment. A delayed capture leaves the order pending_payment
+ * (or its installment pending).
+ */
+const confirmPayment = async ({ user, orderId, gatewayPaymentId, signature }) => {
+    const { order, gatewayOrderId } = await findPayableOrder(user, orderId);
+    const gateway = gatewayFor(order);
+
+    const verified = gatewayPaymentId && gateway.verifyPaymentSignature({
+        gatewayOrderId,
+        gatewayPaymentId,
+        signature
+    });
+    if (!verified) {
+        throw checkoutError('Payment verification failed', 400);
+    }
+
+    return syncPayment(order, gateway, gatewayPaymentId, {
+        actor: userActor(user),
+        reason: 'Payment confirmed from checkout'
+    });
+};
+
+// The user's order, re-checked with the gateway while a payment is pending
+const refreshOrder = async (user, orderId) => {
+    const order = await Order.findOne({ id: orderId, userId: user._id });
+    if (!order) {
+        throw checkoutError('Order not found', 404);
+    }
+    if (order.status !== 'pending_payment' && !installmentInProgress(order)) {
+        return order;
+    }
+
+    const pending = await Payment.findOne({ orderId: order.id, status: 'initiated' })
+        .sort({ createdAt: -1 });
+    if (!pending) {
+        return order;
+    }
+
+    const { order: updatedOrder } = await syncPayment(order, gatewayFor(order), pending.gatewayPaymentId, {
+        actor: userActor(user),
+        reason: 'Payment status checked with gateway'
+    });
+    return updatedOrder;
+};
+
+/**
+ * Open the next unpaid installment of the user's installment order with the
+ * gateway. Resolves to the order and the gateway's checkout options; the
+ * payment is then confirmed like any other.
+ */
+const startInstallmentPayment = async (user, orderId) => {
+    const order = await Order.findOne({ id: orderId, userId: user._id });
+    if (!order) {
+        throw checkoutError('Order not found', 404);
+    }
+    const installment = order.status === 'paid' ? nextInstallment(order) : null;
+    if (!installment) {
+        throw checkoutError('This order has no installment left to pay', 409);
+    }
+
+    const gateway = gatewayFor(order);
+    const items = await OrderItem.find({ orderId: order.id }).populate('courseId', 'title');
+    const title = items.map((item) => (item.courseId ? item.courseId.title : 'Course')).join(', ');
+    const gatewayOrder = await gateway.createOrder({
+        order,
+        amount: installment.amount,
+        description: `${title} (installment ${installment.number} of ${order.installments.length})`,
+        prefill: { name: user.name, email: user.email, contact: user.phone || '' }
+    });
+
+    const updated = await Order.findOneAndUpdate(
+        {
+            _id: order._id,
+            installments: { $elemMatch: { number: installment.number, status: 'pending' } }
+        },
+        {
+            $set: {
+                'installments.$.gatewayOrderId': gatewayOrder.gatewayOrderId,
+                updatedAt: Date.now()
+            }
+        },
+        { new: true }
+    );
+    if (!updated) {
+        throw checkoutError('This installment has already been paid', 409);
+    }
+    return { order: updated, checkout: { gateway: gateway.name, ...gatewayOrder.checkout } };
+};
+
+// Stand-in for the gateway's hosted payment page when using the mock gateway
+const simulateMockPayment = async ({ user, gatewayOrderId, outcome }) => {
+    const gateway = getGateway('mock');
+    const order = gateway && await Order.findOne({
+        gateway: gateway.name,
+        $or: [
+            { gatewayOrderId },
+            { 'installments.gatewayOrderId': gatewayOrderId }
+        ],
+        userId: user._id
+    });
+    if (!order) {
+        throw checkoutError('Order not found', 404);
+    }
+    return gateway.simulatePayment(gatewayOrderId, outcome);
+};
+
+module.exports = {
+    toPaise,
+    userActor,
+    quoteCourse,
+    startCheckout,
+    findPendingOrder,
+    recordPaymentResult,
+    syncPayment,
+    confirmPayment,
+    refreshOrder,
+    startInstallmentPayment,
+    startMembershipCheckout,
+    simulateMockPayment
+};
@@ -0,0 +1,294 @@
+const Coupon = require('../Model/coupon');
+const CouponRedemption = require('../Model/couponRedemption');
+const Order = require('../Model/order');
+const { formatPrice } = require('./currency');
+
+// Orders that count as a purchase: paid, and later refunded
+const PURCHASED_STATUSES = ['paid', 'refunded'];
+
+// How long a checkout holds a coupon use before it is given back
+const getReservationMinutes = () => {
+    const minutes = parseInt(process.env.COUPON_RESERVATION_MINUTES, 10);
+    return minutes > 0 ? minutes : 30;
+};
+
+// What the learner is told for each reason a coupon is turned down
+const REJECTION_MESSAGES = {
+    not_found: 'This coupon code does not exist',
+    inactive: 'This coupon is no longer active',
+    not_started: 'This coupon is not valid yet',
+    expired: 'This coupon has expired',
+    usage_limit_reached: 'This coupon has been fully redeemed',
+    login_required: 'Please log in to use this coupon',
+    per_user_limit_reached: 'You have already used this coupon the maximum number of times',
+    first_purchase_only: 'This coupon is only valid on your first purchase',
+    course_not_eligible: 'This coupon does not apply to the selected course',
+    min_order_not_met: 'Your order does not meet the minimum value for this coupon',
+    currency_not_supported: 'This coupon cannot be used when paying in this currency'
+};
+
+/**
+ * Errors carry the HTTP status and a `reason` code from REJECTION_MESSAGES
+ * so clients can tell why a coupon was turned down.
+ */
+const couponError = (reason, statusCode = 400, message = REJECTION_MESSAGES[reason]) => {
+    return Object.assign(new Error(message), { statusCode, reason });
+};
+
+// How many uses of the coupon the user holds: paid ones and checkouts
+// still within their reservation
+const countUserRedemptions = (coupon, user, now = new Date()) => {
+    return CouponRedemption.countDocuments({
+        couponId: coupon.id,
+        userId: user._id,
+        $or: [
+            { status: 'confirmed' },
+            { status: 'reserved', expiresAt: { $gt: now } }
+        ]
+    });
+};
+
+const hasPurchased = async (user) => {
+    return Boolean(await Order.exists({ userId: user._id, status: { $in: PURCHASED_STATUSES } }));
+};
+
+/**
+ * Check a coupon against a user and cart and work out its discount. `items`
+ * are { courseId, price } with prices in the major unit of `currency`
+ * (rupees by default); the discount only covers the courses the coupon
+ * applies to, while the minimum order value is checked against the whole
+ * cart. Without items only the coupon and user rules are checked and the
+ * discount is null. Throws a couponError when the coupon can't be used;
+ * resolves to { coupon, discount, eligibleAmount, subtotal }.
+ */
+const applyCoupon = async ({ code, user, items, currency = 'INR' }) => {
+    let coupon = code && await Coupon.findOne({ code: String(code).toUpperCase().trim() });
+    if (!coupon) {
+        throw couponError('not_found', 404);
+    }
+
+    // Uses held by abandoned checkouts don't count against the limit
+    if (coupon.getInvalidReason() === 'usage_limit_reached'
+        && await releaseExpiredRedemptions({ couponId: coupon.id })) {
+        coupon = await Coupon.findById(coupon._id);
+    }
+
+    const invalidReason = coupon.getInvalidReason();
+    if (invalidReason) {
+        throw couponError(invalidReason);
+    }
+
+    const needsUser = coupon.perUserLimit !== null || coupon.firstPurchaseOnly;
+    if (needsUser && !user) {
+        throw couponError('login_required', 401);
+    }
+    if (coupon.perUserLimit !== null && await countUserRedemptions(coupon, user) >= coupon.perUserLimit) {
+        throw couponError('per_user_limit_reached');
+    }
+    if (coupon.firstPurchaseOnly && await hasPurchased(user)) {
+        throw couponError('first_purchase_only');
+    }
+
+    const values = coupon.valuesIn(currency);
+    if (!values) {
+        throw couponError('currency_not_supported');
+    }
+
+    if (!items) {
+        return { coupon, discount: null, eligibleAmount: null, subtotal: null };
+    }
+
+    const eligible = items.filter((item) => coupon.appliesToCourse(item.courseId));
+    if (eligible.length === 0) {
+        throw couponError('course_not_eligible');
+    }
+
+    const subtotal = items.reduce((sum, item) => sum + item.price, 0);
+    if (subtotal < values.minOrderAmount) {
+        throw couponError(
+            'min_order_not_met',
+            400,
+            `This coupon needs a minimum order value of ${formatPrice(values.minOrderAmount, currency)}`
+        );
+    }
+
+    const eligibleAmount = eligible.reduce((sum, item) => sum + item.price, 0);
+    return {
+        coupon,
+        discount: coupon.calculateDiscount(eligibleAmount, currency),
+        eligibleAmount,
+        subtotal
+    };
+};
+
+// Take one of the coupon's uses if any are left; resolves to null when the
+// usage limit has been reached
+const claimUse = (couponId) => {
+    return Coupon.findOneAndUpdate(
+        {
+            id: couponId,
+            $or: [
+                { usageLimit: null },
+                { $expr: { $lt: ['$usedCount', '$usageLimit'] } }
+            ]
+        },
+        { $inc: { usedCount: 1 }, updatedAt: Date.now() },
+        { new: true }
+    );
+};
+
+const giveBackUse = (couponId) => {
+    return Coupon.updateOne(
+        { id: couponId, usedCount: { $gt: 0 } },
+        { $inc: { usedCount: -1 }, updatedAt: Date.now() }
+    );
+};
+
+/**
+ * Give back a reserved use. Only a reservation still marked reserved is
+ * released, so the use is returned once however many callers race here;
+ * confirmed redemptions are never released. Returns null if it wasn't reserved.
+ */
+const releaseRedemption = async (redemption, reason) => {
+    const released = await CouponRedemption.findOneAndUpdate(
+        { _id: redemption._id, status: 'reserved' },
+        { status: 'released', releasedAt: new Date(), releaseReason: reason, updatedAt: Date.now() },
+        { new: true }
+    );
+    if (!released) return null;
+
+    await giveBackUse(released.couponId);
+    return released;
+};
+
+// Release reservations whose checkout was never paid in time (for one
+// coupon, or all of them); resolves to how many were released
+const releaseExpiredRedemptions = async ({ couponId, now = new Date() } = {}) => {
+    const expired = await CouponRedemption.find({
+        ...(couponId ? { couponId } : {}),
+        status: 'reserved',
+        expiresAt: { $lte: now }
+    });
+
+    let released = 0;
+    for (const redemption of expired) {
+        if (await releaseRedemption(redemption, 'Reservation expired before payment')) {
+            released += 1;
+        }
+    }
+    return released;
+};
+
+/**
+ * Reserve a use of the coupon for an order at checkout. The use is taken
+ * with a single conditional update of the coupon, so concurrent checkouts
+ * can't go past its usage limit; the per-user limit is checked again once
+ * the reservation exists and the reservation is given back if it was beaten.
+ * Throws a couponError when no use is left.
+ */
+const reserveCoupon = async ({ coupon, order, user }) => {
+    await releaseExpiredRedemptions({ couponId: coupon.id });
+
+    if (!await claimUse(coupon.id)) {
+        throw couponError('usage_limit_reached', 409);
+    }
+
+    let redemption;
+    try {
+        redemption = await new CouponRedemption({
+            couponId: coupon.id,
+            orderId: order.id,
+            userId: user ? user._id : null,
+            status: 'reserved',
+            expiresAt: new Date(Date.now() + getReservationMinutes() * 60 * 1000)
+        }).save();
+    } catch (error) {
+        await giveBackUse(coupon.id);
+        throw error;
+    }
+
+    if (user && coupon.perUserLimit !== null
+        && await countUserRedemptions(coupon, user) > coupon.perUserLimit) {
+        await releaseRedemption(redemption, 'Per-user limit reached by another checkout');
+        throw couponError('per_user_limit_reached', 409);
+    }
+    return redemption;
+};
+
+/**
+ * Confirm the coupon use of a paid order. A reservation that was released
+ * before the payment came through (a late capture after a failure or expiry)
+ * takes a use again even past the usage limit, since the buyer has already
+ * paid the discounted price. Orders without a reservation, such as those
+ * created by an admin, get a confirmed redemption. Idempotent.
+ */
+const confirmRedemption = async (order) => {
+    if (!order.couponId) return null;
+
+    const existing = await CouponRedemption.findOne({ orderId: order.id });
+    if (existing && existing.status === 'confirmed') return existing;
+
+    if (!existing) {
+        try {
+            const redemption = await new CouponRedemption({
+                couponId: order.couponId,
+                orderId: order.id,
+                userId: order.userId || null,
+                status: 'confirmed',
+                confirmedAt: new Date()
+            }).save();
+            await Coupon.updateOne({ id: order.couponId }, { $inc: { usedCount: 1 } });
+            return redemption;
+        } catch (error) {
+            // Created at the same moment by another confirmation
+            if (error.code === 11000) return CouponRedemption.findOne({ orderId: order.id });
+            throw error;
+        }
+    }
+
+    const confirmed = await CouponRedemption.findOneAndUpdate(
+        { _id: existing._id, status: existing.status },
+        { status: 'confirmed', confirmedAt: new Date(), updatedAt: Date.now() },
+        { new: true }
+    );
+    if (!confirmed) return CouponRedemption.findOne({ orderId: order.id });
+
+    if (existing.status === 'released') {
+        await Coupon.updateOne({ id: confirmed.couponId }, { $inc: { usedCount: 1 } });
+    }
+    return confirmed;
+};
+
+// Give back the coupon use reserved for an order that won't be paid
+const releaseOrderRedemption = async (order, reason) => {
+    if (!order.couponId) return null;
+
+    const redemption = await CouponRedemption.findOne({ orderId: order.id, status: 'reserved' });
+    return redemption ? releaseRedemption(redemption, reason) : null;
+};
+
+// The rules a coupon carries, for showing alongside it
+const describeCoupon = (coupon) => ({
+    id: coupon.id,
+    code: coupon.code,
+    discountType: coupon.discountType,
+    discountValue: coupon.discountValue,
+    maxDiscountAmount: coupon.maxDiscountAmount,
+    minOrderAmount: coupon.minOrderAmount,
+    courseIds: coupon.courseIds,
+    perUserLimit: coupon.perUserLimit,
+    firstPurchaseOnly: coupon.firstPurchaseOnly,
+    currencyValues: coupon.currencyValues,
+    validTill: coupon.validTill,
+    remainingUses: coupon.usageLimit ? coupon.usageLimit - coupon.usedCount : null
+});
+
+module.exports = {
+    REJECTION_MESSAGES,
+    applyCoupon,
+    reserveCoupon,
+    confirmRedemption,
+    releaseOrderRedemption,
+    releaseExpiredRedemptions,
+    describeCoupon
+};
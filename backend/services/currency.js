@@ -0,0 +1,66 @@
+// Currencies courses are sold in. Course.price and the coupon fields are the
+// INR price list; other currencies have their own list on the course and
+// coupon rather than being converted. Orders keep amounts in the minor unit
+// of their currency (paise or cents).
+
+const BASE_CURRENCY = 'INR';
+
+const SUPPORTED_CURRENCIES = ['INR', 'USD', 'EUR'];
+
+// Euro area members, by ISO 3166 country code
+const EURO_COUNTRIES = [
+    'AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR',
+    'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK'
+];
+
+// A supported currency code, or null
+const normalizeCurrency = (currency) => {
+    const code = String(currency || '').trim().toUpperCase();
+    return SUPPORTED_CURRENCIES.includes(code) ? code : null;
+};
+
+// An ISO 3166 alpha-2 country code, or null
+const normalizeCountry = (country) => {
+    const code = String(country || '').trim().toUpperCase();
+    return /^[A-Z]{2}$/.test(code) ? code : null;
+};
+
+// The currency buyers billed in a country pay in: rupees in India, euros in
+// the euro area and US dollars everywhere else
+const currencyForCountry = (country) => {
+    const code = normalizeCountry(country);
+    if (!code) return null;
+    if (code === 'IN') return 'INR';
+    return EURO_COUNTRIES.includes(code) ? 'EUR' : 'USD';
+};
+
+/**
+ * The currency to price in: the one asked for with the request, then the
+ * user's saved preference, then their billing country, then INR.
+ */
+const resolveCurrency = ({ requested, user } = {}) => {
+    return normalizeCurrency(requested)
+        || (user && normalizeCurrency(user.preferredCurrency))
+        || (user && currencyForCountry(user.billingCountry))
+        || BASE_CURRENCY;
+};
+
+// An amount in major units for messages, e.g. ₹499 or $12.50
+const formatPrice = (amount, currency = BASE_CURRENCY) => {
+    return new Intl.NumberFormat(currency === 'INR' ? 'en-IN' : 'en-US', {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+        maximumFractionDigits: 2
+    }).format(amount);
+};
+
+module.exports = {
+    BASE_CURRENCY,
+    SUPPORTED_CURRENCIES,
+    normalizeCurrency,
+    normalizeCountry,
+    currencyForCountry,
+    resolveCurrency,
+    formatPrice
+};
@@ -0,0 +1,152 @@
+const Users = require('../Model/user');
+const OrderItem = require('../Model/orderItem');
+const Enrollment = require('../Model/enrollment');
+const Subscription = require('../Model/subscription');
+const SeatAssignment = require('../Model/seatAssignment');
+const Courses = require('../Model/course');
+
+// Whether the user has an All Access membership right now (including its
+// grace period after a missed renewal)
+const hasActiveMembership = async (user) => {
+    if (!user) return false;
+    return !!(await Subscription.findCurrent(user._id));
+};
+
+// Whether the user holds one of an organization's seats for the course
+const hasSeatAccess = async (user, course) => {
+    if (!user || !course) return false;
+    return !!(await SeatAssignment.findActive(user._id, course._id));
+};
+
+// Admins can read everything; free courses are open to any logged-in user,
+// members can read every course and organization members the courses they
+// hold a seat for
+const hasCourseAccess = async (user, course) => {
+    if (!user || !course) return false;
+    if (user.role === 'admin') return true;
+    if (course.price === 0) return true;
+
+    const enrollment = await Enrollment.findActive(user._id, course._id);
+    return !!enrollment || await hasSeatAccess(user, course) || await hasActiveMembership(user);
+};
+
+// Members can join every webinar; others those of courses they own
+const hasWebinarAccess = async (user, webinar) => {
+    if (!user || !webinar) return false;
+    if (user.role === 'admin') return true;
+    if (await hasActiveMembership(user)) return true;
+
+    const course = webinar.courseId && await Courses.findById(webinar.courseId._id || webinar.courseId);
+    return hasCourseAccess(user, course);
+};
+
+// Ids of every course the user currently owns or holds a seat for
+const getEnrolledCourseIds = async (user) => {
+    if (!user) return new Set();
+    const [enrollments, seats] = await Promise.all([
+        Enrollment.findActiveByUser(user._id),
+        SeatAssignment.findActiveByUser(user._id)
+    ]);
+    return new Set([...enrollments, ...seats].map((e) => e.courseId.toString()));
+};
+
+// Guest orders are matched to an account by email
+const findOrderUser = (order) => {
+    if (order.userId) return Users.findById(order.userId);
+    return Users.findOne({ email: order.email });
+};
+
+const grantCourse = (userId, courseId, fields = {}) => {
+    return Enrollment.findOneAndUpdate(
+        { userId, courseId },
+        {
+            $set: {
+                source: 'order',
+                ...fields,
+                status: 'active',
+                grantedAt: new Date(),
+                revokedAt: null,
+                revokeReason: null,
+                updatedAt: new Date()
+            }
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+};
+
+// Grant every course in a paid order to its buyer. Gifts are granted to
+// whoever redeems their code instead, and an organization's seats to the
+// members they are assigned to.
+const grantOrderAccess = async (order) => {
+    if (order.isGift || order.seatCount) return [];
+
+    const user = await findOrderUser(order);
+    if (!user) {
+        console.log('⚠️ No user account for order, access not granted:', order.id);
+        return [];
+    }
+
+    // Membership periods are granted through the subscription instead
+    const items = await OrderItem.find({ orderId: order.id, courseId: { $ne: null } });
+    return Promise.all(
+        items.map((item) => grantCourse(user._id, item.courseId, { orderId: order.id }))
+    );
+};
+
+// Revoke the courses an order granted (e.g. after a refund)
+const revokeOrderAccess = (order, reason) => {
+    return Enrollment.updateMany(
+        { orderId: order.id, status: { $in: ['active', 'suspended'] } },
+        {
+            $set: {
+                status: 'revoked',
+                revokedAt: new Date(),
+                revokeReason: reason || null,
+                updatedAt: new Date()
+            }
+        }
+    );
+};
+
+// Hold back the courses of an installment order while a payment is overdue
+const suspendOrderAccess = (order, reason) => {
+    return Enrollment.updateMany(
+        { orderId: order.id, status: 'active' },
+        {
+            $set: {
+                status: 'suspended',
+                revokedAt: new Date(),
+                revokeReason: reason || null,
+                updatedAt: new Date()
+            }
+        }
+    );
+};
+
+// Give back suspended courses once the overdue installments are paid
+const restoreOrderAccess = (order) => {
+    return Enrollment.updateMany(
+        { orderId: order.id, status: 'suspended' },
+        {
+            $set: {
+                status: 'active',
+                revokedAt: null,
+                revokeReason: null,
+                updatedAt: new Date()
+            }
+        }
+    );
+};
+
+module.exports = {
+    hasActiveMembership,
+    hasSeatAccess,
+    hasCourseAccess,
+    hasWebinarAccess,
+    getEnrolledCourseIds,
+    grantCourse,
+    grantOrderAccess,
+    revokeOrderAccess,
+    suspendOrderAccess,
+    restoreOrderAccess
+};
@@ -0,0 +1,15 @@
+const crypto = require('crypto');
+
+const hmacHex = (secret, payload) => {
+    return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+};
+
+// Constant-time comparison of a received hex signature with the expected one
+const signatureMatches = (expected, received) => {
+    if (typeof received !== 'string') return false;
+    const a = Buffer.from(expected);
+    const b = Buffer.from(received);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+module.exports = { hmacHex, signatureMatches };
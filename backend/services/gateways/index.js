@@ -0,0 +1,54 @@
+const razorpay = require('./razorpay');
+const mock = require('./mock');
+
+/**
+ * Payment gateway adapters. Each one exposes the same interface:
+ *
+ *   isConfigured()                                   -> boolean
+ *   createOrder({ order, amount, description, prefill }) -> { gatewayOrderId, checkout }
+ *   verifyPaymentSignature({ gatewayOrderId, gatewayPaymentId, signature }) -> boolean
+ *   fetchPayment(gatewayPaymentId)                   -> payment result
+ *   capturePayment(gatewayPaymentId, { amount, currency }) -> payment result
+ *   refundPayment(gatewayPaymentId, { amount, refundId, reason }) -> refund result
+ *   verifyWebhookSignature(rawBody, headers)         -> boolean
+ *   parseWebhookEvent(body, headers)                 -> { eventId, type, payment, refund }
+ *
+ * A payment result is { gatewayPaymentId, gatewayOrderId, status, amount,
+ * currency, method, errorReason } with status one of initiated, authorized,
+ * captured, failed or refunded. A refund result is { gatewayRefundId,
+ * gatewayPaymentId, refundId, amount, status } with status one of pending,
+ * processed or failed. Amounts are in paise; createOrder charges the order
+ * total unless given an `amount`, such as one installment of it.
+ */
+const gateways = {
+    [razorpay.name]: razorpay,
+    [mock.name]: mock
+};
+
+// The adapter for a gateway name, or null if unknown or not configured
+const getGateway = (name) => {
+    const gateway = gateways[name];
+    return gateway && gateway.isConfigured() ? gateway : null;
+};
+
+// PAYMENT_GATEWAY picks the gateway for new orders; the mock is the default
+// only where it has been switched on
+const getDefaultGatewayName = () => {
+    if (process.env.PAYMENT_GATEWAY) return process.env.PAYMENT_GATEWAY;
+    return mock.isConfigured() ? mock.name : razorpay.name;
+};
+
+const getDefaultGateway = () => getGateway(getDefaultGatewayName());
+
+// Refuse to start with the mock gateway switched on but no secret of its own
+const checkGatewayConfig = () => {
+    if (mock.isEnabled() && !mock.isConfigured()) {
+        throw new Error('MOCK_GATEWAY_ENABLED is set but MOCK_GATEWAY_SECRET is not');
+    }
+};
+
+module.exports = {
+    getGateway,
+    getDefaultGateway,
+    checkGatewayConfig
+};
@@ -0,0 +1,222 @@
+const crypto = require('crypto');
+const axios = require('axios');
+const { hmacHex, signatureMatches } = require('./hmac');
+const { toPaymentResult, toRefundResult, parseWebhookEvent } = require('./razorpay');
+
+// Local stand-in for Razorpay so the purchase flow works offline. It keeps
+// orders and payments in memory, speaks Razorpay's payload shapes and signs
+// with MOCK_GATEWAY_SECRET. When MOCK_WEBHOOK_URL is set it also delivers
+// webhooks the way Razorpay would. It pays orders without taking money, so
+// it only runs when MOCK_GATEWAY_ENABLED=true and MOCK_GATEWAY_SECRET is set.
+const OUTCOMES = ['success', 'failure', 'delayed'];
+
+const orders = new Map();
+const payments = new Map();
+const refunds = new Map();
+
+const getSecret = () => process.env.MOCK_GATEWAY_SECRET;
+
+const getCaptureDelayMs = () => parseInt(process.env.MOCK_CAPTURE_DELAY_MS, 10) || 10000;
+
+const randomId = (prefix) => `${prefix}_mock${crypto.randomBytes(7).toString('hex')}`;
+
+const getWebhookUrl = () => process.env.MOCK_WEBHOOK_URL;
+
+const isEnabled = () => process.env.MOCK_GATEWAY_ENABLED === 'true';
+
+const isConfigured = () => isEnabled() && Boolean(getSecret());
+
+const createOrder = async ({ order, amount = order.totalAmount, description, prefill }) => {
+    const gatewayOrderId = randomId('order');
+    orders.set(gatewayOrderId, {
+        id: gatewayOrderId,
+        amount,
+        currency: order.currency,
+        receipt: `order_${order.id}`
+    });
+
+    return {
+        gatewayOrderId,
+        checkout: {
+            keyId: null,
+            gatewayOrderId,
+            amount,
+            currency: order.currency,
+            description,
+            prefill,
+            outcomes: OUTCOMES
+        }
+    };
+};
+
+// A delayed payment stays "created" until its capture time has passed
+const toEntity = (payment) => {
+    let status = payment.status;
+    if (status === 'created' && payment.captureAt && Date.now() >= payment.captureAt) {
+        status = 'captured';
+    }
+    return { ...payment, status };
+};
+
+// Refund events carry the refund and its payment, payment events the payment
+const webhookPayload = (type, entityId) => {
+    if (type.startsWith('refund.')) {
+        const refund = refunds.get(entityId);
+        return refund && {
+            refund: { entity: refund },
+            payment: { entity: toEntity(payments.get(refund.payment_id)) }
+        };
+    }
+    const payment = payments.get(entityId);
+    return payment && { payment: { entity: toEntity(payment) } };
+};
+
+/**
+ * Send a signed, Razorpay-shaped webhook for a payment (or, for refund
+ * events, a refund) to MOCK_WEBHOOK_URL. Passing the same eventId again
+ * simulates a gateway retry.
+ */
+const sendWebhook = async (type, entityId, eventId = randomId('evt')) => {
+    const payload = webhookPayload(type, entityId);
+    if (!getWebhookUrl() || !payload) return null;
+
+    const rawBody = JSON.stringify({
+        entity: 'event',
+        event: type,
+        payload,
+        created_at: Math.floor(Date.now() / 1000)
+    });
+    await axios.post(getWebhookUrl(), rawBody, {
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Razorpay-Signature': hmacHex(getSecret(), rawBody),
+            'X-Razorpay-Event-Id': eventId
+        },
+        timeout: 10000
+    });
+    return eventId;
+};
+
+const scheduleWebhook = (type, entityId, delayMs) => {
+    if (!getWebhookUrl()) return;
+    setTimeout(() => {
+        sendWebhook(type, entityId).catch((error) => {
+            console.error('Mock gateway webhook failed:', error.message);
+        });
+    }, delayMs);
+};
+
+/**
+ * Simulate the customer paying on the gateway's hosted page. Returns what
+ * Razorpay Checkout hands back to the browser: the payment id and signature.
+ */
+const simulatePayment = (gatewayOrderId, outcome = 'success') => {
+    const order = orders.get(gatewayOrderId);
+    if (!order) {
+        throw Object.assign(new Error('Mock gateway order not found'), { statusCode: 404 });
+    }
+    if (!OUTCOMES.includes(outcome)) {
+        throw Object.assign(
+            new Error(`Outcome must be one of: ${OUTCOMES.join(', ')}`),
+            { statusCode: 400 }
+        );
+    }
+
+    const gatewayPaymentId = randomId('pay');
+    payments.set(gatewayPaymentId, {
+        id: gatewayPaymentId,
+        order_id: gatewayOrderId,
+        amount: order.amount,
+        currency: order.currency,
+        method: 'upi',
+        status: { success: 'captured', failure: 'failed', delayed: 'created' }[outcome],
+        captureAt: outcome === 'delayed' ? Date.now() + getCaptureDelayMs() : null,
+        error_description: outcome === 'failure' ? 'Payment declined by mock gateway' : null
+    });
+
+    if (outcome === 'failure') {
+        scheduleWebhook('payment.failed', gatewayPaymentId, 0);
+    } else {
+        scheduleWebhook('payment.captured', gatewayPaymentId,
+            outcome === 'delayed' ? getCaptureDelayMs() : 0);
+    }
+
+    return {
+        gatewayOrderId,
+        gatewayPaymentId,
+        signature: hmacHex(getSecret(), `${gatewayOrderId}|${gatewayPaymentId}`)
+    };
+};
+
+const verifyPaymentSignature = ({ gatewayOrderId, gatewayPaymentId, signature }) => {
+    const expected = hmacHex(getSecret(), `${gatewayOrderId}|${gatewayPaymentId}`);
+    return signatureMatches(expected, signature);
+};
+
+const fetchPayment = async (gatewayPaymentId) => {
+    const payment = payments.get(gatewayPaymentId);
+    if (!payment) {
+        throw Object.assign(new Error('Mock gateway payment not found'), { statusCode: 404 });
+    }
+    return toPaymentResult(toEntity(payment));
+};
+
+const capturePayment = async (gatewayPaymentId) => {
+    const payment = payments.get(gatewayPaymentId);
+    if (!payment) {
+        throw Object.assign(new Error('Mock gateway payment not found'), { statusCode: 404 });
+    }
+    payment.status = 'captured';
+    return toPaymentResult(payment);
+};
+
+// Mock refunds settle at once; refund.processed follows when webhooks are on
+const refundPayment = async (gatewayPaymentId, { amount, refundId, reason }) => {
+    const payment = payments.get(gatewayPaymentId);
+    if (!payment) {
+        throw Object.assign(new Error('Mock gateway payment not found'), { statusCode: 404 });
+    }
+    const refunded = payment.amount_refunded || 0;
+    if (toEntity(payment).status !== 'captured' || amount > payment.amount - refunded) {
+        throw Object.assign(
+            new Error('Mock gateway cannot refund this amount on the payment'),
+            { statusCode: 400 }
+        );
+    }
+
+    const refund = {
+        id: randomId('rfnd'),
+        payment_id: gatewayPaymentId,
+        amount,
+        currency: payment.currency,
+        notes: { refundId: String(refundId), reason },
+        status: 'processed'
+    };
+    refunds.set(refund.id, refund);
+    payment.amount_refunded = refunded + amount;
+    if (payment.amount_refunded >= payment.amount) {
+        payment.status = 'refunded';
+    }
+
+    scheduleWebhook('refund.processed', refund.id, 0);
+    return toRefundResult(refund);
+};
+
+const verifyWebhookSignature = (rawBody, headers) => {
+    return signatureMatches(hmacHex(getSecret(), rawBody), headers['x-razorpay-signature']);
+};
+
+module.exports = {
+    name: 'mock',
+    isEnabled,
+    isConfigured,
+    createOrder,
+    simulatePayment,
+    sendWebhook,
+    verifyPaymentSignature,
+    fetchPayment,
+    capturePayment,
+    refundPayment,
+    verifyWebhookSignature,
+    parseWebhookEvent
+};
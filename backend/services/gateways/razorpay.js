@@ -0,0 +1,147 @@
+const axios = require('axios');
+const { hmacHex, signatureMatches } = require('./hmac');
+
+const API_BASE_URL = 'https://api.razorpay.com/v1';
+
+const getKeyId = () => process.env.RAZORPAY_KEY_ID;
+const getKeySecret = () => process.env.RAZORPAY_KEY_SECRET;
+const getWebhookSecret = () => process.env.RAZORPAY_WEBHOOK_SECRET;
+
+const api = () => {
+    return axios.create({
+        baseURL: API_BASE_URL,
+        auth: { username: getKeyId(), password: getKeySecret() },
+        timeout: 15000
+    });
+};
+
+// Razorpay payment statuses mapped onto the ones our gateways report
+const STATUS_MAP = {
+    created: 'initiated',
+    authorized: 'authorized',
+    captured: 'captured',
+    failed: 'failed',
+    refunded: 'refunded'
+};
+
+const METHOD_MAP = {
+    upi: 'UPI',
+    card: 'CARD',
+    netbanking: 'NETBANKING',
+    wallet: 'WALLET',
+    emi: 'EMI'
+};
+
+// Normalized view of a Razorpay payment entity
+const toPaymentResult = (entity) => ({
+    gatewayPaymentId: entity.id,
+    gatewayOrderId: entity.order_id || null,
+    status: STATUS_MAP[entity.status] || 'initiated',
+    amount: entity.amount,
+    currency: entity.currency,
+    method: METHOD_MAP[entity.method] || null,
+    errorReason: entity.error_description || null
+});
+
+// Normalized view of a Razorpay refund entity; status is pending, processed
+// or failed. Our own refund id travels in the notes.
+const toRefundResult = (entity) => ({
+    gatewayRefundId: entity.id,
+    gatewayPaymentId: entity.payment_id,
+    refundId: entity.notes && entity.notes.refundId ? Number(entity.notes.refundId) : null,
+    amount: entity.amount,
+    status: entity.status
+});
+
+const isConfigured = () => Boolean(getKeyId() && getKeySecret());
+
+const createOrder = async ({ order, amount = order.totalAmount, description, prefill }) => {
+    const { data } = await api().post('/orders', {
+        amount,
+        currency: order.currency,
+        receipt: `order_${order.id}`,
+        notes: { orderId: String(order.id) }
+    });
+
+    return {
+        gatewayOrderId: data.id,
+        // Options for Razorpay Checkout on the frontend
+        checkout: {
+            keyId: getKeyId(),
+            gatewayOrderId: data.id,
+            amount: data.amount,
+            currency: data.currency,
+            description,
+            prefill
+        }
+    };
+};
+
+// Razorpay Checkout signs "<order_id>|<payment_id>" with the key secret
+const verifyPaymentSignature = ({ gatewayOrderId, gatewayPaymentId, signature }) => {
+    const expected = hmacHex(getKeySecret(), `${gatewayOrderId}|${gatewayPaymentId}`);
+    return signatureMatches(expected, signature);
+};
+
+const fetchPayment = async (gatewayPaymentId) => {
+    const { data } = await api().get(`/payments/${gatewayPaymentId}`);
+    return toPaymentResult(data);
+};
+
+// Only needed when auto-capture is off and a payment stops at "authorized"
+const capturePayment = async (gatewayPaymentId, { amount, currency }) => {
+    const { data } = await api().post(`/payments/${gatewayPaymentId}/capture`, {
+        amount,
+        currency
+    });
+    return toPaymentResult(data);
+};
+
+// Refunds are asynchronous: Razorpay usually answers "pending" and sends
+// refund.processed (or refund.failed) once the bank has settled it
+const refundPayment = async (gatewayPaymentId, { amount, refundId, reason }) => {
+    const { data } = await api().post(`/payments/${gatewayPaymentId}/refund`, {
+        amount,
+        speed: 'normal',
+        receipt: `refund_${refundId}`,
+        notes: { refundId: String(refundId), reason }
+    });
+    return toRefundResult(data);
+};
+
+// Webhooks are signed over the raw request body with the webhook secret
+const verifyWebhookSignature = (rawBody, headers) => {
+    const secret = getWebhookSecret();
+    if (!secret) return false;
+    return signatureMatches(hmacHex(secret, rawBody), headers['x-razorpay-signature']);
+};
+
+/**
+ * Normalize a webhook into { eventId, type, payment, refund }. Payment and
+ * refund events are the only ones we act on; anything else comes back with
+ * both set to null.
+ */
+const parseWebhookEvent = (body, headers) => {
+    const payload = body.payload || {};
+
+    return {
+        eventId: headers['x-razorpay-event-id'] || null,
+        type: body.event,
+        payment: payload.payment ? toPaymentResult(payload.payment.entity) : null,
+        refund: payload.refund ? toRefundResult(payload.refund.entity) : null
+    };
+};
+
+module.exports = {
+    name: 'razorpay',
+    isConfigured,
+    createOrder,
+    verifyPaymentSignature,
+    fetchPayment,
+    capturePayment,
+    refundPayment,
+    verifyWebhookSignature,
+    parseWebhookEvent,
+    toPaymentResult,
+    toRefundResult
+};
@@ -0,0 +1,263 @@
+const crypto = require('crypto');
+const GiftCode = require('../Model/giftCode');
+const Courses = require('../Model/course');
+const Users = require('../Model/user');
+const Enrollment = require('../Model/enrollment');
+const { grantCourse } = require('./entitlements');
+const { appUrl, sendMail } = require('./mailer');
+
+// Characters that can't be mistaken for one another when typed from an email
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const MAX_MESSAGE_LENGTH = 500;
+
+const giftError = (message, statusCode = 400) => {
+    return Object.assign(new Error(message), { statusCode });
+};
+
+// e.g. GIFT-7KQM-X2PA
+const generateCode = () => {
+    const chars = Array.from(crypto.randomBytes(8), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+    return `GIFT-${chars.slice(0, 4)}-${chars.slice(4)}`;
+};
+
+const normalizeCode = (code) => String(code || '').trim().toUpperCase();
+
+/**
+ * The gift details sent with a checkout: the recipient's email and an
+ * optional message. Null when the course isn't bought as a gift; throws a
+ * 400 when the details can't be used.
+ */
+const readGift = (input, user) => {
+    if (!input || typeof input !== 'object') return null;
+
+    const recipientEmail = String(input.recipientEmail || '').trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(recipientEmail)) {
+        throw giftError('Enter a valid email address for the recipient');
+    }
+    if (recipientEmail === String(user.email).toLowerCase()) {
+        throw giftError('A gift has to be sent to someone else\'s email address');
+    }
+
+    const message = typeof input.message === 'string' ? input.message.trim() : '';
+    if (message.length > MAX_MESSAGE_LENGTH) {
+        throw giftError(`The gift message can be at most ${MAX_MESSAGE_LENGTH} characters`);
+    }
+    return { recipientEmail, message };
+};
+
+// Keep the gift bought with an order; its code is issued once the order is paid
+const createGift = ({ order, course, user, gift }) => {
+    return new GiftCode({
+        orderId: order.id,
+        courseId: course._id,
+        purchaserId: user._id,
+        recipientEmail: gift.recipientEmail,
+        message: gift.message
+    }).save();
+};
+
+// Give the order's gift a code; resolves to null if it already has one
+const claimCode = async (order) => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+        try {
+            return await GiftCode.findOneAndUpdate(
+                { orderId: order.id, status: 'pending' },
+                { code: generateCode(), status: 'issued', issuedAt: new Date(), updatedAt: Date.now() },
+                { new: true }
+            );
+        } catch (error) {
+            // Another gift already has this code
+            if (error.code !== 11000) throw error;
+        }
+    }
+    throw new Error(`Could not generate a unique gift code for order ${order.id}`);
+};
+
+/**
+ * Email an issued gift's code to its recipient. The send is claimed first so
+ * the code goes out once however many callers race here, and given back if
+ * the email couldn't be sent. Resolves to whether it was sent.
+ */
+const emailGift = async (gift) => {
+    const claimed = await GiftCode.findOneAndUpdate(
+        { _id: gift._id, status: 'issued', emailedAt: null },
+        { emailedAt: new Date(), updatedAt: Date.now() },
+        { new: true }
+    );
+    if (!claimed) return false;
+
+    try {
+        const [course, purchaser] = await Promise.all([
+            Courses.findById(claimed.courseId).select('title'),
+            Users.findById(claimed.purchaserId).select('name email')
+        ]);
+        const sender = purchaser ? purchaser.name || purchaser.email : 'Someone';
+        const title = course ? course.title : 'a course';
+
+        await sendMail({
+            to: claimed.recipientEmail,
+            subject: `${sender} has gifted you ${title}`,
+            text: [
+                `${sender} has gifted you the course "${title}".`,
+                ...(claimed.message ? ['', claimed.message] : []),
+                '',
+                `Your gift code: ${claimed.code}`,
+                '',
+                `Redeem it here: ${appUrl(`/dashboard/redeem?code=${encodeURIComponent(claimed.code)}`)}`,
+                '',
+                'Log in or sign up to redeem it. The code can be used once.'
+            ].join('\n')
+        });
+        return true;
+    } catch (error) {
+        await GiftCode.updateOne({ _id: claimed._id }, { emailedAt: null });
+        throw error;
+    }
+};
+
+/**
+ * Issue the code of a paid gift order and email it to the recipient.
+ * Idempotent; an email that fails is logged and sent again by
+ * sendUnsentGiftEmails. Resolves to the gift, or null for other orders.
+ */
+const issueGift = async (order) => {
+    if (!order.isGift) return null;
+
+    const gift = await claimCode(order);
+    if (!gift) return GiftCode.findOne({ orderId: order.id });
+
+    console.log(`🎁 Gift code issued for order ${order.id}`);
+    try {
+        await emailGift(gift);
+    } catch (error) {
+        console.error(`Gift email for order ${order.id} could not be sent:`, error);
+    }
+    return gift;
+};
+
+// Retry the emails of issued gifts that couldn't be sent; resolves to how
+// many went out
+const sendUnsentGiftEmails = async () => {
+    const unsent = await GiftCode.find({ status: 'issued', emailedAt: null });
+
+    let sent = 0;
+    for (const gift of unsent) {
+        try {
+            if (await emailGift(gift)) sent += 1;
+        } catch (error) {
+            console.error(`Gift email for order ${gift.orderId} could not be sent:`, error);
+        }
+    }
+    return sent;
+};
+
+// Revoke the gift of a refunded order; the course of a redeemed one is
+// revoked with the rest of the order's access
+const revokeRefundedGift = (order) => {
+    if (!order.isGift) return null;
+    return GiftCode.findOneAndUpdate(
+        { orderId: order.id, status: { $ne: 'revoked' } },
+        { status: 'revoked', revokedAt: new Date(), updatedAt: Date.now() },
+        { new: true }
+    );
+};
+
+// An issued (or already used) gift by its code; throws a 404 otherwise
+const findGift = async (code) => {
+    const gift = normalizeCode(code) && await GiftCode.findOne({ code: normalizeCode(code) })
+        .populate('courseId', 'title slug thumbnail')
+        .populate('purchaserId', 'name');
+    if (!gift) {
+        throw giftError('This gift code does not exist', 404);
+    }
+    return gift;
+};
+
+// Why a gift can't be redeemed, or null
+const getInvalidReason = (gift) => {
+    if (gift.status === 'redeemed') return 'This gift code has already been redeemed';
+    if (gift.status !== 'issued') return 'This gift code is no longer valid';
+    return null;
+};
+
+/**
+ * Redeem a gift code: the course is granted to the user, who can't already
+ * own it. The code is claimed with a conditional update, so it can be used
+ * once however many people try it at the same moment. Resolves to the
+ * redeemed gift.
+ */
+const redeemGift = async (user, code) => {
+    const gift = await findGift(code);
+    const invalidReason = getInvalidReason(gift);
+    if (invalidReason) {
+        throw giftError(invalidReason, 409);
+    }
+    if (await Enrollment.findActive(user._id, gift.courseId._id)) {
+        throw giftError('You already own this course', 409);
+    }
+
+    const claimed = await GiftCode.findOneAndUpdate(
+        { _id: gift._id, status: 'issued' },
+        { status: 'redeemed', redeemedBy: user._id, redeemedAt: new Date(), updatedAt: Date.now() },
+        { new: true }
+    );
+    if (!claimed) {
+        throw giftError('This gift code has already been redeemed', 409);
+    }
+
+    try {
+        await grantCourse(user._id, gift.courseId._id, { source: 'gift', orderId: gift.orderId });
+    } catch (error) {
+        // Give the code back so it can be tried again
+        await GiftCode.updateOne(
+            { _id: claimed._id, status: 'redeemed' },
+            { status: 'issued', redeemedBy: null, redeemedAt: null }
+        );
+        throw error;
+    }
+    console.log(`🎁 Gift code for order ${gift.orderId} redeemed by user ${user._id}`);
+    return findGift(claimed.code);
+};
+
+// A gift as shown to whoever holds its code
+const previewGift = (gift) => ({
+    code: gift.code,
+    course: gift.courseId,
+    from: gift.purchaserId ? gift.purchaserId.name : null,
+    message: gift.message,
+    status: gift.status,
+    canRedeem: !getInvalidReason(gift)
+});
+
+// Gifts the user has bought, newest first, with their codes to pass on
+const listSentGifts = async (user) => {
+    const gifts = await GiftCode.find({ purchaserId: user._id })
+        .populate('courseId', 'title slug thumbnail')
+        .sort({ createdAt: -1 });
+    return gifts.map((gift) => ({
+        id: gift.id,
+        orderId: gift.orderId,
+        code: gift.code || null,
+        course: gift.courseId,
+        recipientEmail: gift.recipientEmail,
+        message: gift.message,
+        status: gift.status,
+        emailedAt: gift.emailedAt,
+        redeemedAt: gift.redeemedAt
+    }));
+};
+
+module.exports = {
+    readGift,
+    createGift,
+    issueGift,
+    sendUnsentGiftEmails,
+    revokeRefundedGift,
+    findGift,
+    redeemGift,
+    previewGift,
+    listSentGifts
+};
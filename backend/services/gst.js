@@ -0,0 +1,185 @@
+// GST for course sales. Prices are GST-inclusive or exclusive per course; the
+// tax is split into CGST + SGST when the place of supply is the seller's state
+// and charged as IGST otherwise. Sales to buyers outside India are exports:
+// zero-rated when the seller has a Letter of Undertaking (LUT), IGST
+// otherwise. Amounts are in paise.
+
+const { BASE_CURRENCY, normalizeCountry } = require('./currency');
+
+// GST state codes and state names
+const STATES = [
+    ['01', 'Jammu and Kashmir'],
+    ['02', 'Himachal Pradesh'],
+    ['03', 'Punjab'],
+    ['04', 'Chandigarh'],
+    ['05', 'Uttarakhand'],
+    ['06', 'Haryana'],
+    ['07', 'Delhi'],
+    ['08', 'Rajasthan'],
+    ['09', 'Uttar Pradesh'],
+    ['10', 'Bihar'],
+    ['11', 'Sikkim'],
+    ['12', 'Arunachal Pradesh'],
+    ['13', 'Nagaland'],
+    ['14', 'Manipur'],
+    ['15', 'Mizoram'],
+    ['16', 'Tripura'],
+    ['17', 'Meghalaya'],
+    ['18', 'Assam'],
+    ['19', 'West Bengal'],
+    ['20', 'Jharkhand'],
+    ['21', 'Odisha'],
+    ['22', 'Chhattisgarh'],
+    ['23', 'Madhya Pradesh'],
+    ['24', 'Gujarat'],
+    ['26', 'Dadra and Nagar Haveli and Daman and Diu'],
+    ['27', 'Maharashtra'],
+    ['29', 'Karnataka'],
+    ['30', 'Goa'],
+    ['31', 'Lakshadweep'],
+    ['32', 'Kerala'],
+    ['33', 'Tamil Nadu'],
+    ['34', 'Puducherry'],
+    ['35', 'Andaman and Nicobar Islands'],
+    ['36', 'Telangana'],
+    ['37', 'Andhra Pradesh'],
+    ['38', 'Ladakh']
+];
+
+// Place of supply for buyers outside India, as reported in GST returns
+const OTHER_COUNTRIES = ['96', 'Other Countries'];
+
+const getGstRate = () => {
+    const rate = parseFloat(process.env.GST_RATE);
+    return Number.isNaN(rate) ? 18 : rate;
+};
+
+// Seller details printed on invoices
+const getSeller = () => ({
+    name: process.env.SELLER_NAME || 'Market Research & Analysis',
+    address: process.env.SELLER_ADDRESS || '',
+    gstin: process.env.SELLER_GSTIN || '',
+    state: process.env.SELLER_STATE || 'West Bengal',
+    lutArn: process.env.GST_LUT_ARN || '' // Exports are zero-rated when set
+});
+
+const normalizeState = (state) => {
+    return String(state || '').trim().toLowerCase().replace(/&/g, 'and').replace(/\s+/g, ' ');
+};
+
+const findState = (state) => {
+    const normalized = normalizeState(state);
+    return STATES.find(([, name]) => normalizeState(name) === normalized) || null;
+};
+
+const getStateCode = (state) => {
+    const found = findState(state);
+    return found ? found[0] : null;
+};
+
+/**
+ * Place of supply for a buyer. For online services sold to consumers it is
+ * "Other Countries" when the billing country is outside India, else the
+ * buyer's state when known, otherwise the seller's own state.
+ */
+const getPlaceOfSupply = (buyerState, buyerCountry) => {
+    const country = normalizeCountry(buyerCountry);
+    if (country && country !== 'IN') {
+        const [code, state] = OTHER_COUNTRIES;
+        return { state, code };
+    }
+    const [code, state] = findState(buyerState) || findState(getSeller().state) || [null, getSeller().state];
+    return { state, code };
+};
+
+const isExport = (placeOfSupply) => placeOfSupply.code === OTHER_COUNTRIES[0];
+
+const isIntraState = (placeOfSupply) => {
+    return !isExport(placeOfSupply) && getStateCode(placeOfSupply.state) === getStateCode(getSeller().state);
+};
+
+// 'intra_state' (CGST + SGST), 'inter_state' (IGST) or 'export'
+const getSupplyType = (placeOfSupply) => {
+    if (isExport(placeOfSupply)) return 'export';
+    return isIntraState(placeOfSupply) ? 'intra_state' : 'inter_state';
+};
+
+/**
+ * Tax on one line. `amount` is the line's price after discount: with
+ * inclusive pricing the tax is already inside it, with exclusive pricing it
+ * is added on top.
+ */
+const calculateLineTax = (amount, placeOfSupply, { inclusive = true, rate = getGstRate() } = {}) => {
+    const taxableAmount = inclusive ? Math.round((amount * 100) / (100 + rate)) : amount;
+    const taxAmount = inclusive ? amount - taxableAmount : Math.round((amount * rate) / 100);
+
+    const intraState = isIntraState(placeOfSupply);
+    const cgstAmount = intraState ? Math.floor(taxAmount / 2) : 0;
+    return {
+        rate,
+        inclusive,
+        taxableAmount,
+        cgstAmount,
+        sgstAmount: intraState ? taxAmount - cgstAmount : 0,
+        igstAmount: intraState ? 0 : taxAmount,
+        taxAmount,
+        totalAmount: taxableAmount + taxAmount
+    };
+};
+
+const TAX_FIELDS = ['taxableAmount', 'cgstAmount', 'sgstAmount', 'igstAmount', 'taxAmount', 'totalAmount'];
+
+/**
+ * Tax for a whole order. Each line is { amount, inclusive, rate } with amount
+ * the list price times quantity; the order discount is spread over the lines
+ * by value (the last line takes the rounding remainder) before tax. An export
+ * paid in foreign currency is taxed at 0% under the seller's LUT; without one,
+ * or when paid in rupees, it is charged IGST. Returns the place of supply, the
+ * supply type, per-line breakdowns and order totals.
+ */
+const calculateTax = ({ lines, buyerState, buyerCountry, currency = BASE_CURRENCY, discountAmount = 0 }) => {
+    const placeOfSupply = getPlaceOfSupply(buyerState, buyerCountry);
+    const supplyType = getSupplyType(placeOfSupply);
+    const zeroRated = supplyType === 'export' && currency !== BASE_CURRENCY && Boolean(getSeller().lutArn);
+    const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+
+    let discountLeft = discountAmount;
+    const taxedLines = lines.map((line, index) => {
+        const discount = index === lines.length - 1
+            ? discountLeft
+            : Math.round((discountAmount * line.amount) / (subtotal || 1));
+        discountLeft -= discount;
+
+        return {
+            discountAmount: discount,
+            ...calculateLineTax(line.amount - discount, placeOfSupply, {
+                inclusive: line.inclusive,
+                rate: zeroRated ? 0 : line.rate
+            })
+        };
+    });
+
+    const totals = {};
+    TAX_FIELDS.forEach((field) => {
+        totals[field] = taxedLines.reduce((sum, line) => sum + line[field], 0);
+    });
+
+    return {
+        placeOfSupply,
+        supplyType,
+        intraState: supplyType === 'intra_state',
+        lines: taxedLines,
+        totals
+    };
+};
+
+module.exports = {
+    getGstRate,
+    getSeller,
+    getStateCode,
+    getPlaceOfSupply,
+    isIntraState,
+    getSupplyType,
+    calculateLineTax,
+    calculateTax
+};
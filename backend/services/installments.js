@@ -0,0 +1,332 @@
+const Order = require('../Model/order');
+const OrderItem = require('../Model/orderItem');
+const Courses = require('../Model/course');
+const InstallmentPlan = require('../Model/installmentPlan');
+const { suspendOrderAccess, restoreOrderAccess } = require('./entitlements');
+const { formatPrice } = require('./currency');
+const { appUrl, sendMail } = require('./mailer');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days after a missed due date before the order's courses are suspended
+const getGraceDays = () => {
+    const days = parseInt(process.env.INSTALLMENT_GRACE_DAYS, 10);
+    return days >= 0 ? days : 5;
+};
+
+// Days before a due date the learner is reminded to pay
+const getReminderDays = () => {
+    const days = parseInt(process.env.INSTALLMENT_REMINDER_DAYS, 10);
+    return days >= 0 ? days : 3;
+};
+
+const installmentError = (message, statusCode = 400) => {
+    return Object.assign(new Error(message), { statusCode });
+};
+
+// Plans a course can be bought with, fewest installments first
+const listPlans = (course) => {
+    return InstallmentPlan.find({ courseId: course._id, isActive: true }).sort({ installmentCount: 1 });
+};
+
+// An active plan of the course; throws a 404 otherwise
+const findPlan = async (course, planId) => {
+    const plan = await InstallmentPlan.findOne({
+        id: parseInt(planId, 10),
+        courseId: course._id,
+        isActive: true
+    });
+    if (!plan) {
+        throw installmentError('Installment plan not found', 404);
+    }
+    return plan;
+};
+
+/**
+ * Split an order total (in paise, with tax) into the plan's installments.
+ * The first is due at `startAt` and each of the rest intervalDays after the
+ * previous one; any paise left over from the split go on the last.
+ */
+const buildSchedule = (plan, totalAmount, startAt = new Date()) => {
+    const base = Math.floor(totalAmount / plan.installmentCount);
+    return Array.from({ length: plan.installmentCount }, (_, index) => ({
+        number: index + 1,
+        amount: index === plan.installmentCount - 1
+            ? totalAmount - base * (plan.installmentCount - 1)
+            : base,
+        dueAt: new Date(startAt.getTime() + index * plan.intervalDays * DAY_MS),
+        status: 'pending'
+    }));
+};
+
+// The installment a gateway order was opened for, or null
+const installmentFor = (order, gatewayOrderId) => {
+    if (!gatewayOrderId) return null;
+    return (order.installments || []).find((i) => i.gatewayOrderId === gatewayOrderId) || null;
+};
+
+// The earliest installment still to be paid, or null when all are paid
+const nextInstallment = (order) => {
+    const pending = (order.installments || []).filter((i) => i.status === 'pending');
+    return pending.sort((a, b) => a.number - b.number)[0] || null;
+};
+
+const isOverdue = (installment, now = new Date()) => {
+    return installment.status === 'pending'
+        && installment.dueAt.getTime() + getGraceDays() * DAY_MS <= now.getTime();
+};
+
+// Course titles of an order, for emails
+const describeOrder = async (order) => {
+    const items = await OrderItem.find({ orderId: order.id });
+    const courses = await Courses.find({ _id: { $in: items.map((item) => item.courseId) } });
+    return courses.map((course) => course.title).join(', ') || `order #${order.id}`;
+};
+
+const formatAmount = (order, paise) => formatPrice(paise / 100, order.currency);
+
+const formatDate = (date) => {
+    return date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+// Where the learner sees their schedule and pays the next installment
+const paymentLink = () => appUrl('/dashboard/payments');
+
+/**
+ * Lift the suspension of an order once none of its installments is overdue
+ * any more. The suspension is cleared with a conditional update, so access
+ * is restored once however many payments arrive together.
+ */
+const restoreIfSettled = async (order) => {
+    if (!order.accessSuspendedAt || order.status !== 'paid') return order;
+    if (order.installments.some((installment) => isOverdue(installment))) return order;
+
+    const restored = await Order.findOneAndUpdate(
+        { _id: order._id, accessSuspendedAt: { $ne: null } },
+        { accessSuspendedAt: null, updatedAt: Date.now() },
+        { new: true }
+    );
+    if (!restored) return order;
+
+    await restoreOrderAccess(restored);
+    console.log(`✅ Access restored for order ${restored.id} after installment payment`);
+    return restored;
+};
+
+/**
+ * Mark the installment a captured payment was for as paid and restore the
+ * order's courses if that settles what was overdue. Idempotent; resolves to
+ * the order as it now is.
+ */
+const recordInstallmentPayment = async (order, payment) => {
+    if (!payment.installmentNumber) return order;
+
+    const updated = await Order.findOneAndUpdate(
+        {
+            _id: order._id,
+            installments: { $elemMatch: { number: payment.installmentNumber, status: 'pending' } }
+        },
+        {
+            $set: {
+                'installments.$.status': 'paid',
+                'installments.$.paidAt': new Date(),
+                'installments.$.paymentId': payment.id,
+                updatedAt: Date.now()
+            }
+        },
+        { new: true }
+    );
+    if (!updated) return Order.findById(order._id);
+
+    return restoreIfSettled(updated);
+};
+
+const sendReminder = async (order, installment) => {
+    const title = await describeOrder(order);
+    const overdue = installment.dueAt.getTime() <= Date.now();
+    await sendMail({
+        to: order.email,
+        subject: overdue
+            ? `Installment ${installment.number} for ${title} is due`
+            : `Installment ${installment.number} for ${title} is due on ${formatDate(installment.dueAt)}`,
+        text: [
+            `Installment ${installment.number} of ${order.installments.length} for ${title}`
+                + ` (${formatAmount(order, installment.amount)}) is due on ${formatDate(installment.dueAt)}.`,
+            '',
+            `Pay it here: ${paymentLink(order)}`,
+            '',
+            `Access to the course is paused if it is not paid within ${getGraceDays()} days of the due date.`
+        ].join('\n')
+    });
+};
+
+/**
+ * Remind learners of installments falling due within the reminder window,
+ * once per installment. Resolves to how many reminders were sent.
+ */
+const sendInstallmentReminders = async (now = new Date()) => {
+    const dueBy = new Date(now.getTime() + getReminderDays() * DAY_MS);
+    const orders = await Order.find({
+        status: 'paid',
+        installments: { $elemMatch: { status: 'pending', dueAt: { $lte: dueBy }, remindedAt: null } }
+    });
+
+    let sent = 0;
+    for (const order of orders) {
+        const due = order.installments.filter((installment) => installment.status === 'pending'
+            && !installment.remindedAt
+            && installment.dueAt <= dueBy);
+
+        for (const installment of due) {
+            // Claim the reminder first so two runs don't both send it
+            const claimed = await Order.updateOne(
+                {
+                    _id: order._id,
+                    installments: { $elemMatch: { number: installment.number, remindedAt: null } }
+                },
+                { $set: { 'installments.$.remindedAt': now } }
+            );
+            if (claimed.modifiedCount === 0) continue;
+
+            try {
+                await sendReminder(order, installment);
+                sent += 1;
+            } catch (error) {
+                console.error(`Installment reminder for order ${order.id} could not be sent:`, error);
+                await Order.updateOne(
+                    { _id: order._id, 'installments.number': installment.number },
+                    { $set: { 'installments.$.remindedAt': null } }
+                );
+            }
+        }
+    }
+    return sent;
+};
+
+/**
+ * Suspend the courses of orders with an installment unpaid past its grace
+ * period, and let the learner know. Each order is claimed with a conditional
+ * update and checked again once claimed, so one paid in the meantime is left
+ * alone. Resolves to how many were suspended.
+ */
+const suspendOverdueAccess = async (now = new Date()) => {
+    const overdueBefore = new Date(now.getTime() - getGraceDays() * DAY_MS);
+    const orders = await Order.find({
+        status: 'paid',
+        accessSuspendedAt: null,
+        installments: { $elemMatch: { status: 'pending', dueAt: { $lte: overdueBefore } } }
+    });
+
+    let suspended = 0;
+    for (const order of orders) {
+        const claimed = await Order.findOneAndUpdate(
+            { _id: order._id, status: 'paid', accessSuspendedAt: null },
+            { accessSuspendedAt: now, updatedAt: Date.now() },
+            { new: true }
+        );
+        if (!claimed) continue;
+
+        // Paid between the search and the claim: give the claim back
+        const installment = claimed.installments
+            .filter((i) => isOverdue(i, now))
+            .sort((a, b) => a.number - b.number)[0];
+        if (!installment) {
+            await Order.updateOne(
+                { _id: claimed._id, accessSuspendedAt: now },
+                { accessSuspendedAt: null, updatedAt: Date.now() }
+            );
+            continue;
+        }
+
+        await suspendOrderAccess(claimed, `Installment ${installment.number} overdue`);
+        suspended += 1;
+        console.log(`⏸️ Access suspended for order ${claimed.id}: installment ${installment.number} overdue`);
+
+        try {
+            const title = await describeOrder(claimed);
+            await sendMail({
+                to: claimed.email,
+                subject: `Access to ${title} is paused`,
+                text: [
+                    `Installment ${installment.number} for ${title} (${formatAmount(claimed, installment.amount)})`
+                        + ` was due on ${formatDate(installment.dueAt)} and has not been paid.`,
+                    '',
+                    `Access is restored as soon as it is paid: ${paymentLink(claimed)}`
+                ].join('\n')
+            });
+        } catch (error) {
+            console.error(`Suspension notice for order ${claimed.id} could not be sent:`, error);
+        }
+    }
+    return suspended;
+};
+
+// The periodic installment work: reminders, then suspensions
+const runInstallmentJobs = async (now = new Date()) => {
+    const reminded = await sendInstallmentReminders(now);
+    const suspended = await suspendOverdueAccess(now);
+    return { reminded, suspended };
+};
+
+// An installment plan as shown to buyers and admins
+const describePlan = (plan) => ({
+    id: plan.id,
+    courseId: plan.courseId,
+    name: plan.displayName(),
+    installmentCount: plan.installmentCount,
+    installmentAmount: plan.installmentAmount,
+    intervalDays: plan.intervalDays,
+    totalAmount: plan.totalAmount(),
+    isActive: plan.isActive
+});
+
+const readPlanFields = (body) => {
+    const fields = {};
+    if (body.name !== undefined) fields.name = body.name;
+    if (body.installmentCount !== undefined) fields.installmentCount = Number(body.installmentCount);
+    if (body.installmentAmount !== undefined) fields.installmentAmount = Number(body.installmentAmount);
+    if (body.intervalDays !== undefined) fields.intervalDays = Number(body.intervalDays);
+    if (body.isActive !== undefined) fields.isActive = Boolean(body.isActive);
+    return fields;
+};
+
+const savePlan = async (plan) => {
+    try {
+        return await plan.save();
+    } catch (error) {
+        if (error.name === 'ValidationError') throw installmentError(error.message);
+        throw error;
+    }
+};
+
+// Offer a course in installments
+const createPlan = async (course, body) => {
+    if (course.price === 0) {
+        throw installmentError('Free courses cannot be sold in installments');
+    }
+    return savePlan(new InstallmentPlan({ courseId: course._id, ...readPlanFields(body) }));
+};
+
+const updatePlan = async (id, body) => {
+    const plan = await InstallmentPlan.findOne({ id });
+    if (!plan) {
+        throw installmentError('Installment plan not found', 404);
+    }
+    plan.set(readPlanFields(body));
+    return savePlan(plan);
+};
+
+module.exports = {
+    listPlans,
+    findPlan,
+    buildSchedule,
+    installmentFor,
+    nextInstallment,
+    recordInstallmentPayment,
+    sendInstallmentReminders,
+    suspendOverdueAccess,
+    runInstallmentJobs,
+    describePlan,
+    createPlan,
+    updatePlan
+};
@@ -0,0 +1,476 @@
+const PDFDocument = require('pdfkit');
+const Invoice = require('../Model/invoice');
+const CreditNote = require('../Model/creditNote');
+const Order = require('../Model/order');
+const Refund = require('../Model/refund');
+const OrderItem = require('../Model/orderItem');
+const Coupon = require('../Model/coupon');
+const Users = require('../Model/user');
+const { putObject, getObject } = require('./storage');
+const { getSeller, getSupplyType, calculateTax } = require('./gst');
+
+// SAC for commercial training and coaching services
+const SAC_CODE = '999293';
+
+// The built-in PDF fonts have no rupee sign, so amounts are printed after
+// the currency code, e.g. INR 1,180.00
+const formatAmount = (paise) => {
+    return (paise / 100).toLocaleString('en-IN', {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2
+    });
+};
+
+const formatDate = (date) => {
+    return new Date(date).toLocaleDateString('en-IN', {
+        day: '2-digit',
+        month: 'short',
+        year: 'numeric',
+        timeZone: 'Asia/Kolkata'
+    });
+};
+
+const invoiceUrl = (order) => `/api/orders/${order.id}/invoice`;
+
+const invoiceKey = (invoice) => `invoices/${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`;
+
+const creditNoteUrl = (refund) => `/api/refunds/${refund.id}/credit-note`;
+
+const creditNoteKey = (note) => `credit-notes/${note.creditNoteNumber.replace(/\//g, '-')}.pdf`;
+
+const REASON_LABELS = {
+    accidental_purchase: 'Accidental purchase',
+    duplicate_payment: 'Duplicate payment',
+    not_as_described: 'Course not as described',
+    technical_issue: 'Technical issue',
+    changed_mind: 'Changed mind',
+    other: 'Other'
+};
+
+const TAX_FIELDS = ['taxableAmount', 'cgstAmount', 'sgstAmount', 'igstAmount', 'taxAmount', 'totalAmount'];
+
+// Tax as stored on the order and its items at checkout. Orders from before the
+// supply type was stored take it from their place of supply.
+const storedTax = (order, items) => {
+    const supplyType = order.supplyType || getSupplyType(order.placeOfSupply);
+    return {
+        placeOfSupply: order.placeOfSupply,
+        supplyType,
+        intraState: supplyType === 'intra_state',
+        lines: items.map((item) => ({
+            discountAmount: item.discountAmount,
+            rate: item.taxRate,
+            inclusive: item.taxInclusive,
+            taxableAmount: item.taxableAmount,
+            cgstAmount: item.cgstAmount,
+            sgstAmount: item.sgstAmount,
+            igstAmount: item.igstAmount,
+            taxAmount: item.cgstAmount + item.sgstAmount + item.igstAmount,
+            totalAmount: item.lineTotal
+        })),
+        totals: TAX_FIELDS.reduce((totals, field) => ({ ...totals, [field]: order[field] }), {})
+    };
+};
+
+/**
+ * Everything printed on an order's invoice: buyer, line items with their
+ * share of the coupon discount, and the GST split for the place of supply.
+ * Tax comes from what was stored at checkout; orders placed before that was
+ * stored are worked out as GST-inclusive at the default rate.
+ */
+const buildInvoiceData = async (order) => {
+    const [items, buyer, coupon] = await Promise.all([
+        OrderItem.find({ orderId: order.id }).populate('courseId', 'title'),
+        order.userId ? Users.findById(order.userId).select('-passwordHash') : null,
+        order.couponId ? Coupon.findOne({ id: order.couponId }) : null
+    ]);
+
+    const tax = order.placeOfSupply && order.placeOfSupply.state
+        ? storedTax(order, items)
+        : calculateTax({
+            buyerState: buyer && buyer.state,
+            buyerCountry: buyer && buyer.billingCountry,
+            currency: order.currency || 'INR',
+            discountAmount: order.discountAmount || 0,
+            lines: items.map((item) => ({ amount: item.totalPrice, inclusive: true }))
+        });
+
+    const lines = items.map((item, index) => ({
+        description: item.courseId ? item.courseId.title : item.description || 'Course',
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        discount: tax.lines[index].discountAmount,
+        ...tax.lines[index]
+    }));
+
+    return {
+        seller: getSeller(),
+        buyer: {
+            name: buyer ? buyer.fullName || buyer.name : order.email,
+            email: order.email,
+            phone: order.phone || (buyer && buyer.phone) || '',
+            city: buyer ? buyer.city : '',
+            state: buyer ? buyer.state : ''
+        },
+        placeOfSupply: tax.placeOfSupply,
+        supplyType: tax.supplyType,
+        intraState: tax.intraState,
+        taxInclusive: lines.every((line) => line.inclusive),
+        coupon: coupon ? coupon.code : null,
+        currency: order.currency || 'INR',
+        lines,
+        totals: {
+            subtotal: items.reduce((sum, item) => sum + item.totalPrice, 0),
+            discount: order.discountAmount || 0,
+            ...tax.totals
+        }
+    };
+};
+
+// Collect a PDF drawn by `draw(doc)` into a Buffer
+const createPdf = (draw) => {
+    return new Promise((resolve, reject) => {
+        const doc = new PDFDocument({ size: 'A4', margin: 50 });
+        const chunks = [];
+        doc.on('data', (chunk) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        draw(doc);
+        doc.end();
+    });
+};
+
+// Title, seller, buyer and the document's own details as [label, value] pairs
+const renderParties = (doc, title, data, details) => {
+    const { seller, buyer } = data;
+
+    doc.fontSize(18).font('Helvetica-Bold').text(title, { align: 'right' });
+    doc.moveDown(0.5);
+
+    doc.fontSize(12).text(seller.name);
+    doc.font('Helvetica').fontSize(9);
+    if (seller.address) doc.text(seller.address);
+    doc.text(`State: ${seller.state}`);
+    doc.text(`GSTIN: ${seller.gstin || 'Not registered'}`);
+    doc.moveDown();
+
+    const top = doc.y;
+    doc.font('Helvetica-Bold').text('Bill To', 50, top);
+    doc.font('Helvetica').text(buyer.name);
+    doc.text(buyer.email);
+    if (buyer.phone) doc.text(buyer.phone);
+    if (buyer.city || buyer.state) {
+        doc.text([buyer.city, buyer.state].filter(Boolean).join(', '));
+    }
+
+    details.forEach(([label, value], i) => {
+        doc.font('Helvetica-Bold').text(`${label}:`, 330, i === 0 ? top : doc.y, { continued: true })
+            .font('Helvetica').text(` ${value}`);
+    });
+};
+
+const renderInvoicePdf = (invoice, order, data) => {
+    return createPdf((doc) => {
+        const { placeOfSupply, lines, totals } = data;
+
+        renderParties(doc, 'TAX INVOICE', data, [
+            ['Invoice No', invoice.invoiceNumber],
+            ['Invoice Date', formatDate(invoice.createdAt)],
+            ['Order No', order.id],
+            ['Place of Supply', `${placeOfSupply.code}-${placeOfSupply.state}`]
+        ]);
+
+        doc.moveDown(2);
+
+        // Line items
+        const columns = [
+            { label: 'Description', x: 50, width: 170 },
+            { label: 'SAC', x: 220, width: 50 },
+            { label: 'Qty', x: 270, width: 30 },
+            { label: 'Price', x: 300, width: 70 },
+            { label: 'Discount', x: 370, width: 60 },
+            { label: 'Taxable', x: 430, width: 60 },
+            { label: 'GST', x: 490, width: 55 }
+        ];
+        // Returns the bottom of the tallest cell, as descriptions can wrap
+        const row = (values, y, bold = false) => {
+            doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+            return values.reduce((bottom, value, i) => {
+                const { x, width } = columns[i];
+                doc.text(value, x, y, { width, align: i < 3 ? 'left' : 'right' });
+                return Math.max(bottom, doc.y);
+            }, y);
+        };
+
+        let y = Math.max(doc.y, 230);
+        row(columns.map((c) => c.label), y, true);
+        y += 15;
+        doc.moveTo(50, y).lineTo(545, y).stroke();
+        y += 5;
+        lines.forEach((line) => {
+            y = 8 + row([
+                line.description,
+                SAC_CODE,
+                String(line.quantity),
+                formatAmount(line.unitPrice),
+                formatAmount(line.discount),
+                formatAmount(line.taxableAmount),
+                formatAmount(line.taxAmount)
+            ], y);
+        });
+        doc.moveTo(50, y).lineTo(545, y).stroke();
+        y += 10;
+
+        // Totals
+        const total = (label, amount, bold = false) => {
+            doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+            doc.text(label, 330, y, { width: 140 });
+            doc.text(`${data.currency} ${formatAmount(amount)}`, 445, y, { width: 100, align: 'right' });
+            y += 15;
+        };
+        total(data.taxInclusive ? 'Subtotal (incl. GST)' : 'Subtotal', totals.subtotal);
+        if (totals.discount > 0) {
+            total(`Discount${data.coupon ? ` (${data.coupon})` : ''}`, totals.discount);
+        }
+        total('Taxable value', totals.taxableAmount);
+        if (data.intraState) {
+            total(`CGST @ ${lines[0] ? lines[0].rate / 2 : 0}%`, totals.cgstAmount);
+            total(`SGST @ ${lines[0] ? lines[0].rate / 2 : 0}%`, totals.sgstAmount);
+        } else {
+            total(`IGST @ ${lines[0] ? lines[0].rate : 0}%`, totals.igstAmount);
+        }
+        total('Total', totals.totalAmount, true);
+
+        const pricing = data.taxInclusive ? 'Prices are inclusive of GST.' : 'GST is charged on top of the listed prices.';
+        const exportNote = data.supplyType === 'export' && totals.taxAmount === 0
+            ? ` Supply meant for export under LUT${data.seller.lutArn ? ` ${data.seller.lutArn}` : ''} without payment of IGST.`
+            : '';
+        doc.font('Helvetica').fontSize(8).text(
+            `${pricing}${exportNote} This is a computer-generated invoice and does not require a signature.`,
+            50,
+            y + 30,
+            { width: 495, align: 'center' }
+        );
+    });
+};
+
+// Render an invoice's PDF and put it in storage
+const storeInvoicePdf = async (invoice, order) => {
+    const data = await buildInvoiceData(order);
+    const pdf = await renderInvoicePdf(invoice, order, data);
+    await putObject(invoice.fileKey, pdf);
+    return pdf;
+};
+
+/**
+ * Issue the invoice for a paid order: number it, record its GST totals and
+ * store the PDF. Returns the existing invoice if the order already has one.
+ */
+const issueInvoice = async (order) => {
+    const existing = await Invoice.findOne({ orderId: order.id });
+    if (existing) return existing;
+
+    const data = await buildInvoiceData(order);
+    const invoice = new Invoice({
+        orderId: order.id,
+        fileUrl: invoiceUrl(order),
+        placeOfSupply: `${data.placeOfSupply.code}-${data.placeOfSupply.state}`,
+        taxableAmount: data.totals.taxableAmount,
+        cgstAmount: data.totals.cgstAmount,
+        sgstAmount: data.totals.sgstAmount,
+        igstAmount: data.totals.igstAmount,
+        totalAmount: data.totals.totalAmount
+    });
+
+    try {
+        await invoice.save();
+    } catch (error) {
+        // Issued at the same moment by another request
+        if (error.code === 11000) return Invoice.findOne({ orderId: order.id });
+        throw error;
+    }
+
+    invoice.fileKey = invoiceKey(invoice);
+    await invoice.save();
+    await storeInvoicePdf(invoice, order);
+    return invoice;
+};
+
+// The invoice PDF, regenerated if the stored file is missing
+const getInvoicePdf = async (invoice, order) => {
+    if (!invoice.fileKey) {
+        invoice.fileKey = invoiceKey(invoice);
+        await invoice.save();
+    }
+    const stored = await getObject(invoice.fileKey);
+    return stored || storeInvoicePdf(invoice, order);
+};
+
+const GST_FIELDS = ['cgstAmount', 'sgstAmount', 'igstAmount'];
+
+/**
+ * The part of an invoice a refund reverses, in proportion to the amount
+ * refunded. The refund that credits the rest of the invoice gets whatever
+ * earlier credit notes left, so rounding never strands any tax.
+ */
+const creditNoteAmounts = (invoice, amount, previous) => {
+    const credited = (field) => previous.reduce((sum, note) => sum + note[field], 0);
+    const remaining = invoice.totalAmount - credited('totalAmount');
+    const isLast = amount >= remaining;
+
+    const gst = GST_FIELDS.reduce((amounts, field) => ({
+        ...amounts,
+        [field]: isLast
+            ? invoice[field] - credited(field)
+            : Math.round((invoice[field] * amount) / invoice.totalAmount)
+    }), {});
+    const totalAmount = isLast ? remaining : amount;
+
+    return {
+        ...gst,
+        taxableAmount: totalAmount - GST_FIELDS.reduce((sum, field) => sum + gst[field], 0),
+        totalAmount
+    };
+};
+
+const renderCreditNotePdf = (note, invoice, refund, data) => {
+    return createPdf((doc) => {
+        const rate = data.lines[0] ? data.lines[0].rate : 0;
+
+        renderParties(doc, 'CREDIT NOTE', data, [
+            ['Credit Note No', note.creditNoteNumber],
+            ['Credit Note Date', formatDate(note.createdAt)],
+            ['Original Invoice', invoice.invoiceNumber],
+            ['Invoice Date', formatDate(invoice.createdAt)],
+            ['Order No', note.orderId],
+            ['Place of Supply', note.placeOfSupply || '-'],
+            ['Reason', REASON_LABELS[refund.reasonCode] || refund.reasonCode]
+        ]);
+
+        doc.moveDown(2);
+
+        const columns = [
+            { label: 'Description', x: 50, width: 220 },
+            { label: 'SAC', x: 270, width: 50 },
+            { label: 'Taxable', x: 320, width: 75 },
+            { label: 'GST', x: 395, width: 70 },
+            { label: 'Total', x: 465, width: 80 }
+        ];
+        const row = (values, y, bold = false) => {
+            doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+            return values.reduce((bottom, value, i) => {
+                const { x, width } = columns[i];
+                doc.text(value, x, y, { width, align: i < 2 ? 'left' : 'right' });
+                return Math.max(bottom, doc.y);
+            }, y);
+        };
+
+        let y = Math.max(doc.y, 250);
+        row(columns.map((c) => c.label), y, true);
+        y += 15;
+        doc.moveTo(50, y).lineTo(545, y).stroke();
+        y += 5;
+        const description = `Refund against invoice ${invoice.invoiceNumber}: `
+            + data.lines.map((line) => line.description).join(', ');
+        y = 8 + row([
+            description,
+            SAC_CODE,
+            formatAmount(note.taxableAmount),
+            formatAmount(note.cgstAmount + note.sgstAmount + note.igstAmount),
+            formatAmount(note.totalAmount)
+        ], y);
+        doc.moveTo(50, y).lineTo(545, y).stroke();
+        y += 10;
+
+        const total = (label, amount, bold = false) => {
+            doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+            doc.text(label, 330, y, { width: 140 });
+            doc.text(`${data.currency} ${formatAmount(amount)}`, 445, y, { width: 100, align: 'right' });
+            y += 15;
+        };
+        total('Taxable value', note.taxableAmount);
+        if (data.intraState) {
+            total(`CGST @ ${rate / 2}%`, note.cgstAmount);
+            total(`SGST @ ${rate / 2}%`, note.sgstAmount);
+        } else {
+            total(`IGST @ ${rate}%`, note.igstAmount);
+        }
+        total('Total credit', note.totalAmount, true);
+
+        doc.font('Helvetica').fontSize(8).text(
+            'This credit note reverses the supply above to the extent refunded. '
+                + 'It is computer-generated and does not require a signature.',
+            50,
+            y + 30,
+            { width: 495, align: 'center' }
+        );
+    });
+};
+
+// Render a credit note's PDF and put it in storage
+const storeCreditNotePdf = async (note) => {
+    const [invoice, refund, order] = await Promise.all([
+        Invoice.findOne({ id: note.invoiceId }),
+        Refund.findOne({ id: note.refundId }),
+        Order.findOne({ id: note.orderId })
+    ]);
+    const data = await buildInvoiceData(order);
+    const pdf = await renderCreditNotePdf(note, invoice, refund, data);
+    await putObject(note.fileKey, pdf);
+    return pdf;
+};
+
+/**
+ * Issue the GST credit note for a processed refund, against the order's
+ * invoice (issuing that first if the order never got one). Returns the
+ * existing credit note if the refund already has one.
+ */
+const issueCreditNote = async (refund, order) => {
+    const existing = await CreditNote.findOne({ refundId: refund.id });
+    if (existing) return existing;
+
+    const invoice = await issueInvoice(order);
+    const previous = await CreditNote.find({ invoiceId: invoice.id });
+    const note = new CreditNote({
+        refundId: refund.id,
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        orderId: order.id,
+        fileUrl: creditNoteUrl(refund),
+        placeOfSupply: invoice.placeOfSupply,
+        ...creditNoteAmounts(invoice, refund.amount, previous)
+    });
+
+    try {
+        await note.save();
+    } catch (error) {
+        // Issued at the same moment by another request
+        if (error.code === 11000) return CreditNote.findOne({ refundId: refund.id });
+        throw error;
+    }
+
+    note.fileKey = creditNoteKey(note);
+    await note.save();
+    await storeCreditNotePdf(note);
+    return note;
+};
+
+// The credit note PDF, regenerated if the stored file is missing
+const getCreditNotePdf = async (note) => {
+    if (!note.fileKey) {
+        note.fileKey = creditNoteKey(note);
+        await note.save();
+    }
+    const stored = await getObject(note.fileKey);
+    return stored || storeCreditNotePdf(note);
+};
+
+module.exports = {
+    issueInvoice,
+    getInvoicePdf,
+    issueCreditNote,
+    getCreditNotePdf,
+    buildInvoiceData,
+    renderInvoicePdf
+};
@@ -0,0 +1,86 @@
+const { putObject } = require('./storage');
+const { sendSmtp } = require('./smtp');
+
+// Outgoing email. With SMTP_HOST set, messages are delivered to that SMTP
+// server (a relay, or a local stand-in such as MailHog that catches mail in
+// development and tests). Without it they are written to storage under
+// outbox/ as .eml files. Callers only depend on sendMail, so another
+// transport can replace these without touching them.
+const getFromAddress = () => {
+    return process.env.MAIL_FROM || `${process.env.SELLER_NAME || 'Courses'} <no-reply@localhost>`;
+};
+
+// Link to a page of the frontend, e.g. appUrl('/dashboard/payments')
+const appUrl = (path) => {
+    const base = (process.env.APP_URL || 'http://localhost:8080').replace(/\/+$/, '');
+    return `${base}${path}`;
+};
+
+// The SMTP server to deliver to, or null to write to the outbox
+const getSmtpServer = () => {
+    if (!process.env.SMTP_HOST) return null;
+    return {
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT, 10) || 25
+    };
+};
+
+// Header values on one line, with non-ASCII text (₹, names) encoded
+const headerValue = (value) => {
+    const line = String(value).replace(/[\r\n]+/g, ' ');
+    return /^[\x20-\x7e]*$/.test(line)
+        ? line
+        : `=?UTF-8?B?${Buffer.from(line, 'utf8').toString('base64')}?=`;
+};
+
+// "Name <address>" with only the name encoded
+const addressValue = (address) => {
+    const match = /^(.+?)\s*<([^>]+)>$/.exec(String(address).replace(/[\r\n]+/g, ' '));
+    return match ? `${headerValue(match[1])} <${match[2]}>` : headerValue(address);
+};
+
+const domainOf = (address) => {
+    const match = /@([^>\s]+)/.exec(address);
+    return match ? match[1] : 'localhost';
+};
+
+const toEml = ({ from, to, subject, text, date, messageId }) => {
+    return [
+        `From: ${addressValue(from)}`,
+        `To: ${addressValue(to)}`,
+        `Subject: ${headerValue(subject)}`,
+        `Date: ${date.toUTCString()}`,
+        `Message-ID: <${messageId}@${domainOf(from)}>`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: 8bit',
+        '',
+        text
+    ].join('\r\n');
+};
+
+/**
+ * Send a plain-text email. Resolves to { messageId } once the message has
+ * been handed over; throws if it couldn't be.
+ */
+const sendMail = async ({ to, subject, text }) => {
+    const date = new Date();
+    const messageId = `${date.getTime()}-${Math.random().toString(36).slice(2, 10)}`;
+    const from = getFromAddress();
+    const message = toEml({ from, to, subject, text, date, messageId });
+
+    const server = getSmtpServer();
+    if (server) {
+        await sendSmtp({ ...server, from, to, message });
+        console.log(`📧 Email sent to ${to}: ${subject}`);
+    } else {
+        await putObject(`outbox/${messageId}.eml`, message);
+        console.log(`📧 Email queued for ${to}: ${subject}`);
+    }
+    return { messageId };
+};
+
+module.exports = {
+    appUrl,
+    sendMail
+};
@@ -0,0 +1,360 @@
+const MembershipPlan = require('../Model/membershipPlan');
+const Subscription = require('../Model/subscription');
+const Users = require('../Model/user');
+const OrderItem = require('../Model/orderItem');
+const { formatPrice } = require('./currency');
+const { appUrl, sendMail } = require('./mailer');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days a membership keeps access after a renewal date passes unpaid
+const getGraceDays = () => {
+    const days = parseInt(process.env.MEMBERSHIP_GRACE_DAYS, 10);
+    return days >= 0 ? days : 3;
+};
+
+// Days before the renewal date the member can renew and is reminded to
+const getRenewalNoticeDays = () => {
+    const days = parseInt(process.env.MEMBERSHIP_RENEWAL_NOTICE_DAYS, 10);
+    return days >= 0 ? days : 7;
+};
+
+const membershipError = (message, statusCode = 400) => {
+    return Object.assign(new Error(message), { statusCode });
+};
+
+const formatDate = (date) => {
+    return date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+const listPlans = () => MembershipPlan.find({ isActive: true }).sort({ price: 1 });
+
+// An active plan; throws a 404 otherwise
+const findPlan = async (planId) => {
+    const plan = await MembershipPlan.findOne({ id: parseInt(planId, 10), isActive: true });
+    if (!plan) {
+        throw membershipError('Membership plan not found', 404);
+    }
+    return plan;
+};
+
+// The user's membership that has started and not ended, if any
+const findCurrentSubscription = (user) => {
+    return Subscription.findOne({
+        userId: user._id,
+        status: { $in: Subscription.CURRENT_STATUSES }
+    }).sort({ createdAt: -1 });
+};
+
+// Whether a membership's next period can be paid for yet
+const isRenewalOpen = (subscription, now = new Date()) => {
+    if (subscription.status === 'past_due') return true;
+    return subscription.status === 'active'
+        && !subscription.cancelAtPeriodEnd
+        && subscription.currentPeriodEnd.getTime() - getRenewalNoticeDays() * DAY_MS <= now.getTime();
+};
+
+/**
+ * The subscription a membership checkout pays a period of: the user's
+ * current membership when it is due for renewal, otherwise their pending one
+ * (or a new one) on the plan. Throws a 409 for a member who can't renew yet.
+ */
+const subscriptionForCheckout = async (user, plan) => {
+    const current = await findCurrentSubscription(user);
+    if (current) {
+        if (!isRenewalOpen(current)) {
+            throw membershipError(
+                `You are already a member until ${formatDate(current.currentPeriodEnd)}`,
+                409
+            );
+        }
+        return current;
+    }
+
+    const pending = await Subscription.findOneAndUpdate(
+        { userId: user._id, status: 'pending' },
+        { planId: plan.id, updatedAt: Date.now() },
+        { new: true }
+    );
+    return pending || new Subscription({ userId: user._id, planId: plan.id }).save();
+};
+
+/**
+ * Start the period a paid membership order was for, on the plan it bought
+ * (members can switch plans when renewing). A renewal continues from the end
+ * of the period it follows, even when paid during the grace period; a new or
+ * lapsed membership starts now. Applied once per order.
+ */
+const activateMembership = async (order) => {
+    if (!order.subscriptionId) return null;
+
+    const subscription = await Subscription.findOne({ id: order.subscriptionId });
+    if (!subscription || subscription.lastOrderId === order.id) return subscription;
+    const item = await OrderItem.findOne({ orderId: order.id, membershipPlanId: { $ne: null } });
+    const plan = await MembershipPlan.findOne({ id: item ? item.membershipPlanId : subscription.planId });
+    if (!plan) return null;
+
+    const renewing = Subscription.CURRENT_STATUSES.includes(subscription.status);
+    const start = renewing ? subscription.currentPeriodEnd : new Date();
+    const activated = await Subscription.findOneAndUpdate(
+        { _id: subscription._id, lastOrderId: subscription.lastOrderId },
+        {
+            planId: plan.id,
+            status: 'active',
+            cancelAtPeriodEnd: false,
+            currentPeriodStart: start,
+            currentPeriodEnd: plan.periodEnd(start),
+            graceEndsAt: null,
+            endReason: null,
+            lastOrderId: order.id,
+            renewalRemindedAt: null,
+            updatedAt: Date.now()
+        },
+        { new: true }
+    );
+    if (activated) {
+        console.log(`✅ Membership ${activated.id} active until ${activated.currentPeriodEnd.toISOString()}`);
+    }
+    return activated;
+};
+
+// A refunded membership order ends the period it paid for
+const endRefundedMembership = (order) => {
+    if (!order.subscriptionId) return null;
+    return Subscription.findOneAndUpdate(
+        { id: order.subscriptionId, lastOrderId: order.id },
+        {
+            status: 'cancelled',
+            currentPeriodEnd: new Date(),
+            graceEndsAt: null,
+            cancelledAt: new Date(),
+            endReason: 'refunded',
+            updatedAt: Date.now()
+        },
+        { new: true }
+    );
+};
+
+/**
+ * Stop a membership from renewing. It keeps access until the end of the
+ * period already paid for; one past its renewal date ends now.
+ */
+const cancelMembership = async (user) => {
+    const subscription = await findCurrentSubscription(user);
+    if (!subscription) {
+        throw membershipError('You do not have a membership to cancel', 404);
+    }
+
+    const update = subscription.status === 'past_due'
+        ? { status: 'cancelled', graceEndsAt: null, endReason: 'cancelled' }
+        : { cancelAtPeriodEnd: true };
+    return Subscription.findOneAndUpdate(
+        { _id: subscription._id, status: subscription.status },
+        { ...update, cancelledAt: new Date(), updatedAt: Date.now() },
+        { new: true }
+    );
+};
+
+// Undo a cancellation before the period ends
+const resumeMembership = async (user) => {
+    const resumed = await Subscription.findOneAndUpdate(
+        { userId: user._id, status: 'active', cancelAtPeriodEnd: true },
+        { cancelAtPeriodEnd: false, cancelledAt: null, updatedAt: Date.now() },
+        { new: true }
+    );
+    if (!resumed) {
+        throw membershipError('There is no cancelled membership to resume', 404);
+    }
+    return resumed;
+};
+
+const notify = async (subscription, subject, lines) => {
+    const user = await Users.findById(subscription.userId).select('email');
+    if (!user) return;
+    try {
+        await sendMail({ to: user.email, subject, text: lines.join('\n') });
+    } catch (error) {
+        console.error(`Membership email for subscription ${subscription.id} could not be sent:`, error);
+    }
+};
+
+/**
+ * Remind members whose renewal date is near, once per period. Resolves to
+ * how many were reminded.
+ */
+const sendRenewalReminders = async (now = new Date()) => {
+    const subscriptions = await Subscription.find({
+        status: 'active',
+        cancelAtPeriodEnd: false,
+        renewalRemindedAt: null,
+        currentPeriodEnd: { $lte: new Date(now.getTime() + getRenewalNoticeDays() * DAY_MS) }
+    });
+
+    let reminded = 0;
+    for (const subscription of subscriptions) {
+        const claimed = await Subscription.findOneAndUpdate(
+            { _id: subscription._id, renewalRemindedAt: null },
+            { renewalRemindedAt: now },
+            { new: true }
+        );
+        if (!claimed) continue;
+
+        const plan = await MembershipPlan.findOne({ id: claimed.planId });
+        await notify(claimed, 'Your All Access membership renews soon', [
+            `Your ${plan ? plan.name : 'All Access'} membership runs until ${formatDate(claimed.currentPeriodEnd)}.`,
+            plan ? `Renew it for ${formatPrice(plan.price)} to keep access to every course and webinar.` : '',
+            '',
+            `Renew here: ${appUrl('/dashboard/membership')}`
+        ]);
+        reminded += 1;
+    }
+    return reminded;
+};
+
+/**
+ * Move memberships on when their renewal date passes: cancelled ones end,
+ * unpaid ones go past_due for the grace period and are expired once it runs
+ * out. Resolves to the counts of each.
+ */
+const lapseMemberships = async (now = new Date()) => {
+    const counts = { ended: 0, pastDue: 0, expired: 0 };
+
+    const lapsed = await Subscription.find({ status: 'active', currentPeriodEnd: { $lte: now } });
+    for (const subscription of lapsed) {
+        const ending = subscription.cancelAtPeriodEnd;
+        const updated = await Subscription.findOneAndUpdate(
+            { _id: subscription._id, status: 'active', currentPeriodEnd: subscription.currentPeriodEnd },
+            ending
+                ? { status: 'cancelled', endReason: 'cancelled', updatedAt: Date.now() }
+                : {
+                    status: 'past_due',
+                    graceEndsAt: new Date(subscription.currentPeriodEnd.getTime() + getGraceDays() * DAY_MS),
+                    updatedAt: Date.now()
+                },
+            { new: true }
+        );
+        if (!updated) continue;
+
+        if (ending) {
+            counts.ended += 1;
+            continue;
+        }
+        counts.pastDue += 1;
+        await notify(updated, 'Your All Access membership payment is due', [
+            `Your membership was due for renewal on ${formatDate(updated.currentPeriodEnd)}.`,
+            `You keep access until ${formatDate(updated.graceEndsAt)}; renew before then to avoid losing it.`,
+            '',
+            `Renew here: ${appUrl('/dashboard/membership')}`
+        ]);
+    }
+
+    const overdue = await Subscription.find({ status: 'past_due', graceEndsAt: { $lte: now } });
+    for (const subscription of overdue) {
+        const expired = await Subscription.findOneAndUpdate(
+            { _id: subscription._id, status: 'past_due' },
+            { status: 'expired', endReason: 'not_renewed', updatedAt: Date.now() },
+            { new: true }
+        );
+        if (!expired) continue;
+
+        counts.expired += 1;
+        await notify(expired, 'Your All Access membership has ended', [
+            'Your membership was not renewed and has ended.',
+            `You can join again at any time: ${appUrl('/dashboard/membership')}`
+        ]);
+    }
+    return counts;
+};
+
+// The periodic membership work: reminders, then renewal dates passing
+const runMembershipJobs = async (now = new Date()) => {
+    const reminded = await sendRenewalReminders(now);
+    const lapsed = await lapseMemberships(now);
+    return { reminded, ...lapsed };
+};
+
+const describePlan = (plan) => ({
+    id: plan.id,
+    name: plan.name,
+    description: plan.description,
+    interval: plan.interval,
+    price: plan.price,
+    taxInclusive: plan.taxInclusive,
+    isActive: plan.isActive
+});
+
+// The user's membership for their account page: the current one, or the
+// most recent that ended
+const getMembership = async (user, now = new Date()) => {
+    const subscription = await findCurrentSubscription(user)
+        || await Subscription.findOne({
+            userId: user._id,
+            status: { $in: ['cancelled', 'expired'] }
+        }).sort({ updatedAt: -1 });
+    if (!subscription) return null;
+
+    const plan = await MembershipPlan.findOne({ id: subscription.planId });
+    return {
+        id: subscription.id,
+        status: subscription.status,
+        plan: plan ? describePlan(plan) : null,
+        currentPeriodStart: subscription.currentPeriodStart,
+        currentPeriodEnd: subscription.currentPeriodEnd,
+        graceEndsAt: subscription.graceEndsAt,
+        cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+        endReason: subscription.endReason,
+        hasAccess: !!(await Subscription.findCurrent(user._id, now)),
+        canRenew: Subscription.CURRENT_STATUSES.includes(subscription.status)
+            && isRenewalOpen(subscription, now)
+    };
+};
+
+const readPlanFields = (body) => {
+    const fields = {};
+    if (body.name !== undefined) fields.name = body.name;
+    if (body.description !== undefined) fields.description = body.description;
+    if (body.interval !== undefined) fields.interval = body.interval;
+    if (body.price !== undefined) fields.price = Number(body.price);
+    if (body.taxInclusive !== undefined) fields.taxInclusive = Boolean(body.taxInclusive);
+    if (body.gstRate !== undefined) fields.gstRate = body.gstRate === null ? null : Number(body.gstRate);
+    if (body.isActive !== undefined) fields.isActive = Boolean(body.isActive);
+    return fields;
+};
+
+const savePlan = async (plan) => {
+    try {
+        return await plan.save();
+    } catch (error) {
+        if (error.name === 'ValidationError') throw membershipError(error.message);
+        throw error;
+    }
+};
+
+const createPlan = (body) => savePlan(new MembershipPlan(readPlanFields(body)));
+
+// Price changes apply from each member's next renewal
+const updatePlan = async (id, body) => {
+    const plan = await MembershipPlan.findOne({ id });
+    if (!plan) {
+        throw membershipError('Membership plan not found', 404);
+    }
+    plan.set(readPlanFields(body));
+    return savePlan(plan);
+};
+
+module.exports = {
+    listPlans,
+    findPlan,
+    subscriptionForCheckout,
+    activateMembership,
+    endRefundedMembership,
+    cancelMembership,
+    resumeMembership,
+    sendRenewalReminders,
+    lapseMemberships,
+    runMembershipJobs,
+    getMembership,
+    describePlan,
+    createPlan,
+    updatePlan
+};
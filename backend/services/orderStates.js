@@ -0,0 +1,293 @@
+const Order = require('../Model/order');
+const Payment = require('../Model/payment');
+const StatusTransition = require('../Model/statusTransition');
+const { grantOrderAccess, revokeOrderAccess, suspendOrderAccess } = require('./entitlements');
+const { issueInvoice } = require('./invoices');
+const { confirmRedemption, releaseOrderRedemption } = require('./coupons');
+const { rewardReferral, reverseReferralReward } = require('./referrals');
+const { accrueAffiliateCommission, reverseAffiliateCommission } = require('./affiliates');
+const { recordInstallmentPayment } = require('./installments');
+const { activateMembership, endRefundedMembership } = require('./memberships');
+const { issueGift, revokeRefundedGift } = require('./gifts');
+const { issueSeatLicenses, revokeSeatLicenses } = require('./organizations');
+
+// Allowed status changes. A failed order or payment can still be captured:
+// gateways report late captures after a failed attempt on the same order.
+const ORDER_TRANSITIONS = {
+    created: ['pending_payment', 'paid', 'failed'],
+    pending_payment: ['paid', 'failed'],
+    failed: ['paid'],
+    paid: ['refunded'],
+    refunded: []
+};
+
+const PAYMENT_TRANSITIONS = {
+    initiated: ['captured', 'failed'],
+    failed: ['captured'],
+    captured: ['refunded'],
+    refunded: []
+};
+
+// Order statuses that only ever follow from a payment
+const PAYMENT_DRIVEN_ORDER_STATUSES = ['paid', 'refunded'];
+
+const transitionError = (message, statusCode = 409) => {
+    return Object.assign(new Error(message), { statusCode });
+};
+
+const canTransitionOrder = (from, to) => (ORDER_TRANSITIONS[from] || []).includes(to);
+
+const canTransitionPayment = (from, to) => (PAYMENT_TRANSITIONS[from] || []).includes(to);
+
+// Whether an order status can be set directly rather than through a payment
+const canSetOrderStatus = (from, to) => {
+    return !PAYMENT_DRIVEN_ORDER_STATUSES.includes(to) && canTransitionOrder(from, to);
+};
+
+// context is { actor: { type, id }, reason }
+const recordTransition = (entityType, entityId, orderId, from, to, context = {}) => {
+    return new StatusTransition({
+        entityType,
+        entityId,
+        orderId,
+        from,
+        to,
+        actor: context.actor || { type: 'system' },
+        reason: context.reason
+    }).save();
+};
+
+// Log the initial status of a newly created order, payment or refund
+const recordCreated = (doc, context) => {
+    const entityType = doc.constructor.modelName;
+    return recordTransition(
+        entityType,
+        doc.id,
+        entityType === 'Order' ? doc.id : doc.orderId,
+        null,
+        doc.status,
+        context
+    );
+};
+
+/**
+ * Move an order to a new status and log it. Throws a 409 for a transition
+ * the state machine doesn't allow. The change is applied only if the order
+ * still has the status it was read with; returns null if another request
+ * changed it first. `fields` are extra updates to save along with it.
+ */
+const transitionOrder = async (order, to, context, fields = {}) => {
+    if (!canTransitionOrder(order.status, to)) {
+        throw transitionError(`Order ${order.id} cannot move from ${order.status} to ${to}`);
+    }
+
+    const updated = await Order.findOneAndUpdate(
+        { _id: order._id, status: order.status },
+        { ...fields, status: to, updatedAt: Date.now() },
+        { new: true }
+    );
+    if (!updated) return null;
+
+    await recordTransition('Order', updated.id, updated.id, order.status, to, context);
+    if (to === 'failed') {
+        // A failed order gives back the coupon use its checkout reserved
+        await releaseOrderRedemption(updated, context.reason || 'Order failed');
+    }
+    return updated;
+};
+
+/**
+ * Grant what a paid order bought (courses, a membership period, the code of
+ * a gift or an organization's seats), confirm its coupon use, issue its
+ * invoice, reward the buyer's referrer and accrue affiliate commission, then
+ * mark the order fulfilled. Every step can run again without granting twice,
+ * so a failed fulfilment is retried as a whole. An invoice, reward or
+ * commission that fails is logged rather than holding up the rest; the
+ * invoice is issued again when first downloaded.
+ */
+const fulfillOrder = async (order) => {
+    await grantOrderAccess(order);
+    if (order.accessSuspendedAt) {
+        // Granting reactivates the courses; keep them suspended until the
+        // overdue installment is paid
+        await suspendOrderAccess(order, 'Installment overdue');
+    }
+    await activateMembership(order);
+    await issueGift(order);
+    await issueSeatLicenses(order);
+    await confirmRedemption(order);
+    try {
+        await issueInvoice(order);
+    } catch (error) {
+        console.error(`Invoice for order ${order.id} could not be issued:`, error);
+    }
+    try {
+        await rewardReferral(order);
+    } catch (error) {
+        console.error(`Referral reward for order ${order.id} could not be recorded:`, error);
+    }
+    try {
+        await accrueAffiliateCommission(order);
+    } catch (error) {
+        console.error(`Affiliate commission for order ${order.id} could not be recorded:`, error);
+    }
+
+    return Order.findOneAndUpdate(
+        { _id: order._id },
+        { fulfilledAt: new Date(), updatedAt: Date.now() },
+        { new: true }
+    );
+};
+
+// Fulfil a paid order again if its fulfilment failed; logs the error and
+// resolves to the order as it was if it fails again
+const retryFulfillment = async (order) => {
+    if (order.status !== 'paid' || order.fulfilledAt) return order;
+    try {
+        return await fulfillOrder(order);
+    } catch (error) {
+        console.error(`Order ${order.id} could not be fulfilled, will retry:`, error);
+        return order;
+    }
+};
+
+/**
+ * Mark an order paid and fulfil it. A fulfilment that fails doesn't undo
+ * the payment: the order stays paid but unfulfilled, and is fulfilled again
+ * when its payment is synced, its webhook is replayed or by
+ * fulfillPendingOrders. Returns null if the order changed first.
+ */
+const markOrderPaid = async (order, context, fields = {}) => {
+    const paid = await transitionOrder(order, 'paid', context, { ...fields, fulfilledAt: null });
+    if (!paid) return null;
+
+    return retryFulfillment(paid);
+};
+
+// Retry the fulfilment of paid orders that failed a while ago; resolves to
+// how many are now fulfilled. Orders paid before fulfilment was tracked
+// have no fulfilledAt at all and are left alone.
+const fulfillPendingOrders = async () => {
+    const pending = await Order.find({
+        status: 'paid',
+        fulfilledAt: { $type: 'null' },
+        updatedAt: { $lt: new Date(Date.now() - 60 * 1000) }
+    });
+
+    let fulfilled = 0;
+    for (const order of pending) {
+        const updated = await retryFulfillment(order);
+        if (updated && updated.fulfilledAt) fulfilled += 1;
+    }
+    return fulfilled;
+};
+
+// Whether everything paid on the order, over all its payments, was refunded
+const isFullyRefunded = async (order) => {
+    const payments = await Payment.find({ orderId: order.id, status: { $in: ['captured', 'refunded'] } });
+    const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+    const refunded = payments.reduce((sum, payment) => sum + (payment.amountRefunded || 0), 0);
+    return refunded >= paid;
+};
+
+/**
+ * Bring the order in line with one of its payments: a capture pays it and
+ * grants the course, a refund refunds it, revokes the course, membership,
+ * gift code or seats and takes back any referral reward and affiliate commission, a failure
+ * fails it unless it was already paid. An order with several payments is
+ * refunded once all of them are. A captured installment is marked paid
+ * on the order's schedule; the first one pays the order, a later one
+ * fulfils it again if that failed.
+ */
+const applyPaymentToOrder = async (payment, context) => {
+    let order = await Order.findOne({ id: payment.orderId });
+    if (!order) return null;
+
+    if (payment.status === 'captured' && payment.installmentNumber) {
+        order = await recordInstallmentPayment(order, payment);
+    }
+
+    if (payment.status === 'captured' && order.status !== 'paid') {
+        const paid = await markOrderPaid(order, context, { paymentId: payment.id });
+        return paid || Order.findOne({ id: order.id });
+    }
+    if (payment.status === 'captured') {
+        return retryFulfillment(order);
+    }
+    if (payment.status === 'refunded' && order.status !== 'refunded') {
+        // Installment orders keep their courses until all they paid is refunded
+        if (!(await isFullyRefunded(order))) return order;
+
+        const refunded = await transitionOrder(order, 'refunded', context);
+        if (refunded) {
+            await revokeOrderAccess(refunded, 'refunded');
+            await endRefundedMembership(refunded);
+            await revokeRefundedGift(refunded);
+            await revokeSeatLicenses(refunded);
+            await reverseReferralReward(refunded);
+            await reverseAffiliateCommission(refunded);
+        }
+        return refunded || Order.findOne({ id: order.id });
+    }
+    if (payment.status === 'failed' && canTransitionOrder(order.status, 'failed')) {
+        return (await transitionOrder(order, 'failed', context)) || Order.findOne({ id: order.id });
+    }
+    return order;
+};
+
+/**
+ * Move a payment to a new status, log it and apply it to the order. Same
+ * rules as transitionOrder; resolves to { payment, order }, with payment
+ * null if another request changed the payment first.
+ */
+const transitionPayment = async (payment, to, context, fields = {}) => {
+    if (!canTransitionPayment(payment.status, to)) {
+        throw transitionError(`Payment ${payment.id} cannot move from ${payment.status} to ${to}`);
+    }
+
+    const updated = await Payment.findOneAndUpdate(
+        { _id: payment._id, status: payment.status },
+        { ...fields, status: to, updatedAt: Date.now() },
+        { new: true }
+    );
+    if (!updated) return { payment: null, order: null };
+
+    await recordTransition('Payment', updated.id, updated.orderId, payment.status, to, context);
+    const order = await applyPaymentToOrder(updated, context);
+    return { payment: updated, order };
+};
+
+/**
+ * Status changes requested directly on an order (admin tools). Paid and
+ * refunded follow from the order's payment, so they can't be set here.
+ */
+const setOrderStatus = async (order, to, context) => {
+    if (order.status === to) return order;
+    if (PAYMENT_DRIVEN_ORDER_STATUSES.includes(to)) {
+        throw transitionError(`Order status ${to} follows its payment; update the payment instead`);
+    }
+    if (!canSetOrderStatus(order.status, to)) {
+        throw transitionError(`Order ${order.id} cannot move from ${order.status} to ${to}`);
+    }
+    const updated = await transitionOrder(order, to, context);
+    if (!updated) {
+        throw transitionError(`Order ${order.id} was changed by another request, try again`);
+    }
+    return updated;
+};
+
+module.exports = {
+    canTransitionOrder,
+    canTransitionPayment,
+    canSetOrderStatus,
+    recordTransition,
+    recordCreated,
+    transitionOrder,
+    markOrderPaid,
+    fulfillOrder,
+    retryFulfillment,
+    fulfillPendingOrders,
+    transitionPayment,
+    applyPaymentToOrder,
+    setOrderStatus
+};
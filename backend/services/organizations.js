@@ -0,0 +1,548 @@
+const Order = require('../Model/order');
+const Organization = require('../Model/organization');
+const OrganizationMember = require('../Model/organizationMember');
+const SeatLicense = require('../Model/seatLicense');
+const SeatAssignment = require('../Model/seatAssignment');
+const OrderItem = require('../Model/orderItem');
+const Courses = require('../Model/course');
+const Users = require('../Model/user');
+const { appUrl, sendMail } = require('./mailer');
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const MAX_SEATS = 1000;
+
+const MAX_NAME_LENGTH = 120;
+
+const MAX_INVITES = 100;
+
+// The fewest seats an organization can buy in one order
+const getMinSeats = () => {
+    const seats = parseInt(process.env.ORGANIZATION_MIN_SEATS, 10);
+    return seats > 0 ? seats : 5;
+};
+
+const organizationError = (message, statusCode = 400) => {
+    return Object.assign(new Error(message), { statusCode });
+};
+
+// Where members accept invitations and admins manage seats
+const organizationLink = () => appUrl('/dashboard/organization');
+
+/**
+ * The seat purchase sent with a checkout: how many seats, and the
+ * organization they are for (one the buyer administers, or a new one by
+ * name). Null when the course is bought for one person; throws a 400 when
+ * the details can't be used.
+ */
+const readSeats = (input) => {
+    if (!input || typeof input !== 'object') return null;
+
+    const quantity = Number(input.quantity);
+    if (!Number.isInteger(quantity) || quantity < getMinSeats()) {
+        throw organizationError(`Seat licenses are sold in orders of at least ${getMinSeats()} seats`);
+    }
+    if (quantity > MAX_SEATS) {
+        throw organizationError(`At most ${MAX_SEATS} seats can be bought in one order`);
+    }
+
+    const organizationId = parseInt(input.organizationId, 10) || null;
+    const organizationName = typeof input.organizationName === 'string' ? input.organizationName.trim() : '';
+    if (!organizationId && !organizationName) {
+        throw organizationError('Choose an organization or enter a name for a new one');
+    }
+    // Checked now: the organization is only created once the order is paid
+    if (organizationName.length > MAX_NAME_LENGTH) {
+        throw organizationError(`Organization names can be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    return { quantity, organizationId, organizationName };
+};
+
+// The user's active membership of an organization as an admin, or null
+const findAdminMembership = (user, organizationId) => {
+    return OrganizationMember.findOne({
+        organizationId,
+        userId: user._id,
+        role: 'admin',
+        status: 'active'
+    });
+};
+
+/**
+ * An organization the user administers; site admins can manage any. Throws
+ * a 404 otherwise, so organizations of others aren't revealed.
+ */
+const findAdminOrganization = async (user, organizationId) => {
+    const id = parseInt(organizationId, 10);
+    const organization = id && await Organization.findOne({ id });
+    if (!organization || (user.role !== 'admin' && !await findAdminMembership(user, id))) {
+        throw organizationError('Organization not found', 404);
+    }
+    return organization;
+};
+
+// Organizations the user administers, oldest first
+const listAdminOrganizations = async (user) => {
+    const memberships = await OrganizationMember.find({ userId: user._id, role: 'admin', status: 'active' });
+    return Organization.find({ id: { $in: memberships.map((m) => m.organizationId) } }).sort({ createdAt: 1 });
+};
+
+// The organization a paid seat order created, made on first call
+const createOrderOrganization = async (order) => {
+    const existing = await Organization.findOne({ orderId: order.id });
+    if (existing) return existing;
+
+    try {
+        return await new Organization({
+            name: order.organizationName,
+            createdBy: order.userId,
+            orderId: order.id
+        }).save();
+    } catch (error) {
+        // Created at the same moment by another confirmation
+        if (error.code === 11000) return Organization.findOne({ orderId: order.id });
+        throw error;
+    }
+};
+
+/**
+ * Give a paid seat order its organization: the one chosen at checkout, or a
+ * new one by the name given there, with the buyer as its first admin.
+ * Nothing is created before payment, so abandoned checkouts leave nothing
+ * behind. Idempotent; resolves to the order with its organizationId.
+ */
+const settleOrderOrganization = async (order) => {
+    if (order.organizationId) return order;
+
+    const organization = await createOrderOrganization(order);
+    try {
+        await new OrganizationMember({
+            organizationId: organization.id,
+            email: order.email,
+            userId: order.userId,
+            role: 'admin',
+            status: 'active',
+            invitedBy: order.userId,
+            joinedAt: new Date()
+        }).save();
+    } catch (error) {
+        // Already added by an earlier attempt
+        if (error.code !== 11000) throw error;
+    }
+    return Order.findOneAndUpdate(
+        { _id: order._id },
+        { organizationId: organization.id, updatedAt: Date.now() },
+        { new: true }
+    );
+};
+
+const issueLicense = async (order, item) => {
+    const existing = await SeatLicense.findOne({ orderId: order.id, courseId: item.courseId });
+    if (existing) return existing;
+
+    try {
+        const license = await new SeatLicense({
+            organizationId: order.organizationId,
+            orderId: order.id,
+            courseId: item.courseId,
+            seatCount: item.quantity
+        }).save();
+        console.log(`🪑 ${license.seatCount} seats issued to organization ${order.organizationId} for order ${order.id}`);
+        return license;
+    } catch (error) {
+        // Issued at the same moment by another confirmation
+        if (error.code === 11000) return SeatLicense.findOne({ orderId: order.id, courseId: item.courseId });
+        throw error;
+    }
+};
+
+/**
+ * Turn the courses of a paid seat order into its organization's licenses,
+ * creating the organization first if the order asked for a new one.
+ * Idempotent; resolves to the licenses, or null for other orders.
+ */
+const issueSeatLicenses = async (order) => {
+    if (!order.seatCount) return null;
+
+    const settled = await settleOrderOrganization(order);
+    const items = await OrderItem.find({ orderId: order.id, courseId: { $ne: null } });
+    return Promise.all(items.map((item) => issueLicense(settled, item)));
+};
+
+// Revoke the licenses of a refunded seat order and every seat given from them
+const revokeSeatLicenses = async (order) => {
+    if (!order.seatCount) return null;
+
+    const licenses = await SeatLicense.find({ orderId: order.id, status: 'active' });
+    const ids = licenses.map((license) => license.id);
+    await SeatLicense.updateMany(
+        { id: { $in: ids }, status: 'active' },
+        { status: 'revoked', revokedAt: new Date(), updatedAt: Date.now() }
+    );
+    await SeatAssignment.updateMany(
+        { licenseId: { $in: ids }, status: 'active' },
+        { status: 'revoked', endedAt: new Date(), updatedAt: Date.now() }
+    );
+    return licenses;
+};
+
+const sendInvitation = async (organization, member, inviter) => {
+    const from = inviter ? inviter.name || inviter.email : 'An admin';
+    await sendMail({
+        to: member.email,
+        subject: `${from} invited you to ${organization.name}`,
+        text: [
+            `${from} has invited you to join ${organization.name}`
+                + `${member.role === 'admin' ? ' as an admin' : ''}.`,
+            '',
+            `Log in or sign up with ${member.email} to accept: ${organizationLink()}`,
+            '',
+            'Courses your organization gives you a seat for will then appear in My Courses.'
+        ].join('\n')
+    });
+};
+
+/**
+ * Invite people to the organization by email. Emails already invited or
+ * active are skipped; removed members are invited again. Resolves to the
+ * emails invited and those skipped.
+ */
+const inviteMembers = async (organization, inviter, { emails, role = 'member' }) => {
+    const list = [...new Set((Array.isArray(emails) ? emails : String(emails || '').split(/[\s,;]+/))
+        .map((email) => String(email).trim().toLowerCase())
+        .filter(Boolean))];
+    if (list.length === 0) {
+        throw organizationError('Enter at least one email address');
+    }
+    if (list.length > MAX_INVITES) {
+        throw organizationError(`At most ${MAX_INVITES} people can be invited at once`);
+    }
+    const invalid = list.filter((email) => !EMAIL_PATTERN.test(email));
+    if (invalid.length > 0) {
+        throw organizationError(`Not a valid email address: ${invalid.join(', ')}`);
+    }
+    if (!['admin', 'member'].includes(role)) {
+        throw organizationError('Role must be admin or member');
+    }
+
+    const invited = [];
+    const skipped = [];
+    for (const email of list) {
+        const fields = {
+            role,
+            status: 'invited',
+            userId: null,
+            invitedBy: inviter._id,
+            invitedAt: new Date(),
+            joinedAt: null,
+            removedAt: null,
+            updatedAt: Date.now()
+        };
+        let member;
+        try {
+            member = await OrganizationMember.findOneAndUpdate(
+                { organizationId: organization.id, email, status: 'removed' },
+                fields,
+                { new: true }
+            ) || await new OrganizationMember({ organizationId: organization.id, email, ...fields }).save();
+        } catch (error) {
+            // Already invited or a member
+            if (error.code === 11000) {
+                skipped.push(email);
+                continue;
+            }
+            throw error;
+        }
+
+        invited.push(email);
+        try {
+            await sendInvitation(organization, member, inviter);
+        } catch (error) {
+            console.error(`Invitation to organization ${organization.id} for ${email} could not be sent:`, error);
+        }
+    }
+    return { invited, skipped };
+};
+
+// Invitations waiting for the user, by the email of their account
+const listInvitations = async (user) => {
+    const invitations = await OrganizationMember.find({ email: String(user.email).toLowerCase(), status: 'invited' });
+    const organizations = await Organization.find({ id: { $in: invitations.map((i) => i.organizationId) } });
+    return invitations.map((invitation) => {
+        const organization = organizations.find((o) => o.id === invitation.organizationId);
+        return {
+            id: invitation.id,
+            organizationId: invitation.organizationId,
+            organizationName: organization ? organization.name : null,
+            role: invitation.role,
+            invitedAt: invitation.invitedAt
+        };
+    });
+};
+
+/**
+ * Accept an invitation sent to the email of the user's account. Seats
+ * assigned while it was pending start giving access now.
+ */
+const acceptInvitation = async (user, invitationId) => {
+    const member = await OrganizationMember.findOneAndUpdate(
+        {
+            id: parseInt(invitationId, 10),
+            email: String(user.email).toLowerCase(),
+            status: 'invited'
+        },
+        { status: 'active', userId: user._id, joinedAt: new Date(), updatedAt: Date.now() },
+        { new: true }
+    );
+    if (!member) {
+        throw organizationError('Invitation not found', 404);
+    }
+
+    await SeatAssignment.updateMany(
+        { memberId: member.id, status: 'active' },
+        { userId: user._id, updatedAt: Date.now() }
+    );
+    return member;
+};
+
+const findMember = async (organization, memberId) => {
+    const member = await OrganizationMember.findOne({
+        id: parseInt(memberId, 10),
+        organizationId: organization.id,
+        status: { $ne: 'removed' }
+    });
+    if (!member) {
+        throw organizationError('Member not found', 404);
+    }
+    return member;
+};
+
+// Give a seat back to its license; access to the course ends with it.
+// Resolves to null if it was already ended
+const endAssignment = async (assignment, status) => {
+    const ended = await SeatAssignment.findOneAndUpdate(
+        { _id: assignment._id, status: 'active' },
+        { status, endedAt: new Date(), updatedAt: Date.now() },
+        { new: true }
+    );
+    if (!ended) return null;
+
+    await SeatLicense.updateOne(
+        { id: ended.licenseId, assignedCount: { $gt: 0 } },
+        { $inc: { assignedCount: -1 }, updatedAt: Date.now() }
+    );
+    return ended;
+};
+
+/**
+ * Give a member (invited or active) a seat of one of the organization's
+ * licenses. The seat is taken with a conditional update of the license, so
+ * concurrent assignments can't go past its seat count.
+ */
+const assignSeat = async (organization, admin, { memberId, licenseId }) => {
+    const member = await findMember(organization, memberId);
+    const license = await SeatLicense.findOne({
+        id: parseInt(licenseId, 10),
+        organizationId: organization.id,
+        status: 'active'
+    });
+    if (!license) {
+        throw organizationError('License not found', 404);
+    }
+    if (await SeatAssignment.exists({ memberId: member.id, courseId: license.courseId, status: 'active' })) {
+        throw organizationError(`${member.email} already has a seat for this course`, 409);
+    }
+
+    const claimed = await SeatLicense.findOneAndUpdate(
+        { _id: license._id, status: 'active', $expr: { $lt: ['$assignedCount', '$seatCount'] } },
+        { $inc: { assignedCount: 1 }, updatedAt: Date.now() },
+        { new: true }
+    );
+    if (!claimed) {
+        throw organizationError('Every seat of this license has been assigned; reclaim one or buy more', 409);
+    }
+
+    try {
+        return await new SeatAssignment({
+            licenseId: license.id,
+            organizationId: organization.id,
+            courseId: license.courseId,
+            memberId: member.id,
+            userId: member.status === 'active' ? member.userId : null,
+            assignedBy: admin._id
+        }).save();
+    } catch (error) {
+        await SeatLicense.updateOne({ _id: license._id }, { $inc: { assignedCount: -1 } });
+        // Given the seat by another request at the same moment
+        if (error.code === 11000) {
+            throw organizationError(`${member.email} already has a seat for this course`, 409);
+        }
+        throw error;
+    }
+};
+
+// Take a seat back from a member, freeing it for someone else
+const reclaimSeat = async (organization, assignmentId) => {
+    const assignment = await SeatAssignment.findOne({
+        id: parseInt(assignmentId, 10),
+        organizationId: organization.id,
+        status: 'active'
+    });
+    if (!assignment || !await endAssignment(assignment, 'reclaimed')) {
+        throw organizationError('Seat not found', 404);
+    }
+    return assignment;
+};
+
+/**
+ * Remove a member and reclaim their seats. The organization's last admin
+ * can't be removed.
+ */
+const removeMember = async (organization, memberId) => {
+    const member = await findMember(organization, memberId);
+    if (member.role === 'admin' && member.status === 'active') {
+        const admins = await OrganizationMember.countDocuments({
+            organizationId: organization.id,
+            role: 'admin',
+            status: 'active'
+        });
+        if (admins <= 1) {
+            throw organizationError('An organization needs at least one admin', 409);
+        }
+    }
+
+    await OrganizationMember.updateOne(
+        { _id: member._id },
+        { status: 'removed', removedAt: new Date(), updatedAt: Date.now() }
+    );
+    const seats = await SeatAssignment.find({ memberId: member.id, status: 'active' });
+    for (const seat of seats) {
+        await endAssignment(seat, 'reclaimed');
+    }
+    return member;
+};
+
+const toCourseEntry = (course) => (course ? { _id: course._id, title: course.title, slug: course.slug } : null);
+
+/**
+ * The organization for its admins: its licenses with seats used, and its
+ * members with the seats they hold.
+ */
+const getOrganizationOverview = async (organization) => {
+    const [licenses, members, seats] = await Promise.all([
+        SeatLicense.find({ organizationId: organization.id }).populate('courseId', 'title slug').sort({ createdAt: 1 }),
+        OrganizationMember.find({ organizationId: organization.id, status: { $ne: 'removed' } })
+            .populate('userId', 'name')
+            .sort({ invitedAt: 1 }),
+        SeatAssignment.find({ organizationId: organization.id, status: 'active' })
+    ]);
+
+    return {
+        id: organization.id,
+        name: organization.name,
+        licenses: licenses.map((license) => ({
+            id: license.id,
+            orderId: license.orderId,
+            course: toCourseEntry(license.courseId),
+            seatCount: license.seatCount,
+            assignedCount: license.assignedCount,
+            status: license.status
+        })),
+        members: members.map((member) => ({
+            id: member.id,
+            email: member.email,
+            name: member.userId ? member.userId.name : null,
+            role: member.role,
+            status: member.status,
+            invitedAt: member.invitedAt,
+            joinedAt: member.joinedAt,
+            seats: seats
+                .filter((seat) => seat.memberId === member.id)
+                .map((seat) => ({ id: seat.id, licenseId: seat.licenseId, courseId: seat.courseId }))
+        }))
+    };
+};
+
+/**
+ * How far each member has got in the courses they hold a seat for, by pages
+ * viewed, with totals per course. Members who haven't accepted yet are
+ * listed without progress.
+ */
+const getProgressReport = async (organization) => {
+    const [members, seats] = await Promise.all([
+        OrganizationMember.find({ organizationId: organization.id, status: { $ne: 'removed' } }).sort({ invitedAt: 1 }),
+        SeatAssignment.find({ organizationId: organization.id, status: 'active' })
+    ]);
+    const [users, courses] = await Promise.all([
+        Users.find({ _id: { $in: members.map((m) => m.userId).filter(Boolean) } }).select('name coursesProgress'),
+        Courses.find({ _id: { $in: seats.map((s) => s.courseId) } }).select('title slug')
+    ]);
+
+    const findCourse = (courseId) => courses.find((c) => c._id.toString() === courseId.toString());
+    const progressOf = (user, courseId) => {
+        const entry = user && user.coursesProgress.find(
+            (p) => p.courseId && p.courseId.toString() === courseId.toString()
+        );
+        return {
+            percent: entry ? Math.round(entry.percent || 0) : 0,
+            lastActivityAt: entry ? entry.updatedAt : null
+        };
+    };
+
+    const rows = members.map((member) => {
+        const user = member.userId && users.find((u) => u._id.toString() === member.userId.toString());
+        return {
+            memberId: member.id,
+            email: member.email,
+            name: user ? user.name : null,
+            status: member.status,
+            courses: seats
+                .filter((seat) => seat.memberId === member.id)
+                .map((seat) => ({
+                    course: toCourseEntry(findCourse(seat.courseId)),
+                    ...progressOf(member.status === 'active' ? user : null, seat.courseId)
+                }))
+        };
+    });
+
+    const totals = courses.map((course) => {
+        const entries = rows.flatMap((row) => row.courses)
+            .filter((entry) => entry.course && entry.course._id.toString() === course._id.toString());
+        return {
+            course: toCourseEntry(course),
+            seatsAssigned: entries.length,
+            started: entries.filter((entry) => entry.percent > 0).length,
+            completed: entries.filter((entry) => entry.percent >= 100).length,
+            averagePercent: entries.length
+                ? Math.round(entries.reduce((sum, entry) => sum + entry.percent, 0) / entries.length)
+                : 0
+        };
+    });
+
+    return { organizationId: organization.id, generatedAt: new Date(), courses: totals, members: rows };
+};
+
+// Users holding seats of an order, whose reading counts towards its refund
+const findSeatHolderIds = async (order) => {
+    const licenses = await SeatLicense.find({ orderId: order.id });
+    const seats = await SeatAssignment.find({ licenseId: { $in: licenses.map((l) => l.id) }, userId: { $ne: null } });
+    return seats.map((seat) => seat.userId);
+};
+
+module.exports = {
+    getMinSeats,
+    readSeats,
+    findAdminOrganization,
+    listAdminOrganizations,
+    issueSeatLicenses,
+    revokeSeatLicenses,
+    inviteMembers,
+    listInvitations,
+    acceptInvitation,
+    assignSeat,
+    reclaimSeat,
+    removeMember,
+    getOrganizationOverview,
+    getProgressReport,
+    findSeatHolderIds
+};
@@ -0,0 +1,302 @@
+const crypto = require('crypto');
+const Users = require('../Model/user');
+const Referral = require('../Model/referral');
+const ReferralReward = require('../Model/referralReward');
+
+// Devices remembered per user for the self-referral check
+const MAX_DEVICES = 20;
+
+// Referral codes avoid characters that are easy to misread (0/O, 1/I)
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const FRAUD_MESSAGES = {
+    same_user: 'You cannot use your own referral code',
+    same_email: 'Referral code belongs to an account with the same email',
+    same_phone: 'Referral code belongs to an account with the same phone number',
+    same_device: 'Referral code was used from the referrer\'s own device'
+};
+
+const numberFromEnv = (name, fallback) => {
+    const value = parseFloat(process.env[name]);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * What a referrer earns when someone they referred pays for their first
+ * order: store credit or cash, a fixed amount in rupees or, when
+ * REFERRAL_REWARD_PERCENT is set, a share of the order total.
+ */
+const getRewardConfig = () => ({
+    type: process.env.REFERRAL_REWARD_TYPE === 'cash' ? 'cash' : 'credit',
+    amount: numberFromEnv('REFERRAL_REWARD_AMOUNT', 100),
+    percent: numberFromEnv('REFERRAL_REWARD_PERCENT', 0)
+});
+
+// Reward in paise for a paid order. Rewards are in rupees, so orders paid in
+// another currency earn the fixed amount rather than a share
+const calculateReward = (order, config = getRewardConfig()) => {
+    if (config.percent > 0 && order.currency === 'INR') {
+        return Math.round((order.totalAmount * config.percent) / 100);
+    }
+    return Math.round(config.amount * 100);
+};
+
+// The browser id the frontend sends with every request
+const readDeviceId = (req) => {
+    const deviceId = req.get('X-Device-Id');
+    return deviceId ? deviceId.trim().slice(0, 100) : null;
+};
+
+const rememberDevice = (user, deviceId) => {
+    if (!user || !deviceId) return null;
+    return Users.updateOne(
+        { _id: user._id, [`deviceIds.${MAX_DEVICES - 1}`]: { $exists: false } },
+        { $addToSet: { deviceIds: deviceId } }
+    );
+};
+
+const generateCode = (user) => {
+    const prefix = (user.name || user.email || '')
+        .toUpperCase()
+        .replace(/[^A-Z]/g, '')
+        .slice(0, 5);
+    const suffix = Array.from(crypto.randomBytes(4), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+    return `${prefix || 'REF'}${suffix}`;
+};
+
+// The user's referral code, created the first time it's asked for
+const ensureReferralCode = async (user) => {
+    if (user.referralCode) return user.referralCode;
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+        try {
+            const updated = await Users.findOneAndUpdate(
+                { _id: user._id, referralCode: { $exists: false } },
+                { referralCode: generateCode(user) },
+                { new: true }
+            );
+            if (updated) return updated.referralCode;
+            // Given a code by another request at the same moment
+            return (await Users.findById(user._id).select('referralCode')).referralCode;
+        } catch (error) {
+            if (error.code !== 11000) throw error;
+        }
+    }
+    throw new Error('Could not generate a unique referral code');
+};
+
+// Emails that reach the same inbox: case, +tags and, for Gmail, dots
+const normalizeEmail = (email) => {
+    const [local = '', domain = ''] = String(email || '').toLowerCase().trim().split('@');
+    const base = local.split('+')[0];
+    const gmail = domain === 'gmail.com' || domain === 'googlemail.com';
+    return `${gmail ? base.replace(/\./g, '') : base}@${gmail ? 'gmail.com' : domain}`;
+};
+
+const normalizePhone = (phone) => String(phone || '').replace(/\D/g, '').slice(-10);
+
+/**
+ * Why the referee looks like the referrer themselves: the same account,
+ * an email reaching the same inbox, the same phone number, or a device the
+ * referrer has used. Null when none of these match.
+ */
+const findSelfReferral = (referrer, referee, deviceId) => {
+    if (referrer._id.toString() === referee._id.toString()) return 'same_user';
+    if (normalizeEmail(referrer.email) === normalizeEmail(referee.email)) return 'same_email';
+    const phone = normalizePhone(referee.phone);
+    if (phone && phone === normalizePhone(referrer.phone)) return 'same_phone';
+    if (deviceId && (referrer.deviceIds || []).includes(deviceId)) return 'same_device';
+    return null;
+};
+
+const findReferrer = (code) => {
+    const normalized = String(code || '').toUpperCase().trim();
+    return normalized ? Users.findOne({ referralCode: normalized }) : null;
+};
+
+const createReferral = async ({ referrer, referee, code, source, deviceId }) => {
+    const fraudReason = findSelfReferral(referrer, referee, deviceId);
+    try {
+        const referral = await new Referral({
+            referrerId: referrer._id,
+            refereeId: referee._id,
+            code: referrer.referralCode,
+            source,
+            status: fraudReason ? 'rejected' : 'pending',
+            fraudReason,
+            deviceId
+        }).save();
+        if (!fraudReason) {
+            await Users.updateOne({ _id: referee._id }, { referredBy: referrer._id });
+        }
+        return referral;
+    } catch (error) {
+        // Referred by someone else at the same moment
+        if (error.code === 11000) return Referral.findOne({ refereeId: referee._id });
+        throw error;
+    }
+};
+
+/**
+ * Attribute a new signup to the owner of the referral code it came with.
+ * Unknown codes are ignored so they never block a signup; self-referrals
+ * are recorded as rejected.
+ */
+const recordSignupReferral = async ({ user, code, deviceId }) => {
+    const referrer = await findReferrer(code);
+    if (!referrer) return null;
+    return createReferral({ referrer, referee: user, code, source: 'signup', deviceId });
+};
+
+/**
+ * The referrer to credit with a buyer's order: whoever referred them at
+ * signup, or else the owner of the referral code they checked out with,
+ * which refers them from then on. Resolves to the order's referral fields,
+ * or null when nobody is credited (no code, or a self-referral).
+ */
+const resolveOrderReferral = async ({ user, code, deviceId }) => {
+    let referral = await Referral.findOne({ refereeId: user._id });
+
+    if (!referral) {
+        const referrer = await findReferrer(code);
+        if (!referrer) return null;
+        referral = await createReferral({ referrer, referee: user, code, source: 'checkout', deviceId });
+    }
+    if (!referral || referral.status === 'rejected') return null;
+
+    return { referrerId: referral.referrerId, referralId: referral.id, code: referral.code };
+};
+
+/**
+ * Reward the referrer for a paid order of someone they referred. Only the
+ * referred user's first paid order earns a reward: the referral is moved
+ * to converted atomically, so it is rewarded once however many paid
+ * orders arrive together. The self-referral checks run again first, as
+ * the buyer may have added the referrer's phone number since signing up.
+ */
+const rewardReferral = async (order) => {
+    if (!order.referral || !order.referral.referralId) return null;
+
+    const referral = await Referral.findOne({ id: order.referral.referralId, status: 'pending' });
+    if (!referral) return null;
+
+    const [referrer, referee] = await Promise.all([
+        Users.findById(referral.referrerId),
+        Users.findById(referral.refereeId)
+    ]);
+    if (!referrer || !referee) return null;
+
+    const fraudReason = findSelfReferral(referrer, referee, referral.deviceId);
+    if (fraudReason) {
+        await Referral.updateOne(
+            { _id: referral._id, status: 'pending' },
+            { status: 'rejected', fraudReason, updatedAt: Date.now() }
+        );
+        return null;
+    }
+
+    const converted = await Referral.findOneAndUpdate(
+        { _id: referral._id, status: 'pending' },
+        { status: 'converted', orderId: order.id, convertedAt: new Date(), updatedAt: Date.now() },
+        { new: true }
+    );
+    if (!converted) return null;
+
+    const config = getRewardConfig();
+    return new ReferralReward({
+        referrerId: converted.referrerId,
+        referralId: converted.id,
+        orderId: order.id,
+        entryType: 'reward',
+        rewardType: config.type,
+        amount: calculateReward(order, config),
+        note: `Order #${order.id} by a referred user`
+    }).save();
+};
+
+// Take back the reward for an order that was refunded
+const reverseReferralReward = async (order) => {
+    const reward = await ReferralReward.findOne({ orderId: order.id, entryType: 'reward' });
+    if (!reward) return null;
+
+    try {
+        return await new ReferralReward({
+            referrerId: reward.referrerId,
+            referralId: reward.referralId,
+            orderId: order.id,
+            entryType: 'reversal',
+            rewardType: reward.rewardType,
+            amount: -reward.amount,
+            note: `Order #${order.id} was refunded`
+        }).save();
+    } catch (error) {
+        // Already reversed
+        if (error.code === 11000) return null;
+        throw error;
+    }
+};
+
+/**
+ * A referrer's code, who they referred and what they have earned. Balances
+ * are in paise per reward type.
+ */
+const getReferralSummary = async (user) => {
+    const code = await ensureReferralCode(user);
+    const [referrals, ledger] = await Promise.all([
+        Referral.find({ referrerId: user._id })
+            .sort({ createdAt: -1 })
+            .populate('refereeId', 'name'),
+        ReferralReward.find({ referrerId: user._id }).sort({ createdAt: -1 })
+    ]);
+
+    const countStatus = (status) => referrals.filter((r) => r.status === status).length;
+    const sumOf = (entries) => entries.reduce((sum, entry) => sum + entry.amount, 0);
+
+    return {
+        code,
+        reward: getRewardConfig(),
+        stats: {
+            referred: referrals.length,
+            pending: countStatus('pending'),
+            converted: countStatus('converted'),
+            rejected: countStatus('rejected'),
+            earned: sumOf(ledger.filter((entry) => entry.entryType === 'reward')),
+            balance: {
+                credit: sumOf(ledger.filter((entry) => entry.rewardType === 'credit')),
+                cash: sumOf(ledger.filter((entry) => entry.rewardType === 'cash'))
+            }
+        },
+        referrals: referrals.map((referral) => ({
+            id: referral.id,
+            // Only the first name of who was referred
+            name: referral.refereeId && referral.refereeId.name
+                ? referral.refereeId.name.split(' ')[0]
+                : 'A learner',
+            source: referral.source,
+            status: referral.status,
+            message: referral.fraudReason ? FRAUD_MESSAGES[referral.fraudReason] : null,
+            createdAt: referral.createdAt,
+            convertedAt: referral.convertedAt
+        })),
+        ledger: ledger.map((entry) => ({
+            id: entry.id,
+            entryType: entry.entryType,
+            rewardType: entry.rewardType,
+            amount: entry.amount,
+            note: entry.note,
+            createdAt: entry.createdAt
+        }))
+    };
+};
+
+module.exports = {
+    getRewardConfig,
+    readDeviceId,
+    rememberDevice,
+    ensureReferralCode,
+    recordSignupReferral,
+    resolveOrderReferral,
+    rewardReferral,
+    reverseReferralReward,
+    getReferralSummary
+};
@@ -0,0 +1,126 @@
+const OrderItem = require('../Model/orderItem');
+const GiftCode = require('../Model/giftCode');
+const PageView = require('../Model/pageView');
+const { findSeatHolderIds } = require('./organizations');
+const StatusTransition = require('../Model/statusTransition');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const numberFromEnv = (name, fallback) => {
+    const value = parseFloat(process.env[name]);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * The refund policy: how long after purchase a refund is allowed and how
+ * much of the e-book may have been read. Requests that pass every check are
+ * approved automatically unless REFUND_POLICY_AUTO_APPROVE is false; the
+ * rest wait for an admin with the failed checks flagged.
+ */
+const getRefundPolicy = () => ({
+    maxDays: numberFromEnv('REFUND_POLICY_MAX_DAYS', 7),
+    maxProgressPercent: numberFromEnv('REFUND_POLICY_MAX_PROGRESS_PERCENT', 20),
+    autoApprove: process.env.REFUND_POLICY_AUTO_APPROVE !== 'false'
+});
+
+// When the order was paid, from the audit trail; older orders fall back to
+// when they were last updated
+const getPaidAt = async (order) => {
+    const paid = await StatusTransition.findOne({
+        entityType: 'Order',
+        entityId: order.id,
+        to: 'paid'
+    }).sort({ createdAt: -1 });
+    return paid ? paid.createdAt : order.updatedAt || order.createdAt;
+};
+
+// Whose reading counts: the buyer, whoever redeemed a gift, or the members
+// holding an organization's seats
+const getReaderIds = async (order) => {
+    if (order.seatCount) return findSeatHolderIds(order);
+    if (!order.isGift) return order.userId ? [order.userId] : [];
+    const gift = await GiftCode.findOne({ orderId: order.id });
+    return gift && gift.redeemedBy ? [gift.redeemedBy] : [];
+};
+
+const countPages = (course) => {
+    return (course.topics || []).reduce((sum, topic) => sum + topic.images.length, 0);
+};
+
+/**
+ * The furthest any reader has got into any course in the order, as the share
+ * of the course's pages the server has served them since `paidAt`. Progress
+ * the client reports is not used, so reading can't be hidden by not
+ * reporting it.
+ */
+const getReadingProgress = async (order, paidAt) => {
+    const readerIds = await getReaderIds(order);
+    const items = await OrderItem.find({ orderId: order.id }).populate('courseId', 'title topics');
+    const courses = items.map((item) => item.courseId).filter(Boolean);
+
+    const views = readerIds.length && courses.length
+        ? await PageView.aggregate([
+            {
+                $match: {
+                    userId: { $in: readerIds },
+                    courseId: { $in: courses.map((course) => course._id) },
+                    lastViewedAt: { $gte: new Date(paidAt) }
+                }
+            },
+            { $group: { _id: { userId: '$userId', courseId: '$courseId' }, pages: { $sum: 1 } } }
+        ])
+        : [];
+
+    return courses.reduce((furthest, course) => {
+        const total = countPages(course);
+        const pages = views
+            .filter((view) => view._id.courseId.toString() === course._id.toString())
+            .reduce((most, view) => Math.max(most, view.pages), 0);
+        const percent = total ? Math.round((pages * 100) / total) : 0;
+        return percent > furthest.percent
+            ? { percent, courseTitle: course.title }
+            : furthest;
+    }, { percent: 0, courseTitle: null });
+};
+
+/**
+ * Check a refund of an order against the policy. Resolves to the decision
+ * (eligible, or review when any check fails) and each check with a reason
+ * that can be shown to the learner and the admin.
+ */
+const evaluateRefund = async (order, { now = new Date() } = {}) => {
+    const policy = getRefundPolicy();
+    const paidAt = await getPaidAt(order);
+    const progress = await getReadingProgress(order, paidAt);
+    const daysSincePurchase = Math.floor((now - new Date(paidAt)) / DAY_MS);
+
+    const checks = [
+        {
+            code: 'purchase_window',
+            passed: daysSincePurchase <= policy.maxDays,
+            message: daysSincePurchase <= policy.maxDays
+                ? `Purchased ${daysSincePurchase} day(s) ago, within the ${policy.maxDays}-day window`
+                : `Purchased ${daysSincePurchase} days ago, after the ${policy.maxDays}-day window`
+        },
+        {
+            code: 'reading_progress',
+            passed: progress.percent < policy.maxProgressPercent,
+            message: progress.percent < policy.maxProgressPercent
+                ? `${progress.percent}% of pages viewed, under the ${policy.maxProgressPercent}% limit`
+                : `${progress.percent}% of pages viewed${progress.courseTitle ? ` in ${progress.courseTitle}` : ''}, at or over the ${policy.maxProgressPercent}% limit`
+        }
+    ];
+
+    return {
+        decision: checks.every((check) => check.passed) ? 'eligible' : 'review',
+        checks,
+        daysSincePurchase,
+        progressPercent: progress.percent,
+        evaluatedAt: now
+    };
+};
+
+module.exports = {
+    getRefundPolicy,
+    evaluateRefund
+};
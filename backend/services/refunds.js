@@ -0,0 +1,504 @@
+const Order = require('../Model/order');
+const Payment = require('../Model/payment');
+const Refund = require('../Model/refund');
+const { getGateway } = require('./gateways');
+const { userActor } = require('./checkout');
+const { recordTransition, recordCreated, transitionPayment } = require('./orderStates');
+const { issueCreditNote } = require('./invoices');
+const { reverseAffiliateCommission } = require('./affiliates');
+const { getRefundPolicy, evaluateRefund } = require('./refundPolicy');
+
+// A refund is approved or rejected by an admin, then processed or failed by
+// the gateway. A failed refund can be approved again; one the gateway
+// reports processed after we saw it fail is still counted.
+const REFUND_TRANSITIONS = {
+    requested: ['approved', 'rejected'],
+    approved: ['processed', 'failed'],
+    failed: ['approved', 'processed'],
+    rejected: [],
+    processed: []
+};
+
+const refundError = (message, statusCode = 400) => {
+    return Object.assign(new Error(message), { statusCode });
+};
+
+// The admin routes in routes.js run without a logged-in user
+const adminActor = (admin) => ({ type: 'admin', id: admin ? admin._id.toString() : undefined });
+
+const adminId = (admin) => (admin ? admin._id : undefined);
+
+/**
+ * Move a refund to a new status and log it, like transitionOrder: throws a
+ * 409 for an illegal move and returns null if another request got there
+ * first.
+ */
+const transitionRefund = async (refund, to, context, fields = {}) => {
+    if (!(REFUND_TRANSITIONS[refund.status] || []).includes(to)) {
+        throw refundError(`Refund ${refund.id} cannot move from ${refund.status} to ${to}`, 409);
+    }
+
+    const updated = await Refund.findOneAndUpdate(
+        { _id: refund._id, status: refund.status },
+        { ...fields, status: to, updatedAt: Date.now() },
+        { new: true }
+    );
+    if (!updated) return null;
+
+    await recordTransition('Refund', updated.id, updated.orderId, refund.status, to, context);
+    return updated;
+};
+
+// The captured payments behind a paid order, newest first: its one payment,
+// or each installment paid so far
+const findOrderPayments = (order) => {
+    return Payment.find({ orderId: order.id, status: 'captured' }).sort({ createdAt: -1, id: -1 });
+};
+
+/**
+ * What can still be refunded on a payment: its amount less what was
+ * refunded and what open refunds already claim. `excludeRefundId` leaves
+ * one open refund out, for changing its own amount.
+ */
+const getRefundableAmount = async (payment, { excludeRefundId } = {}) => {
+    if (!payment || payment.status !== 'captured') return 0;
+
+    const open = await Refund.find({
+        paymentId: payment.id,
+        status: { $in: Refund.OPEN_STATUSES },
+        id: { $ne: excludeRefundId }
+    });
+    const claimed = open.reduce((sum, refund) => sum + refund.amount, 0);
+    return Math.max(0, payment.amount - payment.amountRefunded - claimed);
+};
+
+// What can still be refunded on an order, across all its payments
+const getOrderRefundableAmount = async (payments) => {
+    const amounts = await Promise.all(payments.map((payment) => getRefundableAmount(payment)));
+    return amounts.reduce((sum, amount) => sum + amount, 0);
+};
+
+// Amounts are whole paise between 1 and what is left to refund
+const validateAmount = (amount, refundable) => {
+    if (refundable <= 0) {
+        throw refundError('Nothing is left to refund', 409);
+    }
+    if (!Number.isInteger(amount) || amount < 1 || amount > refundable) {
+        throw refundError(`Refund amount must be between 1 and ${refundable} paise`);
+    }
+    return amount;
+};
+
+const createRefund = async ({ order, payment, amount, reasonCode, note, requestedBy, policy }, context) => {
+    if (!Refund.REASON_CODES.includes(reasonCode)) {
+        throw refundError(`Reason must be one of: ${Refund.REASON_CODES.join(', ')}`);
+    }
+    if (!payment || payment.status !== 'captured') {
+        throw refundError('Only captured payments can be refunded', 409);
+    }
+
+    const refundable = await getRefundableAmount(payment);
+    const refund = await new Refund({
+        orderId: order.id,
+        paymentId: payment.id,
+        amount: validateAmount(amount === undefined ? refundable : amount, refundable),
+        reasonCode,
+        note,
+        requestedBy,
+        policy,
+        gateway: payment.gateway
+    }).save();
+
+    await recordCreated(refund, context);
+    return refund;
+};
+
+/**
+ * Refund an amount of an order across its payments, newest first, taking
+ * each up to what is left on it: one refund per payment drawn on. The amount
+ * defaults to everything still refundable on the order.
+ */
+const createOrderRefunds = async ({ order, amount, ...fields }, context) => {
+    const payments = await findOrderPayments(order);
+    const refundable = await getOrderRefundableAmount(payments);
+    let left = validateAmount(amount === undefined ? refundable : amount, refundable);
+
+    const refunds = [];
+    for (const payment of payments) {
+        if (left <= 0) break;
+        const share = Math.min(left, await getRefundableAmount(payment));
+        if (share <= 0) continue;
+        refunds.push(await createRefund({ ...fields, order, payment, amount: share }, context));
+        left -= share;
+    }
+    return refunds;
+};
+
+// How long a claim on an order's refunds holds if it is never released
+const REFUND_CLAIM_MS = 60 * 1000;
+
+/**
+ * Run `create` while holding the order's refund claim, taken with one
+ * conditional update, so the checks on what is open and refundable and the
+ * refunds made from them can't interleave with another request for the same
+ * order. Throws a 409 while another request holds it; a claim left behind
+ * by a process that died lapses after a minute.
+ */
+const withRefundClaim = async (order, create) => {
+    const claimedAt = new Date();
+    const claimed = await Order.findOneAndUpdate(
+        {
+            _id: order._id,
+            $or: [
+                { refundClaimedAt: null },
+                { refundClaimedAt: { $lt: new Date(claimedAt.getTime() - REFUND_CLAIM_MS) } }
+            ]
+        },
+        { refundClaimedAt: claimedAt },
+        { new: true }
+    );
+    if (!claimed) {
+        throw refundError('A refund for this order is already being processed', 409);
+    }
+
+    try {
+        return await create(claimed);
+    } finally {
+        await Order.updateOne({ _id: order._id, refundClaimedAt: claimedAt }, { refundClaimedAt: null });
+    }
+};
+
+// A learner's paid order, ready to refund: no other refund open on it
+const findRefundableOrder = async (user, orderId) => {
+    const order = await Order.findOne({ id: orderId, userId: user._id });
+    if (!order) {
+        throw refundError('Order not found', 404);
+    }
+    if (order.status !== 'paid') {
+        throw refundError('Only paid orders can be refunded', 409);
+    }
+
+    const open = await Refund.findOne({ orderId: order.id, status: { $in: Refund.OPEN_STATUSES } });
+    if (open) {
+        throw refundError('A refund for this order is already being processed', 409);
+    }
+    return order;
+};
+
+/**
+ * How a refund of the order would fare under the refund policy, so the
+ * learner can see it before asking.
+ */
+const checkRefundEligibility = async ({ user, orderId }) => {
+    const order = await findRefundableOrder(user, orderId);
+    const [evaluation, payments] = await Promise.all([evaluateRefund(order), findOrderPayments(order)]);
+    return {
+        ...evaluation,
+        autoApprove: evaluation.decision === 'eligible' && getRefundPolicy().autoApprove,
+        refundableAmount: await getOrderRefundableAmount(payments)
+    };
+};
+
+/**
+ * Requests the refund policy finds eligible skip the queue. One the gateway
+ * then can't refund waits in the failed queue for an admin; payments whose
+ * gateway we can't reach always wait for one.
+ */
+const autoApproveRefund = async (refund) => {
+    if (!getGateway(refund.gateway)) return refund;
+
+    const context = { actor: { type: 'system' }, reason: 'Auto-approved by the refund policy' };
+    const approved = await transitionRefund(refund, 'approved', context, {
+        approvedAt: new Date(),
+        'policy.autoApproved': true
+    });
+    if (!approved) return Refund.findOne({ id: refund.id });
+
+    try {
+        return await processRefund(approved, context);
+    } catch (error) {
+        if (!error.statusCode) throw error;
+        console.error(`Auto-approved refund ${refund.id} failed:`, error.message);
+        return Refund.findOne({ id: refund.id });
+    }
+};
+
+/**
+ * A learner asks for a refund of one of their paid orders. The amount
+ * defaults to everything still refundable and is split across the order's
+ * payments (its installments); only one request per order can be open at a
+ * time, and concurrent requests are turned away while one holds the order's
+ * refund claim. The request is checked against the refund policy and approved
+ * straight away when it passes. Resolves to the refunds created.
+ */
+const requestRefund = async ({ user, orderId, amount, reasonCode, note }) => {
+    const order = await findRefundableOrder(user, orderId);
+    const policy = await evaluateRefund(order);
+
+    const refunds = await withRefundClaim(order, async () => {
+        // Checked again now that no other request can add refunds to the order
+        const refundable = await findRefundableOrder(user, orderId);
+        return createOrderRefunds({
+            order: refundable,
+            amount,
+            reasonCode,
+            note,
+            requestedBy: user._id,
+            policy
+        }, {
+            actor: userActor(user),
+            reason: `Refund requested (policy: ${policy.decision})`
+        });
+    });
+
+    if (policy.decision === 'eligible' && getRefundPolicy().autoApprove) {
+        const approved = [];
+        for (const refund of refunds) {
+            approved.push(await autoApproveRefund(refund));
+        }
+        return approved;
+    }
+    return refunds;
+};
+
+// Add a processed refund to its payment once; refunding the whole amount
+// marks the payment refunded, which refunds the order and revokes the course
+// once every payment of the order has been refunded
+const countRefund = async (refund, context) => {
+    const key = refund.gatewayRefundId || `refund_${refund.id}`;
+    const counted = await Payment.findOneAndUpdate(
+        { id: refund.paymentId, gatewayRefundIds: { $ne: key } },
+        {
+            $push: { gatewayRefundIds: key },
+            $inc: { amountRefunded: refund.amount },
+            updatedAt: Date.now()
+        },
+        { new: true }
+    );
+    if (!counted || counted.amountRefunded < counted.amount) return;
+
+    if (counted.status === 'captured') {
+        await transitionPayment(counted, 'refunded', context);
+    }
+};
+
+/**
+ * Mark a refund processed, count it against its payment, take back its share
+ * of any affiliate commission and issue the GST credit note. A credit note
+ * that fails to generate is logged rather than failing the refund; it is
+ * issued again when first downloaded.
+ */
+const completeRefund = async (refund, context, fields = {}) => {
+    if (refund.status === 'processed') return refund;
+
+    const processed = await transitionRefund(refund, 'processed', context, {
+        ...fields,
+        processedAt: new Date()
+    });
+    if (!processed) return Refund.findOne({ id: refund.id });
+
+    await countRefund(processed, context);
+    const order = await Order.findOne({ id: processed.orderId });
+    try {
+        await reverseAffiliateCommission(order, processed);
+    } catch (error) {
+        console.error(`Affiliate commission for refund ${processed.id} could not be reversed:`, error);
+    }
+    try {
+        await issueCreditNote(processed, order);
+    } catch (error) {
+        console.error(`Credit note for refund ${processed.id} could not be issued:`, error);
+    }
+    return processed;
+};
+
+/**
+ * Send an approved refund to its gateway. Gateways that settle at once
+ * complete it here; others complete it through the refund webhook. A
+ * payment whose gateway we can't reach (old or manual payments) is taken
+ * as refunded outside the gateway by the approving admin.
+ */
+const processRefund = async (refund, context) => {
+    const gateway = getGateway(refund.gateway);
+    if (!gateway) {
+        return completeRefund(refund, {
+            ...context,
+            reason: `${context.reason} (refunded outside the ${refund.gateway} gateway)`
+        });
+    }
+
+    const payment = await Payment.findOne({ id: refund.paymentId });
+    let result;
+    try {
+        result = await gateway.refundPayment(payment.gatewayPaymentId, {
+            amount: refund.amount,
+            refundId: refund.id,
+            reason: refund.reasonCode
+        });
+    } catch (error) {
+        const reason = (error.response && error.response.data && error.response.data.error
+            && error.response.data.error.description) || error.message;
+        await transitionRefund(refund, 'failed', context, { failureReason: reason });
+        throw refundError(`The payment gateway could not refund this payment: ${reason}`, 502);
+    }
+
+    const sent = await Refund.findOneAndUpdate(
+        { _id: refund._id },
+        { gatewayRefundId: result.gatewayRefundId, updatedAt: Date.now() },
+        { new: true }
+    );
+    if (result.status === 'processed') {
+        return completeRefund(sent, context);
+    }
+    if (result.status === 'failed' && sent.status === 'approved') {
+        return transitionRefund(sent, 'failed', context, {
+            failureReason: 'Refund failed on the gateway'
+        });
+    }
+    return sent;
+};
+
+/**
+ * An admin approves a requested (or failed) refund and sends it to the
+ * gateway. They can lower or raise the amount while approving, within what
+ * is left to refund.
+ */
+const approveRefund = async ({ refundId, admin, amount, reason }) => {
+    const refund = await Refund.findOne({ id: refundId });
+    if (!refund) {
+        throw refundError('Refund not found', 404);
+    }
+
+    const payment = await Payment.findOne({ id: refund.paymentId });
+    if (!payment || payment.status !== 'captured') {
+        throw refundError('Only captured payments can be refunded', 409);
+    }
+
+    const fields = { approvedBy: adminId(admin), approvedAt: new Date(), failureReason: null };
+    if (amount !== undefined && amount !== refund.amount) {
+        const refundable = await getRefundableAmount(payment, { excludeRefundId: refund.id });
+        fields.amount = validateAmount(amount, refundable);
+    }
+
+    const context = { actor: adminActor(admin), reason: reason || 'Refund approved' };
+    const approved = await transitionRefund(refund, 'approved', context, fields);
+    if (!approved) {
+        throw refundError(`Refund ${refund.id} was changed by another request, try again`, 409);
+    }
+    return processRefund(approved, context);
+};
+
+const rejectRefund = async ({ refundId, admin, reason }) => {
+    const refund = await Refund.findOne({ id: refundId });
+    if (!refund) {
+        throw refundError('Refund not found', 404);
+    }
+    if (!reason || !reason.trim()) {
+        throw refundError('A reason is required to reject a refund');
+    }
+
+    const rejected = await transitionRefund(
+        refund,
+        'rejected',
+        { actor: adminActor(admin), reason: 'Refund rejected' },
+        { rejectionReason: reason.trim(), approvedBy: adminId(admin) }
+    );
+    if (!rejected) {
+        throw refundError(`Refund ${refund.id} was changed by another request, try again`, 409);
+    }
+    return rejected;
+};
+
+/**
+ * Refund a payment straight away on an admin's say-so: the request is
+ * created and approved in one go.
+ */
+const refundPaymentAsAdmin = async ({ payment, admin, amount, reasonCode = 'other', note, reason }) => {
+    const order = await Order.findOne({ id: payment.orderId });
+    if (!order) {
+        throw refundError('Order not found for this payment', 404);
+    }
+
+    const refund = await withRefundClaim(order, () => createRefund({
+        order,
+        payment,
+        amount,
+        reasonCode,
+        note,
+        requestedBy: adminId(admin)
+    }, { actor: adminActor(admin), reason: reason || 'Refund created by admin' }));
+    return approveRefund({ refundId: refund.id, admin, reason });
+};
+
+// The refund a gateway event refers to: ours by the id we sent in its
+// notes, or by the gateway's refund id
+const findGatewayRefund = async (gateway, event) => {
+    if (event.refundId) {
+        const refund = await Refund.findOne({ id: event.refundId, gateway: gateway.name });
+        if (refund) return refund;
+    }
+    return Refund.findOne({ gateway: gateway.name, gatewayRefundId: event.gatewayRefundId });
+};
+
+// Refunds made on the gateway's dashboard get a record here when their
+// refund.processed event arrives
+const createGatewayRefund = async (gateway, event, context) => {
+    const payment = await Payment.findByGatewayPaymentId(event.gatewayPaymentId);
+    if (!payment) return null;
+
+    try {
+        const refund = await new Refund({
+            orderId: payment.orderId,
+            paymentId: payment.id,
+            amount: event.amount,
+            reasonCode: 'other',
+            note: 'Refunded on the payment gateway',
+            status: 'approved',
+            gateway: gateway.name,
+            gatewayRefundId: event.gatewayRefundId
+        }).save();
+        await recordCreated(refund, context);
+        return refund;
+    } catch (error) {
+        // Created by a concurrent delivery of the same refund
+        if (error.code === 11000) return findGatewayRefund(gateway, event);
+        throw error;
+    }
+};
+
+/**
+ * Apply a refund.processed or refund.failed webhook. Returns false when the
+ * refund's payment isn't ours.
+ */
+const applyGatewayRefund = async (gateway, event, processed, context) => {
+    let refund = await findGatewayRefund(gateway, event);
+    if (!refund) {
+        if (!processed) return false;
+        refund = await createGatewayRefund(gateway, event, context);
+        if (!refund) return false;
+    }
+
+    const fields = refund.gatewayRefundId ? {} : { gatewayRefundId: event.gatewayRefundId };
+    if (processed && refund.status !== 'processed') {
+        await completeRefund(refund, context, fields);
+    } else if (!processed && refund.status === 'approved') {
+        await transitionRefund(refund, 'failed', context, {
+            ...fields,
+            failureReason: 'Refund failed on the gateway'
+        });
+    }
+    return true;
+};
+
+module.exports = {
+    REFUND_TRANSITIONS,
+    getRefundableAmount,
+    getOrderRefundableAmount,
+    findOrderPayments,
+    checkRefundEligibility,
+    requestRefund,
+    approveRefund,
+    rejectRefund,
+    refundPaymentAsAdmin,
+    applyGatewayRefund
+};
@@ -0,0 +1,61 @@
+const crypto = require('crypto');
+
+// Page-image URLs are signed per user and expire quickly, so a copied link
+// stops working after a few minutes and can't be used by another account.
+const getSecret = () => process.env.IMAGE_URL_SECRET || process.env.JWT_SECRET;
+
+const getTtlSeconds = () => parseInt(process.env.IMAGE_URL_TTL_SECONDS, 10) || 600;
+
+const sign = (payload) => {
+    return crypto.createHmac('sha256', getSecret()).update(payload).digest('hex');
+};
+
+const pagePayload = ({ courseId, topicId, index, userId, expires }) => {
+    return [courseId, topicId, index, userId, expires].join(':');
+};
+
+// Relative URL for one page; the frontend prefixes its API base URL
+const signPageUrl = ({ courseId, topicId, index, userId, expires }) => {
+    const sig = sign(pagePayload({ courseId, topicId, index, userId, expires }));
+    const query = new URLSearchParams({ u: userId, exp: String(expires), sig });
+    return `/api/course-images/${courseId}/${topicId}/${index}?${query}`;
+};
+
+// Signed URLs for every page of a topic, sharing one expiry
+const signTopicPages = (course, topic, user) => {
+    const expires = Math.floor(Date.now() / 1000) + getTtlSeconds();
+    const urls = topic.images.map((_, index) =>
+        signPageUrl({
+            courseId: course._id.toString(),
+            topicId: topic._id.toString(),
+            index,
+            userId: user._id.toString(),
+            expires
+        })
+    );
+    return { urls, expiresAt: new Date(expires * 1000) };
+};
+
+// Returns null when valid, otherwise the reason it was rejected
+const verifyPageUrl = ({ courseId, topicId, index, userId, expires, sig }) => {
+    if (!userId || !expires || !sig) return 'Missing signature';
+
+    const expected = sign(pagePayload({ courseId, topicId, index, userId, expires }));
+    const a = Buffer.from(expected, 'hex');
+    const b = Buffer.from(String(sig), 'hex');
+    if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+        return 'Invalid signature';
+    }
+
+    if (parseInt(expires, 10) < Math.floor(Date.now() / 1000)) {
+        return 'Link expired';
+    }
+
+    return null;
+};
+
+module.exports = {
+    getTtlSeconds,
+    signTopicPages,
+    verifyPageUrl
+};
@@ -0,0 +1,109 @@
+const net = require('net');
+const os = require('os');
+
+// A minimal SMTP client for servers that need neither TLS nor a login: a
+// relay on the local network, or a local SMTP stand-in (such as MailHog or
+// smtp4dev) that catches mail in development and tests.
+
+const SMTP_TIMEOUT_MS = 10000;
+
+// The bare address of "Name <address>"
+const envelopeAddress = (address) => {
+    const match = /<([^>]+)>/.exec(address);
+    return (match ? match[1] : address).trim();
+};
+
+// CRLF line endings, with lines starting with a dot escaped so they don't
+// end the message early
+const toDataBlock = (message) => {
+    return message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+};
+
+/**
+ * Reads the server's replies in order. A reply can span lines ("250-...")
+ * and ends with the line whose code is followed by a space. Once the
+ * connection fails every read rejects with the error.
+ */
+const createSession = (socket) => {
+    const replies = [];
+    const waiting = [];
+    let buffer = '';
+    let lines = [];
+    let failure = null;
+
+    const fail = (error) => {
+        failure = failure || error;
+        waiting.splice(0).forEach(({ reject }) => reject(failure));
+    };
+
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk) => {
+        buffer += chunk;
+        let end;
+        while ((end = buffer.indexOf('\r\n')) !== -1) {
+            const line = buffer.slice(0, end);
+            buffer = buffer.slice(end + 2);
+            lines.push(line);
+            if (/^\d{3}(?: |$)/.test(line)) {
+                const reply = { code: parseInt(line.slice(0, 3), 10), text: lines.join('\n') };
+                lines = [];
+                const next = waiting.shift();
+                if (next) next.resolve(reply);
+                else replies.push(reply);
+            }
+        }
+    });
+    socket.on('error', fail);
+    socket.on('timeout', () => {
+        fail(new Error('SMTP server did not respond in time'));
+        socket.destroy();
+    });
+    socket.on('close', () => fail(new Error('SMTP connection closed')));
+
+    const read = () => {
+        if (replies.length > 0) return Promise.resolve(replies.shift());
+        if (failure) return Promise.reject(failure);
+        return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    };
+
+    // Send a command (or nothing, for the greeting) and check the reply code
+    const command = async (line, expectedCode) => {
+        if (line !== null) socket.write(`${line}\r\n`);
+        const reply = await read();
+        if (reply.code !== expectedCode) {
+            const name = line === null ? 'greeting' : line.split(/[ :]/)[0];
+            throw new Error(`SMTP ${name} was refused: ${reply.text}`);
+        }
+        return reply;
+    };
+
+    return { command };
+};
+
+/**
+ * Deliver a message (headers and body, as in an .eml file) to one
+ * recipient. Resolves once the server has accepted it; throws with the
+ * server's reply otherwise.
+ */
+const sendSmtp = async ({ host, port = 25, from, to, message }) => {
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+    const { command } = createSession(socket);
+
+    try {
+        await command(null, 220);
+        await command(`EHLO ${os.hostname()}`, 250);
+        await command(`MAIL FROM:<${envelopeAddress(from)}>`, 250);
+        await command(`RCPT TO:<${envelopeAddress(to)}>`, 250);
+        await command('DATA', 354);
+        await command(`${toDataBlock(message)}\r\n.`, 250);
+        socket.end('QUIT\r\n');
+    } catch (error) {
+        socket.destroy();
+        throw error;
+    }
+};
+
+module.exports = {
+    sendSmtp
+};
@@ -0,0 +1,46 @@
+const fs = require('fs/promises');
+const path = require('path');
+
+// Storage for files the backend generates (invoice PDFs). Objects are
+// addressed by a key such as invoices/2026-27/INV-2026-27-000123.pdf; the
+// local driver keeps them under STORAGE_DIR. Another driver (e.g. S3) only
+// needs to provide the same putObject/getObject/deleteObject functions.
+const getStorageDir = () => {
+    return path.resolve(__dirname, '..', process.env.STORAGE_DIR || './storage');
+};
+
+// Keys are relative paths; anything escaping the storage dir is rejected
+const resolveKey = (key) => {
+    const normalized = path.posix.normalize('/' + key).slice(1);
+    if (!normalized || normalized.startsWith('..')) {
+        throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(getStorageDir(), normalized);
+};
+
+const putObject = async (key, body) => {
+    const filePath = resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    return key;
+};
+
+// The object's contents, or null if there is none
+const getObject = async (key) => {
+    try {
+        return await fs.readFile(resolveKey(key));
+    } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+    }
+};
+
+const deleteObject = async (key) => {
+    await fs.rm(resolveKey(key), { force: true });
+};
+
+module.exports = {
+    putObject,
+    getObject,
+    deleteObject
+};
@@ -0,0 +1,84 @@
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const path = require('path');
+const sharp = require('sharp');
+
+// Rendered pages are cached per user per day, so the stamped timestamp
+// records the first time that account opened the page that day.
+const CACHE_DIR = path.resolve(
+    process.env.WATERMARK_CACHE_DIR || path.join(__dirname, '..', '.cache', 'watermarks')
+);
+
+const escapeXml = (text) => {
+    return String(text).replace(/[<>&'"]/g, (c) => ({
+        '<': '&lt;',
+        '>': '&gt;',
+        '&': '&amp;',
+        "'": '&apos;',
+        '"': '&quot;'
+    })[c]);
+};
+
+// Who the page was rendered for: email, phone (if set) and time
+const viewerLabel = (user, stampedAt) => {
+    const time = stampedAt.toISOString().slice(0, 16).replace('T', ' ') + ' UTC';
+    return [user.email, user.phone, time].filter(Boolean).join(' | ');
+};
+
+// Faint diagonal text tiled across the whole page
+const buildOverlay = (width, height, label) => {
+    const fontSize = Math.max(12, Math.round(width / 45));
+    const tileWidth = Math.round(label.length * fontSize * 0.6 + fontSize * 3);
+    const tileHeight = fontSize * 5;
+
+    return Buffer.from(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <defs>
+    <pattern id="wm" patternUnits="userSpaceOnUse" width="${tileWidth}" height="${tileHeight}" patternTransform="rotate(-30)">
+      <text x="0" y="${fontSize}" font-family="sans-serif" font-size="${fontSize}" fill="#808080" fill-opacity="0.18">${escapeXml(label)}</text>
+      <text x="${Math.round(tileWidth / 2)}" y="${Math.round(tileHeight / 2 + fontSize)}" font-family="sans-serif" font-size="${fontSize}" fill="#808080" fill-opacity="0.18">${escapeXml(label)}</text>
+    </pattern>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#wm)"/>
+</svg>`
+    );
+};
+
+const cachePathFor = (user, pageKey, day) => {
+    const name = crypto.createHash('sha1').update(pageKey).digest('hex');
+    return path.join(CACHE_DIR, user._id.toString(), day, `${name}.jpg`);
+};
+
+/**
+ * Stamp a page image with the viewer's identity. `pageKey` must uniquely
+ * identify the source image (it names the cache entry); `loadSource` is only
+ * called on a cache miss. Returns a JPEG buffer, or null if there is no source.
+ */
+const watermarkPage = async ({ user, pageKey, loadSource }) => {
+    const now = new Date();
+    const cachePath = cachePathFor(user, pageKey, now.toISOString().slice(0, 10));
+
+    try {
+        return await fs.readFile(cachePath);
+    } catch (error) {
+        if (error.code !== 'ENOENT') throw error;
+    }
+
+    const source = await loadSource();
+    if (!source) return null;
+
+    const image = sharp(source);
+    const { width, height } = await image.metadata();
+    const output = await image
+        .composite([{ input: buildOverlay(width, height, viewerLabel(user, now)), top: 0, left: 0 }])
+        .jpeg({ quality: 85 })
+        .toBuffer();
+
+    await fs.mkdir(path.dirname(cachePath), { recursive: true });
+    await fs.writeFile(cachePath, output);
+    return output;
+};
+
+module.exports = {
+    watermarkPage
+};
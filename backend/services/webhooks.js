@@ -0,0 +1,166 @@
+const crypto = require('crypto');
+const Order = require('../Model/order');
+const WebhookEvent = require('../Model/webhookEvent');
+const { getGateway } = require('./gateways');
+const { recordPaymentResult } = require('./checkout');
+const { applyGatewayRefund } = require('./refunds');
+
+// How much of a rejected delivery's body is kept for debugging
+const REJECTED_BODY_LIMIT = 2048;
+
+// How long a delivery holds an event it is processing if it never finishes
+const PROCESSING_LOCK_MS = 5 * 60 * 1000;
+
+const webhookError = (message, statusCode = 400) => {
+    return Object.assign(new Error(message), { statusCode });
+};
+
+const hashBody = (rawBody) => crypto.createHash('sha256').update(rawBody).digest('hex');
+
+/**
+ * Store the event and claim it for processing. Returns null when this event
+ * was already handled, or is being handled by another delivery right now.
+ * Failed events are claimed again so gateway retries can complete them, and
+ * so are events whose processing claim went stale (the process died).
+ */
+const claimEvent = async ({ gateway, eventId, type, rawBody }) => {
+    const lockedAt = new Date();
+    try {
+        return await new WebhookEvent({
+            gateway,
+            eventId,
+            type,
+            rawBody,
+            signatureValid: true,
+            lockedAt
+        }).save();
+    } catch (error) {
+        if (error.code !== 11000) throw error;
+    }
+
+    const staleBefore = new Date(lockedAt.getTime() - PROCESSING_LOCK_MS);
+    const retry = await WebhookEvent.findOneAndUpdate(
+        {
+            gateway,
+            eventId,
+            signatureValid: true,
+            $or: [
+                { status: 'failed' },
+                { status: 'processing', lockedAt: { $lt: staleBefore } },
+                { status: 'processing', lockedAt: null, receivedAt: { $lt: staleBefore } }
+            ]
+        },
+        { status: 'processing', error: null, lockedAt, $inc: { attempts: 1 } },
+        { new: true }
+    );
+    if (!retry) {
+        await WebhookEvent.updateOne(
+            { gateway, eventId, signatureValid: true },
+            { $inc: { attempts: 1 } }
+        );
+    }
+    return retry;
+};
+
+const applyPaymentEvent = async (gateway, payment, context) => {
+    const order = payment.gatewayOrderId && await Order.findOne({
+        gateway: gateway.name,
+        $or: [
+            { gatewayOrderId: payment.gatewayOrderId },
+            { 'installments.gatewayOrderId': payment.gatewayOrderId }
+        ]
+    });
+    if (!order) return false;
+
+    await recordPaymentResult(order, gateway, payment, context);
+    return true;
+};
+
+// Returns false for events we don't act on
+const applyEvent = async (gateway, event, eventId) => {
+    const context = {
+        actor: { type: 'gateway', id: gateway.name },
+        reason: `Webhook ${event.type} (${eventId})`
+    };
+
+    switch (event.type) {
+        case 'payment.captured':
+        case 'payment.failed':
+            return event.payment ? applyPaymentEvent(gateway, event.payment, context) : false;
+        case 'refund.processed':
+        case 'refund.failed':
+            return event.refund
+                ? applyGatewayRefund(gateway, event.refund, event.type === 'refund.processed', context)
+                : false;
+        default:
+            return false;
+    }
+};
+
+/**
+ * Verify, log and apply one webhook delivery. Resolves to the event id and
+ * what happened to it: processed, ignored or duplicate. Invalid deliveries
+ * are logged as rejected and throw a 400; processing errors mark the event
+ * failed and rethrow so the gateway retries it.
+ */
+const handleWebhook = async ({ gatewayName, rawBody, headers }) => {
+    const gateway = getGateway(gatewayName);
+    if (!gateway) {
+        throw webhookError('Unknown payment gateway', 404);
+    }
+
+    let body = null;
+    try {
+        body = JSON.parse(rawBody);
+    } catch (error) {
+        body = null;
+    }
+
+    const signatureValid = gateway.verifyWebhookSignature(rawBody, headers);
+    if (!signatureValid || !body) {
+        const message = signatureValid ? 'Malformed webhook payload' : 'Invalid webhook signature';
+        // The endpoint is public: keep enough to debug, not the whole body
+        await new WebhookEvent({
+            gateway: gateway.name,
+            type: body && typeof body.event === 'string' ? body.event.slice(0, 100) : undefined,
+            rawBody: rawBody.slice(0, REJECTED_BODY_LIMIT),
+            bodyHash: hashBody(rawBody),
+            bodySize: Buffer.byteLength(rawBody),
+            signatureValid: false,
+            status: 'rejected',
+            error: message
+        }).save();
+        throw webhookError(message, 400);
+    }
+
+    const event = gateway.parseWebhookEvent(body, headers);
+    // Fall back to the payload hash so a resent body is still recognized
+    const eventId = event.eventId || hashBody(rawBody);
+
+    const record = await claimEvent({
+        gateway: gateway.name,
+        eventId,
+        type: event.type,
+        rawBody
+    });
+    if (!record) {
+        return { eventId, status: 'duplicate' };
+    }
+
+    try {
+        const applied = await applyEvent(gateway, event, eventId);
+        record.status = applied ? 'processed' : 'ignored';
+        record.processedAt = new Date();
+        await record.save();
+        return { eventId, status: record.status };
+    } catch (error) {
+        record.status = 'failed';
+        record.error = error.message;
+        await record.save();
+        throw error;
+    }
+};
+
+module.exports = {
+    handleWebhook
+};
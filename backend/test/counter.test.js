@@ -0,0 +1,65 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const Counter = require('../Model/counter');
+const Order = require('../Model/order');
+const { query } = require('./helpers');
+
+test.afterEach(() => test.mock.restoreAll());
+
+test('the next value is taken with a single atomic $inc', async (t) => {
+    const update = t.mock.method(Counter, 'findOneAndUpdate', () => query({ _id: 'orders', seq: 42 }));
+    const seed = t.mock.method(Counter, 'advanceTo', async () => ({}));
+
+    assert.equal(await Counter.next('orders'), 42);
+    const [filter, change] = update.mock.calls[0].arguments;
+    assert.deepEqual(filter, { _id: 'orders' });
+    assert.deepEqual(change, { $inc: { seq: 1 } });
+    assert.equal(seed.mock.callCount(), 0);
+});
+
+test('a missing sequence starts after the highest id already in its collection', async (t) => {
+    let seq = null;
+    const update = t.mock.method(Counter, 'findOneAndUpdate', () => query(seq === null ? null : { seq: seq + 1 }));
+    const seed = t.mock.method(Counter, 'advanceTo', async (name, value) => {
+        seq = value;
+    });
+    t.mock.method(Order, 'findOne', () => query({ id: 314 }));
+
+    assert.equal(await Counter.next('orders'), 315);
+    assert.deepEqual(seed.mock.calls[0].arguments, ['orders', 314]);
+    assert.equal(update.mock.calls[1].arguments[2].upsert, true);
+});
+
+test('a missing sequence for a new kind of record starts at 1', async (t) => {
+    let seq = null;
+    t.mock.method(Counter, 'findOneAndUpdate', () => query(seq === null ? null : { seq: seq + 1 }));
+    t.mock.method(Counter, 'advanceTo', async (name, value) => {
+        seq = value;
+    });
+    const lookup = t.mock.method(Order, 'findOne', () => query({ id: 314 }));
+
+    assert.equal(await Counter.next('INV/2026-27'), 1);
+    assert.equal(lookup.mock.callCount(), 0);
+});
+
+test('document numbers restart every financial year', async (t) => {
+    const update = t.mock.method(Counter, 'findOneAndUpdate', () => query({ seq: 123 }));
+
+    const number = await Counter.nextNumber('INV', { date: new Date('2026-06-01T00:00:00Z') });
+
+    assert.equal(number, 'INV/2026-27/000123');
+    assert.deepEqual(update.mock.calls[0].arguments[0], { _id: 'INV/2026-27' });
+});
+
+test('document numbers can run on without a financial year', async (t) => {
+    t.mock.method(Counter, 'findOneAndUpdate', () => query({ seq: 7 }));
+
+    assert.equal(await Counter.nextNumber('CN', { perFinancialYear: false, digits: 4 }), 'CN/0007');
+});
+
+test('the financial year turns over on 1 April in India', () => {
+    assert.equal(Counter.financialYearOf(new Date('2027-03-31T18:00:00Z')), '2026-27');
+    // 31 March 18:30 UTC is already 1 April in IST
+    assert.equal(Counter.financialYearOf(new Date('2027-03-31T18:30:00Z')), '2027-28');
+    assert.equal(Counter.financialYearOf(new Date('2026-12-31T00:00:00Z')), '2026-27');
+});
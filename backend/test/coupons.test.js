@@ -0,0 +1,142 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+const Coupon = require('../Model/coupon');
+const CouponRedemption = require('../Model/couponRedemption');
+const { applyCoupon, reserveCoupon, confirmRedemption } = require('../services/coupons');
+const { query } = require('./helpers');
+
+test.afterEach(() => test.mock.restoreAll());
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const makeCoupon = (fields = {}) => new Coupon({
+    id: 3,
+    code: 'SAVE10',
+    discountType: 'percentage',
+    discountValue: 10,
+    validFrom: new Date(Date.now() - DAY_MS),
+    validTill: new Date(Date.now() + DAY_MS),
+    ...fields
+});
+
+test('an unknown coupon is rejected as not found', async (t) => {
+    t.mock.method(Coupon, 'findOne', () => query(null));
+
+    await assert.rejects(
+        applyCoupon({ code: 'NOPE', user: null, items: [] }),
+        { statusCode: 404, reason: 'not_found' }
+    );
+});
+
+test('an expired coupon is rejected', async (t) => {
+    const coupon = makeCoupon({
+        validFrom: new Date(Date.now() - 3 * DAY_MS),
+        validTill: new Date(Date.now() - DAY_MS)
+    });
+    t.mock.method(Coupon, 'findOne', () => query(coupon));
+
+    await assert.rejects(
+        applyCoupon({ code: 'save10', user: null, items: [{ courseId: null, price: 500 }] }),
+        { reason: 'expired' }
+    );
+});
+
+test('the discount only covers the courses the coupon applies to', async (t) => {
+    const eligible = new mongoose.Types.ObjectId();
+    const other = new mongoose.Types.ObjectId();
+    const coupon = makeCoupon({ courseIds: [eligible], minOrderAmount: 600 });
+    t.mock.method(Coupon, 'findOne', () => query(coupon));
+
+    const result = await applyCoupon({
+        code: 'SAVE10',
+        user: null,
+        items: [{ courseId: eligible, price: 400 }, { courseId: other, price: 300 }]
+    });
+
+    assert.equal(result.subtotal, 700);
+    assert.equal(result.eligibleAmount, 400);
+    assert.equal(result.discount, 40);
+});
+
+test('a cart under the minimum order value is rejected', async (t) => {
+    t.mock.method(Coupon, 'findOne', () => query(makeCoupon({ minOrderAmount: 1000 })));
+
+    await assert.rejects(
+        applyCoupon({ code: 'SAVE10', user: null, items: [{ courseId: null, price: 999 }] }),
+        { reason: 'min_order_not_met' }
+    );
+});
+
+test('a per-user coupon needs a logged-in user', async (t) => {
+    t.mock.method(Coupon, 'findOne', () => query(makeCoupon({ perUserLimit: 1 })));
+
+    await assert.rejects(
+        applyCoupon({ code: 'SAVE10', user: null, items: [{ courseId: null, price: 500 }] }),
+        { statusCode: 401, reason: 'login_required' }
+    );
+});
+
+test('no reservation is made once the usage limit is claimed', async (t) => {
+    t.mock.method(CouponRedemption, 'find', () => query([]));
+    const claim = t.mock.method(Coupon, 'findOneAndUpdate', () => query(null));
+    const save = t.mock.method(CouponRedemption.prototype, 'save');
+
+    await assert.rejects(
+        reserveCoupon({ coupon: makeCoupon({ usageLimit: 1, usedCount: 1 }), order: { id: 9 }, user: null }),
+        { statusCode: 409, reason: 'usage_limit_reached' }
+    );
+    // The use is taken with one conditional update, never a read then a write
+    const [filter, update] = claim.mock.calls[0].arguments;
+    assert.equal(filter.id, 3);
+    assert.deepEqual(update.$inc, { usedCount: 1 });
+    assert.equal(save.mock.callCount(), 0);
+});
+
+test('a reservation beaten to the per-user limit is given back', async (t) => {
+    const user = { _id: new mongoose.Types.ObjectId() };
+    t.mock.method(CouponRedemption, 'find', () => query([]));
+    t.mock.method(Coupon, 'findOneAndUpdate', () => query({ id: 3 }));
+    t.mock.method(CouponRedemption.prototype, 'save', async function() {
+        return this;
+    });
+    // Another checkout by the same user reserved at the same time
+    t.mock.method(CouponRedemption, 'countDocuments', () => query(2));
+    const release = t.mock.method(CouponRedemption, 'findOneAndUpdate', (filter) => query({
+        _id: filter._id,
+        couponId: 3,
+        status: 'released'
+    }));
+    const giveBack = t.mock.method(Coupon, 'updateOne', () => query({}));
+
+    await assert.rejects(
+        reserveCoupon({ coupon: makeCoupon({ perUserLimit: 1 }), order: { id: 9 }, user }),
+        { statusCode: 409, reason: 'per_user_limit_reached' }
+    );
+    assert.equal(release.mock.calls[0].arguments[0].status, 'reserved');
+    assert.deepEqual(giveBack.mock.calls[0].arguments[1].$inc, { usedCount: -1 });
+});
+
+test('confirming an already confirmed redemption takes no further use', async (t) => {
+    const confirmed = { _id: 'r1', orderId: 9, status: 'confirmed' };
+    t.mock.method(CouponRedemption, 'findOne', () => query(confirmed));
+    const use = t.mock.method(Coupon, 'updateOne');
+
+    assert.equal(await confirmRedemption({ id: 9, couponId: 3 }), confirmed);
+    assert.equal(use.mock.callCount(), 0);
+});
+
+test('a late payment confirms a released reservation and takes its use again', async (t) => {
+    t.mock.method(CouponRedemption, 'findOne', () => query({ _id: 'r1', orderId: 9, status: 'released' }));
+    t.mock.method(CouponRedemption, 'findOneAndUpdate', () => query({
+        _id: 'r1',
+        couponId: 3,
+        status: 'confirmed'
+    }));
+    const use = t.mock.method(Coupon, 'updateOne', () => query({}));
+
+    const redemption = await confirmRedemption({ id: 9, couponId: 3 });
+
+    assert.equal(redemption.status, 'confirmed');
+    assert.deepEqual(use.mock.calls[0].arguments[1], { $inc: { usedCount: 1 } });
+});
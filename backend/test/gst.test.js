@@ -0,0 +1,117 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { calculateLineTax, calculateTax, getPlaceOfSupply } = require('../services/gst');
+const { withEnv } = require('./helpers');
+
+test.beforeEach((t) => withEnv(t, { SELLER_STATE: 'West Bengal', GST_RATE: undefined, GST_LUT_ARN: undefined }));
+
+test('a sale within the seller\'s state is split into CGST and SGST', () => {
+    const tax = calculateLineTax(11800, getPlaceOfSupply('West Bengal'));
+
+    assert.equal(tax.taxableAmount, 10000);
+    assert.equal(tax.cgstAmount, 900);
+    assert.equal(tax.sgstAmount, 900);
+    assert.equal(tax.igstAmount, 0);
+    assert.equal(tax.totalAmount, 11800);
+});
+
+test('a sale to another state is charged IGST', () => {
+    const tax = calculateLineTax(11800, getPlaceOfSupply('Karnataka'));
+
+    assert.equal(tax.cgstAmount, 0);
+    assert.equal(tax.sgstAmount, 0);
+    assert.equal(tax.igstAmount, 1800);
+});
+
+test('an odd tax amount gives SGST the extra paisa', () => {
+    const tax = calculateLineTax(10001, getPlaceOfSupply('West Bengal'), { inclusive: false });
+
+    assert.equal(tax.taxAmount, 1800);
+    assert.equal(tax.cgstAmount + tax.sgstAmount, tax.taxAmount);
+
+    const odd = calculateLineTax(10003, getPlaceOfSupply('West Bengal'), { inclusive: false });
+    assert.equal(odd.taxAmount, 1801);
+    assert.equal(odd.cgstAmount, 900);
+    assert.equal(odd.sgstAmount, 901);
+});
+
+test('exclusive prices have the tax added on top', () => {
+    const tax = calculateLineTax(10000, getPlaceOfSupply('Karnataka'), { inclusive: false });
+
+    assert.equal(tax.taxableAmount, 10000);
+    assert.equal(tax.igstAmount, 1800);
+    assert.equal(tax.totalAmount, 11800);
+});
+
+test('the GST rate can be set from the environment', (t) => {
+    withEnv(t, { GST_RATE: '5' });
+    const tax = calculateLineTax(10500, getPlaceOfSupply('Karnataka'));
+
+    assert.equal(tax.rate, 5);
+    assert.equal(tax.igstAmount, 500);
+});
+
+test('an unknown buyer state falls back to the seller\'s state', () => {
+    assert.deepEqual(getPlaceOfSupply('Atlantis'), { state: 'West Bengal', code: '19' });
+    assert.deepEqual(getPlaceOfSupply('tamil  nadu'), { state: 'Tamil Nadu', code: '33' });
+});
+
+test('an order discount is spread over the lines before tax', () => {
+    const tax = calculateTax({
+        lines: [{ amount: 30000, inclusive: true }, { amount: 10000, inclusive: true }],
+        buyerState: 'Karnataka',
+        discountAmount: 1000
+    });
+
+    assert.equal(tax.intraState, false);
+    assert.equal(tax.lines[0].discountAmount, 750);
+    assert.equal(tax.lines[1].discountAmount, 250);
+    assert.equal(tax.totals.totalAmount, 39000);
+    assert.equal(tax.totals.igstAmount, tax.lines[0].igstAmount + tax.lines[1].igstAmount);
+});
+
+test('a buyer outside India is an export, zero-rated under the seller\'s LUT', (t) => {
+    withEnv(t, { GST_LUT_ARN: 'AD1903240000001' });
+    const tax = calculateTax({
+        lines: [{ amount: 5000, inclusive: true }],
+        buyerState: 'West Bengal',
+        buyerCountry: 'us',
+        currency: 'USD'
+    });
+
+    assert.deepEqual(tax.placeOfSupply, { state: 'Other Countries', code: '96' });
+    assert.equal(tax.supplyType, 'export');
+    assert.equal(tax.intraState, false);
+    assert.equal(tax.lines[0].rate, 0);
+    assert.equal(tax.totals.taxableAmount, 5000);
+    assert.equal(tax.totals.taxAmount, 0);
+    assert.equal(tax.totals.totalAmount, 5000);
+});
+
+test('an export without an LUT, or paid in rupees, is charged IGST', (t) => {
+    const withoutLut = calculateTax({
+        lines: [{ amount: 11800, inclusive: true }],
+        buyerState: 'West Bengal',
+        buyerCountry: 'DE',
+        currency: 'EUR'
+    });
+    assert.equal(withoutLut.supplyType, 'export');
+    assert.equal(withoutLut.totals.cgstAmount + withoutLut.totals.sgstAmount, 0);
+    assert.equal(withoutLut.totals.igstAmount, 1800);
+
+    withEnv(t, { GST_LUT_ARN: 'AD1903240000001' });
+    const inRupees = calculateTax({
+        lines: [{ amount: 11800, inclusive: true }],
+        buyerCountry: 'DE',
+        currency: 'INR'
+    });
+    assert.equal(inRupees.totals.cgstAmount + inRupees.totals.sgstAmount, 0);
+    assert.equal(inRupees.totals.igstAmount, 1800);
+});
+
+test('a billing country of India keeps the buyer\'s state', () => {
+    const tax = calculateTax({ lines: [{ amount: 11800, inclusive: true }], buyerState: 'West Bengal', buyerCountry: 'IN' });
+
+    assert.equal(tax.supplyType, 'intra_state');
+    assert.equal(tax.totals.cgstAmount, 900);
+});
@@ -0,0 +1,35 @@
+// Shared stand-ins for the tests. Models are stubbed per test with
+// node:test's mock.method, so no database is needed.
+
+// A mongoose query that resolves to `value`; chainable like the real one
+const query = (value) => {
+    const chain = {
+        sort: () => chain,
+        select: () => chain,
+        populate: () => chain,
+        lean: () => chain,
+        then: (resolve, reject) => Promise.resolve(value).then(resolve, reject)
+    };
+    return chain;
+};
+
+// Set env variables for one test, putting the old values back afterwards
+const withEnv = (t, values) => {
+    const previous = {};
+    Object.entries(values).forEach(([name, value]) => {
+        previous[name] = process.env[name];
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+    });
+    t.after(() => {
+        Object.entries(previous).forEach(([name, value]) => {
+            if (value === undefined) delete process.env[name];
+            else process.env[name] = value;
+        });
+    });
+};
+
+module.exports = {
+    query,
+    withEnv
+};
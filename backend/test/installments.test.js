@@ -0,0 +1,45 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const Order = require('../Model/order');
+const Enrollment = require('../Model/enrollment');
+const { suspendOverdueAccess } = require('../services/installments');
+const { query, withEnv } = require('./helpers');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+test.beforeEach((t) => withEnv(t, { INSTALLMENT_GRACE_DAYS: '5' }));
+test.afterEach(() => test.mock.restoreAll());
+
+const installmentOrder = (secondStatus) => ({
+    _id: 'o1',
+    id: 8,
+    status: 'paid',
+    accessSuspendedAt: null,
+    installments: [
+        { number: 1, amount: 5000, dueAt: new Date(NOW - 40 * DAY_MS), status: 'paid' },
+        { number: 2, amount: 5000, dueAt: new Date(NOW - 10 * DAY_MS), status: secondStatus }
+    ]
+});
+
+test('an order paid between the search and the claim is given back, not suspended', async (t) => {
+    t.mock.method(Order, 'find', () => query([installmentOrder('pending')]));
+    // By the time it is claimed, the overdue installment has been paid
+    t.mock.method(Order, 'findOneAndUpdate', () => query({ ...installmentOrder('paid'), accessSuspendedAt: NOW }));
+    const undo = t.mock.method(Order, 'updateOne', () => query({}));
+    const suspend = t.mock.method(Enrollment, 'updateMany');
+
+    assert.equal(await suspendOverdueAccess(NOW), 0);
+    assert.deepEqual(undo.mock.calls[0].arguments[0], { _id: 'o1', accessSuspendedAt: NOW });
+    assert.equal(undo.mock.calls[0].arguments[1].accessSuspendedAt, null);
+    assert.equal(suspend.mock.callCount(), 0);
+});
+
+test('an order another run claimed first is skipped', async (t) => {
+    t.mock.method(Order, 'find', () => query([installmentOrder('pending')]));
+    t.mock.method(Order, 'findOneAndUpdate', () => query(null));
+    const suspend = t.mock.method(Enrollment, 'updateMany');
+
+    assert.equal(await suspendOverdueAccess(NOW), 0);
+    assert.equal(suspend.mock.callCount(), 0);
+});
@@ -0,0 +1,74 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const OrderItem = require('../Model/orderItem');
+const Users = require('../Model/user');
+const { buildInvoiceData } = require('../services/invoices');
+const { query, withEnv } = require('./helpers');
+
+test.beforeEach((t) => withEnv(t, { SELLER_STATE: 'West Bengal', GST_RATE: undefined }));
+test.afterEach(() => test.mock.restoreAll());
+
+// One course line as stored at checkout, with its tax split
+const item = (tax) => ({
+    courseId: { title: 'Option Analysis' },
+    quantity: 1,
+    unitPrice: 5000,
+    totalPrice: 5000,
+    lineTotal: 5000,
+    discountAmount: 0,
+    taxRate: 0,
+    taxInclusive: true,
+    cgstAmount: 0,
+    sgstAmount: 0,
+    igstAmount: 0,
+    ...tax
+});
+
+const stubItems = (t, items) => {
+    t.mock.method(OrderItem, 'find', () => query(items));
+    t.mock.method(Users, 'findById', () => query(null));
+};
+
+test('a zero-rated export is not shown as an intra-state supply', async (t) => {
+    stubItems(t, [item({ taxableAmount: 5000 })]);
+
+    const data = await buildInvoiceData({
+        id: 7,
+        email: 'buyer@example.com',
+        placeOfSupply: { state: 'Other Countries', code: '96' },
+        supplyType: 'export',
+        taxableAmount: 5000,
+        cgstAmount: 0,
+        sgstAmount: 0,
+        igstAmount: 0,
+        taxAmount: 0,
+        totalAmount: 5000,
+        currency: 'USD'
+    });
+
+    assert.equal(data.supplyType, 'export');
+    assert.equal(data.intraState, false);
+});
+
+test('an order without a stored supply type takes it from its place of supply', async (t) => {
+    stubItems(t, [item({ taxRate: 18, taxableAmount: 4237, cgstAmount: 381, sgstAmount: 382 })]);
+    const order = {
+        id: 8,
+        email: 'buyer@example.com',
+        placeOfSupply: { state: 'West Bengal', code: '19' },
+        taxableAmount: 4237,
+        cgstAmount: 381,
+        sgstAmount: 382,
+        igstAmount: 0,
+        taxAmount: 763,
+        totalAmount: 5000
+    };
+
+    const intraState = await buildInvoiceData(order);
+    assert.equal(intraState.supplyType, 'intra_state');
+    assert.equal(intraState.intraState, true);
+
+    const interState = await buildInvoiceData({ ...order, placeOfSupply: { state: 'Karnataka', code: '29' } });
+    assert.equal(interState.supplyType, 'inter_state');
+    assert.equal(interState.intraState, false);
+});
@@ -0,0 +1,94 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const Order = require('../Model/order');
+const StatusTransition = require('../Model/statusTransition');
+const {
+    canTransitionOrder,
+    canTransitionPayment,
+    canSetOrderStatus,
+    transitionOrder,
+    setOrderStatus
+} = require('../services/orderStates');
+
+test.afterEach(() => test.mock.restoreAll());
+
+test('orders only move along the state machine', () => {
+    assert.equal(canTransitionOrder('created', 'pending_payment'), true);
+    assert.equal(canTransitionOrder('pending_payment', 'paid'), true);
+    assert.equal(canTransitionOrder('failed', 'paid'), true);
+    assert.equal(canTransitionOrder('paid', 'refunded'), true);
+
+    assert.equal(canTransitionOrder('paid', 'failed'), false);
+    assert.equal(canTransitionOrder('paid', 'created'), false);
+    assert.equal(canTransitionOrder('refunded', 'paid'), false);
+    assert.equal(canTransitionOrder('unknown', 'paid'), false);
+});
+
+test('payments only move along the state machine', () => {
+    assert.equal(canTransitionPayment('initiated', 'captured'), true);
+    assert.equal(canTransitionPayment('failed', 'captured'), true);
+    assert.equal(canTransitionPayment('captured', 'refunded'), true);
+
+    assert.equal(canTransitionPayment('captured', 'failed'), false);
+    assert.equal(canTransitionPayment('refunded', 'captured'), false);
+    assert.equal(canTransitionPayment('initiated', 'refunded'), false);
+});
+
+test('paid and refunded can only follow from a payment', () => {
+    assert.equal(canSetOrderStatus('created', 'pending_payment'), true);
+    assert.equal(canSetOrderStatus('pending_payment', 'failed'), true);
+    assert.equal(canSetOrderStatus('pending_payment', 'paid'), false);
+    assert.equal(canSetOrderStatus('paid', 'refunded'), false);
+});
+
+test('an illegal order transition is refused with a 409 before anything is saved', async (t) => {
+    const update = t.mock.method(Order, 'findOneAndUpdate');
+
+    await assert.rejects(
+        transitionOrder({ id: 7, status: 'paid' }, 'failed', {}),
+        { statusCode: 409 }
+    );
+    assert.equal(update.mock.callCount(), 0);
+});
+
+test('an order transition is conditional on the status it was read with', async (t) => {
+    const update = t.mock.method(Order, 'findOneAndUpdate', () => null);
+    const save = t.mock.method(StatusTransition.prototype, 'save', async function() {
+        return this;
+    });
+
+    const result = await transitionOrder({ _id: 'a1', id: 7, status: 'created' }, 'pending_payment', {});
+
+    assert.equal(result, null);
+    assert.deepEqual(update.mock.calls[0].arguments[0], { _id: 'a1', status: 'created' });
+    assert.equal(save.mock.callCount(), 0);
+});
+
+test('a successful order transition is logged with its actor', async (t) => {
+    t.mock.method(Order, 'findOneAndUpdate', () => ({ id: 7, status: 'pending_payment' }));
+    const save = t.mock.method(StatusTransition.prototype, 'save', async function() {
+        return this;
+    });
+
+    const updated = await transitionOrder(
+        { _id: 'a1', id: 7, status: 'created' },
+        'pending_payment',
+        { actor: { type: 'admin', id: 'u1' }, reason: 'Checked' }
+    );
+
+    assert.equal(updated.status, 'pending_payment');
+    assert.equal(save.mock.callCount(), 1);
+    const logged = save.mock.calls[0].this;
+    assert.equal(logged.entityType, 'Order');
+    assert.equal(logged.from, 'created');
+    assert.equal(logged.to, 'pending_payment');
+    assert.equal(logged.actor.type, 'admin');
+    assert.equal(logged.reason, 'Checked');
+});
+
+test('admins cannot set an order paid directly', async () => {
+    await assert.rejects(
+        setOrderStatus({ id: 7, status: 'pending_payment' }, 'paid', {}),
+        { statusCode: 409, message: /follows its payment/ }
+    );
+});
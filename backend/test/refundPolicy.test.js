@@ -0,0 +1,103 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+const OrderItem = require('../Model/orderItem');
+const StatusTransition = require('../Model/statusTransition');
+const PageView = require('../Model/pageView');
+const { evaluateRefund, getRefundPolicy } = require('../services/refundPolicy');
+const { query, withEnv } = require('./helpers');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-10-19T12:00:00Z');
+const COURSE_ID = new mongoose.Types.ObjectId();
+const BUYER_ID = new mongoose.Types.ObjectId();
+
+test.beforeEach((t) => withEnv(t, {
+    REFUND_POLICY_MAX_DAYS: undefined,
+    REFUND_POLICY_MAX_PROGRESS_PERCENT: undefined,
+    REFUND_POLICY_AUTO_APPROVE: undefined
+}));
+test.afterEach(() => test.mock.restoreAll());
+
+// An order for one 10-page course, paid `daysAgo` days before NOW, with the
+// buyer served `pages` of its pages since
+const stubOrder = (t, { daysAgo, pages }) => {
+    const course = {
+        _id: COURSE_ID,
+        title: 'Market Basics',
+        topics: [{ images: ['/1.jpeg', '/2.jpeg', '/3.jpeg', '/4.jpeg'] }, { images: Array(6).fill('/p.jpeg') }]
+    };
+    t.mock.method(StatusTransition, 'findOne', () => query({ createdAt: new Date(NOW - daysAgo * DAY_MS) }));
+    t.mock.method(OrderItem, 'find', () => query([{ courseId: course }]));
+    const views = t.mock.method(PageView, 'aggregate', async () => (pages
+        ? [{ _id: { userId: BUYER_ID, courseId: COURSE_ID }, pages }]
+        : []));
+    return { order: { id: 5, userId: BUYER_ID, isGift: false, seatCount: null }, views };
+};
+
+const check = (result, code) => result.checks.find((c) => c.code === code);
+
+test('the policy defaults to 7 days and 20% of pages with auto-approval', () => {
+    assert.deepEqual(getRefundPolicy(), { maxDays: 7, maxProgressPercent: 20, autoApprove: true });
+});
+
+test('a recent order barely read is eligible', async (t) => {
+    const { order } = stubOrder(t, { daysAgo: 2, pages: 1 });
+
+    const result = await evaluateRefund(order, { now: NOW });
+
+    assert.equal(result.decision, 'eligible');
+    assert.equal(result.daysSincePurchase, 2);
+    assert.equal(result.progressPercent, 10);
+});
+
+test('an order past the purchase window goes to review', async (t) => {
+    const { order } = stubOrder(t, { daysAgo: 8, pages: 0 });
+
+    const result = await evaluateRefund(order, { now: NOW });
+
+    assert.equal(result.decision, 'review');
+    assert.equal(check(result, 'purchase_window').passed, false);
+    assert.equal(check(result, 'reading_progress').passed, true);
+});
+
+test('the last day of the purchase window still counts', async (t) => {
+    const { order } = stubOrder(t, { daysAgo: 7, pages: 0 });
+
+    assert.equal((await evaluateRefund(order, { now: NOW })).decision, 'eligible');
+});
+
+test('reading just under the progress limit is eligible', async (t) => {
+    const { order } = stubOrder(t, { daysAgo: 1, pages: 1 });
+    withEnv(t, { REFUND_POLICY_MAX_PROGRESS_PERCENT: '11' });
+
+    assert.equal((await evaluateRefund(order, { now: NOW })).decision, 'eligible');
+});
+
+test('reading up to the progress limit goes to review', async (t) => {
+    const { order } = stubOrder(t, { daysAgo: 1, pages: 2 });
+
+    const result = await evaluateRefund(order, { now: NOW });
+
+    assert.equal(result.decision, 'review');
+    assert.equal(result.progressPercent, 20);
+    assert.match(check(result, 'reading_progress').message, /in Market Basics/);
+});
+
+test('reading is taken from the pages the server served since payment', async (t) => {
+    const { order, views } = stubOrder(t, { daysAgo: 3, pages: 0 });
+
+    await evaluateRefund(order, { now: NOW });
+
+    const [{ $match: match }] = views.mock.calls[0].arguments[0];
+    assert.deepEqual(match.userId.$in, [BUYER_ID]);
+    assert.deepEqual(match.courseId.$in, [COURSE_ID]);
+    assert.equal(match.lastViewedAt.$gte.getTime(), NOW - 3 * DAY_MS);
+});
+
+test('the limits can be set from the environment', async (t) => {
+    withEnv(t, { REFUND_POLICY_MAX_DAYS: '30', REFUND_POLICY_MAX_PROGRESS_PERCENT: '50' });
+    const { order } = stubOrder(t, { daysAgo: 20, pages: 4 });
+
+    assert.equal((await evaluateRefund(order, { now: NOW })).decision, 'eligible');
+});
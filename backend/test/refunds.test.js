@@ -0,0 +1,79 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+const Order = require('../Model/order');
+const Payment = require('../Model/payment');
+const Refund = require('../Model/refund');
+const OrderItem = require('../Model/orderItem');
+const StatusTransition = require('../Model/statusTransition');
+const PageView = require('../Model/pageView');
+const { requestRefund } = require('../services/refunds');
+const { query, withEnv } = require('./helpers');
+
+test.beforeEach((t) => withEnv(t, { REFUND_POLICY_AUTO_APPROVE: 'false' }));
+test.afterEach(() => test.mock.restoreAll());
+
+const user = { _id: new mongoose.Types.ObjectId() };
+
+// A paid order with one captured payment of 1000 paise and nothing read
+const stubOrder = (t) => {
+    const order = { _id: 'o1', id: 5, userId: user._id, status: 'paid', isGift: false, seatCount: null };
+    t.mock.method(Order, 'findOne', () => query(order));
+    t.mock.method(Refund, 'findOne', () => query(null));
+    t.mock.method(StatusTransition, 'findOne', () => query({ createdAt: new Date() }));
+    t.mock.method(OrderItem, 'find', () => query([]));
+    t.mock.method(PageView, 'aggregate', async () => []);
+    t.mock.method(Payment, 'find', () => query([
+        { id: 11, orderId: 5, status: 'captured', amount: 1000, amountRefunded: 0, gateway: 'mock' }
+    ]));
+    t.mock.method(Refund, 'find', () => query([]));
+    return order;
+};
+
+test('a refund is only created while holding the order\'s refund claim', async (t) => {
+    const order = stubOrder(t);
+    const claim = t.mock.method(Order, 'findOneAndUpdate', () => query(order));
+    const release = t.mock.method(Order, 'updateOne', () => query({}));
+    const save = t.mock.method(Refund.prototype, 'save', async function() {
+        return this;
+    });
+    t.mock.method(StatusTransition.prototype, 'save', async function() {
+        return this;
+    });
+
+    const refunds = await requestRefund({ user, orderId: 5, reasonCode: 'other' });
+
+    assert.equal(refunds.length, 1);
+    assert.equal(refunds[0].amount, 1000);
+    assert.equal(save.mock.callCount(), 1);
+    const [filter, update] = claim.mock.calls[0].arguments;
+    assert.equal(filter._id, 'o1');
+    assert.ok(update.refundClaimedAt instanceof Date);
+    // The claim is released with the same timestamp it was taken with
+    assert.equal(release.mock.calls[0].arguments[0].refundClaimedAt, update.refundClaimedAt);
+    assert.deepEqual(release.mock.calls[0].arguments[1], { refundClaimedAt: null });
+});
+
+test('a request made while another holds the claim is refused with a 409', async (t) => {
+    stubOrder(t);
+    t.mock.method(Order, 'findOneAndUpdate', () => query(null));
+    const save = t.mock.method(Refund.prototype, 'save');
+
+    await assert.rejects(
+        requestRefund({ user, orderId: 5, reasonCode: 'other' }),
+        { statusCode: 409, message: /already being processed/ }
+    );
+    assert.equal(save.mock.callCount(), 0);
+});
+
+test('the claim is released when creating the refund fails', async (t) => {
+    const order = stubOrder(t);
+    t.mock.method(Order, 'findOneAndUpdate', () => query(order));
+    const release = t.mock.method(Order, 'updateOne', () => query({}));
+
+    await assert.rejects(
+        requestRefund({ user, orderId: 5, reasonCode: 'no_reason_we_know' }),
+        { statusCode: 400 }
+    );
+    assert.equal(release.mock.callCount(), 1);
+});
@@ -0,0 +1,91 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const WebhookEvent = require('../Model/webhookEvent');
+const { hmacHex } = require('../services/gateways/hmac');
+const { handleWebhook } = require('../services/webhooks');
+const { query, withEnv } = require('./helpers');
+
+test.beforeEach((t) => withEnv(t, { MOCK_GATEWAY_ENABLED: 'true', MOCK_GATEWAY_SECRET: 'secret' }));
+test.afterEach(() => test.mock.restoreAll());
+
+// A signed delivery of an event we don't act on
+const delivery = (eventId) => {
+    const rawBody = JSON.stringify({ event: 'order.paid', payload: {} });
+    return {
+        gatewayName: 'mock',
+        rawBody,
+        headers: { 'x-razorpay-event-id': eventId, 'x-razorpay-signature': hmacHex('secret', rawBody) }
+    };
+};
+
+const duplicateKey = () => Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+
+test('a rejected delivery keeps only the start of its body and a hash', async (t) => {
+    const save = t.mock.method(WebhookEvent.prototype, 'save', async function() {
+        return this;
+    });
+    const rawBody = JSON.stringify({ event: 'payment.captured', padding: 'x'.repeat(100000) });
+
+    await assert.rejects(
+        handleWebhook({ gatewayName: 'mock', rawBody, headers: { 'x-razorpay-signature': 'forged' } }),
+        { statusCode: 400, message: 'Invalid webhook signature' }
+    );
+
+    const stored = save.mock.calls[0].this;
+    assert.equal(stored.status, 'rejected');
+    assert.equal(stored.rawBody.length, 2048);
+    assert.equal(stored.bodySize, rawBody.length);
+    assert.match(stored.bodyHash, /^[0-9a-f]{64}$/);
+});
+
+test('a new event is locked when it is claimed', async (t) => {
+    const save = t.mock.method(WebhookEvent.prototype, 'save', async function() {
+        return this;
+    });
+
+    const result = await handleWebhook(delivery('evt_1'));
+
+    assert.deepEqual(result, { eventId: 'evt_1', status: 'ignored' });
+    assert.ok(save.mock.calls[0].this.lockedAt instanceof Date);
+});
+
+test('an event left processing past the lock timeout is claimed again', async (t) => {
+    const stale = new WebhookEvent({
+        gateway: 'mock',
+        eventId: 'evt_2',
+        rawBody: '{}',
+        signatureValid: true,
+        status: 'processing',
+        lockedAt: new Date(Date.now() - 10 * 60 * 1000)
+    });
+    let saves = 0;
+    t.mock.method(WebhookEvent.prototype, 'save', async function() {
+        saves += 1;
+        if (saves === 1) throw duplicateKey();
+        return this;
+    });
+    const claim = t.mock.method(WebhookEvent, 'findOneAndUpdate', () => query(stale));
+
+    const result = await handleWebhook(delivery('evt_2'));
+
+    assert.equal(result.status, 'ignored');
+    const [filter, update] = claim.mock.calls[0].arguments;
+    const staleBefore = filter.$or[1].lockedAt.$lt;
+    assert.ok(Date.now() - staleBefore.getTime() >= 5 * 60 * 1000);
+    assert.deepEqual(filter.$or[0], { status: 'failed' });
+    assert.equal(update.status, 'processing');
+    assert.ok(update.lockedAt > staleBefore);
+});
+
+test('an event being processed by another delivery is reported as a duplicate', async (t) => {
+    t.mock.method(WebhookEvent.prototype, 'save', async () => {
+        throw duplicateKey();
+    });
+    t.mock.method(WebhookEvent, 'findOneAndUpdate', () => query(null));
+    const counted = t.mock.method(WebhookEvent, 'updateOne', () => query({}));
+
+    const result = await handleWebhook(delivery('evt_3'));
+
+    assert.deepEqual(result, { eventId: 'evt_3', status: 'duplicate' });
+    assert.deepEqual(counted.mock.calls[0].arguments[1], { $inc: { attempts: 1 } });
+});
@@ -4,11 +4,20 @@ import { Toaster } from '@/components/ui/toaster';
 import { Toaster as Sonner } from '@/components/ui/sonner';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { useEffect } from 'react';
+import {
+  BrowserRouter,
+  Routes,
+  Route,
+  Navigate,
+  useLocation,
+} from 'react-router-dom';
 
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { AppProvider } from './contexts/AppContext';
 
+import { captureAttribution, trackAffiliateClick } from './lib/attribution';
+
 import ProtectedRoute from './components/ProtectedRoute';
 import DashboardLayout from './components/layout/DashboardLayout';
 
@@ -24,6 +33,15 @@ import ChangePassword from './pages/ChangePassword';
 
 import CourseReader from './pages/CourseReader';
 import CourseDetail from './pages/CourseDetail';
+import Checkout from './pages/Checkout';
+import RefundQueue from './pages/RefundQueue';
+import ReferAndEarn from './pages/ReferAndEarn';
+import Membership from './pages/Membership';
+import Webinars from './pages/Webinars';
+import RedeemGift from './pages/RedeemGift';
+import OrganizationAdmin from './pages/OrganizationAdmin';
+import AffiliateDashboard from './pages/AffiliateDashboard';
+import AffiliatePayouts from './pages/AffiliatePayouts';
 import EmailVerification from './pages/EmailVerification';
 
 const queryClient = new QueryClient();
@@ -50,6 +68,24 @@ const RootRedirect = () => {
   );
 };
 
+// Keep the coupon and UTM parameters of shared links for checkout
+const AttributionCapture = () => {
+  const { pathname, search } = useLocation();
+
+  useEffect(() => {
+    const attribution = captureAttribution(search, pathname);
+    if (attribution?.affiliateCode) trackAffiliateClick(attribution);
+  }, [pathname, search]);
+
+  return null;
+};
+
+// Short public link for promos, e.g. /explore?coupon=DIWALI50
+const ExploreRedirect = () => {
+  const { search } = useLocation();
+  return <Navigate to={`/dashboard/explore${search}`} replace />;
+};
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
@@ -59,6 +95,7 @@ const App = () => (
           <Sonner />
 
           <BrowserRouter>
+            <AttributionCapture />
             <Routes>
               {/* Default */}
               <Route path='/' element={<RootRedirect />} />
@@ -66,6 +103,9 @@ const App = () => (
               {/* Auth */}
               <Route path='/auth' element={<Auth />} />
 
+              {/* Shareable promo links */}
+              <Route path='/explore' element={<ExploreRedirect />} />
+
               {/* Protected Dashboard Routes */}
               <Route
                 path='/dashboard'
@@ -83,6 +123,12 @@ const App = () => (
                 <Route path='explore' element={<ExploreCourses />} />
 
                 <Route path='payments' element={<PaymentHistory />} />
+                <Route path='membership' element={<Membership />} />
+                <Route path='webinars' element={<Webinars />} />
+                <Route path='redeem' element={<RedeemGift />} />
+                <Route path='organization' element={<OrganizationAdmin />} />
+                <Route path='refer' element={<ReferAndEarn />} />
+                <Route path='affiliate' element={<AffiliateDashboard />} />
                 <Route path='profile' element={<Profile />} />
                 <Route path='change-password' element={<ChangePassword />} />
                 <Route
@@ -96,6 +142,16 @@ const App = () => (
                   element={<CourseDetail />}
                 />
 
+                {/* CHECKOUT */}
+                <Route path='checkout/:courseId' element={<Checkout />} />
+
+                {/* ADMIN */}
+                <Route path='admin/refunds' element={<RefundQueue />} />
+                <Route
+                  path='admin/affiliate-payouts'
+                  element={<AffiliatePayouts />}
+                />
+
                 {/* MAIN COURSE READER PAGE */}
                 <Route path='course/:courseId' element={<CourseReader />} />
               </Route>
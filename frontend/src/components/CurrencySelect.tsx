@@ -0,0 +1,44 @@
+import { Currency } from '@/services/api';
+import { CURRENCIES } from '@/lib/currency';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+interface CurrencySelectProps {
+  value: Currency;
+  onChange: (currency: Currency) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Picker for the currency prices are shown and paid in
+const CurrencySelect = ({
+  value,
+  onChange,
+  disabled,
+  className,
+}: CurrencySelectProps) => (
+  <Select
+    value={value}
+    onValueChange={(next) => onChange(next as Currency)}
+    disabled={disabled}
+  >
+    <SelectTrigger className={cn('w-[110px]', className)} aria-label='Currency'>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {CURRENCIES.map((c) => (
+        <SelectItem key={c.code} value={c.code}>
+          {c.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default CurrencySelect;
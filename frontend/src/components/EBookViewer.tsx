@@ -1,10 +1,15 @@
 import React from "react";
+import { useSignedPageUrls } from "@/hooks/use-signed-page-urls";
 
 interface EBookViewerProps {
-  images: string[];
+  courseId: string;
+  topicId: string;
 }
 
-const EBookViewer: React.FC<EBookViewerProps> = ({ images }) => {
+const EBookViewer: React.FC<EBookViewerProps> = ({ courseId, topicId }) => {
+  // Pages are served only through signed, expiring URLs
+  const images = useSignedPageUrls(courseId, topicId);
+
   return (
     <div className="bg-white rounded-lg shadow p-4">
       <h2 className="text-xl font-semibold mb-4 text-center">E-Book Reader</h2>
@@ -0,0 +1,45 @@
+import { Button } from '@/components/ui/button';
+import { formatMinorUnits } from '@/lib/currency';
+import type { GatewayCheckout, MockOutcome } from '@/hooks/use-gateway-payment';
+
+type Props = {
+  checkout: GatewayCheckout;
+  disabled: boolean;
+  onPay: (outcome: MockOutcome) => void;
+};
+
+// Outcome buttons for the test payment gateway used in development
+const MockGatewayPanel = ({ checkout, disabled, onPay }: Props) => (
+  <div className='space-y-3 rounded-md border border-dashed p-4'>
+    <div className='text-sm'>
+      <div className='font-semibold'>Test payment gateway</div>
+      <div className='text-muted-foreground'>
+        Choose how this payment of{' '}
+        {formatMinorUnits(checkout.amount, checkout.currency)} should go.
+      </div>
+    </div>
+    <div className='flex flex-wrap gap-2'>
+      <Button size='sm' disabled={disabled} onClick={() => onPay('success')}>
+        Succeed
+      </Button>
+      <Button
+        size='sm'
+        variant='outline'
+        disabled={disabled}
+        onClick={() => onPay('delayed')}
+      >
+        Delayed capture
+      </Button>
+      <Button
+        size='sm'
+        variant='destructive'
+        disabled={disabled}
+        onClick={() => onPay('failure')}
+      >
+        Fail
+      </Button>
+    </div>
+  </div>
+);
+
+export default MockGatewayPanel;
@@ -1,4 +1,4 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 
 interface ProtectedRouteProps {
@@ -7,6 +7,7 @@ interface ProtectedRouteProps {
 
 const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
   const { user, loading } = useAuth();
+  const location = useLocation();
 
   // 🚀 IMPORTANT FIX:
   // If user is not loaded yet (null) but still authenticating, show loader
@@ -23,7 +24,8 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
 
   // ❌ Only redirect to /auth if loading is finished AND user is really null
   if (!user) {
-    return <Navigate to='/auth' replace />;
+    // Come back here after logging in, e.g. to a shared course link
+    return <Navigate to='/auth' replace state={{ from: location }} />;
   }
 
   return <>{children}</>;
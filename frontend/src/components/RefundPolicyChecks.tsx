@@ -0,0 +1,32 @@
+import { CheckCircle, AlertTriangle } from 'lucide-react';
+import { RefundPolicyDecision } from '@/services/api';
+import { cn } from '@/lib/utils';
+
+interface RefundPolicyChecksProps {
+  policy: Pick<RefundPolicyDecision, 'checks'>;
+  className?: string;
+}
+
+// Each refund policy check with why it passed or was flagged for review
+const RefundPolicyChecks = ({ policy, className }: RefundPolicyChecksProps) => (
+  <ul className={cn('space-y-1 text-xs', className)}>
+    {policy.checks.map((check) => (
+      <li
+        key={check.code}
+        className={cn(
+          'flex items-start gap-1.5',
+          check.passed ? 'text-muted-foreground' : 'text-amber-600'
+        )}
+      >
+        {check.passed ? (
+          <CheckCircle className='mt-0.5 h-3 w-3 shrink-0 text-green-600' />
+        ) : (
+          <AlertTriangle className='mt-0.5 h-3 w-3 shrink-0' />
+        )}
+        <span>{check.message}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+export default RefundPolicyChecks;
@@ -3,7 +3,15 @@ import {
   BookOpen,
   ShoppingCart,
   CreditCard,
+  Crown,
+  Video,
   User,
+  Undo2,
+  Gift,
+  Ticket,
+  Building2,
+  Megaphone,
+  FileSpreadsheet,
   LogOut,
   X,
 } from 'lucide-react';
@@ -22,16 +30,34 @@ const menuItems = [
   { icon: Home, label: 'Dashboard', path: '/dashboard' },
   { icon: BookOpen, label: 'My Courses', path: '/dashboard/my-courses' },
   { icon: ShoppingCart, label: 'Explore Courses', path: '/dashboard/explore' },
+  { icon: Crown, label: 'All Access', path: '/dashboard/membership' },
   {
-    icon: CreditCard,
+    icon: Video,
     label: 'Webinar schedule & Zoom link',
-    path: '/dashboard/payments',
+    path: '/dashboard/webinars',
   },
+  { icon: CreditCard, label: 'Payments', path: '/dashboard/payments' },
+  { icon: Ticket, label: 'Redeem a gift', path: '/dashboard/redeem' },
+  { icon: Building2, label: 'Organization', path: '/dashboard/organization' },
+  { icon: Gift, label: 'Refer & Earn', path: '/dashboard/refer' },
   { icon: User, label: 'Profile', path: '/dashboard/profile' },
 ];
 
+const affiliateMenuItems = [
+  { icon: Megaphone, label: 'Affiliate', path: '/dashboard/affiliate' },
+];
+
+const adminMenuItems = [
+  { icon: Undo2, label: 'Refunds', path: '/dashboard/admin/refunds' },
+  {
+    icon: FileSpreadsheet,
+    label: 'Affiliate payouts',
+    path: '/dashboard/admin/affiliate-payouts',
+  },
+];
+
 const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
-  const { signOut } = useAuth();
+  const { user, signOut } = useAuth();
   const navigate = useNavigate();
 
   const handleLogout = async () => {
@@ -78,7 +104,11 @@ const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
         </div>
 
         <nav className='space-y-1 p-4'>
-          {menuItems.map((item) => (
+          {[
+            ...menuItems,
+            ...(user?.affiliateId ? affiliateMenuItems : []),
+            ...(user?.role === 'admin' ? adminMenuItems : []),
+          ].map((item) => (
             <NavLink
               key={item.path}
               to={item.path}
@@ -8,6 +8,17 @@ import React, {
 } from 'react';
 import { useAuth } from './AuthContext';
 import { toast } from '@/hooks/use-toast';
+import {
+  apiClient,
+  ApiCourse,
+  ApiOrder,
+  ApiRefund,
+  ApiResponse,
+  Currency,
+  getApiErrorMessage,
+  Installment,
+} from '@/services/api';
+import { getStoredCurrency, storeCurrency } from '@/lib/currency';
 
 export interface Course {
   id: string;
@@ -15,7 +26,7 @@ export interface Course {
   instructor: string;
   thumbnail: string;
   description: string;
-  price: number;
+  price: number | null; // In the catalog currency; null if not sold in it
   progress: number;
   isEnrolled: boolean;
   duration: string;
@@ -27,11 +38,20 @@ export interface Course {
 
 export interface Payment {
   id: string;
+  orderId: number;
   courseId: string;
   courseName: string;
   amount: number;
-  status: 'paid' | 'failed' | 'pending';
+  currency: Currency;
+  status: 'paid' | 'failed' | 'pending' | 'refunded';
   date: string;
+  invoiceNumber: string | null;
+  refunds: ApiRefund[];
+  refundableAmount: number;
+  installments: Installment[]; // Empty unless paid in installments
+  accessSuspended: boolean; // An installment is overdue
+  isGift: boolean;
+  seats: number; // Seats bought for an organization, 0 otherwise
 }
 
 export interface AppUser {
@@ -49,16 +69,17 @@ interface AppContextType {
   user: AppUser;
   courses: Course[];
   payments: Payment[];
+  currency: Currency;
   loading: boolean;
+  setCurrency: (currency: Currency) => Promise<void>;
   updateUser: (user: Partial<AppUser>) => void;
-  enrollCourse: (courseId: string) => void;
+  enrollCourse: (courseId: string) => Promise<void>;
   updateCourseProgress: (courseId: string, progress: number) => void;
   refreshCourses: () => Promise<void>;
+  refreshPayments: () => Promise<void>;
   refreshDashboard: () => Promise<void>;
 }
 
-const LOCAL_PROGRESS_KEY = 'course_progress';
-
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 // Initial user (minimal)
@@ -73,34 +94,101 @@ const initialUser: AppUser = {
   certificatesEarned: 0,
 };
 
-// Your single real course
-const REAL_COURSE: Course = {
-  id: 'option-analysis-strategy',
-  title: 'Option Analysis Strategy by A. Bhattacharjee',
-  instructor: 'A. Bhattacharjee',
-  thumbnail: '/course/1.jpeg',
-  description: 'Master the Systematic Trading Strategy by A. Bhattacharjee',
-  price: 1499,
-  progress: 0,
-  isEnrolled: true,
-  duration: 'Self-paced',
-  lessonsCount: 57,
-  category: 'Trading',
-  rating: 5,
-  students: 0,
+// Catalog entries are routed by slug (e.g. /dashboard/course/option-analysis-strategy)
+const toCourse = (c: ApiCourse, currency: Currency): Course => ({
+  id: c.slug,
+  title: c.title,
+  instructor: c.instructor || '',
+  thumbnail: c.thumbnail || '/placeholder.svg',
+  description: c.description,
+  // Free courses are free in every currency
+  price: c.price === 0 ? 0 : (c.prices?.[currency] ?? null),
+  progress: c.progress || 0,
+  isEnrolled: !!c.isEnrolled,
+  duration: c.duration || 'Self-paced',
+  lessonsCount: c.lessonsCount || 0,
+  category: c.category || '',
+  rating: c.rating || 0,
+  students: c.students || 0,
+});
+
+const PAYMENT_STATUS: Record<ApiOrder['status'], Payment['status']> = {
+  created: 'pending',
+  pending_payment: 'pending',
+  paid: 'paid',
+  failed: 'failed',
+  refunded: 'refunded',
 };
 
+// One row per order; amounts shown in rupees (or dollars and euros)
+const toPayment = (o: ApiOrder): Payment => ({
+  id: String(o.id),
+  orderId: o.id,
+  courseId: o.items[0]?.courseSlug || '',
+  courseName: o.items.map((i) => i.courseTitle).join(', ') || 'Order',
+  amount: o.totalAmount / 100,
+  currency: o.currency || 'INR',
+  status: PAYMENT_STATUS[o.status],
+  date: o.createdAt,
+  invoiceNumber: o.invoice ? o.invoice.invoiceNumber : null,
+  refunds: (o.refunds || []).map((r) => ({ ...r, amount: r.amount / 100 })),
+  refundableAmount: (o.refundableAmount || 0) / 100,
+  installments: (o.installments || []).map((i) => ({
+    ...i,
+    amount: i.amount / 100,
+  })),
+  accessSuspended: Boolean(o.accessSuspendedAt),
+  isGift: Boolean(o.isGift),
+  seats: o.seatCount || 0,
+});
+
 export const AppProvider = ({ children }: { children: ReactNode }) => {
   const { user: authUser, initialized: authInitialized } = useAuth();
 
   const [user, setUser] = useState<AppUser>(initialUser);
-  const [courses, setCourses] = useState<Course[]>([REAL_COURSE]);
-  const [payments] = useState<Payment[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [currency, setCurrencyState] = useState<Currency>(
+    () => getStoredCurrency() || 'INR'
+  );
   const [appLoading, setAppLoading] = useState(false);
 
+  // Prices come in the currency picked in this browser, or else the one the
+  // server chooses from the user's preference or billing country
   const refreshCourses = async () => {
-    // Keep single real course
-    setCourses([REAL_COURSE]);
+    try {
+      const res = await apiClient.get<
+        ApiResponse<ApiCourse[]> & { currency?: Currency }
+      >('/api/courses', {
+        params: { currency: getStoredCurrency() || undefined },
+      });
+      if (res.data.success && res.data.data) {
+        const catalogCurrency = res.data.currency || 'INR';
+        const catalog = res.data.data.map((c) => toCourse(c, catalogCurrency));
+        setCurrencyState(catalogCurrency);
+        setCourses(catalog);
+
+        const enrolled = catalog.filter((c) => c.isEnrolled);
+        setUser((prev) => ({
+          ...prev,
+          enrolledCourses: enrolled.length,
+          activeCourses: enrolled.filter((c) => c.progress < 100).length,
+        }));
+      }
+    } catch (error) {
+      console.error('Error loading courses:', error);
+    }
+  };
+
+  const refreshPayments = async () => {
+    try {
+      const res = await apiClient.get<ApiResponse<ApiOrder[]>>('/api/orders');
+      if (res.data.success && res.data.data) {
+        setPayments(res.data.data.map(toPayment));
+      }
+    } catch (error) {
+      console.error('Error loading payments:', error);
+    }
   };
 
   // Sync app user with auth user
@@ -118,49 +206,58 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
             authUser.name || 'User'
           }`,
           phone: '',
-          enrolledCourses: 1,
-          activeCourses: 1,
+          enrolledCourses: 0,
+          activeCourses: 0,
           certificatesEarned: 0,
         });
-
-        // Load saved progress
-        const savedProgress = JSON.parse(
-          localStorage.getItem(LOCAL_PROGRESS_KEY) || '{}'
-        );
-        if (Object.keys(savedProgress).length > 0) {
-          setCourses((prev) =>
-            prev.map((course) => ({
-              ...course,
-              progress: savedProgress[course.id] || course.progress,
-            }))
-          );
-        }
+        refreshPayments();
       } else {
         // No auth user, keep default
         setUser(initialUser);
+        setPayments([]);
       }
 
-      setAppLoading(false);
+      // Catalog comes from the backend; progress there is per-user
+      refreshCourses().finally(() => setAppLoading(false));
     }
   }, [authUser, authInitialized]);
 
-  const enrollCourse = (courseId: string) => {
-    setCourses((prev) =>
-      prev.map((c) => (c.id === courseId ? { ...c, isEnrolled: true } : c))
-    );
-    setUser((prev) => ({
-      ...prev,
-      enrolledCourses: prev.enrolledCourses + 1,
-      activeCourses: prev.activeCourses + 1,
-    }));
-    toast({
-      title: 'Enrolled!',
-      description: `You are now enrolled.`,
-    });
+  // Remember the currency in this browser and, when logged in, on the account
+  const setCurrency = async (next: Currency) => {
+    storeCurrency(next);
+    setCurrencyState(next);
+    await refreshCourses();
+    if (authUser) {
+      try {
+        await apiClient.put('/api/user/preferences', {
+          preferredCurrency: next,
+        });
+      } catch (error) {
+        console.error('Error saving currency preference:', error);
+      }
+    }
+  };
+
+  const enrollCourse = async (courseId: string) => {
+    try {
+      await apiClient.post(`/api/courses/${courseId}/enroll`);
+      await refreshCourses();
+    } catch (error) {
+      console.error('Error enrolling in course:', error);
+      toast({
+        title: 'Enrollment failed',
+        description: getApiErrorMessage(
+          error,
+          'Could not enroll in this course. Please try again.'
+        ),
+        variant: 'destructive',
+      });
+      throw error;
+    }
   };
 
   const updateCourseProgress = (courseId: string, progress: number) => {
-    // Update React state
+    // Update React state (the reader persists progress to the backend)
     setCourses((prev) =>
       prev.map((course) =>
         course.id === courseId
@@ -168,11 +265,6 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
           : course
       )
     );
-
-    // Save to localStorage
-    const saved = JSON.parse(localStorage.getItem(LOCAL_PROGRESS_KEY) || '{}');
-    saved[courseId] = progress;
-    localStorage.setItem(LOCAL_PROGRESS_KEY, JSON.stringify(saved));
   };
 
   const refreshDashboard = async () => {
@@ -186,11 +278,14 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         user,
         courses,
         payments,
+        currency,
         loading: appLoading,
+        setCurrency,
         updateUser: (u) => setUser((prev) => ({ ...prev, ...u })),
         enrollCourse,
         updateCourseProgress,
         refreshCourses,
+        refreshPayments,
         refreshDashboard,
       }}
     >
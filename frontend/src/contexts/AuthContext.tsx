@@ -6,6 +6,7 @@ import React, {
   ReactNode,
 } from 'react';
 import { authAPI, User } from '@/services/api';
+import { getAttribution } from '@/lib/attribution';
 
 interface AuthContextType {
   user: User | null;
@@ -149,7 +150,12 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
     setLoading(true);
 
     try {
-      const response = await authAPI.register({ email, password, name });
+      const response = await authAPI.register({
+        email,
+        password,
+        name,
+        referralCode: getAttribution()?.referralCode || undefined,
+      });
 
       if (response.success && response.data) {
         setUser(response.data.user);
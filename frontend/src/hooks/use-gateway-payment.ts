@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import {
+  apiClient,
+  ApiResponse,
+  Currency,
+  getApiErrorMessage,
+  Installment,
+} from '@/services/api';
+
+export type MockOutcome = 'success' | 'failure' | 'delayed';
+
+// Options the backend returns for taking a payment with its gateway
+export type GatewayCheckout = {
+  gateway: 'razorpay' | 'mock';
+  keyId: string | null;
+  gatewayOrderId: string;
+  amount: number;
+  currency: Currency;
+  description: string;
+  prefill: { name?: string; email?: string; contact?: string };
+  outcomes?: MockOutcome[];
+};
+
+// An order as returned by /api/checkout; amounts in paise (cents for USD/EUR)
+export type CheckoutOrder = {
+  id: number;
+  status: 'created' | 'pending_payment' | 'paid' | 'failed' | 'refunded';
+  currency: Currency;
+  totalAmount: number;
+  installments: Installment[];
+  checkout?: GatewayCheckout | null;
+  paymentStatus?: 'initiated' | 'captured' | 'failed' | 'refunded'; // After confirming
+};
+
+type GatewayPayment = {
+  gatewayPaymentId: string;
+  signature: string;
+};
+
+type RazorpayResponse = {
+  razorpay_order_id: string;
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+};
+
+type RazorpayOptions = {
+  key: string;
+  amount: number;
+  currency: string;
+  order_id: string;
+  name: string;
+  description: string;
+  prefill: GatewayCheckout['prefill'];
+  handler: (response: RazorpayResponse) => void;
+  modal: { ondismiss: () => void };
+};
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: RazorpayOptions) => { open: () => void };
+  }
+}
+
+const RAZORPAY_SCRIPT = 'https://checkout.razorpay.com/v1/checkout.js';
+const POLL_INTERVAL_MS = 3000;
+const MAX_POLLS = 40;
+
+const loadRazorpay = () =>
+  new Promise<boolean>((resolve) => {
+    if (window.Razorpay) return resolve(true);
+    const script = document.createElement('script');
+    script.src = RAZORPAY_SCRIPT;
+    script.onload = () => resolve(true);
+    script.onerror = () => resolve(false);
+    document.body.appendChild(script);
+  });
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+type Options = {
+  // Whether the payment being made is still going through
+  isPending: (order: CheckoutOrder) => boolean;
+  // Called once the payment has gone through or failed
+  onSettled: (order: CheckoutOrder) => Promise<void> | void;
+  // Shown when the gateway is still processing after polling for a while
+  stillProcessing: string;
+};
+
+/**
+ * Takes payment for an order opened with the payment gateway: the Razorpay
+ * window, or the mock gateway's outcome buttons (mockOrder is set while they
+ * should be shown). The payment is confirmed with the backend, which is
+ * polled while a capture is delayed.
+ */
+export function useGatewayPayment({
+  isPending,
+  onSettled,
+  stillProcessing,
+}: Options) {
+  const [paying, setPaying] = useState(false);
+  const [mockOrder, setMockOrder] = useState<{
+    orderId: number;
+    checkout: GatewayCheckout;
+  } | null>(null);
+
+  // Delayed captures: keep asking the backend until the gateway settles
+  const waitForCapture = async (orderId: number) => {
+    toast.info('Payment is being processed...');
+    for (let i = 0; i < MAX_POLLS; i++) {
+      await wait(POLL_INTERVAL_MS);
+      const res = await apiClient.get<ApiResponse<CheckoutOrder>>(
+        `/api/checkout/${orderId}`
+      );
+      const order = res.data.data;
+      if (order && !isPending(order)) {
+        return onSettled(order);
+      }
+    }
+    toast.warning('Payment is still processing', {
+      description: stillProcessing,
+    });
+  };
+
+  const confirmPayment = async (orderId: number, payment: GatewayPayment) => {
+    setPaying(true);
+    try {
+      const res = await apiClient.post<ApiResponse<CheckoutOrder>>(
+        `/api/checkout/${orderId}/confirm`,
+        payment
+      );
+      const order = res.data.data;
+      if (!order) return;
+      if (isPending(order)) {
+        await waitForCapture(orderId);
+      } else {
+        await onSettled(order);
+      }
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Payment verification failed'));
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  const openRazorpay = async (orderId: number, checkout: GatewayCheckout) => {
+    if (!(await loadRazorpay()) || !window.Razorpay || !checkout.keyId) {
+      toast.error('Could not load the payment window');
+      setPaying(false);
+      return;
+    }
+    const razorpay = new window.Razorpay({
+      key: checkout.keyId,
+      amount: checkout.amount,
+      currency: checkout.currency,
+      order_id: checkout.gatewayOrderId,
+      name: 'Market Research & Analysis',
+      description: checkout.description,
+      prefill: checkout.prefill,
+      handler: (response) =>
+        confirmPayment(orderId, {
+          gatewayPaymentId: response.razorpay_payment_id,
+          signature: response.razorpay_signature,
+        }),
+      modal: { ondismiss: () => setPaying(false) },
+    });
+    razorpay.open();
+  };
+
+  const payWithMock = async (outcome: MockOutcome) => {
+    if (!mockOrder) return;
+    setPaying(true);
+    try {
+      const res = await apiClient.post<ApiResponse<GatewayPayment>>(
+        `/api/checkout/mock/${mockOrder.checkout.gatewayOrderId}/pay`,
+        { outcome }
+      );
+      const orderId = mockOrder.orderId;
+      setMockOrder(null);
+      if (res.data.data) {
+        await confirmPayment(orderId, res.data.data);
+      }
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Mock payment failed'));
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  // Take payment for an order the backend opened with the gateway
+  const pay = async (orderId: number, checkout: GatewayCheckout) => {
+    if (checkout.gateway === 'razorpay') {
+      // Stays "paying" until the Razorpay window is closed or paid
+      setPaying(true);
+      return openRazorpay(orderId, checkout);
+    }
+    setMockOrder({ orderId, checkout });
+    setPaying(false);
+  };
+
+  return { paying, setPaying, mockOrder, pay, payWithMock };
+}
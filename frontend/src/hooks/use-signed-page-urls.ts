@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { apiClient, ApiResponse } from '@/services/api';
+
+// Re-sign a little before the backend's expiry so pages never 403 mid-read
+const REFRESH_MARGIN_MS = 30_000;
+const MIN_REFRESH_MS = 5_000;
+
+type SignedPages = {
+  urls: string[];
+  expiresAt: string;
+};
+
+/**
+ * Signed, short-lived URLs for every page of a topic. Returns an empty list
+ * until they are loaded (or when the learner has no access to the course).
+ */
+export function useSignedPageUrls(
+  courseId?: string,
+  topicId?: string,
+  enabled = true
+) {
+  const [urls, setUrls] = useState<string[]>([]);
+
+  useEffect(() => {
+    setUrls([]);
+    if (!courseId || !topicId || !enabled) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = async () => {
+      try {
+        const res = await apiClient.get<ApiResponse<SignedPages>>(
+          `/api/courses/${courseId}/topics/${topicId}/images`
+        );
+        if (cancelled || !res.data.data) return;
+
+        const base = import.meta.env.VITE_API_BASE_URL || '';
+        setUrls(res.data.data.urls.map((url) => `${base}${url}`));
+
+        const refreshIn =
+          new Date(res.data.data.expiresAt).getTime() -
+          Date.now() -
+          REFRESH_MARGIN_MS;
+        timer = setTimeout(load, Math.max(refreshIn, MIN_REFRESH_MS));
+      } catch {
+        if (!cancelled) setUrls([]);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [courseId, topicId, enabled]);
+
+  return urls;
+}
@@ -0,0 +1,121 @@
+import { apiClient, ApiResponse } from '@/services/api';
+
+// Campaign attribution from shareable links such as
+// /explore?coupon=DIWALI50&utm_source=youtube, referral links with ?ref=CODE
+// and affiliate links with ?aff=CODE. It is kept in localStorage so it
+// survives signup and login, and is sent with the next checkout.
+
+export type CampaignAttribution = {
+  couponCode: string | null;
+  referralCode: string | null;
+  affiliateCode: string | null;
+  affiliateClickId: number | null; // Set once the affiliate click is recorded
+  source: string | null;
+  medium: string | null;
+  campaign: string | null;
+  term: string | null;
+  content: string | null;
+  landingPath: string;
+  capturedAt: string;
+};
+
+const STORAGE_KEY = 'campaign_attribution';
+
+// A link only credits purchases made within this many days of opening it
+const ATTRIBUTION_DAYS = 30;
+
+const UTM_PARAMS = {
+  source: 'utm_source',
+  medium: 'utm_medium',
+  campaign: 'utm_campaign',
+  term: 'utm_term',
+  content: 'utm_content',
+} as const;
+
+const readParam = (params: URLSearchParams, name: string) =>
+  params.get(name)?.trim().slice(0, 100) || null;
+
+// Remember the coupon, referral, affiliate and UTM parameters of the page the
+// visitor landed on. The latest link wins; pages without any of them leave it
+// untouched. Returns what was captured, or null.
+export const captureAttribution = (
+  search: string,
+  pathname: string
+): CampaignAttribution | null => {
+  const params = new URLSearchParams(search);
+  const couponCode = readParam(params, 'coupon')?.toUpperCase() || null;
+  const referralCode = readParam(params, 'ref')?.toUpperCase() || null;
+  const affiliateCode = readParam(params, 'aff')?.toUpperCase() || null;
+  const utm = {
+    source: readParam(params, UTM_PARAMS.source),
+    medium: readParam(params, UTM_PARAMS.medium),
+    campaign: readParam(params, UTM_PARAMS.campaign),
+    term: readParam(params, UTM_PARAMS.term),
+    content: readParam(params, UTM_PARAMS.content),
+  };
+  if (
+    !couponCode &&
+    !referralCode &&
+    !affiliateCode &&
+    !Object.values(utm).some(Boolean)
+  ) {
+    return null;
+  }
+
+  const attribution: CampaignAttribution = {
+    couponCode,
+    referralCode,
+    affiliateCode,
+    affiliateClickId: null,
+    ...utm,
+    landingPath: pathname,
+    capturedAt: new Date().toISOString(),
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(attribution));
+  return attribution;
+};
+
+// Record the visit with the affiliate program and keep the click id, which
+// checkout uses to credit the affiliate. Unknown codes are ignored.
+export const trackAffiliateClick = async (attribution: CampaignAttribution) => {
+  if (!attribution.affiliateCode) return;
+  try {
+    const res = await apiClient.post<ApiResponse<{ clickId: number }>>(
+      '/api/affiliates/clicks',
+      {
+        code: attribution.affiliateCode,
+        landingPath: attribution.landingPath,
+      }
+    );
+    const clickId = res.data.data?.clickId;
+    if (clickId) {
+      localStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify({ ...attribution, affiliateClickId: clickId })
+      );
+    }
+  } catch {
+    // Not a valid affiliate link; the rest of the attribution still counts
+  }
+};
+
+export const clearAttribution = () => localStorage.removeItem(STORAGE_KEY);
+
+// The stored attribution, or null if there is none or it is too old
+export const getAttribution = (): CampaignAttribution | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+
+    const attribution: CampaignAttribution = JSON.parse(stored);
+    const age = Date.now() - new Date(attribution.capturedAt).getTime();
+    if (!(age <= ATTRIBUTION_DAYS * 24 * 60 * 60 * 1000)) {
+      clearAttribution();
+      return null;
+    }
+    return attribution;
+  } catch {
+    clearAttribution();
+    return null;
+  }
+};
@@ -0,0 +1,42 @@
+import type { Currency } from '@/services/api';
+
+// Currencies courses are sold in, in the order the picker lists them
+export const CURRENCIES: { code: Currency; label: string }[] = [
+  { code: 'INR', label: '₹ INR' },
+  { code: 'USD', label: '$ USD' },
+  { code: 'EUR', label: '€ EUR' },
+];
+
+const STORAGE_KEY = 'preferred_currency';
+
+const LOCALES: Record<Currency, string> = {
+  INR: 'en-IN',
+  USD: 'en-US',
+  EUR: 'en-IE',
+};
+
+// An amount in major units (rupees, dollars), e.g. ₹1,499 or $12.50
+export const formatPrice = (amount: number, currency: Currency = 'INR') =>
+  new Intl.NumberFormat(LOCALES[currency] || 'en-IN', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+
+// An amount in minor units (paise, cents), as orders and payments keep them
+export const formatMinorUnits = (amount: number, currency: Currency = 'INR') =>
+  formatPrice(amount / 100, currency);
+
+const isCurrency = (value: string | null): value is Currency =>
+  CURRENCIES.some((c) => c.code === value);
+
+// The currency picked in this browser, or null to let the server decide
+// from the user's preference or billing country
+export const getStoredCurrency = (): Currency | null => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return isCurrency(stored) ? stored : null;
+};
+
+export const storeCurrency = (currency: Currency) =>
+  localStorage.setItem(STORAGE_KEY, currency);
@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  AffiliateDashboard as AffiliateDashboardData,
+  apiClient,
+  ApiResponse,
+  getApiErrorMessage,
+} from '@/services/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Copy,
+  Loader2,
+  MousePointerClick,
+  ShoppingBag,
+  Wallet,
+  TrendingUp,
+} from 'lucide-react';
+
+const formatRupees = (paise: number) =>
+  `₹${(paise / 100).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const AffiliateDashboard = () => {
+  const [dashboard, setDashboard] = useState<AffiliateDashboardData | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+  const [unavailable, setUnavailable] = useState<string | null>(null);
+
+  const loadDashboard = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res =
+        await apiClient.get<ApiResponse<AffiliateDashboardData>>(
+          '/api/affiliates/me'
+        );
+      setDashboard(res.data.data || null);
+    } catch (error) {
+      setUnavailable(
+        getApiErrorMessage(error, 'Could not load your affiliate dashboard')
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDashboard();
+  }, [loadDashboard]);
+
+  if (loading) {
+    return (
+      <div className='flex justify-center py-12'>
+        <Loader2 className='h-6 w-6 animate-spin text-muted-foreground' />
+      </div>
+    );
+  }
+
+  if (!dashboard) {
+    return (
+      <div className='py-12 text-center text-muted-foreground'>
+        {unavailable || 'Your affiliate dashboard is not available right now'}
+      </div>
+    );
+  }
+
+  const link = `${window.location.origin}/explore?aff=${dashboard.code}`;
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const stats = [
+    {
+      icon: MousePointerClick,
+      label: 'Clicks',
+      value: dashboard.stats.clicks,
+      detail: `${dashboard.stats.clicksLast30Days} in the last 30 days`,
+    },
+    {
+      icon: ShoppingBag,
+      label: 'Conversions',
+      value: dashboard.stats.conversions,
+      detail: `${dashboard.stats.conversionRate}% of clicks`,
+    },
+    {
+      icon: TrendingUp,
+      label: 'Commission earned',
+      value: formatRupees(dashboard.stats.accrued),
+      detail: `${formatRupees(dashboard.stats.reversed)} reversed for refunds`,
+    },
+    {
+      icon: Wallet,
+      label: 'Net earnings',
+      value: formatRupees(dashboard.stats.earnings),
+      detail: 'Paid out monthly',
+    },
+  ];
+
+  return (
+    <div className='space-y-6'>
+      <div className='flex items-start justify-between gap-4'>
+        <div>
+          <h1 className='text-3xl font-bold'>Affiliate dashboard</h1>
+          <p className='text-muted-foreground'>
+            Orders within {dashboard.attributionWindowDays} days of a click on
+            your link earn commission
+          </p>
+        </div>
+        {dashboard.status === 'paused' && (
+          <Badge variant='destructive'>Paused</Badge>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your tracked link</CardTitle>
+        </CardHeader>
+        <CardContent className='space-y-3'>
+          <div className='flex gap-2'>
+            <Input value={link} readOnly />
+            <Button onClick={copyLink}>
+              <Copy className='mr-2 h-4 w-4' />
+              Copy link
+            </Button>
+          </div>
+          <p className='text-sm text-muted-foreground'>
+            Add <span className='font-mono'>?aff={dashboard.code}</span> to any
+            page link. Commission is {dashboard.defaultCommissionPercent}% of
+            the order value before GST
+            {dashboard.courseRates.length > 0 && ', except:'}
+          </p>
+          {dashboard.courseRates.length > 0 && (
+            <ul className='list-inside list-disc text-sm text-muted-foreground'>
+              {dashboard.courseRates.map((rate) => (
+                <li key={rate.courseTitle}>
+                  {rate.courseTitle}: {rate.percent}%
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className='grid gap-4 sm:grid-cols-2 lg:grid-cols-4'>
+        {stats.map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className='flex items-center gap-3 p-4'>
+              <stat.icon className='h-8 w-8 text-primary' />
+              <div>
+                <p className='text-sm text-muted-foreground'>{stat.label}</p>
+                <p className='text-lg font-semibold'>{stat.value}</p>
+                <p className='text-xs text-muted-foreground'>{stat.detail}</p>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Commission</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {dashboard.commissions.length === 0 ? (
+            <p className='text-center text-muted-foreground'>
+              Commission appears here once someone buys through your link
+            </p>
+          ) : (
+            <div className='rounded-md border'>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Courses</TableHead>
+                    <TableHead className='text-right'>Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dashboard.commissions.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{formatDate(entry.createdAt)}</TableCell>
+                      <TableCell>
+                        #{entry.orderId}
+                        {entry.entryType === 'reversal' && (
+                          <Badge variant='secondary' className='ml-2'>
+                            Refunded
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className='text-muted-foreground'>
+                        {entry.courses.join(', ') || entry.note}
+                      </TableCell>
+                      <TableCell
+                        className={
+                          entry.amount < 0
+                            ? 'text-right text-destructive'
+                            : 'text-right font-semibold'
+                        }
+                      >
+                        {entry.amount < 0 ? '−' : '+'}
+                        {formatRupees(Math.abs(entry.amount))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AffiliateDashboard;
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  AffiliatePayoutStatement,
+  apiClient,
+  ApiResponse,
+  getApiErrorMessage,
+} from '@/services/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Download, Loader2 } from 'lucide-react';
+
+const formatRupees = (paise: number) =>
+  `₹${(paise / 100).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+// Statements are usually run for the month that just ended
+const previousMonth = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const AffiliatePayouts = () => {
+  const { user } = useAuth();
+  const [month, setMonth] = useState(previousMonth);
+  const [statement, setStatement] = useState<AffiliatePayoutStatement | null>(
+    null
+  );
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const isAdmin = user?.role === 'admin';
+
+  const loadStatement = useCallback(async () => {
+    if (!month) return;
+    setLoading(true);
+    try {
+      const res = await apiClient.get<ApiResponse<AffiliatePayoutStatement>>(
+        '/api/affiliates/payouts',
+        { params: { month } }
+      );
+      setStatement(res.data.data || null);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not load the statement'));
+    } finally {
+      setLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    if (isAdmin) loadStatement();
+  }, [isAdmin, loadStatement]);
+
+  const exportCsv = async () => {
+    setExporting(true);
+    try {
+      const res = await apiClient.get<Blob>('/api/affiliates/payouts', {
+        params: { month, format: 'csv' },
+        responseType: 'blob',
+      });
+      const url = URL.createObjectURL(res.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `affiliate-payouts-${month}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not export the statement'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className='py-12 text-center text-muted-foreground'>
+        Admin access required
+      </div>
+    );
+  }
+
+  const total = (statement?.rows || []).reduce((sum, row) => sum + row.net, 0);
+
+  return (
+    <div className='space-y-6'>
+      <div className='flex flex-wrap items-end justify-between gap-4'>
+        <div>
+          <h1 className='text-3xl font-bold'>Affiliate payouts</h1>
+          <p className='text-muted-foreground'>
+            Commission earned in a month, less reversals for refunds
+          </p>
+        </div>
+        <div className='flex items-end gap-2'>
+          <div className='space-y-1'>
+            <Label htmlFor='payoutMonth'>Month</Label>
+            <Input
+              id='payoutMonth'
+              type='month'
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+            />
+          </div>
+          <Button
+            variant='outline'
+            onClick={exportCsv}
+            disabled={exporting || !statement?.rows.length}
+          >
+            <Download className='mr-2 h-4 w-4' />
+            {exporting ? 'Exporting...' : 'Export CSV'}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Statement for {month}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className='rounded-md border'>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Affiliate</TableHead>
+                  <TableHead>Payout details</TableHead>
+                  <TableHead>Conversions</TableHead>
+                  <TableHead>Accrued</TableHead>
+                  <TableHead>Reversed</TableHead>
+                  <TableHead className='text-right'>Net payable</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className='text-center'>
+                      <Loader2 className='mx-auto h-5 w-5 animate-spin' />
+                    </TableCell>
+                  </TableRow>
+                ) : !statement || statement.rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={6}
+                      className='text-center text-muted-foreground'
+                    >
+                      No affiliate commission this month
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  statement.rows.map((row) => (
+                    <TableRow key={row.affiliateId}>
+                      <TableCell className='font-medium'>
+                        {row.name || `Affiliate #${row.affiliateId}`}
+                        <p className='text-xs text-muted-foreground'>
+                          {row.code} · {row.email}
+                        </p>
+                      </TableCell>
+                      <TableCell className='text-muted-foreground'>
+                        {row.payoutDetails || 'Not provided'}
+                      </TableCell>
+                      <TableCell>{row.conversions}</TableCell>
+                      <TableCell>{formatRupees(row.accrued)}</TableCell>
+                      <TableCell className='text-destructive'>
+                        {row.reversed > 0 && `−${formatRupees(row.reversed)}`}
+                      </TableCell>
+                      <TableCell className='text-right font-semibold'>
+                        {formatRupees(row.net)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          {statement && statement.rows.length > 0 && (
+            <p className='mt-4 text-right font-semibold'>
+              Total payable: {formatRupees(total)}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AffiliatePayouts;
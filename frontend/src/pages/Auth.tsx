@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Location, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -48,6 +48,7 @@ const forgotPasswordSchema = z.object({
 
 const Auth = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const { user, signIn, signUp, signInWithGoogle, resetPassword } = useAuth();
   const [activeTab, setActiveTab] = useState('login');
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -63,11 +64,15 @@ const Auth = () => {
   });
   const [forgotEmail, setForgotEmail] = useState('');
 
+  // The page that sent the visitor here to log in, e.g. a shared course link
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}` : '/dashboard';
+
   useEffect(() => {
     if (user) {
-      navigate('/dashboard');
+      navigate(redirectTo);
     }
-  }, [user, navigate]);
+  }, [user, navigate, redirectTo]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -92,7 +97,7 @@ const Auth = () => {
         description: 'Welcome back!',
       });
 
-      navigate('/dashboard');
+      navigate(redirectTo);
     } catch (err) {
       if (err instanceof z.ZodError) {
         const newErrors: Record<string, string> = {};
@@ -172,7 +177,7 @@ const Auth = () => {
     setIsLoading(false);
 
     if (!result.error) {
-      navigate('/dashboard');
+      navigate(redirectTo);
     }
   };
 
@@ -0,0 +1,814 @@
+// src/pages/Checkout.tsx
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import {
+  ArrowLeft,
+  Building2,
+  CalendarClock,
+  Gift,
+  ShoppingCart,
+  Tag,
+} from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import {
+  apiClient,
+  ApiResponse,
+  Currency,
+  getApiErrorMessage,
+  Installment,
+  InstallmentPlan,
+  OrganizationSummary,
+} from '@/services/api';
+import { clearAttribution, getAttribution } from '@/lib/attribution';
+import { formatMinorUnits, getStoredCurrency } from '@/lib/currency';
+import { CheckoutOrder, useGatewayPayment } from '@/hooks/use-gateway-payment';
+import CurrencySelect from '@/components/CurrencySelect';
+import MockGatewayPanel from '@/components/MockGatewayPanel';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+
+type Quote = {
+  courseId: string;
+  courseTitle: string;
+  couponCode: string | null;
+  currency: Currency;
+  seats: number;
+  unitAmount: number; // Price of one seat
+  subtotalAmount: number; // paise (cents for USD/EUR)
+  discountAmount: number;
+  taxInclusive: boolean;
+  taxRate: number;
+  placeOfSupply: string;
+  supplyType: 'intra_state' | 'inter_state' | 'export';
+  intraState: boolean;
+  taxAmount: number;
+  totalAmount: number;
+  planId: number | null;
+  installments: Installment[] | null; // The schedule when paying by plan
+};
+
+// The organization seats are bought for: 'new' creates one by name
+type SeatOrganization = number | 'new';
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+// The earliest installment still to be paid
+const nextInstallment = (order: CheckoutOrder) =>
+  order.installments.find((i) => i.status === 'pending') || null;
+
+const InstallmentSchedule = ({
+  installments,
+  format,
+}: {
+  installments: Installment[];
+  format: (amount: number) => string;
+}) => (
+  <div className='space-y-1 rounded-md border p-3 text-sm'>
+    {installments.map((installment) => (
+      <div key={installment.number} className='flex justify-between'>
+        <span className='text-muted-foreground'>
+          {installment.number === 1 && installment.status === 'pending'
+            ? 'Today'
+            : formatDate(installment.dueAt)}
+          {installment.status === 'paid' && ' · Paid'}
+        </span>
+        <span>{format(installment.amount)}</span>
+      </div>
+    ))}
+  </div>
+);
+
+const Checkout = () => {
+  const { courseId } = useParams<{ courseId: string }>();
+  const [searchParams] = useSearchParams();
+  // Set when paying the next installment of an existing order
+  const installmentOrderId = Number(searchParams.get('order')) || null;
+  const navigate = useNavigate();
+  const { courses, currency, setCurrency, refreshCourses, refreshPayments } =
+    useApp();
+
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [couponCode, setCouponCode] = useState<string | null>(null);
+  // Why the last coupon tried was turned down, shown under the field
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [plans, setPlans] = useState<InstallmentPlan[]>([]);
+  const [planId, setPlanId] = useState<number | null>(null);
+  const [installmentOrder, setInstallmentOrder] =
+    useState<CheckoutOrder | null>(null);
+  // Bought for someone else, who is emailed a code to redeem
+  const [asGift, setAsGift] = useState(searchParams.get('gift') === '1');
+  const [recipientEmail, setRecipientEmail] = useState('');
+  const [giftMessage, setGiftMessage] = useState('');
+  // Seats bought for a team, assigned to its members afterwards
+  const [forTeam, setForTeam] = useState(searchParams.get('seats') === '1');
+  const [minSeats, setMinSeats] = useState(5);
+  const [seatInput, setSeatInput] = useState('');
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+  const [seatOrganization, setSeatOrganization] =
+    useState<SeatOrganization>('new');
+  const [organizationName, setOrganizationName] = useState('');
+  const [quoting, setQuoting] = useState(false);
+
+  const course = courses.find((c) => c.id === courseId);
+  const payingInstallment = installmentOrder
+    ? nextInstallment(installmentOrder)
+    : null;
+
+  const seats = forTeam ? Math.floor(Number(seatInput)) || minSeats : 1;
+
+  const gstLabel = quote
+    ? `${quote.intraState ? 'CGST + SGST' : 'IGST'} @ ${quote.taxRate}%${
+        quote.supplyType === 'export' && quote.taxRate === 0
+          ? ' (export under LUT)'
+          : ''
+      }`
+    : '';
+
+  const formatAmount = (amount: number) =>
+    formatMinorUnits(
+      amount,
+      installmentOrder?.currency || quote?.currency || currency
+    );
+
+  // Without a currency picked in this browser the server prices in the
+  // user's preferred or billing-country currency
+  const loadQuote = async (
+    code: string | null,
+    inCurrency: Currency | null = getStoredCurrency(),
+    plan: number | null = planId,
+    seatCount: number = seats
+  ) => {
+    setQuoting(true);
+    try {
+      const res = await apiClient.post<ApiResponse<Quote>>(
+        '/api/checkout/quote',
+        {
+          courseId,
+          couponCode: code || undefined,
+          currency: inCurrency || undefined,
+          planId: plan || undefined,
+          seats: seatCount,
+        }
+      );
+      if (res.data.data) {
+        setQuote(res.data.data);
+        setCouponCode(res.data.data.couponCode);
+      }
+      setCouponError(null);
+      return true;
+    } catch (error) {
+      const message = getApiErrorMessage(
+        error,
+        'Could not calculate the price'
+      );
+      if (code) {
+        setCouponError(message);
+      } else {
+        toast.error(message);
+      }
+      return false;
+    } finally {
+      setQuoting(false);
+    }
+  };
+
+  const loadInstallmentOrder = async (orderId: number) => {
+    try {
+      const res = await apiClient.get<ApiResponse<CheckoutOrder>>(
+        `/api/checkout/${orderId}`
+      );
+      setInstallmentOrder(res.data.data || null);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not load your order'));
+    }
+  };
+
+  const loadPlans = async () => {
+    try {
+      const res = await apiClient.get<ApiResponse<InstallmentPlan[]>>(
+        `/api/courses/${courseId}/installment-plans`
+      );
+      setPlans(res.data.data || []);
+    } catch {
+      // Without plans the course can still be paid in full
+      setPlans([]);
+    }
+  };
+
+  const loadOrganizations = async () => {
+    try {
+      const res =
+        await apiClient.get<
+          ApiResponse<{
+            minSeats: number;
+            organizations: OrganizationSummary[];
+          }>
+        >('/api/organizations');
+      if (!res.data.data) return;
+      const { minSeats: min, organizations: list } = res.data.data;
+      setMinSeats(min);
+      setOrganizations(list);
+      if (list.length > 0) setSeatOrganization(list[0].id);
+      if (!seatInput) {
+        setSeatInput(String(min));
+        loadQuote(
+          couponCode,
+          quote?.currency || getStoredCurrency(),
+          null,
+          min
+        );
+      }
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not load organizations'));
+    }
+  };
+
+  useEffect(() => {
+    if (!courseId) return;
+    if (installmentOrderId) {
+      loadInstallmentOrder(installmentOrderId);
+      return;
+    }
+    loadPlans();
+    if (forTeam) loadOrganizations();
+    // A coupon from a shared link is applied automatically; if it doesn't
+    // apply, the reason stays under the field over the undiscounted price
+    const linkCoupon = getAttribution()?.couponCode;
+    (async () => {
+      await loadQuote(null);
+      if (linkCoupon) {
+        setCouponInput(linkCoupon);
+        await loadQuote(linkCoupon);
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [courseId, installmentOrderId]);
+
+  const applyCoupon = async () => {
+    if (!couponInput.trim()) return;
+    if (await loadQuote(couponInput.trim())) {
+      toast.success('Coupon applied');
+    }
+  };
+
+  const removeCoupon = () => {
+    setCouponInput('');
+    loadQuote(null);
+  };
+
+  // Installment plans can't be combined with a coupon
+  const choosePlan = (next: number | null) => {
+    setPlanId(next);
+    setCouponInput('');
+    setCouponError(null);
+    loadQuote(null, quote?.currency || getStoredCurrency(), next);
+  };
+
+  // Gifts and seats are paid in full, and a purchase is one or the other
+  const toggleGift = (next: boolean) => {
+    setAsGift(next);
+    if (next && forTeam) toggleTeam(false);
+    if (next && planId) choosePlan(null);
+  };
+
+  const toggleTeam = (next: boolean) => {
+    setForTeam(next);
+    if (next) {
+      setAsGift(false);
+      setPlanId(null);
+    }
+    if (next && organizations.length === 0) {
+      loadOrganizations();
+    }
+    const seatCount = next ? Math.floor(Number(seatInput)) || minSeats : 1;
+    loadQuote(
+      couponCode,
+      quote?.currency || getStoredCurrency(),
+      next ? null : planId,
+      seatCount
+    );
+  };
+
+  // Re-price once the seat count has been edited
+  const changeSeats = () => {
+    if (quote && quote.seats !== seats) loadQuote(couponCode);
+  };
+
+  // Re-price in the new currency and apply the coupon again; if it doesn't
+  // apply there, the reason stays under the field. Plans are INR only.
+  const changeCurrency = async (next: Currency) => {
+    const code = couponCode;
+    const plan = next === 'INR' ? planId : null;
+    setPlanId(plan);
+    await setCurrency(next);
+    if ((await loadQuote(null, next, plan)) && code) {
+      await loadQuote(code, next, plan);
+    }
+  };
+
+  const installmentPaid = (order: CheckoutOrder) =>
+    order.installments.some(
+      (i) => i.number === payingInstallment?.number && i.status === 'paid'
+    );
+
+  // Whether the payment being made is still going through
+  const isPending = (order: CheckoutOrder) =>
+    payingInstallment
+      ? !installmentPaid(order) && order.paymentStatus !== 'failed'
+      : order.status === 'pending_payment';
+
+  const finishInstallment = async () => {
+    await Promise.all([refreshCourses(), refreshPayments()]);
+    toast.success(`Installment ${payingInstallment?.number} paid`);
+    navigate('/dashboard/payments');
+  };
+
+  const finishPurchase = async () => {
+    // The campaign has been credited with this order
+    clearAttribution();
+    if (forTeam) {
+      await refreshPayments();
+      toast.success(`${seats} seats purchased`, {
+        description: 'Invite your team and assign them their seats',
+      });
+      navigate('/dashboard/organization');
+      return;
+    }
+    if (asGift) {
+      await refreshPayments();
+      toast.success('Your gift is on its way!', {
+        description: `We've emailed the gift code to ${recipientEmail.trim()}`,
+      });
+      navigate('/dashboard/redeem');
+      return;
+    }
+    await Promise.all([refreshCourses(), refreshPayments()]);
+    toast.success('Payment successful!', {
+      description: `You now have access to "${quote?.courseTitle}"`,
+    });
+    navigate(`/dashboard/course/${courseId}`);
+  };
+
+  const handleOrderStatus = async (order: CheckoutOrder) => {
+    if (payingInstallment) {
+      if (installmentPaid(order)) {
+        await finishInstallment();
+      } else {
+        toast.error('Payment failed', {
+          description: 'No money was taken. Please try again.',
+        });
+      }
+      return;
+    }
+    if (order.status === 'paid') {
+      await finishPurchase();
+    } else if (order.status === 'failed') {
+      toast.error('Payment failed', {
+        description: 'No money was taken. Please try again.',
+      });
+    }
+  };
+
+  const { paying, setPaying, mockOrder, pay, payWithMock } = useGatewayPayment({
+    isPending,
+    onSettled: handleOrderStatus,
+    stillProcessing: 'Your course will unlock as soon as it is confirmed.',
+  });
+
+  const handlePay = async () => {
+    setPaying(true);
+    try {
+      const orderRes = payingInstallment
+        ? await apiClient.post<ApiResponse<CheckoutOrder>>(
+            `/api/checkout/${installmentOrderId}/installments/next`
+          )
+        : await apiClient.post<ApiResponse<CheckoutOrder>>('/api/checkout', {
+            courseId,
+            couponCode: couponCode || undefined,
+            planId: planId || undefined,
+            currency: quote?.currency,
+            attribution: getAttribution() || undefined,
+            gift: asGift
+              ? {
+                  recipientEmail: recipientEmail.trim(),
+                  message: giftMessage.trim(),
+                }
+              : undefined,
+            seats: forTeam
+              ? {
+                  quantity: seats,
+                  organizationId:
+                    seatOrganization === 'new' ? undefined : seatOrganization,
+                  organizationName:
+                    seatOrganization === 'new'
+                      ? organizationName.trim()
+                      : undefined,
+                }
+              : undefined,
+          });
+      const order = orderRes.data.data;
+      if (!order) return setPaying(false);
+
+      // Orders that come to nothing (e.g. 100% coupons) are completed
+      // without a payment
+      if (!order.checkout) {
+        await handleOrderStatus(order);
+        return setPaying(false);
+      }
+
+      await pay(order.id, order.checkout);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not start payment'));
+      setPaying(false);
+    }
+  };
+
+  return (
+    <div className='mx-auto max-w-2xl space-y-6'>
+      <Button variant='ghost' onClick={() => navigate('/dashboard/explore')}>
+        <ArrowLeft className='mr-2 h-4 w-4' />
+        Back to Explore
+      </Button>
+
+      <div>
+        <h1 className='text-3xl font-bold'>Checkout</h1>
+        <p className='text-muted-foreground'>
+          {installmentOrderId
+            ? 'Pay the next installment of your order'
+            : asGift
+              ? 'Send this course to someone as a gift'
+              : forTeam
+                ? 'Buy seats for your team and assign them to its members'
+                : 'Complete your purchase to unlock the course'}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className='flex items-center justify-between gap-2'>
+            <span className='flex items-center gap-2'>
+              <ShoppingCart className='h-5 w-5 text-primary' />
+              Order Summary
+            </span>
+            {!installmentOrderId && (
+              <CurrencySelect
+                value={quote?.currency || currency}
+                onChange={changeCurrency}
+                disabled={quoting || paying || Boolean(mockOrder)}
+              />
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          <div className='flex items-center gap-4'>
+            {course && (
+              <img
+                src={course.thumbnail}
+                alt={course.title}
+                className='h-16 w-24 rounded object-cover'
+              />
+            )}
+            <div>
+              <div className='font-semibold'>
+                {quote?.courseTitle ?? course?.title ?? 'Loading...'}
+              </div>
+              {course && (
+                <div className='text-sm text-muted-foreground'>
+                  {course.instructor}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <Separator />
+
+          {installmentOrder && (
+            <div className='space-y-2'>
+              <Label className='flex items-center gap-2'>
+                <CalendarClock className='h-4 w-4 text-primary' />
+                Payment schedule for order #{installmentOrder.id}
+              </Label>
+              <InstallmentSchedule
+                installments={installmentOrder.installments}
+                format={formatAmount}
+              />
+              {!payingInstallment && (
+                <p className='text-sm text-muted-foreground'>
+                  Every installment of this order has been paid
+                </p>
+              )}
+            </div>
+          )}
+
+          {!installmentOrderId && (
+            <div className='space-y-3'>
+              <div className='flex items-center justify-between gap-2'>
+                <Label htmlFor='as-gift' className='flex items-center gap-2'>
+                  <Gift className='h-4 w-4 text-primary' />
+                  Buy as a gift
+                </Label>
+                <Switch
+                  id='as-gift'
+                  checked={asGift}
+                  onCheckedChange={toggleGift}
+                  disabled={paying || Boolean(mockOrder)}
+                />
+              </div>
+              {asGift && (
+                <>
+                  <div className='space-y-2'>
+                    <Label htmlFor='recipient-email'>Recipient's email</Label>
+                    <Input
+                      id='recipient-email'
+                      type='email'
+                      value={recipientEmail}
+                      onChange={(e) => setRecipientEmail(e.target.value)}
+                      placeholder='friend@example.com'
+                    />
+                  </div>
+                  <div className='space-y-2'>
+                    <Label htmlFor='gift-message'>Message (optional)</Label>
+                    <Textarea
+                      id='gift-message'
+                      value={giftMessage}
+                      onChange={(e) => setGiftMessage(e.target.value)}
+                      maxLength={500}
+                      placeholder='Enjoy the course!'
+                    />
+                  </div>
+                  <p className='text-xs text-muted-foreground'>
+                    Once paid, we email them a code that unlocks the course for
+                    whichever account redeems it.
+                  </p>
+                </>
+              )}
+              <div className='flex items-center justify-between gap-2'>
+                <Label htmlFor='for-team' className='flex items-center gap-2'>
+                  <Building2 className='h-4 w-4 text-primary' />
+                  Buy seats for a team
+                </Label>
+                <Switch
+                  id='for-team'
+                  checked={forTeam}
+                  onCheckedChange={toggleTeam}
+                  disabled={paying || Boolean(mockOrder)}
+                />
+              </div>
+              {forTeam && (
+                <>
+                  <div className='space-y-2'>
+                    <Label htmlFor='seat-count'>Seats</Label>
+                    <Input
+                      id='seat-count'
+                      type='number'
+                      min={minSeats}
+                      value={seatInput}
+                      onChange={(e) => setSeatInput(e.target.value)}
+                      onBlur={changeSeats}
+                    />
+                    {seats < minSeats && (
+                      <p className='text-sm text-destructive'>
+                        Seats are sold in orders of at least {minSeats}
+                      </p>
+                    )}
+                  </div>
+                  <div className='space-y-2'>
+                    <Label>Organization</Label>
+                    {organizations.length > 0 && (
+                      <Select
+                        value={String(seatOrganization)}
+                        onValueChange={(value) =>
+                          setSeatOrganization(
+                            value === 'new' ? 'new' : Number(value)
+                          )
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {organizations.map((organization) => (
+                            <SelectItem
+                              key={organization.id}
+                              value={String(organization.id)}
+                            >
+                              {organization.name}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value='new'>
+                            New organization...
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {seatOrganization === 'new' && (
+                      <Input
+                        value={organizationName}
+                        onChange={(e) => setOrganizationName(e.target.value)}
+                        maxLength={120}
+                        placeholder='Organization name'
+                      />
+                    )}
+                  </div>
+                  <p className='text-xs text-muted-foreground'>
+                    Once paid, you manage the seats from the Organization page:
+                    invite people by email, assign seats and follow their
+                    progress.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          {!installmentOrderId &&
+            !asGift &&
+            !forTeam &&
+            plans.length > 0 &&
+            (quote?.currency || currency) === 'INR' && (
+              <div className='space-y-2'>
+                <Label>How would you like to pay?</Label>
+                <div className='flex flex-wrap gap-2'>
+                  <Button
+                    size='sm'
+                    variant={planId === null ? 'default' : 'outline'}
+                    disabled={quoting || paying || Boolean(mockOrder)}
+                    onClick={() => choosePlan(null)}
+                  >
+                    Pay in full
+                  </Button>
+                  {plans.map((plan) => (
+                    <Button
+                      key={plan.id}
+                      size='sm'
+                      variant={planId === plan.id ? 'default' : 'outline'}
+                      disabled={quoting || paying || Boolean(mockOrder)}
+                      onClick={() => choosePlan(plan.id)}
+                    >
+                      {plan.installmentCount} × ₹
+                      {plan.installmentAmount.toLocaleString('en-IN')}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+          {!installmentOrderId && !planId && (
+            <div className='space-y-2'>
+              <Label htmlFor='coupon'>Coupon code</Label>
+              {couponCode ? (
+                <div className='flex items-center justify-between rounded-md border p-2'>
+                  <span className='flex items-center gap-2 font-medium'>
+                    <Tag className='h-4 w-4 text-primary' />
+                    {couponCode}
+                  </span>
+                  <Button variant='ghost' size='sm' onClick={removeCoupon}>
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                <div className='flex gap-2'>
+                  <Input
+                    id='coupon'
+                    value={couponInput}
+                    onChange={(e) => {
+                      setCouponInput(e.target.value);
+                      setCouponError(null);
+                    }}
+                    placeholder='Enter coupon code'
+                    aria-invalid={!!couponError}
+                  />
+                  <Button
+                    variant='outline'
+                    onClick={applyCoupon}
+                    disabled={quoting || !couponInput.trim()}
+                  >
+                    Apply
+                  </Button>
+                </div>
+              )}
+              {couponError && (
+                <p className='text-sm text-destructive'>{couponError}</p>
+              )}
+            </div>
+          )}
+
+          {!installmentOrderId && <Separator />}
+
+          {quote && !installmentOrderId && (
+            <div className='space-y-2 text-sm'>
+              <div className='flex justify-between'>
+                <span className='text-muted-foreground'>
+                  {quote.seats > 1
+                    ? `Price (${quote.seats} seats × ${formatAmount(
+                        quote.unitAmount
+                      )})`
+                    : 'Price'}
+                </span>
+                <span>{formatAmount(quote.subtotalAmount)}</span>
+              </div>
+              {quote.discountAmount > 0 && (
+                <div className='flex justify-between text-success'>
+                  <span>Discount</span>
+                  <span>-{formatAmount(quote.discountAmount)}</span>
+                </div>
+              )}
+              {!quote.taxInclusive && (
+                <div className='flex justify-between'>
+                  <span className='text-muted-foreground'>{gstLabel}</span>
+                  <span>+{formatAmount(quote.taxAmount)}</span>
+                </div>
+              )}
+              <div className='flex justify-between text-lg font-bold'>
+                <span>Total</span>
+                <span className='text-primary'>
+                  {formatAmount(quote.totalAmount)}
+                </span>
+              </div>
+              {quote.taxInclusive && quote.taxAmount > 0 && (
+                <p className='text-xs text-muted-foreground'>
+                  Includes {gstLabel}: {formatAmount(quote.taxAmount)}
+                </p>
+              )}
+              <p className='text-xs text-muted-foreground'>
+                Place of supply: {quote.placeOfSupply}
+              </p>
+              {quote.installments && (
+                <>
+                  <p className='pt-2 font-medium'>
+                    Paid in {quote.installments.length} installments
+                  </p>
+                  <InstallmentSchedule
+                    installments={quote.installments}
+                    format={formatAmount}
+                  />
+                  <p className='text-xs text-muted-foreground'>
+                    We'll remind you before each due date. Access is paused if
+                    an installment stays unpaid after its due date and resumes
+                    once it is paid.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          {mockOrder && (
+            <MockGatewayPanel
+              checkout={mockOrder.checkout}
+              disabled={paying}
+              onPay={payWithMock}
+            />
+          )}
+
+          <Button
+            className='w-full bg-gradient-accent hover:opacity-90'
+            disabled={
+              (installmentOrderId ? !payingInstallment : !quote) ||
+              (asGift && !recipientEmail.trim()) ||
+              (forTeam &&
+                (seats < minSeats ||
+                  quote?.seats !== seats ||
+                  (seatOrganization === 'new' && !organizationName.trim()))) ||
+              quoting ||
+              paying ||
+              Boolean(mockOrder)
+            }
+            onClick={handlePay}
+          >
+            {paying
+              ? 'Processing...'
+              : payingInstallment
+                ? `Pay installment ${payingInstallment.number}: ${formatAmount(
+                    payingInstallment.amount
+                  )}`
+                : quote?.installments
+                  ? `Pay ${formatAmount(quote.installments[0].amount)} now`
+                  : quote
+                    ? `Pay ${formatAmount(quote.totalAmount)}`
+                    : 'Pay'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Checkout;
@@ -12,11 +12,13 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { toast } from '@/hooks/use-toast';
 import { useApp } from '@/contexts/AppContext';
+import { useSignedPageUrls } from '@/hooks/use-signed-page-urls';
 
 type Topic = {
   _id: string;
   title: string;
-  images: string[]; // urls or public paths
+  images: string[]; // urls or public paths (empty when the course is locked)
+  pagesCount?: number;
 };
 
 type Course = {
@@ -43,6 +45,7 @@ export default function CourseReader() {
   );
   const [loadingSave, setLoadingSave] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [loadError, setLoadError] = useState(false);
   const viewerRef = useRef<HTMLDivElement | null>(null);
   const preloaded = useRef<Record<string, HTMLImageElement>>({}); // simple cache
 
@@ -60,94 +63,52 @@ export default function CourseReader() {
     if (!loading && !user) navigate('/auth');
   }, [loading, user, navigate]);
 
-  // Build fallback topics with your custom ranges (from user)
-  const buildFallbackTopics = (): Topic[] => {
-    return [
-      {
-        _id: 't1',
-        title: 'Introduction',
-        images: Array.from({ length: 17 }, (_, i) => `/course/${2 + i}.jpeg`), // 2–18
-      },
-      {
-        _id: 't2',
-        title: 'Understanding Doji Candles',
-        images: Array.from({ length: 4 }, (_, i) => `/course/${19 + i}.jpeg`), // 19–22
-      },
-      {
-        _id: 't3',
-        title: 'The "Dicy Reversal" Setup',
-        images: Array.from({ length: 7 }, (_, i) => `/course/${23 + i}.jpeg`), // 23–29
-      },
-      {
-        _id: 't4',
-        title: 'Entry & Exit Rules',
-        images: Array.from({ length: 5 }, (_, i) => `/course/${30 + i}.jpeg`), // 30–34
-      },
-      {
-        _id: 't5',
-        title: 'Risk Management',
-        images: Array.from({ length: 13 }, (_, i) => `/course/${35 + i}.jpeg`), // 35–47
-      },
-      {
-        _id: 't6',
-        title: 'Practical Examples',
-        images: Array.from({ length: 5 }, (_, i) => `/course/${48 + i}.jpeg`), // 48–52
-      },
-      {
-        _id: 't7',
-        title: 'Final Thoughts',
-        images: Array.from({ length: 4 }, (_, i) => `/course/${53 + i}.jpeg`), // 53–56
-      },
-      {
-        _id: 't8',
-        title: "Author's Message",
-        images: Array.from({ length: 2 }, (_, i) => `/course/${57 + i}.jpeg`), // 57–58
-      },
-    ];
-  };
-
-  // Load course + topics; if backend not available or no topics, fallback to our topics
+  // Load course + topics (topics are seeded in the backend)
   useEffect(() => {
     if (!courseId) return;
     (async () => {
       try {
-        const res = await apiClient.get<{ data: { course: Course } }>(
-          `/courses/${courseId}`
+        const res = await apiClient.get<{ data: Course }>(
+          `/api/courses/${courseId}`
         );
-        const courseData = res.data?.data?.course;
+        const courseData = res.data?.data;
 
         if (!courseData) {
-          // fallback local topics
-          const fallback = {
-            _id: courseId,
-            title: 'Option Analysis Strategy by A. Bhattacharjee',
-            topics: buildFallbackTopics(),
-            price: 1499,
-            userHasAccess: true,
-          } as Course;
-          setCourse(fallback);
-          setTopics(fallback.topics);
-          const p: Record<string, number> = {};
-          fallback.topics.forEach(
-            (t) => (p[t._id] = completedTopics[t._id] ? 100 : 0)
-          );
-          setProgress(p);
+          setLoadError(true);
           return;
         }
 
-        if (!courseData.topics || courseData.topics.length === 0) {
-          courseData.topics = buildFallbackTopics();
-        }
-
         setCourse(courseData);
         setTopics(courseData.topics || []);
+        if (!courseData.topics?.length) setLoadError(true);
 
         // try to fetch progress & notes if backend supports
         try {
           const progRes = await apiClient.get<{
-            data: { progress: Record<string, number> };
-          }>(`/courses/${courseId}/progress`);
-          setProgress(progRes.data.data.progress || {});
+            data: {
+              progress: Record<string, number>;
+              viewedPages: Record<string, number[]>;
+              completedTopics: Record<string, boolean>;
+            };
+          }>(`/api/courses/${courseId}/progress`);
+          const saved = progRes.data.data;
+          setProgress(saved.progress || {});
+
+          // merge server-side viewed pages with whatever this device has
+          setViewedPages((prev) => {
+            const merged: Record<string, Set<number>> = {};
+            Object.entries(prev).forEach(([k, set]) => {
+              merged[k] = new Set(set);
+            });
+            Object.entries(saved.viewedPages || {}).forEach(([k, arr]) => {
+              merged[k] = new Set([...(merged[k] || []), ...arr]);
+            });
+            return merged;
+          });
+          setCompletedTopics((prev) => ({
+            ...prev,
+            ...(saved.completedTopics || {}),
+          }));
         } catch {
           // fallback: 0% for each topic
           const p: Record<string, number> = {};
@@ -160,31 +121,14 @@ export default function CourseReader() {
         try {
           const notesRes = await apiClient.get<{
             data: { notes: Record<string, Record<number, string>> };
-          }>(`/courses/${courseId}/notes`);
+          }>(`/api/courses/${courseId}/notes`);
           setNotes(notesRes.data.data.notes || {});
         } catch {
           const ls = localStorage.getItem(`notes_${courseId}`);
           if (ls) setNotes(JSON.parse(ls));
         }
       } catch {
-        // fallback if network error
-        const fallback = {
-          _id: courseId,
-          title: 'Option Analysis Strategy by A. Bhattacharjee',
-          topics: buildFallbackTopics(),
-          price: 1499,
-          userHasAccess: true,
-        } as Course;
-        setCourse(fallback);
-        setTopics(fallback.topics);
-        const p: Record<string, number> = {};
-        fallback.topics.forEach(
-          (t) => (p[t._id] = completedTopics[t._id] ? 100 : 0)
-        );
-        setProgress(p);
-
-        const ls = localStorage.getItem(`notes_${courseId}`);
-        if (ls) setNotes(JSON.parse(ls));
+        setLoadError(true);
       }
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -193,6 +137,13 @@ export default function CourseReader() {
   const activeTopic = topics[activeTopicIndex];
   const totalPages = activeTopic?.images?.length ?? 0;
 
+  // Pages are only reachable through short-lived signed URLs
+  const pageUrls = useSignedPageUrls(
+    course?._id,
+    activeTopic?._id,
+    course?.userHasAccess !== false
+  );
+
   // load persisted viewedPages & completedTopics from localStorage when topics are ready
   useEffect(() => {
     if (!courseId || topics.length === 0) return;
@@ -202,11 +153,16 @@ export default function CourseReader() {
     if (vp) {
       try {
         const parsed: Record<string, number[]> = JSON.parse(vp);
-        const converted: Record<string, Set<number>> = {};
-        Object.entries(parsed).forEach(([k, arr]) => {
-          converted[k] = new Set(arr);
+        setViewedPages((prev) => {
+          const converted: Record<string, Set<number>> = {};
+          Object.entries(prev).forEach(([k, set]) => {
+            converted[k] = new Set(set);
+          });
+          Object.entries(parsed).forEach(([k, arr]) => {
+            converted[k] = new Set([...(converted[k] || []), ...arr]);
+          });
+          return converted;
         });
-        setViewedPages(converted);
       } catch {
         setViewedPages({});
       }
@@ -236,30 +192,28 @@ export default function CourseReader() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [topics, courseId]);
 
-  // Preload current/adjacent images
+  // Preload current/adjacent images (keyed by URL, since URLs are re-signed)
   useEffect(() => {
     if (!activeTopic) return;
-    const keyBase = String(activeTopic._id);
     const toPreload = [currentPage - 1, currentPage, currentPage + 1].filter(
-      (i) => i >= 0 && i < activeTopic.images.length
+      (i) => i >= 0 && i < pageUrls.length
     );
     toPreload.forEach((idx) => {
-      const url = activeTopic.images[idx];
-      const key = `${keyBase}_${idx}`;
-      if (!preloaded.current[key]) {
+      const url = pageUrls[idx];
+      if (!preloaded.current[url]) {
         const img = new Image();
         img.src = url;
-        preloaded.current[key] = img;
+        preloaded.current[url] = img;
       }
     });
-  }, [activeTopic, currentPage]);
+  }, [activeTopic, currentPage, pageUrls]);
 
   const shouldRenderImage = (idx: number) => Math.abs(idx - currentPage) <= 2;
 
   // bookmark save (same as before)
   const saveBookmark = async (topicId: string, imageIndex: number) => {
     try {
-      await apiClient.post(`/courses/${courseId}/bookmark`, {
+      await apiClient.post(`/api/courses/${courseId}/bookmark`, {
         topicId,
         imageIndex,
       });
@@ -276,7 +230,7 @@ export default function CourseReader() {
       try {
         const bookmarkRes = await apiClient.get<{
           data: { bookmark: { topicId: string; imageIndex: number } | null };
-        }>(`/courses/${courseId}/bookmark`);
+        }>(`/api/courses/${courseId}/bookmark`);
         const bm = bookmarkRes.data.data.bookmark;
 
         if (bm) {
@@ -359,12 +313,17 @@ export default function CourseReader() {
       String(weightedProgress)
     );
 
-    // optionally sync to backend (placeholder)
+    // sync to backend so progress follows the learner across devices
     (async () => {
       try {
-        await apiClient.post(`/courses/${courseId}/progress`, {
+        const pages: Record<string, number[]> = {};
+        Object.entries(viewedPages).forEach(([k, s]) => {
+          pages[k] = Array.from(s);
+        });
+        await apiClient.post(`/api/courses/${courseId}/progress`, {
           overall: weightedProgress,
-          perTopic: progress, // best-effort
+          perTopic: progress,
+          viewedPages: pages,
         });
       } catch {
         // backend may not be available now — that's ok
@@ -403,9 +362,11 @@ export default function CourseReader() {
       });
     }
 
-    // backend placeholder: mark topic complete
+    // mark topic complete on the server
     try {
-      await apiClient.post(`/courses/${courseId}/topics/${topicId}/complete`);
+      await apiClient.post(
+        `/api/courses/${courseId}/topics/${topicId}/complete`
+      );
     } catch {
       // ignore backend error
     }
@@ -465,7 +426,7 @@ export default function CourseReader() {
       (async () => {
         try {
           await apiClient.post(
-            `/courses/${courseId}/topics/${activeTopic._id}/complete`
+            `/api/courses/${courseId}/topics/${activeTopic._id}/complete`
           );
         } catch {
           // ignore backend failure
@@ -500,7 +461,7 @@ export default function CourseReader() {
     setLoadingSave(true);
     try {
       await apiClient.post(
-        `/courses/${courseId}/topics/${topicId}/images/${imageIndex}/note`,
+        `/api/courses/${courseId}/topics/${topicId}/images/${imageIndex}/note`,
         { note: text }
       );
       toast({ title: 'Saved', description: 'Note saved to server.' });
@@ -536,7 +497,8 @@ export default function CourseReader() {
             <CardContent className='p-3'>
               <div className='flex items-center justify-between mb-3'>
                 <h2 className='text-xl font-semibold'>
-                  {activeTopic?.title ?? 'Loading...'}
+                  {activeTopic?.title ??
+                    (loadError ? 'Course unavailable' : 'Loading...')}
                 </h2>
                 <div className='flex items-center gap-2'>
                   <Button onClick={toggleFull}>
@@ -559,7 +521,11 @@ export default function CourseReader() {
                       </div>
                     </div>
                     <div className='flex gap-3'>
-                      <Button onClick={() => navigate(`/payment/${courseId}`)}>
+                      <Button
+                        onClick={() =>
+                          navigate(`/dashboard/checkout/${courseId}`)
+                        }
+                      >
                         Buy Course
                       </Button>
                       <Button
@@ -587,8 +553,8 @@ export default function CourseReader() {
                       >
                         <TransformComponent>
                           <div className='flex items-center justify-center'>
-                            {activeTopic.images.map((imgUrl, idx) => {
-                              if (!shouldRenderImage(idx))
+                            {activeTopic.images.map((_, idx) => {
+                              if (!shouldRenderImage(idx) || !pageUrls[idx])
                                 return (
                                   <div
                                     key={idx}
@@ -601,7 +567,7 @@ export default function CourseReader() {
                               return (
                                 <img
                                   key={idx}
-                                  src={imgUrl}
+                                  src={pageUrls[idx]}
                                   alt={`Page ${idx + 1}`}
                                   loading='lazy'
                                   style={{
@@ -722,6 +688,17 @@ export default function CourseReader() {
                         </div>
                       </div>
                     </div>
+                  ) : loadError ? (
+                    <div className='text-center'>
+                      <div>This course could not be loaded.</div>
+                      <Button
+                        variant='ghost'
+                        className='mt-3'
+                        onClick={() => navigate('/dashboard/my-courses')}
+                      >
+                        Back to My Courses
+                      </Button>
+                    </div>
                   ) : (
                     <div>Loading topic...</div>
                   )}
@@ -765,7 +742,7 @@ export default function CourseReader() {
                       />
                     </div>
                     <div className='text-xs mt-1 text-white/70'>
-                      {t.images.length} pages
+                      {t.pagesCount ?? t.images.length} pages
                     </div>
                   </div>
                 );
@@ -4,13 +4,15 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Clock, BookOpen, Users, Star, Search } from 'lucide-react';
+import { Clock, BookOpen, Users, Star, Search, Gift } from 'lucide-react';
 import { useState } from 'react';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
+import CurrencySelect from '@/components/CurrencySelect';
+import { formatPrice } from '@/lib/currency';
 
 const ExploreCourses = () => {
-  const { courses, enrollCourse } = useApp();
+  const { courses, enrollCourse, currency, setCurrency } = useApp();
   const [searchQuery, setSearchQuery] = useState('');
   const navigate = useNavigate();
 
@@ -22,8 +24,22 @@ const ExploreCourses = () => {
         c.instructor.toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
-  const handleEnroll = (courseId: string, courseName: string) => {
-    enrollCourse(courseId);
+  const handleEnroll = async (
+    courseId: string,
+    courseName: string,
+    price: number
+  ) => {
+    // Paid courses are unlocked through checkout
+    if (price > 0) {
+      navigate(`/dashboard/checkout/${courseId}`);
+      return;
+    }
+
+    try {
+      await enrollCourse(courseId);
+    } catch {
+      return;
+    }
     toast.success('Course enrolled successfully!', {
       description: `You are now enrolled in "${courseName}"`,
     });
@@ -40,15 +56,18 @@ const ExploreCourses = () => {
           </p>
         </div>
 
-        <div className='relative max-w-md'>
-          <Search className='absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground' />
-          <Input
-            type='search'
-            placeholder='Search courses...'
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className='pl-9'
-          />
+        <div className='flex gap-2'>
+          <div className='relative max-w-md flex-1'>
+            <Search className='absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground' />
+            <Input
+              type='search'
+              placeholder='Search courses...'
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className='pl-9'
+            />
+          </div>
+          <CurrencySelect value={currency} onChange={setCurrency} />
         </div>
       </div>
 
@@ -101,17 +120,47 @@ const ExploreCourses = () => {
                   <span className='font-medium'>{course.rating}</span>
                 </div>
 
-                <div className='flex items-center justify-between pt-2'>
-                  <span className='text-2xl font-bold text-primary'>
-                    ₹{course.price}
-                  </span>
-                  <Button
-                    className='bg-gradient-accent hover:opacity-90'
-                    onClick={() => handleEnroll(course.id, course.title)}
-                  >
-                    Enroll Now
-                  </Button>
-                </div>
+                {course.price === null ? (
+                  <div className='flex items-center justify-between pt-2'>
+                    <span className='text-sm text-muted-foreground'>
+                      Not available in {currency}
+                    </span>
+                    <Button disabled>Buy Now</Button>
+                  </div>
+                ) : (
+                  <div className='flex items-center justify-between pt-2'>
+                    <span className='text-2xl font-bold text-primary'>
+                      {formatPrice(course.price, currency)}
+                    </span>
+                    <div className='flex gap-2'>
+                      {course.price > 0 && (
+                        <Button
+                          variant='outline'
+                          size='icon'
+                          title='Buy as a gift'
+                          aria-label='Buy as a gift'
+                          onClick={() =>
+                            navigate(`/dashboard/checkout/${course.id}?gift=1`)
+                          }
+                        >
+                          <Gift className='h-4 w-4' />
+                        </Button>
+                      )}
+                      <Button
+                        className='bg-gradient-accent hover:opacity-90'
+                        onClick={() =>
+                          handleEnroll(
+                            course.id,
+                            course.title,
+                            course.price ?? 0
+                          )
+                        }
+                      >
+                        {course.price > 0 ? 'Buy Now' : 'Enroll Now'}
+                      </Button>
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))}
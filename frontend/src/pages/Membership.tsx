@@ -0,0 +1,261 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Crown, Loader2 } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import {
+  apiClient,
+  ApiResponse,
+  getApiErrorMessage,
+  Membership as MembershipDetails,
+  MembershipPlan,
+} from '@/services/api';
+import { CheckoutOrder, useGatewayPayment } from '@/hooks/use-gateway-payment';
+import { formatPrice } from '@/lib/currency';
+import MockGatewayPanel from '@/components/MockGatewayPanel';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+const STATUS_LABELS: Record<MembershipDetails['status'], string> = {
+  pending: 'Awaiting payment',
+  active: 'Active',
+  past_due: 'Renewal due',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const describePrice = (plan: MembershipPlan) =>
+  `${formatPrice(plan.price)} / ${plan.interval === 'year' ? 'year' : 'month'}`;
+
+// What the member is told about where their membership stands
+const describeStatus = (membership: MembershipDetails) => {
+  const end = membership.currentPeriodEnd;
+  if (membership.status === 'past_due' && membership.graceEndsAt) {
+    return `Your membership ended on ${end ? formatDate(end) : 'its renewal date'}. Renew by ${formatDate(
+      membership.graceEndsAt
+    )} to keep your access.`;
+  }
+  if (membership.status === 'active' && end) {
+    return membership.cancelAtPeriodEnd
+      ? `Cancelled. You keep access to everything until ${formatDate(end)}.`
+      : `Renews on ${formatDate(end)}. We'll email you a payment link before then.`;
+  }
+  if (membership.status === 'cancelled' || membership.status === 'expired') {
+    return membership.endReason || 'Your membership has ended.';
+  }
+  return null;
+};
+
+const Membership = () => {
+  const { refreshCourses } = useApp();
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [membership, setMembership] = useState<MembershipDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+
+  const loadMembership = useCallback(async () => {
+    try {
+      const [plansRes, meRes] = await Promise.all([
+        apiClient.get<ApiResponse<MembershipPlan[]>>('/api/memberships/plans'),
+        apiClient.get<ApiResponse<MembershipDetails | null>>(
+          '/api/memberships/me'
+        ),
+      ]);
+      setPlans(plansRes.data.data || []);
+      setMembership(meRes.data.data || null);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not load your membership'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMembership();
+  }, [loadMembership]);
+
+  const handleOrderStatus = async (order: CheckoutOrder) => {
+    if (order.status === 'paid') {
+      await Promise.all([loadMembership(), refreshCourses()]);
+      toast.success('Payment successful!', {
+        description: 'Every course and webinar is now open to you',
+      });
+    } else if (order.status === 'failed') {
+      toast.error('Payment failed', {
+        description: 'No money was taken. Please try again.',
+      });
+    }
+  };
+
+  const { paying, setPaying, mockOrder, pay, payWithMock } = useGatewayPayment({
+    isPending: (order) => order.status === 'pending_payment',
+    onSettled: handleOrderStatus,
+    stillProcessing: 'Your membership will start as soon as it is confirmed.',
+  });
+
+  const subscribe = async (plan: MembershipPlan) => {
+    setPaying(true);
+    try {
+      const res = await apiClient.post<ApiResponse<CheckoutOrder>>(
+        '/api/memberships/checkout',
+        { planId: plan.id }
+      );
+      const order = res.data.data;
+      if (!order?.checkout) return setPaying(false);
+      await pay(order.id, order.checkout);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not start payment'));
+      setPaying(false);
+    }
+  };
+
+  const changeRenewal = async (action: 'cancel' | 'resume') => {
+    setUpdating(true);
+    try {
+      const res = await apiClient.post<ApiResponse<MembershipDetails>>(
+        `/api/memberships/${action}`
+      );
+      setMembership(res.data.data || null);
+      toast.success(
+        action === 'cancel'
+          ? 'Your membership will not renew'
+          : 'Your membership will renew'
+      );
+    } catch (error) {
+      toast.error(
+        getApiErrorMessage(error, 'Could not update your membership')
+      );
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className='flex justify-center py-12'>
+        <Loader2 className='h-6 w-6 animate-spin text-muted-foreground' />
+      </div>
+    );
+  }
+
+  const current = membership?.hasAccess ? membership : null;
+  const busy = paying || updating || Boolean(mockOrder);
+
+  return (
+    <div className='space-y-6'>
+      <div>
+        <h1 className='text-3xl font-bold'>All Access</h1>
+        <p className='text-muted-foreground'>
+          One membership for every course and live webinar
+        </p>
+      </div>
+
+      {membership && membership.status !== 'pending' && (
+        <Card>
+          <CardHeader>
+            <CardTitle className='flex items-center justify-between gap-2'>
+              <span className='flex items-center gap-2'>
+                <Crown className='h-5 w-5 text-primary' />
+                {membership.plan?.name || 'Your membership'}
+              </span>
+              <Badge variant={membership.hasAccess ? 'default' : 'secondary'}>
+                {STATUS_LABELS[membership.status]}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className='space-y-4'>
+            <p className='text-sm text-muted-foreground'>
+              {describeStatus(membership)}
+            </p>
+            {current && (
+              <div className='flex flex-wrap gap-2'>
+                {current.canRenew && current.plan && (
+                  <Button
+                    disabled={busy}
+                    onClick={() => current.plan && subscribe(current.plan)}
+                  >
+                    {paying ? 'Processing...' : 'Renew now'}
+                  </Button>
+                )}
+                {current.status === 'active' &&
+                  (current.cancelAtPeriodEnd ? (
+                    <Button
+                      variant='outline'
+                      disabled={busy}
+                      onClick={() => changeRenewal('resume')}
+                    >
+                      Keep my membership
+                    </Button>
+                  ) : (
+                    <Button
+                      variant='outline'
+                      disabled={busy}
+                      onClick={() => changeRenewal('cancel')}
+                    >
+                      Cancel membership
+                    </Button>
+                  ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {mockOrder && (
+        <MockGatewayPanel
+          checkout={mockOrder.checkout}
+          disabled={paying}
+          onPay={payWithMock}
+        />
+      )}
+
+      {!current && (
+        <div className='grid gap-4 md:grid-cols-2'>
+          {plans.length === 0 && (
+            <p className='text-muted-foreground'>
+              No membership plans are on offer right now
+            </p>
+          )}
+          {plans.map((plan) => (
+            <Card key={plan.id}>
+              <CardHeader>
+                <CardTitle>{plan.name}</CardTitle>
+              </CardHeader>
+              <CardContent className='space-y-4'>
+                <div className='text-2xl font-bold text-primary'>
+                  {describePrice(plan)}
+                </div>
+                {plan.description && (
+                  <p className='text-sm text-muted-foreground'>
+                    {plan.description}
+                  </p>
+                )}
+                <p className='text-xs text-muted-foreground'>
+                  {plan.taxInclusive ? 'Includes GST. ' : 'Plus GST. '}
+                  Renewed by payment each{' '}
+                  {plan.interval === 'year' ? 'year' : 'month'}; cancel anytime.
+                </p>
+                <Button
+                  className='w-full bg-gradient-accent hover:opacity-90'
+                  disabled={busy}
+                  onClick={() => subscribe(plan)}
+                >
+                  {paying ? 'Processing...' : 'Join All Access'}
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Membership;
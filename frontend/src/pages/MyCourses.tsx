@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Clock, BookOpen, PlayCircle } from 'lucide-react';
+import { Clock, BookOpen, PlayCircle, Gift } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useState } from 'react';
 
@@ -134,6 +134,18 @@ const MyCourses = () => {
                     ? 'Review Course'
                     : 'Continue Learning'}
                 </Button>
+                {!!course.price && (
+                  <Button
+                    variant='outline'
+                    className='w-full'
+                    onClick={() =>
+                      navigate(`/dashboard/checkout/${course.id}?gift=1`)
+                    }
+                  >
+                    <Gift className='mr-2 h-4 w-4' />
+                    Gift this course
+                  </Button>
+                )}
               </CardContent>
             </Card>
           ))}
@@ -0,0 +1,548 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { BarChart3, Building2, Mail, UserPlus, Users } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import {
+  apiClient,
+  ApiResponse,
+  getApiErrorMessage,
+  OrganizationInvitation,
+  OrganizationOverview,
+  OrganizationProgress,
+  OrganizationSummary,
+} from '@/services/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+
+type Member = OrganizationOverview['members'][number];
+type Role = Member['role'];
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const OrganizationAdmin = () => {
+  const navigate = useNavigate();
+  const { refreshCourses } = useApp();
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [overview, setOverview] = useState<OrganizationOverview | null>(null);
+  const [progress, setProgress] = useState<OrganizationProgress | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [emails, setEmails] = useState('');
+  const [role, setRole] = useState<Role>('member');
+  // The invite, seat or member action in flight
+  const [busy, setBusy] = useState(false);
+
+  const loadOrganizations = useCallback(async () => {
+    try {
+      const [invitationsRes, organizationsRes] = await Promise.all([
+        apiClient.get<ApiResponse<OrganizationInvitation[]>>(
+          '/api/organizations/invitations'
+        ),
+        apiClient.get<ApiResponse<{ organizations: OrganizationSummary[] }>>(
+          '/api/organizations'
+        ),
+      ]);
+      const list = organizationsRes.data.data?.organizations || [];
+      setInvitations(invitationsRes.data.data || []);
+      setOrganizations(list);
+      setSelectedId((current) =>
+        list.some((o) => o.id === current) ? current : (list[0]?.id ?? null)
+      );
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not load organizations'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadOrganization = useCallback(async (id: number) => {
+    try {
+      const [overviewRes, progressRes] = await Promise.all([
+        apiClient.get<ApiResponse<OrganizationOverview>>(
+          `/api/organizations/${id}`
+        ),
+        apiClient.get<ApiResponse<OrganizationProgress>>(
+          `/api/organizations/${id}/progress`
+        ),
+      ]);
+      setOverview(overviewRes.data.data || null);
+      setProgress(progressRes.data.data || null);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not load organization'));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOrganizations();
+  }, [loadOrganizations]);
+
+  useEffect(() => {
+    if (selectedId) loadOrganization(selectedId);
+  }, [selectedId, loadOrganization]);
+
+  const acceptInvitation = async (invitation: OrganizationInvitation) => {
+    try {
+      await apiClient.post(
+        `/api/organizations/invitations/${invitation.id}/accept`
+      );
+      await Promise.all([refreshCourses(), loadOrganizations()]);
+      toast.success(`You've joined ${invitation.organizationName}`);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not accept invitation'));
+    }
+  };
+
+  // Runs an admin action that answers with the updated organization
+  const runAction = async (path: string, body: object, fallback: string) => {
+    if (!selectedId) return;
+    setBusy(true);
+    try {
+      const res = await apiClient.post<ApiResponse<OrganizationOverview>>(
+        `/api/organizations/${selectedId}${path}`,
+        body
+      );
+      if (res.data.data) setOverview(res.data.data);
+      toast.success(res.data.message);
+      await loadOrganization(selectedId);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const invite = async () => {
+    if (!selectedId || !emails.trim()) return;
+    setBusy(true);
+    try {
+      const res = await apiClient.post<
+        ApiResponse<{ invited: string[]; skipped: string[] }>
+      >(`/api/organizations/${selectedId}/members`, { emails, role });
+      const skipped = res.data.data?.skipped || [];
+      toast.success(res.data.message, {
+        description: skipped.length
+          ? `Already invited: ${skipped.join(', ')}`
+          : undefined,
+      });
+      setEmails('');
+      await loadOrganization(selectedId);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not send invitations'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const assignSeat = (member: Member, licenseId: number) =>
+    runAction(
+      '/seats',
+      { memberId: member.id, licenseId },
+      'Could not assign seat'
+    );
+
+  const reclaimSeat = (seatId: number) =>
+    runAction(`/seats/${seatId}/reclaim`, {}, 'Could not reclaim seat');
+
+  const removeMember = (member: Member) => {
+    if (!window.confirm(`Remove ${member.email} and reclaim their seats?`)) {
+      return;
+    }
+    runAction(`/members/${member.id}/remove`, {}, 'Could not remove member');
+  };
+
+  const activeLicenses =
+    overview?.licenses.filter((license) => license.status === 'active') || [];
+
+  if (loading) {
+    return <p className='text-muted-foreground'>Loading...</p>;
+  }
+
+  return (
+    <div className='space-y-6'>
+      <div className='flex flex-wrap items-end justify-between gap-4'>
+        <div>
+          <h1 className='text-3xl font-bold'>Organization</h1>
+          <p className='text-muted-foreground'>
+            Invite your team, assign course seats and follow their progress
+          </p>
+        </div>
+        {organizations.length > 1 && (
+          <Select
+            value={String(selectedId)}
+            onValueChange={(value) => setSelectedId(Number(value))}
+          >
+            <SelectTrigger className='w-[220px]' aria-label='Organization'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {organizations.map((organization) => (
+                <SelectItem
+                  key={organization.id}
+                  value={String(organization.id)}
+                >
+                  {organization.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className='flex items-center gap-2'>
+              <Mail className='h-5 w-5 text-primary' />
+              Invitations
+            </CardTitle>
+          </CardHeader>
+          <CardContent className='space-y-2'>
+            {invitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className='flex items-center justify-between gap-4 rounded-md border p-3'
+              >
+                <div>
+                  <div className='font-medium'>
+                    {invitation.organizationName || 'An organization'}
+                  </div>
+                  <div className='text-sm text-muted-foreground'>
+                    Invited as {invitation.role} on{' '}
+                    {formatDate(invitation.invitedAt)}
+                  </div>
+                </div>
+                <Button size='sm' onClick={() => acceptInvitation(invitation)}>
+                  Accept
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {organizations.length === 0 && (
+        <Card>
+          <CardContent className='space-y-4 pt-6 text-center'>
+            <Building2 className='mx-auto h-10 w-10 text-muted-foreground' />
+            <p className='text-muted-foreground'>
+              Buying for a trading desk or academy? Choose "Buy seats for a
+              team" at checkout to set up an organization and assign the seats
+              to its members.
+            </p>
+            <Button
+              variant='outline'
+              onClick={() => navigate('/dashboard/explore')}
+            >
+              Browse courses
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {overview && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Seat licenses</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {overview.licenses.length === 0 ? (
+                <p className='text-sm text-muted-foreground'>
+                  No seats have been bought for {overview.name} yet
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Course</TableHead>
+                      <TableHead>Order</TableHead>
+                      <TableHead>Seats used</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {overview.licenses.map((license) => (
+                      <TableRow key={license.id}>
+                        <TableCell className='font-medium'>
+                          {license.course?.title || 'Course'}
+                        </TableCell>
+                        <TableCell>#{license.orderId}</TableCell>
+                        <TableCell>
+                          {license.status === 'revoked' ? (
+                            <Badge variant='destructive'>Refunded</Badge>
+                          ) : (
+                            `${license.assignedCount} / ${license.seatCount}`
+                          )}
+                        </TableCell>
+                        <TableCell className='text-right'>
+                          {license.course && (
+                            <Button
+                              variant='outline'
+                              size='sm'
+                              onClick={() =>
+                                navigate(
+                                  `/dashboard/checkout/${license.course?.slug}?seats=1`
+                                )
+                              }
+                            >
+                              Buy more seats
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className='flex items-center gap-2'>
+                <UserPlus className='h-5 w-5 text-primary' />
+                Invite people
+              </CardTitle>
+            </CardHeader>
+            <CardContent className='space-y-4'>
+              <div className='space-y-2'>
+                <Label htmlFor='invite-emails'>Email addresses</Label>
+                <Textarea
+                  id='invite-emails'
+                  value={emails}
+                  onChange={(e) => setEmails(e.target.value)}
+                  placeholder='trader1@desk.com, trader2@desk.com'
+                />
+              </div>
+              <div className='flex items-center gap-2'>
+                <Select
+                  value={role}
+                  onValueChange={(value) => setRole(value as Role)}
+                >
+                  <SelectTrigger className='w-[140px]' aria-label='Role'>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value='member'>Member</SelectItem>
+                    <SelectItem value='admin'>Admin</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button onClick={invite} disabled={busy || !emails.trim()}>
+                  Send invitations
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className='flex items-center gap-2'>
+                <Users className='h-5 w-5 text-primary' />
+                Members
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Seats</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {overview.members.map((member) => (
+                    <TableRow key={member.id}>
+                      <TableCell>
+                        <div className='font-medium'>
+                          {member.name || member.email}
+                        </div>
+                        {member.name && (
+                          <div className='text-sm text-muted-foreground'>
+                            {member.email}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className='flex flex-wrap gap-1'>
+                          <Badge
+                            variant={
+                              member.status === 'active'
+                                ? 'secondary'
+                                : 'outline'
+                            }
+                          >
+                            {member.status === 'active' ? 'Joined' : 'Invited'}
+                          </Badge>
+                          {member.role === 'admin' && <Badge>Admin</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className='space-y-1'>
+                        {activeLicenses.map((license) => {
+                          const seat = member.seats.find(
+                            (s) => s.licenseId === license.id
+                          );
+                          return (
+                            <div
+                              key={license.id}
+                              className='flex items-center justify-between gap-2 text-sm'
+                            >
+                              <span>{license.course?.title || 'Course'}</span>
+                              {seat ? (
+                                <Button
+                                  variant='ghost'
+                                  size='sm'
+                                  disabled={busy}
+                                  onClick={() => reclaimSeat(seat.id)}
+                                >
+                                  Reclaim
+                                </Button>
+                              ) : (
+                                <Button
+                                  variant='outline'
+                                  size='sm'
+                                  disabled={
+                                    busy ||
+                                    license.assignedCount >= license.seatCount
+                                  }
+                                  onClick={() => assignSeat(member, license.id)}
+                                >
+                                  Assign
+                                </Button>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </TableCell>
+                      <TableCell className='text-right'>
+                        <Button
+                          variant='ghost'
+                          size='sm'
+                          className='text-destructive'
+                          disabled={busy}
+                          onClick={() => removeMember(member)}
+                        >
+                          Remove
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {overview && progress && progress.courses.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className='flex items-center gap-2'>
+              <BarChart3 className='h-5 w-5 text-primary' />
+              Progress report
+            </CardTitle>
+          </CardHeader>
+          <CardContent className='space-y-6'>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Course</TableHead>
+                  <TableHead>Seats assigned</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Completed</TableHead>
+                  <TableHead>Average progress</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {progress.courses.map((entry) => (
+                  <TableRow key={entry.course?._id}>
+                    <TableCell className='font-medium'>
+                      {entry.course?.title || 'Course'}
+                    </TableCell>
+                    <TableCell>{entry.seatsAssigned}</TableCell>
+                    <TableCell>{entry.started}</TableCell>
+                    <TableCell>{entry.completed}</TableCell>
+                    <TableCell>{entry.averagePercent}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Course</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead>Last activity</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {progress.members.flatMap((member) =>
+                  member.courses.map((entry) => (
+                    <TableRow key={`${member.memberId}-${entry.course?._id}`}>
+                      <TableCell>{member.name || member.email}</TableCell>
+                      <TableCell>{entry.course?.title || 'Course'}</TableCell>
+                      <TableCell>
+                        {member.status === 'active' ? (
+                          <div className='flex items-center gap-2'>
+                            <Progress
+                              value={entry.percent}
+                              className='h-2 w-24'
+                            />
+                            <span className='text-sm'>{entry.percent}%</span>
+                          </div>
+                        ) : (
+                          <span className='text-sm text-muted-foreground'>
+                            Hasn't joined yet
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {entry.lastActivityAt
+                          ? formatDate(entry.lastActivityAt)
+                          : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+            <p className='text-xs text-muted-foreground'>
+              As of {formatDate(progress.generatedAt)}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default OrganizationAdmin;
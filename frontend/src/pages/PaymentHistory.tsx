@@ -1,7 +1,37 @@
-import { useApp } from '@/contexts/AppContext';
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { useApp, Payment } from '@/contexts/AppContext';
+import {
+  apiClient,
+  getApiErrorMessage,
+  ApiResponse,
+  REFUND_REASONS,
+  RefundEligibility,
+  RefundReasonCode,
+} from '@/services/api';
+import RefundPolicyChecks from '@/components/RefundPolicyChecks';
+import { formatPrice } from '@/lib/currency';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Table,
   TableBody,
@@ -10,10 +40,124 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { CreditCard, Download, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { CreditCard, Download, CheckCircle, XCircle, Clock, Undo2, CalendarClock } from 'lucide-react';
+
+// Refunds still waiting on an admin or the payment gateway
+const OPEN_REFUND_STATUSES = ['requested', 'approved'];
+
+const REFUND_STATUS_LABELS: Record<string, string> = {
+  requested: 'Refund requested',
+  approved: 'Refund in progress',
+  rejected: 'Refund rejected',
+  processed: 'Refunded',
+  failed: 'Refund failed',
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+// The earliest installment of an order still to be paid
+const nextInstallment = (payment: Payment) =>
+  payment.status === 'paid' ? payment.installments.find((i) => i.status === 'pending') : undefined;
+
+// e.g. "1 of 3 installments paid · next ₹550 due 12 Nov 2026"
+const describeInstallments = (payment: Payment) => {
+  const paid = payment.installments.filter((i) => i.status === 'paid').length;
+  const next = nextInstallment(payment);
+  const progress = `${paid} of ${payment.installments.length} installments paid`;
+  return next
+    ? `${progress} · next ${formatPrice(next.amount, payment.currency)} due ${formatDate(next.dueAt)}`
+    : progress;
+};
 
 const PaymentHistory = () => {
-  const { payments } = useApp();
+  const navigate = useNavigate();
+  const { payments, refreshPayments } = useApp();
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [refundFor, setRefundFor] = useState<Payment | null>(null);
+  const [reasonCode, setReasonCode] = useState<RefundReasonCode | ''>('');
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundNote, setRefundNote] = useState('');
+  const [requesting, setRequesting] = useState(false);
+  const [eligibility, setEligibility] = useState<RefundEligibility | null>(null);
+
+  const downloadPdf = async (path: string, name: string, failure: string) => {
+    setDownloading(path);
+    try {
+      const res = await apiClient.get<Blob>(path, { responseType: 'blob' });
+      const url = URL.createObjectURL(res.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${name.replace(/\//g, '-')}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, failure));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const downloadInvoice = (payment: Payment) =>
+    downloadPdf(
+      `/api/orders/${payment.orderId}/invoice`,
+      payment.invoiceNumber || `invoice-${payment.orderId}`,
+      'Could not download the invoice'
+    );
+
+  const openRefundDialog = async (payment: Payment) => {
+    setRefundFor(payment);
+    setReasonCode('');
+    setRefundAmount(String(payment.refundableAmount));
+    setRefundNote('');
+    setEligibility(null);
+    try {
+      const res = await apiClient.get<ApiResponse<RefundEligibility>>(
+        `/api/refunds/eligibility/${payment.orderId}`
+      );
+      setEligibility(res.data.data || null);
+    } catch (error) {
+      console.error('Error checking refund eligibility:', error);
+    }
+  };
+
+  const requestRefund = async () => {
+    if (!refundFor || !reasonCode) {
+      toast.error('Please choose a reason for the refund');
+      return;
+    }
+    const amount = Number(refundAmount);
+    if (!(amount > 0) || amount > refundFor.refundableAmount) {
+      toast.error(`Enter an amount up to ${formatPrice(refundFor.refundableAmount, refundFor.currency)}`);
+      return;
+    }
+
+    setRequesting(true);
+    try {
+      const res = await apiClient.post<ApiResponse<unknown>>('/api/refunds', {
+        orderId: refundFor.orderId,
+        amount: Math.round(amount * 100),
+        reasonCode,
+        note: refundNote.trim() || undefined,
+      });
+      toast.success(res.data.message);
+      setRefundFor(null);
+      await refreshPayments();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not request the refund'));
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const canRequestRefund = (payment: Payment) =>
+    payment.status === 'paid' &&
+    payment.refundableAmount > 0 &&
+    !payment.refunds.some((r) => OPEN_REFUND_STATUSES.includes(r.status));
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -41,9 +185,15 @@ const PaymentHistory = () => {
     }
   };
 
-  const totalPaid = payments
-    .filter((p) => p.status === 'paid')
-    .reduce((sum, p) => sum + p.amount, 0);
+  // Totals are kept per currency, largest first
+  const totalsPaid = Object.entries(
+    payments
+      .filter((p) => p.status === 'paid')
+      .reduce<Record<string, number>>((totals, p) => ({
+        ...totals,
+        [p.currency]: (totals[p.currency] || 0) + p.amount,
+      }), {})
+  ).sort(([, a], [, b]) => b - a);
 
   return (
     <div className="space-y-6">
@@ -62,7 +212,13 @@ const PaymentHistory = () => {
             <CreditCard className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">₹{totalPaid.toLocaleString()}</div>
+            <div className="text-2xl font-bold">
+              {totalsPaid.length === 0
+                ? formatPrice(0)
+                : totalsPaid
+                    .map(([currency, amount]) => formatPrice(amount, currency as Payment['currency']))
+                    .join(' + ')}
+            </div>
             <p className="text-xs text-muted-foreground">
               {payments.filter((p) => p.status === 'paid').length} successful payments
             </p>
@@ -125,16 +281,22 @@ const PaymentHistory = () => {
                     <TableRow key={payment.id}>
                       <TableCell className="font-medium">
                         {payment.courseName}
+                        {payment.isGift && (
+                          <p className="text-xs font-normal text-muted-foreground">
+                            Bought as a gift
+                          </p>
+                        )}
+                        {payment.seats > 0 && (
+                          <p className="text-xs font-normal text-muted-foreground">
+                            {payment.seats} seats for your organization
+                          </p>
+                        )}
                       </TableCell>
                       <TableCell>
-                        {new Date(payment.date).toLocaleDateString('en-IN', {
-                          year: 'numeric',
-                          month: 'short',
-                          day: 'numeric',
-                        })}
+                        {formatDate(payment.date)}
                       </TableCell>
                       <TableCell className="font-semibold">
-                        ₹{payment.amount.toLocaleString()}
+                        {formatPrice(payment.amount, payment.currency)}
                       </TableCell>
                       <TableCell>
                         <Badge
@@ -144,14 +306,85 @@ const PaymentHistory = () => {
                           {getStatusIcon(payment.status)}
                           <span className="capitalize">{payment.status}</span>
                         </Badge>
+                        {payment.installments.length > 0 && (
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            {describeInstallments(payment)}
+                          </p>
+                        )}
+                        {payment.accessSuspended && (
+                          <p className="mt-1 text-xs text-destructive">
+                            Course access is paused until the overdue installment is paid
+                          </p>
+                        )}
+                        {payment.refunds.map((refund) => (
+                          <div key={refund.id} className="mt-1">
+                            <p className="text-xs text-muted-foreground">
+                              {REFUND_STATUS_LABELS[refund.status]} · {formatPrice(refund.amount, payment.currency)}
+                              {refund.policy?.autoApproved ? ' (approved automatically)' : ''}
+                              {refund.status === 'rejected' && refund.rejectionReason
+                                ? `: ${refund.rejectionReason}`
+                                : ''}
+                            </p>
+                            {refund.status === 'requested' && refund.policy && (
+                              <RefundPolicyChecks policy={refund.policy} className="mt-1" />
+                            )}
+                          </div>
+                        ))}
                       </TableCell>
                       <TableCell className="text-right">
-                        {payment.status === 'paid' && (
-                          <Button variant="ghost" size="sm">
+                        {(payment.status === 'paid' || payment.invoiceNumber) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={downloading === `/api/orders/${payment.orderId}/invoice`}
+                            onClick={() => downloadInvoice(payment)}
+                          >
                             <Download className="mr-2 h-4 w-4" />
                             Invoice
                           </Button>
                         )}
+                        {payment.refunds.map(({ id, creditNote }) =>
+                          creditNote ? (
+                            <Button
+                              key={id}
+                              variant="ghost"
+                              size="sm"
+                              disabled={downloading === creditNote.url}
+                              onClick={() =>
+                                downloadPdf(
+                                  creditNote.url,
+                                  creditNote.creditNoteNumber,
+                                  'Could not download the credit note'
+                                )
+                              }
+                            >
+                              <Download className="mr-2 h-4 w-4" />
+                              Credit note
+                            </Button>
+                          ) : null
+                        )}
+                        {nextInstallment(payment) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              navigate(`/dashboard/checkout/${payment.courseId}?order=${payment.orderId}`)
+                            }
+                          >
+                            <CalendarClock className="mr-2 h-4 w-4" />
+                            Pay installment
+                          </Button>
+                        )}
+                        {canRequestRefund(payment) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openRefundDialog(payment)}
+                          >
+                            <Undo2 className="mr-2 h-4 w-4" />
+                            Request refund
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
@@ -161,6 +394,92 @@ const PaymentHistory = () => {
           </div>
         </CardContent>
       </Card>
+
+      {/* Refund request */}
+      <Dialog open={!!refundFor} onOpenChange={(open) => !open && setRefundFor(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Request a refund</DialogTitle>
+            <DialogDescription>
+              {refundFor?.courseName}. Access to the course ends once a full refund
+              is processed.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {eligibility && (
+              <div className="rounded-md border p-3 text-sm">
+                <p className="mb-2 font-medium">
+                  {eligibility.autoApprove
+                    ? 'This refund meets our refund policy and will be approved right away.'
+                    : 'This refund will be reviewed by our team.'}
+                </p>
+                <RefundPolicyChecks policy={eligibility} />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="refundReason">Reason</Label>
+              <Select
+                value={reasonCode}
+                onValueChange={(value) => setReasonCode(value as RefundReasonCode)}
+                disabled={requesting}
+              >
+                <SelectTrigger id="refundReason">
+                  <SelectValue placeholder="Choose a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REFUND_REASONS).map(([code, label]) => (
+                    <SelectItem key={code} value={code}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="refundAmount">
+                Amount (up to {refundFor && formatPrice(refundFor.refundableAmount, refundFor.currency)})
+              </Label>
+              <Input
+                id="refundAmount"
+                type="number"
+                min="1"
+                step="0.01"
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+                disabled={requesting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="refundNote">Anything else we should know?</Label>
+              <Textarea
+                id="refundNote"
+                value={refundNote}
+                onChange={(e) => setRefundNote(e.target.value)}
+                maxLength={1000}
+                disabled={requesting}
+              />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setRefundFor(null)}
+                disabled={requesting}
+              >
+                Cancel
+              </Button>
+              <Button onClick={requestRefund} disabled={requesting}>
+                {requesting ? 'Requesting...' : 'Request refund'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -1,17 +1,22 @@
 import { useState, useEffect } from 'react';
 import { useApp } from '@/contexts/AppContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import { Input } from '@/components/ui/input';
-import { apiClient } from '@/services/api';
+import { apiClient, getApiErrorMessage } from '@/services/api';
+import CurrencySelect from '@/components/CurrencySelect';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 
 const Profile = () => {
-  const { user, updateUser } = useApp();
+  const { user, updateUser, currency, setCurrency, refreshCourses } = useApp();
+  const { user: authUser } = useAuth();
+  const [billingCountry, setBillingCountry] = useState(authUser?.billingCountry || '');
+  const [savingCountry, setSavingCountry] = useState(false);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [changePasswordOpen, setChangePasswordOpen] = useState(false);
   const [oldPassword, setOldPassword] = useState('');
@@ -74,6 +79,22 @@ const Profile = () => {
     }
   };
 
+  // Prices follow the billing country unless a currency has been picked
+  const saveBillingCountry = async () => {
+    setSavingCountry(true);
+    try {
+      await apiClient.put('/api/user/preferences', {
+        billingCountry: billingCountry.trim().toUpperCase(),
+      });
+      await refreshCourses();
+      toast.success('Billing country updated');
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not update the billing country'));
+    } finally {
+      setSavingCountry(false);
+    }
+  };
+
   // Handle change password
   const handleChangePassword = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -196,6 +217,42 @@ const Profile = () => {
           </CardContent>
         </Card>
 
+        {/* Billing */}
+        <Card className='lg:col-span-3'>
+          <CardHeader>
+            <CardTitle>Billing</CardTitle>
+          </CardHeader>
+          <CardContent className='grid gap-6 md:grid-cols-2'>
+            <div className='space-y-2'>
+              <Label htmlFor='billingCountry'>Billing country</Label>
+              <div className='flex gap-2'>
+                <Input
+                  id='billingCountry'
+                  placeholder='Country code, e.g. IN'
+                  maxLength={2}
+                  value={billingCountry}
+                  onChange={(e) => setBillingCountry(e.target.value)}
+                  disabled={savingCountry}
+                />
+                <Button
+                  variant='outline'
+                  onClick={saveBillingCountry}
+                  disabled={savingCountry}
+                >
+                  Save
+                </Button>
+              </div>
+            </div>
+            <div className='space-y-2'>
+              <Label>Currency</Label>
+              <CurrencySelect value={currency} onChange={setCurrency} />
+              <p className='text-sm text-muted-foreground'>
+                Course prices are shown and paid in this currency
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Statistics */}
         <Card className='lg:col-span-3'>
           <CardHeader>
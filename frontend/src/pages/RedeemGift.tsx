@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Copy, Gift, Loader2 } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import {
+  apiClient,
+  ApiResponse,
+  getApiErrorMessage,
+  GiftPreview,
+  SentGift,
+} from '@/services/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const STATUS_LABELS: Record<SentGift['status'], string> = {
+  pending: 'Awaiting payment',
+  issued: 'Sent',
+  redeemed: 'Redeemed',
+  revoked: 'Revoked',
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const RedeemGift = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { refreshCourses } = useApp();
+  const [code, setCode] = useState(searchParams.get('code') || '');
+  const [preview, setPreview] = useState<GiftPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [redeeming, setRedeeming] = useState(false);
+  const [sentGifts, setSentGifts] = useState<SentGift[]>([]);
+
+  const checkCode = useCallback(async (value: string) => {
+    if (!value.trim()) return;
+    setChecking(true);
+    try {
+      const res = await apiClient.get<ApiResponse<GiftPreview>>(
+        `/api/gifts/${encodeURIComponent(value.trim())}`
+      );
+      setPreview(res.data.data || null);
+      setError(null);
+    } catch (err) {
+      setPreview(null);
+      setError(getApiErrorMessage(err, 'Could not check this gift code'));
+    } finally {
+      setChecking(false);
+    }
+  }, []);
+
+  const loadSentGifts = useCallback(async () => {
+    try {
+      const res =
+        await apiClient.get<ApiResponse<SentGift[]>>('/api/gifts/sent');
+      setSentGifts(res.data.data || []);
+    } catch {
+      // The list of gifts sent is only extra information on this page
+      setSentGifts([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSentGifts();
+    // A code from the gift email is looked up straight away
+    const linkCode = searchParams.get('code');
+    if (linkCode) checkCode(linkCode);
+  }, [checkCode, loadSentGifts, searchParams]);
+
+  const redeem = async () => {
+    if (!preview) return;
+    setRedeeming(true);
+    try {
+      const res = await apiClient.post<ApiResponse<GiftPreview>>(
+        '/api/gifts/redeem',
+        { code: preview.code }
+      );
+      await refreshCourses();
+      toast.success('Gift redeemed!', { description: res.data.message });
+      const slug = res.data.data?.course?.slug;
+      navigate(slug ? `/dashboard/course/${slug}` : '/dashboard/my-courses');
+    } catch (err) {
+      toast.error(getApiErrorMessage(err, 'Could not redeem this gift'));
+      checkCode(preview.code);
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  const copy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('Gift code copied');
+    } catch {
+      toast.error('Could not copy the gift code');
+    }
+  };
+
+  return (
+    <div className='space-y-6'>
+      <div>
+        <h1 className='text-3xl font-bold'>Redeem a gift</h1>
+        <p className='text-muted-foreground'>
+          Enter the code from your gift email to add the course to your account
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className='flex items-center gap-2'>
+            <Gift className='h-5 w-5 text-primary' />
+            Gift code
+          </CardTitle>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          <div className='flex gap-2'>
+            <Input
+              value={code}
+              onChange={(e) => {
+                setCode(e.target.value.toUpperCase());
+                setPreview(null);
+                setError(null);
+              }}
+              placeholder='GIFT-XXXX-XXXX'
+              aria-invalid={!!error}
+            />
+            <Button
+              variant='outline'
+              onClick={() => checkCode(code)}
+              disabled={checking || !code.trim()}
+            >
+              {checking ? (
+                <Loader2 className='h-4 w-4 animate-spin' />
+              ) : (
+                'Check'
+              )}
+            </Button>
+          </div>
+          {error && <p className='text-sm text-destructive'>{error}</p>}
+
+          {preview && (
+            <div className='space-y-4 rounded-md border p-4'>
+              <div className='flex items-center gap-4'>
+                {preview.course?.thumbnail && (
+                  <img
+                    src={preview.course.thumbnail}
+                    alt={preview.course.title}
+                    className='h-16 w-24 rounded object-cover'
+                  />
+                )}
+                <div>
+                  <div className='font-semibold'>
+                    {preview.course?.title || 'Course'}
+                  </div>
+                  {preview.from && (
+                    <div className='text-sm text-muted-foreground'>
+                      A gift from {preview.from}
+                    </div>
+                  )}
+                </div>
+              </div>
+              {preview.message && (
+                <p className='whitespace-pre-line text-sm italic'>
+                  "{preview.message}"
+                </p>
+              )}
+              {preview.canRedeem ? (
+                <Button
+                  className='w-full bg-gradient-accent hover:opacity-90'
+                  onClick={redeem}
+                  disabled={redeeming}
+                >
+                  {redeeming ? 'Redeeming...' : 'Redeem and start learning'}
+                </Button>
+              ) : (
+                <p className='text-sm text-muted-foreground'>
+                  {preview.status === 'redeemed'
+                    ? 'This gift code has already been redeemed'
+                    : 'This gift code is no longer valid'}
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {sentGifts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Gifts you've sent</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Course</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sentGifts.map((gift) => (
+                  <TableRow key={gift.id}>
+                    <TableCell className='font-medium'>
+                      {gift.course?.title || 'Course'}
+                    </TableCell>
+                    <TableCell>{gift.recipientEmail}</TableCell>
+                    <TableCell>
+                      {gift.code ? (
+                        <span className='flex items-center gap-1 font-mono text-sm'>
+                          {gift.code}
+                          <Button
+                            variant='ghost'
+                            size='icon'
+                            className='h-6 w-6'
+                            onClick={() => gift.code && copy(gift.code)}
+                          >
+                            <Copy className='h-3 w-3' />
+                          </Button>
+                        </span>
+                      ) : (
+                        '—'
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={
+                          gift.status === 'revoked'
+                            ? 'destructive'
+                            : 'secondary'
+                        }
+                      >
+                        {STATUS_LABELS[gift.status]}
+                      </Badge>
+                      {gift.redeemedAt && (
+                        <p className='mt-1 text-xs text-muted-foreground'>
+                          {formatDate(gift.redeemedAt)}
+                        </p>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default RedeemGift;
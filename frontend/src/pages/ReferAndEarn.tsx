@@ -0,0 +1,288 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  apiClient,
+  ApiResponse,
+  getApiErrorMessage,
+  ReferralSummary,
+} from '@/services/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Copy, Gift, Loader2, Users, Wallet, CheckCircle } from 'lucide-react';
+
+type ReferralStatus = ReferralSummary['referrals'][number]['status'];
+
+const STATUS_LABELS: Record<ReferralStatus, string> = {
+  pending: 'Signed up',
+  converted: 'Purchased',
+  rejected: 'Not eligible',
+};
+
+const ENTRY_LABELS: Record<
+  ReferralSummary['ledger'][number]['entryType'],
+  string
+> = {
+  reward: 'Reward',
+  reversal: 'Reversed',
+  payout: 'Paid out',
+};
+
+const formatRupees = (paise: number) =>
+  `₹${(paise / 100).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const describeReward = (reward: ReferralSummary['reward']) => {
+  const amount =
+    reward.percent > 0
+      ? `${reward.percent}% of their first order`
+      : `₹${reward.amount.toLocaleString('en-IN')}`;
+  return `${amount} as ${reward.type === 'cash' ? 'cash' : 'store credit'}`;
+};
+
+const ReferAndEarn = () => {
+  const [summary, setSummary] = useState<ReferralSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadSummary = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res =
+        await apiClient.get<ApiResponse<ReferralSummary>>('/api/referrals/me');
+      setSummary(res.data.data || null);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not load your referrals'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  if (loading) {
+    return (
+      <div className='flex justify-center py-12'>
+        <Loader2 className='h-6 w-6 animate-spin text-muted-foreground' />
+      </div>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <div className='py-12 text-center text-muted-foreground'>
+        Your referral details are not available right now
+      </div>
+    );
+  }
+
+  const link = `${window.location.origin}/auth?ref=${summary.code}`;
+
+  const copy = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`${label} copied`);
+    } catch {
+      toast.error(`Could not copy the ${label.toLowerCase()}`);
+    }
+  };
+
+  const stats = [
+    { icon: Users, label: 'Friends referred', value: summary.stats.referred },
+    {
+      icon: CheckCircle,
+      label: 'Made a purchase',
+      value: summary.stats.converted,
+    },
+    {
+      icon: Gift,
+      label: 'Total earned',
+      value: formatRupees(summary.stats.earned),
+    },
+    {
+      icon: Wallet,
+      label: 'Balance',
+      value:
+        summary.stats.balance.cash > 0
+          ? `${formatRupees(summary.stats.balance.credit)} credit + ${formatRupees(
+              summary.stats.balance.cash
+            )} cash`
+          : formatRupees(summary.stats.balance.credit),
+    },
+  ];
+
+  return (
+    <div className='space-y-6'>
+      <div>
+        <h1 className='text-3xl font-bold'>Refer & Earn</h1>
+        <p className='text-muted-foreground'>
+          Invite friends and earn {describeReward(summary.reward)} when they buy
+          a course
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your referral link</CardTitle>
+        </CardHeader>
+        <CardContent className='space-y-4'>
+          <div className='flex gap-2'>
+            <Input value={link} readOnly />
+            <Button onClick={() => copy(link, 'Link')}>
+              <Copy className='mr-2 h-4 w-4' />
+              Copy link
+            </Button>
+          </div>
+          <div className='flex items-center gap-2 text-sm text-muted-foreground'>
+            Or share your code
+            <Badge variant='secondary' className='font-mono text-sm'>
+              {summary.code}
+            </Badge>
+            <Button
+              variant='ghost'
+              size='sm'
+              onClick={() => copy(summary.code, 'Code')}
+            >
+              <Copy className='h-4 w-4' />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className='grid gap-4 sm:grid-cols-2 lg:grid-cols-4'>
+        {stats.map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className='flex items-center gap-3 p-4'>
+              <stat.icon className='h-8 w-8 text-primary' />
+              <div>
+                <p className='text-sm text-muted-foreground'>{stat.label}</p>
+                <p className='text-lg font-semibold'>{stat.value}</p>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Friends you referred</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {summary.referrals.length === 0 ? (
+            <p className='text-center text-muted-foreground'>
+              Nobody has signed up with your link yet
+            </p>
+          ) : (
+            <div className='rounded-md border'>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Friend</TableHead>
+                    <TableHead>Joined</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.referrals.map((referral) => (
+                    <TableRow key={referral.id}>
+                      <TableCell className='font-medium'>
+                        {referral.name}
+                      </TableCell>
+                      <TableCell>{formatDate(referral.createdAt)}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            referral.status === 'converted'
+                              ? 'default'
+                              : referral.status === 'rejected'
+                                ? 'destructive'
+                                : 'secondary'
+                          }
+                        >
+                          {STATUS_LABELS[referral.status]}
+                        </Badge>
+                        {referral.message && (
+                          <p className='mt-1 text-xs text-muted-foreground'>
+                            {referral.message}
+                          </p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rewards</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {summary.ledger.length === 0 ? (
+            <p className='text-center text-muted-foreground'>
+              Rewards appear here once a friend buys a course
+            </p>
+          ) : (
+            <div className='rounded-md border'>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Entry</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead className='text-right'>Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.ledger.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{formatDate(entry.createdAt)}</TableCell>
+                      <TableCell>
+                        {ENTRY_LABELS[entry.entryType]} (
+                        {entry.rewardType === 'cash' ? 'cash' : 'credit'})
+                      </TableCell>
+                      <TableCell className='text-muted-foreground'>
+                        {entry.note}
+                      </TableCell>
+                      <TableCell
+                        className={
+                          entry.amount < 0
+                            ? 'text-right text-destructive'
+                            : 'text-right font-semibold'
+                        }
+                      >
+                        {entry.amount < 0 ? '−' : '+'}
+                        {formatRupees(Math.abs(entry.amount))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ReferAndEarn;
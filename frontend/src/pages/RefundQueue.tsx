@@ -0,0 +1,403 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  apiClient,
+  ApiRefund,
+  ApiResponse,
+  getApiErrorMessage,
+  REFUND_REASONS,
+} from '@/services/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import RefundPolicyChecks from '@/components/RefundPolicyChecks';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+// Queue entries also carry who asked and the payment being refunded
+interface QueueRefund extends ApiRefund {
+  orderId: number;
+  requestedBy: { name: string; email: string } | null;
+  orderEmail: string | null;
+  payment: {
+    gateway: string;
+    gatewayPaymentId: string;
+    amount: number;
+    amountRefunded: number;
+    status: string;
+  } | null;
+}
+
+type QueueStatus = ApiRefund['status'];
+
+const QUEUE_TABS: { status: QueueStatus; label: string }[] = [
+  { status: 'requested', label: 'Requested' },
+  { status: 'approved', label: 'With gateway' },
+  { status: 'failed', label: 'Failed' },
+  { status: 'processed', label: 'Processed' },
+  { status: 'rejected', label: 'Rejected' },
+];
+
+const formatRupees = (paise: number) =>
+  `₹${(paise / 100).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+const RefundQueue = () => {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<QueueStatus>('requested');
+  const [refunds, setRefunds] = useState<QueueRefund[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [approving, setApproving] = useState<QueueRefund | null>(null);
+  const [rejecting, setRejecting] = useState<QueueRefund | null>(null);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const isAdmin = user?.role === 'admin';
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await apiClient.get<ApiResponse<QueueRefund[]>>(
+        '/api/refunds/queue',
+        { params: { status } }
+      );
+      setRefunds(res.data.data || []);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not load refunds'));
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    if (isAdmin) loadQueue();
+  }, [isAdmin, loadQueue]);
+
+  const openApprove = (refund: QueueRefund) => {
+    setApproving(refund);
+    setAmount(String(refund.amount / 100));
+  };
+
+  const openReject = (refund: QueueRefund) => {
+    setRejecting(refund);
+    setReason('');
+  };
+
+  const approve = async () => {
+    if (!approving) return;
+    const rupees = Number(amount);
+    if (!(rupees > 0)) {
+      toast.error('Enter the amount to refund');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await apiClient.post<ApiResponse<ApiRefund>>(
+        `/api/refunds/${approving.id}/approve`,
+        { amount: Math.round(rupees * 100) }
+      );
+      toast.success(res.data.message);
+      setApproving(null);
+      await loadQueue();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not approve the refund'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const reject = async () => {
+    if (!rejecting) return;
+    if (!reason.trim()) {
+      toast.error('Tell the learner why the refund was rejected');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await apiClient.post(`/api/refunds/${rejecting.id}/reject`, {
+        reason: reason.trim(),
+      });
+      toast.success('Refund rejected');
+      setRejecting(null);
+      await loadQueue();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Could not reject the refund'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className='py-12 text-center text-muted-foreground'>
+        Admin access required
+      </div>
+    );
+  }
+
+  return (
+    <div className='space-y-6'>
+      <div className='flex items-start justify-between gap-4'>
+        <div>
+          <h1 className='text-3xl font-bold'>Refunds</h1>
+          <p className='text-muted-foreground'>
+            Review refund requests and send approved ones to the payment gateway
+          </p>
+        </div>
+        <Button variant='outline' onClick={loadQueue} disabled={loading}>
+          <RefreshCw className='mr-2 h-4 w-4' />
+          Refresh
+        </Button>
+      </div>
+
+      <Tabs
+        value={status}
+        onValueChange={(value) => setStatus(value as QueueStatus)}
+      >
+        <TabsList>
+          {QUEUE_TABS.map((tab) => (
+            <TabsTrigger key={tab.status} value={tab.status}>
+              {tab.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {QUEUE_TABS.find((tab) => tab.status === status)?.label} refunds
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className='rounded-md border'>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Refund</TableHead>
+                  <TableHead>Learner</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Policy</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead className='text-right'>Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className='text-center'>
+                      <Loader2 className='mx-auto h-5 w-5 animate-spin' />
+                    </TableCell>
+                  </TableRow>
+                ) : refunds.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={7}
+                      className='text-center text-muted-foreground'
+                    >
+                      No refunds here
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  refunds.map((refund) => (
+                    <TableRow key={refund.id}>
+                      <TableCell className='font-medium'>
+                        #{refund.id}
+                        <p className='text-xs text-muted-foreground'>
+                          Order #{refund.orderId}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        {refund.requestedBy?.name || 'Gateway'}
+                        <p className='text-xs text-muted-foreground'>
+                          {refund.requestedBy?.email || refund.orderEmail}
+                        </p>
+                      </TableCell>
+                      <TableCell className='max-w-xs'>
+                        {REFUND_REASONS[refund.reasonCode]}
+                        {refund.note && (
+                          <p className='text-xs text-muted-foreground'>
+                            {refund.note}
+                          </p>
+                        )}
+                        {(refund.rejectionReason || refund.failureReason) && (
+                          <p className='text-xs text-destructive'>
+                            {refund.rejectionReason || refund.failureReason}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className='max-w-xs'>
+                        {refund.policy ? (
+                          <>
+                            <Badge
+                              variant={
+                                refund.policy.decision === 'eligible'
+                                  ? 'default'
+                                  : 'secondary'
+                              }
+                              className='mb-1'
+                            >
+                              {refund.policy.autoApproved
+                                ? 'Auto-approved'
+                                : refund.policy.decision === 'eligible'
+                                  ? 'Eligible'
+                                  : 'Needs review'}
+                            </Badge>
+                            <RefundPolicyChecks policy={refund.policy} />
+                          </>
+                        ) : (
+                          <span className='text-xs text-muted-foreground'>
+                            Not evaluated
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className='font-semibold'>
+                        {formatRupees(refund.amount)}
+                        {refund.payment && (
+                          <p className='text-xs font-normal text-muted-foreground'>
+                            of {formatRupees(refund.payment.amount)} paid
+                            {refund.payment.amountRefunded > 0 &&
+                              `, ${formatRupees(
+                                refund.payment.amountRefunded
+                              )} refunded`}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {new Date(refund.createdAt).toLocaleDateString(
+                          'en-IN',
+                          { year: 'numeric', month: 'short', day: 'numeric' }
+                        )}
+                      </TableCell>
+                      <TableCell className='space-x-2 text-right'>
+                        {(refund.status === 'requested' ||
+                          refund.status === 'failed') && (
+                          <Button size='sm' onClick={() => openApprove(refund)}>
+                            {refund.status === 'failed' ? 'Retry' : 'Approve'}
+                          </Button>
+                        )}
+                        {refund.status === 'requested' && (
+                          <Button
+                            size='sm'
+                            variant='outline'
+                            onClick={() => openReject(refund)}
+                          >
+                            Reject
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Approve */}
+      <Dialog
+        open={!!approving}
+        onOpenChange={(open) => !open && setApproving(null)}
+      >
+        <DialogContent className='sm:max-w-[425px]'>
+          <DialogHeader>
+            <DialogTitle>Approve refund #{approving?.id}</DialogTitle>
+            <DialogDescription>
+              The refund is sent to the payment gateway. A full refund ends the
+              learner's access to the course.
+            </DialogDescription>
+          </DialogHeader>
+          <div className='space-y-2'>
+            <Label htmlFor='approveAmount'>Amount (₹)</Label>
+            <Input
+              id='approveAmount'
+              type='number'
+              min='1'
+              step='0.01'
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              disabled={submitting}
+            />
+          </div>
+          <div className='flex justify-end gap-3 pt-2'>
+            <Button
+              variant='outline'
+              onClick={() => setApproving(null)}
+              disabled={submitting}
+            >
+              Cancel
+            </Button>
+            <Button onClick={approve} disabled={submitting}>
+              {submitting ? 'Approving...' : 'Approve refund'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reject */}
+      <Dialog
+        open={!!rejecting}
+        onOpenChange={(open) => !open && setRejecting(null)}
+      >
+        <DialogContent className='sm:max-w-[425px]'>
+          <DialogHeader>
+            <DialogTitle>Reject refund #{rejecting?.id}</DialogTitle>
+            <DialogDescription>
+              The learner sees this reason in their payment history.
+            </DialogDescription>
+          </DialogHeader>
+          <div className='space-y-2'>
+            <Label htmlFor='rejectReason'>Reason</Label>
+            <Textarea
+              id='rejectReason'
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              disabled={submitting}
+            />
+          </div>
+          <div className='flex justify-end gap-3 pt-2'>
+            <Button
+              variant='outline'
+              onClick={() => setRejecting(null)}
+              disabled={submitting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant='destructive'
+              onClick={reject}
+              disabled={submitting}
+            >
+              {submitting ? 'Rejecting...' : 'Reject refund'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default RefundQueue;
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Calendar, Loader2, Lock, PlayCircle, Video } from 'lucide-react';
+import {
+  apiClient,
+  ApiResponse,
+  getApiErrorMessage,
+  WebinarEntry,
+} from '@/services/api';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('en-IN', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const hasEnded = (webinar: WebinarEntry) =>
+  new Date(webinar.scheduledAt).getTime() + webinar.durationMins * 60 * 1000 <
+  Date.now();
+
+const Webinars = () => {
+  const navigate = useNavigate();
+  const [webinars, setWebinars] = useState<WebinarEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res =
+          await apiClient.get<ApiResponse<WebinarEntry[]>>('/api/webinars');
+        setWebinars(res.data.data || []);
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, 'Could not load webinars'));
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className='flex justify-center py-12'>
+        <Loader2 className='h-6 w-6 animate-spin text-muted-foreground' />
+      </div>
+    );
+  }
+
+  const upcoming = webinars.filter((webinar) => !hasEnded(webinar));
+  const past = webinars.filter(hasEnded).reverse();
+
+  const renderWebinar = (webinar: WebinarEntry) => {
+    const ended = hasEnded(webinar);
+    const link = ended ? webinar.recordingUrl : webinar.joinUrl;
+    return (
+      <Card key={webinar._id}>
+        <CardContent className='flex flex-wrap items-center justify-between gap-4 p-4'>
+          <div className='space-y-1'>
+            <div className='font-semibold'>{webinar.title}</div>
+            <div className='flex items-center gap-2 text-sm text-muted-foreground'>
+              <Calendar className='h-4 w-4' />
+              {formatDateTime(webinar.scheduledAt)} · {webinar.durationMins} min
+            </div>
+            {webinar.course && (
+              <Badge variant='secondary'>{webinar.course.title}</Badge>
+            )}
+          </div>
+          {webinar.hasAccess ? (
+            link ? (
+              <Button asChild>
+                <a href={link} target='_blank' rel='noopener noreferrer'>
+                  {ended ? (
+                    <PlayCircle className='mr-2 h-4 w-4' />
+                  ) : (
+                    <Video className='mr-2 h-4 w-4' />
+                  )}
+                  {ended ? 'Watch recording' : 'Join on Zoom'}
+                </a>
+              </Button>
+            ) : (
+              <span className='text-sm text-muted-foreground'>
+                {ended ? 'Recording coming soon' : 'Link shared before start'}
+              </span>
+            )
+          ) : (
+            <Button
+              variant='outline'
+              onClick={() => navigate('/dashboard/membership')}
+            >
+              <Lock className='mr-2 h-4 w-4' />
+              Unlock with All Access
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className='space-y-6'>
+      <div>
+        <h1 className='text-3xl font-bold'>Webinars</h1>
+        <p className='text-muted-foreground'>
+          Live sessions for your courses, open to every All Access member
+        </p>
+      </div>
+
+      <section className='space-y-3'>
+        <h2 className='text-xl font-semibold'>Upcoming</h2>
+        {upcoming.length === 0 ? (
+          <p className='text-muted-foreground'>No webinars scheduled yet</p>
+        ) : (
+          upcoming.map(renderWebinar)
+        )}
+      </section>
+
+      {past.length > 0 && (
+        <section className='space-y-3'>
+          <h2 className='text-xl font-semibold'>Recordings</h2>
+          {past.map(renderWebinar)}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default Webinars;
@@ -7,15 +7,32 @@ export const apiClient = axios.create({
   withCredentials: false,  // Changed to false - using JWT in headers, not cookies
 });
 
-// Add request interceptor to include auth token
+// A random id for this browser, so referrals made from the referrer's own
+// device can be spotted
+const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem('device_id');
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem('device_id', deviceId);
+  }
+  return deviceId;
+};
+
+// Add request interceptor to include auth token and device id
 apiClient.interceptors.request.use((config) => {
   const token = localStorage.getItem('auth_token');
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
+  config.headers['X-Device-Id'] = getDeviceId();
   return config;
 });
 
+// Pull the backend's `message` out of a failed apiClient call
+export const getApiErrorMessage = (error: unknown, fallback: string): string =>
+  (error as { response?: { data?: { message?: string } } })?.response?.data
+    ?.message || fallback;
+
 // API Base URL - Update this to match your backend URL
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
 
@@ -28,6 +45,7 @@ interface RegisterRequest {
   name: string;
   email: string;
   password: string;
+  referralCode?: string; // From a referral link
 }
 
 interface ForgotPasswordRequest {
@@ -41,6 +59,9 @@ interface ApiResponse<T> {
   error?: string;
 }
 
+// Currencies courses are sold in
+type Currency = 'INR' | 'USD' | 'EUR';
+
 interface User {
   _id: string;
   name: string;
@@ -49,6 +70,9 @@ interface User {
   createdAt: string;
   updatedAt: string;
   profileCompleted: boolean;
+  affiliateId?: number | null; // Set for affiliate partners
+  billingCountry?: string; // ISO country code, e.g. IN
+  preferredCurrency?: Currency | null; // null = decided by billing country
 }
 
 interface AuthData {
@@ -263,7 +287,12 @@ export const authAPI = {
 
 
 // Export types for use in components
+export type { Currency };
 export type { User, AuthData, LoginRequest, RegisterRequest, ForgotPasswordRequest, ApiResponse };
+export type { Course as ApiCourse, Order as ApiOrder, Installment, InstallmentPlan, Refund as ApiRefund, RefundReasonCode, RefundPolicyDecision, RefundEligibility };
+export type { ReferralSummary, AffiliateDashboard, AffiliatePayoutStatement };
+export type { MembershipPlan, Membership, WebinarEntry, GiftPreview, SentGift };
+export type { OrganizationSummary, OrganizationOverview, OrganizationInvitation, OrganizationProgress };
 
 // Courses API functions
 export const coursesAPI = {
@@ -320,11 +349,13 @@ interface Course {
   title: string;
   slug: string;
   description: string;
-  price: number;
+  price: number; // INR
+  prices: Partial<Record<Currency, number>>; // Every currency it is sold in
   originalPrice?: number;
   thumbnail?: string;
   instructor?: string;
   duration?: string;
+  topicsCount?: number;
   lessonsCount?: number;
   category?: string;
   rating?: number;
@@ -336,6 +367,298 @@ interface Course {
   updatedAt: string;
 }
 
+// Order as returned by /api/orders; amounts are in paise (cents for USD/EUR)
+interface Order {
+  id: number;
+  status: 'created' | 'pending_payment' | 'paid' | 'failed' | 'refunded';
+  currency: Currency;
+  subtotalAmount: number;
+  discountAmount: number;
+  totalAmount: number;
+  installments: Installment[]; // Empty unless bought through an installment plan
+  accessSuspendedAt: string | null; // Set while an installment is overdue
+  isGift: boolean; // Bought for someone else, who redeems a gift code
+  seatCount: number | null; // Seats bought for an organization
+  organizationId: number | null; // Set once a new organization is created on payment
+  createdAt: string;
+  items: {
+    courseId: string | null;
+    courseSlug: string | null;
+    courseTitle: string;
+    quantity: number; // Seats, for organization orders
+    totalPrice: number;
+  }[];
+  invoice: { invoiceNumber: string; url: string } | null;
+  refunds: Refund[];
+  refundableAmount: number;
+}
+
+// One payment of an installment order, in paise
+interface Installment {
+  number: number;
+  amount: number;
+  dueAt: string;
+  status: 'pending' | 'paid';
+  paidAt?: string;
+}
+
+// A way to pay for a course in installments; amounts in rupees
+interface InstallmentPlan {
+  id: number;
+  courseId: string;
+  name: string;
+  installmentCount: number;
+  installmentAmount: number;
+  intervalDays: number;
+  totalAmount: number;
+  isActive: boolean;
+}
+
+interface MembershipPlan {
+  id: number;
+  name: string;
+  description: string;
+  interval: 'month' | 'year';
+  price: number; // Rupees
+  taxInclusive: boolean;
+  isActive: boolean;
+}
+
+// The user's current membership, or the last one that ended
+interface Membership {
+  id: number;
+  status: 'pending' | 'active' | 'past_due' | 'cancelled' | 'expired';
+  plan: MembershipPlan | null;
+  currentPeriodStart: string | null;
+  currentPeriodEnd: string | null;
+  graceEndsAt: string | null; // While past_due: access ends unless renewed
+  cancelAtPeriodEnd: boolean;
+  endReason: string | null;
+  hasAccess: boolean;
+  canRenew: boolean;
+}
+
+interface WebinarEntry {
+  _id: string;
+  title: string;
+  scheduledAt: string;
+  durationMins: number;
+  course: { _id: string; title: string; slug: string } | null;
+  hasAccess: boolean;
+  joinUrl: string | null;
+  recordingUrl: string | null;
+}
+
+type GiftCourse = { _id: string; title: string; slug: string; thumbnail: string };
+
+// A gift code as seen by whoever holds it
+interface GiftPreview {
+  code: string;
+  course: GiftCourse | null;
+  from: string | null; // The buyer's name
+  message: string;
+  status: 'pending' | 'issued' | 'redeemed' | 'revoked';
+  canRedeem: boolean;
+}
+
+// A course the user bought as a gift
+interface SentGift {
+  id: number;
+  orderId: number;
+  code: string | null; // Issued once the order is paid
+  course: GiftCourse | null;
+  recipientEmail: string;
+  message: string;
+  status: GiftPreview['status'];
+  emailedAt: string | null;
+  redeemedAt: string | null;
+}
+
+type OrganizationCourse = { _id: string; title: string; slug: string };
+
+// An organization the user administers
+interface OrganizationSummary {
+  id: number;
+  name: string;
+}
+
+// An organization as its admins manage it
+interface OrganizationOverview extends OrganizationSummary {
+  licenses: {
+    id: number;
+    orderId: number;
+    course: OrganizationCourse | null;
+    seatCount: number;
+    assignedCount: number;
+    status: 'active' | 'revoked';
+  }[];
+  members: {
+    id: number;
+    email: string;
+    name: string | null; // Once they have joined
+    role: 'admin' | 'member';
+    status: 'invited' | 'active';
+    invitedAt: string;
+    joinedAt: string | null;
+    seats: { id: number; licenseId: number; courseId: string }[];
+  }[];
+}
+
+// An invitation to join an organization, sent to the user's email
+interface OrganizationInvitation {
+  id: number;
+  organizationId: number;
+  organizationName: string | null;
+  role: 'admin' | 'member';
+  invitedAt: string;
+}
+
+// How far members have got in the courses they hold seats for
+interface OrganizationProgress {
+  organizationId: number;
+  generatedAt: string;
+  courses: {
+    course: OrganizationCourse | null;
+    seatsAssigned: number;
+    started: number;
+    completed: number;
+    averagePercent: number;
+  }[];
+  members: {
+    memberId: number;
+    email: string;
+    name: string | null;
+    status: 'invited' | 'active';
+    courses: {
+      course: OrganizationCourse | null;
+      percent: number;
+      lastActivityAt: string | null;
+    }[];
+  }[];
+}
+
+type RefundReasonCode =
+  | 'accidental_purchase'
+  | 'duplicate_payment'
+  | 'not_as_described'
+  | 'technical_issue'
+  | 'changed_mind'
+  | 'other';
+
+export const REFUND_REASONS: Record<RefundReasonCode, string> = {
+  accidental_purchase: 'Accidental purchase',
+  duplicate_payment: 'Duplicate payment',
+  not_as_described: 'Course not as described',
+  technical_issue: 'Technical issue',
+  changed_mind: 'Changed my mind',
+  other: 'Other',
+};
+
+// Amounts in paise, like orders
+interface Refund {
+  id: number;
+  orderId?: number;
+  amount: number;
+  reasonCode: RefundReasonCode;
+  note?: string;
+  status: 'requested' | 'approved' | 'rejected' | 'processed' | 'failed';
+  rejectionReason?: string;
+  failureReason?: string;
+  createdAt: string;
+  policy: RefundPolicyDecision | null;
+  creditNote: { creditNoteNumber: string; url: string } | null;
+}
+
+// Refund policy evaluation: eligible requests are approved automatically
+interface RefundPolicyDecision {
+  decision: 'eligible' | 'review';
+  checks: { code: string; passed: boolean; message: string }[];
+  daysSincePurchase: number;
+  progressPercent: number;
+  autoApproved?: boolean;
+}
+
+interface RefundEligibility extends RefundPolicyDecision {
+  autoApprove: boolean;
+  refundableAmount: number;
+}
+
+// A referrer's code, referrals and reward ledger; amounts in paise
+interface ReferralSummary {
+  code: string;
+  reward: { type: 'credit' | 'cash'; amount: number; percent: number };
+  stats: {
+    referred: number;
+    pending: number;
+    converted: number;
+    rejected: number;
+    earned: number;
+    balance: { credit: number; cash: number };
+  };
+  referrals: {
+    id: number;
+    name: string;
+    source: 'signup' | 'checkout';
+    status: 'pending' | 'converted' | 'rejected';
+    message: string | null;
+    createdAt: string;
+    convertedAt?: string;
+  }[];
+  ledger: {
+    id: number;
+    entryType: 'reward' | 'reversal' | 'payout';
+    rewardType: 'credit' | 'cash';
+    amount: number;
+    note?: string;
+    createdAt: string;
+  }[];
+}
+
+// An affiliate's own stats and commission ledger; amounts in paise
+interface AffiliateDashboard {
+  id: number;
+  name: string;
+  code: string;
+  status: 'active' | 'paused';
+  attributionWindowDays: number;
+  defaultCommissionPercent: number;
+  courseRates: { courseTitle: string; percent: number }[];
+  stats: {
+    clicks: number;
+    clicksLast30Days: number;
+    conversions: number;
+    conversionRate: number;
+    accrued: number;
+    reversed: number;
+    earnings: number;
+  };
+  commissions: {
+    id: number;
+    orderId: number;
+    entryType: 'accrual' | 'reversal';
+    amount: number;
+    courses: string[];
+    note?: string;
+    createdAt: string;
+  }[];
+}
+
+// What each affiliate is owed for a month; amounts in paise
+interface AffiliatePayoutStatement {
+  month: string;
+  rows: {
+    affiliateId: number;
+    name: string | null;
+    code: string | null;
+    email: string | null;
+    payoutDetails: string | null;
+    conversions: number;
+    accrued: number;
+    reversed: number;
+    net: number;
+  }[];
+}
+
 interface CreateCourseRequest {
   title: string;
   description: string;